@@ -37,6 +37,11 @@ export function WorkItemCard({ item, onClick }: Props) {
           <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate flex-1">
             {item.title}
           </span>
+          {item.conversation && item.conversation.newEventCount > 0 && (
+            <span className="shrink-0 rounded-full bg-blue-500 px-1.5 text-xs font-semibold text-white">
+              {item.conversation.newEventCount}
+            </span>
+          )}
           <PriorityBadge priority={item.priority} />
         </div>
         <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500 dark:text-gray-400">
@@ -45,6 +50,12 @@ export function WorkItemCard({ item, onClick }: Props) {
           <span>{timeAgo(item.createdAt)}</span>
           <span>·</span>
           <span className="capitalize">{item.type}</span>
+          {item.conversation && item.conversation.itemCount > 1 && (
+            <>
+              <span>·</span>
+              <span>{item.conversation.itemCount} items</span>
+            </>
+          )}
         </div>
       </div>
       <span className="text-gray-400 mt-1">›</span>
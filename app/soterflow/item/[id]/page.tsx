@@ -6,7 +6,7 @@ import { ActionButton } from "../../components/ActionButton";
 import { LoadingState } from "../../components/LoadingState";
 import { PriorityBadge } from "../../components/PriorityBadge";
 import { SourceIcon } from "../../components/SourceIcon";
-import { api, type WorkItem } from "../../lib/api";
+import { api, type TimelineEvent, type WorkItem } from "../../lib/api";
 import { showBackButton, haptic, hapticNotify } from "../../lib/telegram";
 
 const sourceActions: Record<
@@ -59,6 +59,7 @@ export default function ItemDetailPage() {
   const [item, setItem] = useState<WorkItem | null>(null);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
 
   useEffect(() => {
     return showBackButton(() => router.back());
@@ -70,6 +71,10 @@ export default function ItemDetailPage() {
       .then(setItem)
       .catch(console.error)
       .finally(() => setLoading(false));
+    api
+      .getTimeline(id)
+      .then((t) => setTimeline(t.events))
+      .catch(console.error);
   }, [id]);
 
   const doAction = useCallback(
@@ -147,6 +152,27 @@ export default function ItemDetailPage() {
         </div>
       )}
 
+      {/* Conversation timeline */}
+      {timeline.length > 1 && (
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase mb-2">
+            Activity ({timeline.length})
+          </p>
+          <ul className="space-y-2">
+            {timeline.map((e) => (
+              <li key={e.id} className="text-xs text-gray-600 dark:text-gray-300">
+                <span className="font-medium">{e.author}</span>
+                <span className="text-gray-400">
+                  {" "}
+                  · {e.kind === "updated" ? "updated" : e.type} · {timeAgo(e.timestamp)}
+                </span>
+                <p className="truncate">{e.summary}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* External link */}
       {item.url && (
         <a
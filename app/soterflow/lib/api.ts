@@ -15,10 +15,64 @@ export interface WorkItem {
   author: string;
   url?: string;
   priority: "critical" | "high" | "medium" | "low" | "none";
-  status: "new" | "in_progress" | "done" | "dismissed";
+  status: "new" | "in_progress" | "done" | "dismissed" | "snoozed";
+  snoozedUntil?: string | null;
   createdAt: string;
   updatedAt: string;
   metadata?: Record<string, any>;
+  /** Present when the inbox row stands for a conversation of several items. */
+  conversation?: ConversationSummary;
+}
+
+export interface ConversationSummary {
+  id: string;
+  itemCount: number;
+  newEventCount: number;
+  lastActivity: string;
+}
+
+export interface TimelineEvent {
+  id: number;
+  workItemId: string;
+  kind: "created" | "updated";
+  type: WorkItem["type"];
+  author: string;
+  summary: string;
+  timestamp: string;
+}
+
+export interface Timeline {
+  conversation: { id: string; title: string } | null;
+  items: WorkItem[];
+  events: TimelineEvent[];
+}
+
+/** A destructive action held in the undo window, or committed and still reversible. */
+export interface PendingAction {
+  token: string;
+  itemId: string;
+  source: string;
+  action: string;
+  state: "pending" | "committed" | "failed" | "cancelled" | "undoing" | "undone";
+  executeAt: string;
+  undoUntil: string | null;
+  error?: string;
+}
+
+/** Outcome of a bulk action, per item and in total. */
+export interface BulkReport {
+  action: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: Array<{
+    id: string;
+    ok: boolean;
+    status?: WorkItem["status"];
+    pending?: boolean;
+    token?: string;
+    error?: string;
+  }>;
 }
 
 export interface SyncState {
@@ -78,6 +132,10 @@ export const api = {
     return request<WorkItem>(`/api/inbox/${id}`);
   },
 
+  getTimeline(id: string) {
+    return request<Timeline>(`/api/inbox/${id}/timeline`);
+  },
+
   performAction(id: string, action: string, params?: Record<string, any>) {
     return request<any>(`/api/inbox/${id}/action`, {
       method: "POST",
@@ -85,6 +143,25 @@ export const api = {
     });
   },
 
+  bulkAction(
+    selection: { ids: string[] } | { filter: Record<string, string> },
+    action: string,
+    params?: Record<string, unknown>,
+  ) {
+    return request<BulkReport>("/api/inbox/bulk-action", {
+      method: "POST",
+      body: JSON.stringify({ ...selection, action, params }),
+    });
+  },
+
+  cancelAction(token: string) {
+    return request<PendingAction>(`/api/actions/${token}/cancel`, { method: "POST" });
+  },
+
+  undoAction(token: string) {
+    return request<PendingAction>(`/api/actions/${token}/undo`, { method: "POST" });
+  },
+
   triggerSync(channel?: string) {
     return request<any>("/api/sync", {
       method: "POST",
@@ -122,7 +199,12 @@ export function connectWS(onSyncComplete: () => void): () => void {
     ws.onmessage = (ev) => {
       try {
         const msg = JSON.parse(ev.data as string);
-        if (msg.type === "sync_complete") {
+        if (
+          msg.type === "sync_complete" ||
+          msg.type === "workitem_added" ||
+          msg.type === "snooze_expired" ||
+          (msg.type === "pending_action" && msg.state !== "pending")
+        ) {
           onSyncComplete();
         }
       } catch {}
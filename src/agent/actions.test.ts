@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { BaseChannel, WorkItem } from "../channels/base.js";
+import { recordEvent } from "../store/history.js";
+import { updateStatus } from "../store/workitems.js";
+import { PendingActions, isDestructive } from "./actions.js";
+
+const item: WorkItem = {
+  id: "jira-OPS-1",
+  source: "jira",
+  type: "issue",
+  title: "Fix login",
+  body: "",
+  author: "alice",
+  timestamp: new Date(),
+  priority: "normal",
+  metadata: { key: "OPS-1", status: "In Progress" },
+  status: "seen",
+};
+
+vi.mock("./orchestrator.js", () => ({ getCachedChannels: () => [] }));
+vi.mock("../store/history.js", () => ({ recordEvent: vi.fn(() => 1) }));
+vi.mock("../store/workitems.js", () => ({
+  getById: () => item,
+  getByConversation: () => [],
+  updateStatus: vi.fn(),
+}));
+
+function makeChannel(canUndo = true) {
+  return {
+    name: "jira",
+    isConnected: () => true,
+    connect: vi.fn(async () => {}),
+    performAction: vi.fn(async () => {}),
+    canUndo: () => canUndo,
+    undoAction: vi.fn(async () => {}),
+  } as unknown as BaseChannel & {
+    performAction: ReturnType<typeof vi.fn>;
+    undoAction: ReturnType<typeof vi.fn>;
+  };
+}
+
+const actor = { type: "cli" as const };
+
+describe("isDestructive", () => {
+  it("covers merge, close, archive and transitions", () => {
+    expect(isDestructive("github", "merge")).toBe(true);
+    expect(isDestructive("jira", "transition")).toBe(true);
+    expect(isDestructive("gmail", "archive")).toBe(true);
+    expect(isDestructive("github", "comment")).toBe(false);
+  });
+});
+
+describe("PendingActions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("commits a queued action when the window expires", async () => {
+    const channel = makeChannel();
+    const queue = new PendingActions({ windowMs: 10_000, channels: () => [channel] });
+    const states: string[] = [];
+    queue.onChange((a) => states.push(a.state));
+
+    const pending = queue.enqueue(item, "transition", { transitionId: "31" }, actor);
+    expect(queue.shouldDelay(item, "transition")).toBe(true);
+    await vi.advanceTimersByTimeAsync(9_000);
+    expect(channel.performAction).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(channel.performAction).toHaveBeenCalledWith("jira-OPS-1", "transition", {
+      transitionId: "31",
+    });
+    expect(states).toEqual(["pending", "committed"]);
+    expect(queue.list().map((a) => a.token)).toEqual([pending.token]);
+  });
+
+  it("never sends a cancelled action", async () => {
+    const channel = makeChannel();
+    const queue = new PendingActions({ windowMs: 10_000, channels: () => [channel] });
+    const pending = queue.enqueue(item, "transition", {}, actor);
+
+    expect(queue.cancel(pending.token, actor)?.state).toBe("cancelled");
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(channel.performAction).not.toHaveBeenCalled();
+    expect(() => queue.cancel(pending.token, actor)).toThrow(/already cancelled/);
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "transition", result: { cancelled: true } }),
+    );
+  });
+
+  it("reverses a committed action with the captured previous state", async () => {
+    const channel = makeChannel();
+    const queue = new PendingActions({ windowMs: 0, channels: () => [channel] });
+    const done = await queue.execute(item, "transition", { transitionId: "31" }, actor);
+    expect(done.undoUntil).not.toBeNull();
+
+    const undone = await queue.undo(done.token, actor);
+    expect(undone?.state).toBe("undone");
+    expect(channel.undoAction).toHaveBeenCalledWith(
+      "jira-OPS-1",
+      "transition",
+      expect.objectContaining({ key: "OPS-1", previousStatus: "In Progress" }),
+    );
+    await expect(queue.undo(done.token, actor)).rejects.toThrow(/only committed/);
+  });
+
+  it("undoes an action only once when undos overlap", async () => {
+    const channel = makeChannel();
+    let finish = () => {};
+    channel.undoAction.mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+    const queue = new PendingActions({ windowMs: 0, channels: () => [channel] });
+    const done = await queue.execute(item, "transition", {}, actor);
+
+    const first = queue.undo(done.token, actor);
+    await expect(queue.undo(done.token, actor)).rejects.toThrow(/Action is undoing/);
+    finish();
+    expect((await first)?.state).toBe("undone");
+    expect(channel.undoAction).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the action undoable when the undo fails", async () => {
+    const channel = makeChannel();
+    channel.undoAction.mockRejectedValueOnce(new Error("Jira unavailable"));
+    const queue = new PendingActions({ windowMs: 0, channels: () => [channel] });
+    const done = await queue.execute(item, "transition", {}, actor);
+
+    await expect(queue.undo(done.token, actor)).rejects.toThrow("Jira unavailable");
+    expect(queue.list()).toEqual([expect.objectContaining({ state: "committed" })]);
+    expect((await queue.undo(done.token, actor))?.state).toBe("undone");
+  });
+
+  it("restores local statuses changed by the action on undo", async () => {
+    const channel = makeChannel();
+    const queue = new PendingActions({ windowMs: 0, channels: () => [channel] });
+    const done = await queue.execute({ ...item }, "archive", {}, actor);
+    expect(done.status).toBe("done");
+    expect(updateStatus).toHaveBeenLastCalledWith("jira-OPS-1", "done", actor);
+
+    await queue.undo(done.token, actor);
+    expect(updateStatus).toHaveBeenLastCalledWith("jira-OPS-1", "seen", actor);
+  });
+
+  it("offers no undo when the channel cannot reverse the action", async () => {
+    const channel = makeChannel(false);
+    const queue = new PendingActions({ windowMs: 0, channels: () => [channel] });
+    const done = await queue.execute(item, "transition", {}, actor);
+    expect(done.undoUntil).toBeNull();
+    await expect(queue.undo(done.token, actor)).rejects.toThrow(/no longer be undone/);
+  });
+
+  it("cancels pending actions on stop", async () => {
+    const channel = makeChannel();
+    const queue = new PendingActions({ windowMs: 10_000, channels: () => [channel] });
+    queue.enqueue(item, "transition", {}, actor);
+    queue.stop();
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(channel.performAction).not.toHaveBeenCalled();
+    expect(queue.list()).toEqual([]);
+  });
+});
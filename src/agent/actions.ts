@@ -0,0 +1,452 @@
+/**
+ * @module agent/actions
+ * Channel actions with an undo window — destructive actions (merge, close, archive, Jira and
+ * Linear transitions) can be held for a grace period before they reach the remote system, and
+ * actions the remote system can reverse offer a compensating undo after commit.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { BaseChannel, WorkItem } from "../channels/base.js";
+import { env } from "../soterflow-env.js";
+import { recordEvent, type Actor } from "../store/history.js";
+import { currentUser, runAsUser, scopeKey, type UserScope } from "../store/scope.js";
+import { getByConversation, getById, updateStatus } from "../store/workitems.js";
+import { getCachedChannels } from "./orchestrator.js";
+
+/** Local status an item moves to after a successful channel action. */
+export const ACTION_STATUS: Record<string, WorkItem["status"]> = {
+  read: "seen",
+  archive: "done",
+  close: "done",
+  merge: "done",
+  approve: "seen",
+  review: "seen",
+  "request-changes": "seen",
+  accept: "done",
+  decline: "done",
+  "mark-todo-done": "done",
+};
+
+/** Actions held for the undo window, per source. */
+export const DESTRUCTIVE_ACTIONS: Record<string, string[]> = {
+  github: ["close", "merge"],
+  jira: ["transition"],
+  gmail: ["archive"],
+  outlook: ["archive", "decline"],
+  linear: ["transition"],
+  gitlab: ["close", "merge"],
+};
+
+/** How long a committed action can still be undone. */
+export const UNDO_RETENTION_MS = 15 * 60 * 1000;
+
+/** Whether an action on this source goes through the undo window. */
+export function isDestructive(source: string, action: string): boolean {
+  return DESTRUCTIVE_ACTIONS[source]?.includes(action) ?? false;
+}
+
+/**
+ * Items a status change on this item applies to. The inbox shows a conversation as one
+ * row, so that is the item plus the other open items of its conversation.
+ */
+export function conversationRow(item: WorkItem): WorkItem[] {
+  return item.conversationId
+    ? getByConversation(item.conversationId).filter(
+        (i) => i.id === item.id || (i.status !== "done" && i.status !== "dismissed"),
+      )
+    : [item];
+}
+
+/**
+ * State of a queued action:
+ * `pending` (waiting for the window to expire) → `committed` | `failed` | `cancelled`,
+ * and `committed` → `undoing` → `undone` after a compensating undo (back to `committed` if the
+ * undo fails).
+ */
+export type PendingActionState =
+  | "pending"
+  | "committed"
+  | "failed"
+  | "cancelled"
+  | "undoing"
+  | "undone";
+
+/** A channel action tracked by {@link PendingActions}, as broadcast to clients. */
+export interface PendingAction {
+  token: string;
+  itemId: string;
+  source: string;
+  action: string;
+  params?: Record<string, unknown>;
+  state: PendingActionState;
+  /** When the action is (or was) sent to the remote system. */
+  executeAt: Date;
+  /** Until when a committed action can be undone, or null if it cannot be reversed. */
+  undoUntil: Date | null;
+  /** Local status after commit. */
+  status?: WorkItem["status"];
+  error?: string;
+}
+
+export interface PendingActionsOptions {
+  /** Grace period before destructive actions are committed, in ms (0 = immediate). */
+  windowMs?: number;
+  /** Channels to run actions on (default: cached channels from the orchestrator). */
+  channels?: () => BaseChannel[];
+}
+
+type PendingActionListener = (action: PendingAction) => void;
+type ProgressCallback = (step: string) => void;
+
+interface Entry extends PendingAction {
+  actor: Actor;
+  /** Account the action belongs to; only that account can see, cancel or undo it. */
+  scope: UserScope | undefined;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Remote state captured before the action ran, for the compensating undo. */
+  undoParams: Record<string, unknown>;
+  /** Local status of each row item before the action, restored on undo. */
+  previousStatuses: Record<string, WorkItem["status"]>;
+}
+
+/** Remote state the channels need to reverse an action (see `BaseChannel.undoAction`). */
+function captureUndoParams(item: WorkItem, params?: Record<string, unknown>) {
+  const meta = item.metadata ?? {};
+  const captured: Record<string, unknown> = { ...params };
+  if (meta.key !== undefined) {
+    captured.key = meta.key;
+  }
+  if (meta.messageId !== undefined) {
+    captured.messageId = meta.messageId;
+  }
+  if (meta.status !== undefined) {
+    captured.previousStatus = meta.status;
+  }
+  return captured;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+export class PendingActions {
+  private static instance: PendingActions | null = null;
+
+  private entries = new Map<string, Entry>();
+  private listeners: PendingActionListener[] = [];
+  private readonly getChannels: () => BaseChannel[];
+  readonly windowMs: number;
+
+  constructor(options: PendingActionsOptions = {}) {
+    this.windowMs = options.windowMs ?? env.SOTERFLOW_UNDO_WINDOW_SECONDS * 1000;
+    this.getChannels = options.channels ?? getCachedChannels;
+  }
+
+  static getInstance(): PendingActions {
+    if (!PendingActions.instance) {
+      PendingActions.instance = new PendingActions();
+    }
+    return PendingActions.instance;
+  }
+
+  /** Register a callback invoked whenever a tracked action changes state. */
+  onChange(listener: PendingActionListener): void {
+    this.listeners.push(listener);
+  }
+
+  /** Whether this action should be queued rather than run immediately. */
+  shouldDelay(item: WorkItem, action: string): boolean {
+    return this.windowMs > 0 && isDestructive(item.source, action);
+  }
+
+  /**
+   * Queue a channel action; it is committed when the window expires unless cancelled.
+   * @returns The pending action, including its cancel token
+   */
+  enqueue(
+    item: WorkItem,
+    action: string,
+    params: Record<string, unknown> | undefined,
+    actor: Actor,
+  ): PendingAction {
+    const entry = this.createEntry(
+      item,
+      action,
+      params,
+      actor,
+      new Date(Date.now() + this.windowMs),
+    );
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this.commit(entry).catch(() => {});
+    }, this.windowMs);
+    entry.timer.unref?.();
+    this.notify(entry);
+    return this.toPublic(entry);
+  }
+
+  /**
+   * Run a channel action now. If the channel can reverse it, the result carries a token
+   * for {@link undo}.
+   * @throws Error if the channel is missing or the action fails
+   */
+  async execute(
+    item: WorkItem,
+    action: string,
+    params: Record<string, unknown> | undefined,
+    actor: Actor,
+    onProgress?: ProgressCallback,
+  ): Promise<PendingAction> {
+    const entry = this.createEntry(item, action, params, actor, new Date());
+    await this.commit(entry, onProgress);
+    if (entry.state === "failed") {
+      throw new Error(entry.error);
+    }
+    return this.toPublic(entry);
+  }
+
+  /**
+   * Cancel a pending action before it reaches the remote system.
+   * @returns The cancelled action, or null if the token is unknown
+   * @throws Error if the action is no longer pending
+   */
+  cancel(token: string, actor: Actor): PendingAction | null {
+    const entry = this.ownEntry(token);
+    if (!entry) {
+      return null;
+    }
+    if (entry.state !== "pending") {
+      throw new Error(`Action is already ${entry.state}`);
+    }
+    this.abort(entry, actor);
+    return this.toPublic(entry);
+  }
+
+  /**
+   * Reverse a committed action on the remote system and restore the local statuses.
+   * @returns The undone action, or null if the token is unknown
+   * @throws Error if the action is not committed, cannot be reversed, or the undo fails
+   */
+  async undo(token: string, actor: Actor): Promise<PendingAction | null> {
+    const entry = this.ownEntry(token);
+    if (!entry) {
+      return null;
+    }
+    if (entry.state !== "committed") {
+      throw new Error(`Action is ${entry.state}, only committed actions can be undone`);
+    }
+    if (!entry.undoUntil || entry.undoUntil.getTime() < Date.now()) {
+      throw new Error(`${entry.action} on ${entry.source} can no longer be undone`);
+    }
+
+    // Claimed before the first await, so a concurrent undo of the same action is rejected
+    entry.state = "undoing";
+    try {
+      const channel = await this.connectedChannel(entry.source);
+      await channel.undoAction(entry.itemId, entry.action, entry.undoParams);
+    } catch (e: unknown) {
+      entry.state = "committed";
+      recordEvent({
+        workItemId: entry.itemId,
+        kind: "action",
+        action: `undo:${entry.action}`,
+        error: errorMessage(e),
+        actor,
+      });
+      throw e;
+    }
+
+    recordEvent({
+      workItemId: entry.itemId,
+      kind: "action",
+      action: `undo:${entry.action}`,
+      result: { ok: true },
+      actor,
+    });
+    for (const [id, status] of Object.entries(entry.previousStatuses)) {
+      updateStatus(id, status, actor);
+    }
+    entry.state = "undone";
+    entry.undoUntil = null;
+    this.notify(entry);
+    return this.toPublic(entry);
+  }
+
+  /** Pending actions and committed actions that can still be undone. */
+  list(): PendingAction[] {
+    this.prune();
+    return [...this.entries.values()]
+      .filter((e) => (e.scope?.userId ?? "") === scopeKey())
+      .filter(
+        (e) =>
+          e.state === "pending" ||
+          e.state === "undoing" ||
+          (e.state === "committed" && e.undoUntil),
+      )
+      .map((e) => this.toPublic(e));
+  }
+
+  /** Cancel all pending actions (on shutdown nothing is sent that the user could still cancel). */
+  stop(): void {
+    for (const entry of this.entries.values()) {
+      if (entry.state === "pending") {
+        const abort = () => this.abort(entry, { type: "system", name: "shutdown" });
+        // The cancellation is recorded in the history of the account the action belongs to
+        if (entry.scope) {
+          runAsUser(entry.scope, abort);
+        } else {
+          abort();
+        }
+      }
+    }
+  }
+
+  private createEntry(
+    item: WorkItem,
+    action: string,
+    params: Record<string, unknown> | undefined,
+    actor: Actor,
+    executeAt: Date,
+  ): Entry {
+    this.prune();
+    const entry: Entry = {
+      token: randomUUID(),
+      itemId: item.id,
+      source: item.source,
+      action,
+      params,
+      state: "pending",
+      executeAt,
+      undoUntil: null,
+      actor,
+      scope: currentUser(),
+      timer: null,
+      undoParams: captureUndoParams(item, params),
+      previousStatuses: {},
+    };
+    this.entries.set(entry.token, entry);
+    return entry;
+  }
+
+  /** An entry of the current account. */
+  private ownEntry(token: string): Entry | undefined {
+    const entry = this.entries.get(token);
+    return entry && (entry.scope?.userId ?? "") === scopeKey() ? entry : undefined;
+  }
+
+  private abort(entry: Entry, actor: Actor): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    entry.state = "cancelled";
+    recordEvent({
+      workItemId: entry.itemId,
+      kind: "action",
+      action: entry.action,
+      params: entry.params,
+      result: { cancelled: true },
+      actor,
+    });
+    this.notify(entry);
+  }
+
+  private async connectedChannel(source: string): Promise<BaseChannel> {
+    const channel = this.getChannels().find((c) => c.name === source);
+    if (!channel) {
+      throw new Error(`No channel for source: ${source}`);
+    }
+    if (!channel.isConnected()) {
+      await channel.connect();
+    }
+    return channel;
+  }
+
+  /** Send the action to the remote system and apply the local status change. */
+  private async commit(entry: Entry, onProgress?: ProgressCallback): Promise<void> {
+    const item = getById(entry.itemId);
+    try {
+      if (!item) {
+        throw new Error(`Work item not found: ${entry.itemId}`);
+      }
+      onProgress?.(`Connecting to ${entry.source}...`);
+      const channel = await this.connectedChannel(entry.source);
+      onProgress?.(`Executing ${entry.action} on ${entry.source}...`);
+      await channel.performAction(entry.itemId, entry.action, entry.params);
+
+      const newStatus = ACTION_STATUS[entry.action];
+      recordEvent({
+        workItemId: entry.itemId,
+        kind: "action",
+        action: entry.action,
+        params: entry.params,
+        result: { ok: true, status: newStatus ?? item.status },
+        actor: entry.actor,
+      });
+      if (newStatus) {
+        for (const target of conversationRow(item)) {
+          entry.previousStatuses[target.id] = target.status;
+          updateStatus(target.id, newStatus, entry.actor);
+        }
+      }
+      entry.state = "committed";
+      entry.status = newStatus ?? item.status;
+      entry.undoUntil = channel.canUndo(entry.action)
+        ? new Date(Date.now() + UNDO_RETENTION_MS)
+        : null;
+    } catch (e: unknown) {
+      entry.state = "failed";
+      entry.error = errorMessage(e);
+      if (item) {
+        recordEvent({
+          workItemId: entry.itemId,
+          kind: "action",
+          action: entry.action,
+          params: entry.params,
+          error: entry.error,
+          actor: entry.actor,
+        });
+      }
+    }
+    this.notify(entry);
+  }
+
+  /** Forget finished actions that can no longer be undone. */
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.entries) {
+      const undoable =
+        entry.state === "committed" && entry.undoUntil && entry.undoUntil.getTime() > now;
+      if (
+        entry.state !== "pending" &&
+        entry.state !== "undoing" &&
+        !undoable &&
+        entry.executeAt.getTime() + UNDO_RETENTION_MS < now
+      ) {
+        this.entries.delete(token);
+      }
+    }
+  }
+
+  private notify(entry: Entry): void {
+    const data = this.toPublic(entry);
+    for (const listener of this.listeners) {
+      listener(data);
+    }
+  }
+
+  private toPublic(entry: Entry): PendingAction {
+    return {
+      token: entry.token,
+      itemId: entry.itemId,
+      source: entry.source,
+      action: entry.action,
+      params: entry.params,
+      state: entry.state,
+      executeAt: entry.executeAt,
+      undoUntil: entry.undoUntil,
+      status: entry.status,
+      error: entry.error,
+    };
+  }
+}
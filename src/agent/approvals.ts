@@ -0,0 +1,324 @@
+/**
+ * @module agent/approvals
+ * Approval gates for actions run by Director sub-agents. Each skill action is classified as
+ * read-only, reversible or destructive; a destructive one waits for the owner to approve it (in
+ * the Mini App or from the inline keyboard of a Telegram message) and is dropped when rejected
+ * or when no decision is made within `SOTERFLOW_APPROVAL_TIMEOUT_SECONDS`. Approvals and their
+ * decisions are kept in `agent_approvals`.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { WorkItem } from "../channels/base.js";
+import type { Actor } from "../store/history.js";
+import { env } from "../soterflow-env.js";
+import { getDb } from "../store/db.js";
+import { isDestructive } from "./actions.js";
+
+/** How much an action can change on the remote system. */
+export type ActionClass = "read-only" | "reversible" | "destructive";
+
+export const ACTION_CLASSES: ActionClass[] = ["read-only", "reversible", "destructive"];
+
+/**
+ * State of an approval: `pending` → `approved` | `rejected` | `expired` (no decision in time)
+ * | `cancelled` (the agent was cancelled or timed out while waiting).
+ */
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired" | "cancelled";
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+  "cancelled",
+];
+
+export interface Approval {
+  id: string;
+  agentId: string;
+  itemId: string;
+  skill: string;
+  action: string;
+  params?: Record<string, unknown>;
+  classification: ActionClass;
+  status: ApprovalStatus;
+  requestedAt: Date;
+  expiresAt: Date;
+  decidedAt?: Date;
+  /** Who approved or rejected it. */
+  decidedBy?: Actor;
+  /** Telegram message carrying the approve/reject buttons, if it could be sent. */
+  telegramMessageId?: number;
+}
+
+export interface ApprovalRequest {
+  agentId: string;
+  itemId: string;
+  skill: string;
+  action: string;
+  params?: Record<string, unknown>;
+  classification: ActionClass;
+}
+
+/** Actions that only read from the remote system. */
+const READ_ONLY_ACTIONS = new Set(["diff", "checks", "summarize"]);
+
+/** Prefix of the `callback_data` of the approval buttons (`approval:<decision>:<id>`). */
+const CALLBACK_PREFIX = "approval";
+
+type ApprovalListener = (approval: Approval) => void;
+
+interface Waiter {
+  resolve: (approval: Approval) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Classify a skill action. Actions the undo window holds (see `DESTRUCTIVE_ACTIONS`) are
+ * destructive, actions that only read are read-only, and everything else is reversible.
+ */
+export function classifyAction(source: string, action: string): ActionClass {
+  if (READ_ONLY_ACTIONS.has(action)) {
+    return "read-only";
+  }
+  return isDestructive(source, action) ? "destructive" : "reversible";
+}
+
+/** Telegram text asking the owner to approve an action. */
+export function approvalMessage(approval: Approval, item: WorkItem): string {
+  const params = Object.entries(approval.params ?? {})
+    .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`)
+    .join(", ");
+  return [
+    `🛡️ Approval needed: ${approval.action} (${approval.classification})`,
+    `${item.source} · ${item.title}`,
+    item.url,
+    `Skill: ${approval.skill}${params ? ` · ${params}` : ""}`,
+    `Expires at ${approval.expiresAt.toISOString().slice(11, 16)} UTC`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Inline keyboard with the approve and reject buttons of an approval. */
+export function approvalKeyboard(id: string) {
+  return {
+    inline_keyboard: [
+      [
+        { text: "✅ Approve", callback_data: `${CALLBACK_PREFIX}:approve:${id}` },
+        { text: "❌ Reject", callback_data: `${CALLBACK_PREFIX}:reject:${id}` },
+      ],
+    ],
+  };
+}
+
+/** Parse the `callback_data` of an approval button, or null for other buttons. */
+export function parseApprovalCallback(
+  data: string,
+): { id: string; decision: "approved" | "rejected" } | null {
+  const [prefix, decision, id] = data.split(":");
+  if (prefix !== CALLBACK_PREFIX || !id || (decision !== "approve" && decision !== "reject")) {
+    return null;
+  }
+  return { id, decision: decision === "approve" ? "approved" : "rejected" };
+}
+
+/** Outcome of an approval, e.g. `merge on github-pr-1 approved by alice`. */
+export function decisionText(approval: Approval): string {
+  const actor = approval.decidedBy;
+  const by = actor ? ` by ${actor.name ?? actor.id ?? actor.type}` : "";
+  return `${approval.action} on ${approval.itemId} ${approval.status}${by}`;
+}
+
+export class Approvals {
+  private static instance: Approvals | null = null;
+
+  /** Approvals an agent of this process is waiting for. */
+  private waiters = new Map<string, Waiter>();
+  private listeners: ApprovalListener[] = [];
+
+  static getInstance(): Approvals {
+    if (!Approvals.instance) {
+      Approvals.instance = new Approvals();
+    }
+    return Approvals.instance;
+  }
+
+  /** Register a callback invoked whenever an approval is requested or decided. */
+  onChange(listener: ApprovalListener): void {
+    this.listeners.push(listener);
+  }
+
+  /** Persist a pending approval; {@link wait} for its decision. */
+  create(request: ApprovalRequest, timeoutMs = env.SOTERFLOW_APPROVAL_TIMEOUT_SECONDS * 1000) {
+    const now = new Date();
+    const approval: Approval = {
+      id: randomUUID(),
+      ...request,
+      status: "pending",
+      requestedAt: now,
+      expiresAt: new Date(now.getTime() + timeoutMs),
+    };
+    getDb()
+      .prepare(
+        `INSERT INTO agent_approvals (id, agent_id, item_id, skill, action, params, classification, status, requested_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        approval.id,
+        approval.agentId,
+        approval.itemId,
+        approval.skill,
+        approval.action,
+        approval.params ? JSON.stringify(approval.params) : null,
+        approval.classification,
+        approval.status,
+        approval.requestedAt.toISOString(),
+        approval.expiresAt.toISOString(),
+      );
+    this.notify(approval);
+    return approval;
+  }
+
+  /**
+   * Wait until the approval is decided or expires.
+   * @returns The decided approval (`approved`, `rejected` or `expired`)
+   * @throws The abort reason if `signal` aborts first; the approval is then `cancelled`
+   */
+  wait(approval: Approval, signal: AbortSignal): Promise<Approval> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.waiters.delete(approval.id);
+        this.settle(approval.id, "cancelled");
+        reject(signal.reason);
+      };
+      const timer = setTimeout(
+        () => this.settle(approval.id, "expired"),
+        Math.max(0, approval.expiresAt.getTime() - Date.now()),
+      );
+      timer.unref?.();
+      this.waiters.set(approval.id, {
+        resolve: (decided) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(decided);
+        },
+        timer,
+      });
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+    });
+  }
+
+  /**
+   * Approve or reject a pending approval.
+   * @returns The decided approval, or null if it does not exist
+   * @throws Error if it is already decided or no agent is waiting for it anymore
+   */
+  decide(id: string, decision: "approved" | "rejected", actor: Actor): Approval | null {
+    const approval = this.get(id);
+    if (!approval) {
+      return null;
+    }
+    if (approval.status !== "pending") {
+      throw new Error(`Approval is already ${approval.status}`);
+    }
+    if (!this.waiters.has(id)) {
+      // Requested by a previous process; its agent is gone
+      this.settle(id, "expired");
+      throw new Error("Approval is no longer awaited");
+    }
+    return this.settle(id, decision, actor);
+  }
+
+  /** Record the Telegram message carrying the approval's buttons. */
+  setTelegramMessage(id: string, messageId: number): void {
+    getDb()
+      .prepare(`UPDATE agent_approvals SET telegram_message_id = ? WHERE id = ?`)
+      .run(messageId, id);
+  }
+
+  get(id: string): Approval | null {
+    this.expireStale();
+    const row = getDb().prepare(`SELECT * FROM agent_approvals WHERE id = ?`).get(id) as
+      | Record<string, unknown>
+      | undefined;
+    return row ? rowToApproval(row) : null;
+  }
+
+  /** Approvals, newest first, optionally only those in one state. */
+  list(status?: ApprovalStatus, limit = 50): Approval[] {
+    this.expireStale();
+    const rows = (
+      status
+        ? getDb()
+            .prepare(
+              `SELECT * FROM agent_approvals WHERE status = ? ORDER BY requested_at DESC LIMIT ?`,
+            )
+            .all(status, limit)
+        : getDb()
+            .prepare(`SELECT * FROM agent_approvals ORDER BY requested_at DESC LIMIT ?`)
+            .all(limit)
+    ) as Array<Record<string, unknown>>;
+    return rows.map(rowToApproval);
+  }
+
+  /** Persist the outcome of a pending approval and wake up its agent. */
+  private settle(id: string, status: Exclude<ApprovalStatus, "pending">, actor?: Actor) {
+    const waiter = this.waiters.get(id);
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.waiters.delete(id);
+    }
+    getDb()
+      .prepare(
+        `UPDATE agent_approvals SET status = ?, decided_at = ?, decided_by = ?
+         WHERE id = ? AND status = 'pending'`,
+      )
+      .run(status, new Date().toISOString(), actor ? JSON.stringify(actor) : null, id);
+    const approval = this.get(id)!;
+    this.notify(approval);
+    waiter?.resolve(approval);
+    return approval;
+  }
+
+  /** Expire pending approvals past their deadline that no agent of this process waits for. */
+  private expireStale(): void {
+    const now = new Date().toISOString();
+    const rows = getDb()
+      .prepare(`SELECT id FROM agent_approvals WHERE status = 'pending' AND expires_at <= ?`)
+      .all(now) as Array<{ id: string }>;
+    for (const { id } of rows.filter((r) => !this.waiters.has(r.id))) {
+      getDb()
+        .prepare(`UPDATE agent_approvals SET status = 'expired', decided_at = ? WHERE id = ?`)
+        .run(now, id);
+    }
+  }
+
+  private notify(approval: Approval): void {
+    for (const listener of this.listeners) {
+      listener(approval);
+    }
+  }
+}
+
+function rowToApproval(r: Record<string, unknown>): Approval {
+  return {
+    id: r.id as string,
+    agentId: r.agent_id as string,
+    itemId: r.item_id as string,
+    skill: r.skill as string,
+    action: r.action as string,
+    params: r.params ? (JSON.parse(r.params as string) as Record<string, unknown>) : undefined,
+    classification: r.classification as ActionClass,
+    status: r.status as ApprovalStatus,
+    requestedAt: new Date(r.requested_at as string),
+    expiresAt: new Date(r.expires_at as string),
+    decidedAt: r.decided_at ? new Date(r.decided_at as string) : undefined,
+    decidedBy: r.decided_by ? (JSON.parse(r.decided_by as string) as Actor) : undefined,
+    telegramMessageId: (r.telegram_message_id as number | null) ?? undefined,
+  };
+}
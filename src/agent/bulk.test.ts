@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from "vitest";
+import type { BaseChannel, WorkItem } from "../channels/base.js";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+
+const { parseFilterSpec, runBulkAction } = await import("./bulk.js");
+const { PendingActions } = await import("./actions.js");
+const { getDb } = await import("../store/db.js");
+const { getById, upsert } = await import("../store/workitems.js");
+
+const actor = { type: "cli" as const };
+
+function makeItem(id: string): WorkItem {
+  return {
+    id,
+    source: "github",
+    type: "issue",
+    title: id,
+    body: "",
+    author: "a",
+    timestamp: new Date(),
+    priority: "normal",
+    url: `https://github.com/acme/api/issues/${id}`,
+    metadata: {},
+    status: "new",
+  };
+}
+
+describe("parseFilterSpec", () => {
+  it("parses key=value pairs with quoted values", () => {
+    expect(parseFilterSpec("source=github type=notification search='release notes'")).toEqual({
+      source: "github",
+      type: "notification",
+      search: "release notes",
+    });
+    expect(parseFilterSpec('excludeReasons=subscribed,ci_activity search="a b"')).toEqual({
+      excludeReasons: "subscribed,ci_activity",
+      search: "a b",
+    });
+  });
+
+  it("rejects unknown keys and stray words", () => {
+    expect(() => parseFilterSpec("repo=acme/api")).toThrow(/Unknown filter field/);
+    expect(() => parseFilterSpec("source=github everything")).toThrow(/Invalid filter/);
+  });
+});
+
+describe("runBulkAction", () => {
+  it("changes all local statuses or none", async () => {
+    for (const id of ["1", "2", "3"]) {
+      upsert(makeItem(id));
+    }
+    getDb().exec(`
+      CREATE TRIGGER fail_item_2 BEFORE UPDATE OF status ON workitems WHEN NEW.id = '2'
+      BEGIN SELECT RAISE(ABORT, 'item 2 is locked'); END
+    `);
+
+    const failed = await runBulkAction({ ids: ["1", "2", "3", "missing"] }, "done", {}, { actor });
+    expect(failed).toMatchObject({ total: 4, succeeded: 0, failed: 4 });
+    expect(failed.results).toContainEqual({ id: "missing", ok: false, error: "Not found" });
+    expect(failed.results).toContainEqual({ id: "1", ok: false, error: "item 2 is locked" });
+    expect(getById("1")!.status).toBe("new");
+
+    getDb().exec("DROP TRIGGER fail_item_2");
+    const done = await runBulkAction({ ids: ["1", "2", "3"] }, "done", {}, { actor });
+    expect(done).toMatchObject({ total: 3, succeeded: 3, failed: 0 });
+    expect(["1", "2", "3"].map((id) => getById(id)!.status)).toEqual(["done", "done", "done"]);
+  });
+
+  it("rejects an invalid snooze time before changing anything", async () => {
+    await expect(runBulkAction({ ids: ["1"] }, "snooze", { until: 2 }, { actor })).rejects.toThrow(
+      "params.until required",
+    );
+  });
+
+  it("runs channel actions with bounded concurrency and reports each failure", async () => {
+    const ids = ["10", "11", "12", "13", "14"];
+    for (const id of ids) {
+      upsert(makeItem(id));
+    }
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const performAction = vi.fn(async (itemId: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      if (itemId === "12") {
+        throw new Error("Comment rejected");
+      }
+    });
+    const channel = {
+      name: "github",
+      isConnected: () => true,
+      connect: vi.fn(async () => {}),
+      canUndo: () => false,
+      performAction,
+    } as unknown as BaseChannel;
+    const progress: number[] = [];
+
+    const report = await runBulkAction(
+      { ids },
+      "comment",
+      { body: "Looking into it" },
+      {
+        actor,
+        actions: new PendingActions({ windowMs: 0, channels: () => [channel] }),
+        concurrency: 2,
+        onItem: (_result, done) => progress.push(done),
+      },
+    );
+
+    expect(maxInFlight).toBe(2);
+    expect(performAction).toHaveBeenCalledTimes(5);
+    expect(report).toMatchObject({ total: 5, succeeded: 4, failed: 1 });
+    expect(report.results.find((r) => r.id === "12")).toEqual({
+      id: "12",
+      ok: false,
+      error: "Comment rejected",
+    });
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+  });
+});
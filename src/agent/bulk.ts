@@ -0,0 +1,253 @@
+/**
+ * @module agent/bulk
+ * Bulk actions — apply one action to many items selected by id or by inbox filter.
+ * Local status changes run in a single transaction; channel actions run with bounded
+ * concurrency and go through the undo window like single actions.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import type { Actor } from "../store/history.js";
+import { getDb } from "../store/db.js";
+import { getById, updateStatus } from "../store/workitems.js";
+import { conversationRow, PendingActions } from "./actions.js";
+import { queryInbox, type InboxQuery } from "./orchestrator.js";
+import { parseSnoozeUntil, snoozeItem } from "./snooze.js";
+
+/** Channel actions run at most this many at a time. */
+export const BULK_CONCURRENCY = 4;
+
+/** Actions that only change the local status. */
+export const LOCAL_ACTIONS = new Set(["new", "seen", "in_progress", "done", "dismissed", "snooze"]);
+
+const FILTER_KEYS = new Set([
+  "source",
+  "type",
+  "status",
+  "search",
+  "since",
+  "excludeStatuses",
+  "excludeReasons",
+]);
+
+/** Which items a bulk action applies to: explicit ids, or everything matching a filter. */
+export interface BulkSelection {
+  ids?: string[];
+  filter?: InboxQuery;
+}
+
+/** Outcome for a single item. */
+export interface BulkItemResult {
+  id: string;
+  ok: boolean;
+  /** Local status after the action. */
+  status?: WorkItem["status"];
+  /** Held in the undo window; cancel with `token`. */
+  pending?: boolean;
+  /** Cancel token (pending) or undo token (committed and reversible). */
+  token?: string;
+  error?: string;
+}
+
+export interface BulkReport {
+  action: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export interface BulkOptions {
+  actor: Actor;
+  /** Called after each item finishes, e.g. to stream progress. */
+  onItem?: (result: BulkItemResult, done: number, total: number) => void;
+  /** Channel action queue (default: the shared {@link PendingActions}). */
+  actions?: PendingActions;
+  concurrency?: number;
+}
+
+/**
+ * Parse a CLI filter such as `source=github type=notification search="release notes"`.
+ * @throws Error on unknown keys or malformed pairs
+ */
+export function parseFilterSpec(spec: string): InboxQuery {
+  const query: Record<string, string> = {};
+  for (const match of spec.matchAll(/(\w+)=("[^"]*"|'[^']*'|\S+)/g)) {
+    const [, key, raw] = match;
+    if (!FILTER_KEYS.has(key)) {
+      throw new Error(`Unknown filter field: ${key}`);
+    }
+    query[key] = raw.replace(/^(["'])(.*)\1$/, "$2");
+  }
+  const leftover = spec.replace(/(\w+)=("[^"]*"|'[^']*'|\S+)/g, "").trim();
+  if (leftover) {
+    throw new Error(`Invalid filter: ${leftover}. Use key=value pairs`);
+  }
+  return query;
+}
+
+/**
+ * Resolve a selection to the items the action applies to. Explicit ids are inbox rows,
+ * so they expand to their open conversation members like single actions do.
+ * @returns The items plus ids that were not found
+ */
+export function resolveSelection(selection: BulkSelection): {
+  items: WorkItem[];
+  missing: string[];
+} {
+  if (selection.ids) {
+    const items = new Map<string, WorkItem>();
+    const missing: string[] = [];
+    for (const id of selection.ids) {
+      const item = getById(id);
+      if (!item) {
+        missing.push(id);
+        continue;
+      }
+      for (const member of conversationRow(item)) {
+        items.set(member.id, member);
+      }
+    }
+    return { items: [...items.values()], missing };
+  }
+  if (selection.filter) {
+    return { items: queryInbox(selection.filter), missing: [] };
+  }
+  throw new Error("ids or filter required");
+}
+
+/**
+ * Per-item parameters for a channel action: the shared params plus the identifiers the
+ * channels expect (GitHub `owner`/`repo`/`number`, Jira `key`), taken from metadata.
+ */
+function channelParams(item: WorkItem, params: Record<string, unknown>): Record<string, unknown> {
+  const meta = item.metadata ?? {};
+  const derived: Record<string, unknown> = {};
+  if (typeof meta.repo === "string" && meta.repo.includes("/")) {
+    const [owner, repo] = meta.repo.split("/");
+    derived.owner = owner;
+    derived.repo = repo;
+  }
+  if (meta.number !== undefined) {
+    derived.number = meta.number;
+  }
+  if (meta.key !== undefined) {
+    derived.key = meta.key;
+  }
+  return { ...derived, ...params };
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight. */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length });
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Apply a local status change (or snooze) to every item in one transaction.
+ * Either all items change or none do.
+ */
+function applyLocal(
+  items: WorkItem[],
+  action: string,
+  params: Record<string, unknown>,
+  actor: Actor,
+): BulkItemResult[] {
+  const apply = getDb().transaction(() =>
+    items.map((item): BulkItemResult => {
+      if (action === "snooze") {
+        const snoozed = snoozeItem(item.id, params.until as string, { bump: !!params.bump, actor });
+        return { id: item.id, ok: true, status: snoozed.status };
+      }
+      updateStatus(item.id, action as WorkItem["status"], actor);
+      return { id: item.id, ok: true, status: action as WorkItem["status"] };
+    }),
+  );
+  try {
+    return apply();
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : String(e);
+    return items.map((item) => ({ id: item.id, ok: false, error }));
+  }
+}
+
+/**
+ * Apply an action to every selected item.
+ * @throws Error if the selection or snooze time is invalid (nothing is changed)
+ */
+export async function runBulkAction(
+  selection: BulkSelection,
+  action: string,
+  params: Record<string, unknown> = {},
+  options: BulkOptions,
+): Promise<BulkReport> {
+  if (
+    action === "snooze" &&
+    (typeof params.until !== "string" || !parseSnoozeUntil(params.until))
+  ) {
+    throw new Error("params.until required (e.g. 2h, tomorrow)");
+  }
+  const { items, missing } = resolveSelection(selection);
+  const total = items.length + missing.length;
+  let done = 0;
+  const report = (result: BulkItemResult): BulkItemResult => {
+    done++;
+    options.onItem?.(result, done, total);
+    return result;
+  };
+
+  const results = missing.map((id) => report({ id, ok: false, error: "Not found" }));
+
+  if (LOCAL_ACTIONS.has(action)) {
+    results.push(...applyLocal(items, action, params, options.actor).map(report));
+  } else {
+    const queue = options.actions ?? PendingActions.getInstance();
+    const channelResults = await mapWithConcurrency(
+      items,
+      options.concurrency ?? BULK_CONCURRENCY,
+      async (item): Promise<BulkItemResult> => {
+        try {
+          const itemParams = channelParams(item, params);
+          if (queue.shouldDelay(item, action)) {
+            const pending = queue.enqueue(item, action, itemParams, options.actor);
+            return report({ id: item.id, ok: true, pending: true, token: pending.token });
+          }
+          const committed = await queue.execute(item, action, itemParams, options.actor);
+          return report({
+            id: item.id,
+            ok: true,
+            status: committed.status,
+            token: committed.undoUntil ? committed.token : undefined,
+          });
+        } catch (e: unknown) {
+          return report({
+            id: item.id,
+            ok: false,
+            error: e instanceof Error ? e.message : String(e),
+          });
+        }
+      },
+    );
+    results.push(...channelResults);
+  }
+
+  const succeeded = results.filter((r) => r.ok).length;
+  return {
+    action,
+    total,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { WorkCalendar } from "../store/calendar.js";
+import {
+  isQuietTime,
+  localDay,
+  parseWorkDays,
+  validateCalendar,
+  workingHours,
+} from "./calendar.js";
+
+// Mon–Fri 09:00–17:00 in New York
+const newYork: WorkCalendar = {
+  timezone: "America/New_York",
+  workDays: [1, 2, 3, 4, 5],
+  workHours: { start: "09:00", end: "17:00" },
+  holidays: [],
+  quietHours: { start: "22:00", end: "07:00" },
+};
+
+describe("workingHours", () => {
+  it("counts weekday hours between 09:00 and 17:00 only", () => {
+    // Wednesday 2025-01-15
+    expect(workingHours(new Date(2025, 0, 15, 10), new Date(2025, 0, 15, 12, 30))).toBe(2.5);
+    expect(workingHours(new Date(2025, 0, 15, 7), new Date(2025, 0, 15, 20))).toBe(8);
+    expect(workingHours(new Date(2025, 0, 15, 16), new Date(2025, 0, 16, 10))).toBe(2);
+  });
+
+  it("skips weekends", () => {
+    // Friday 16:00 to Monday 10:00
+    expect(workingHours(new Date(2025, 0, 17, 16), new Date(2025, 0, 20, 10))).toBe(2);
+    expect(workingHours(new Date(2025, 0, 18, 9), new Date(2025, 0, 19, 17))).toBe(0);
+  });
+
+  it("uses the calendar's timezone and holidays", () => {
+    // 14:00–22:00 UTC is 09:00–17:00 in New York (EST)
+    const from = new Date("2025-01-15T12:00:00Z");
+    const to = new Date("2025-01-16T15:00:00Z");
+    expect(workingHours(from, to, newYork)).toBe(9);
+    expect(workingHours(from, to, { ...newYork, holidays: ["2025-01-15"] })).toBe(1);
+  });
+
+  it("is zero for reversed ranges", () => {
+    expect(workingHours(new Date(2025, 0, 15, 12), new Date(2025, 0, 15, 10))).toBe(0);
+  });
+});
+
+describe("localDay", () => {
+  it("formats the local date", () => {
+    expect(localDay(new Date(2025, 0, 5, 23, 59))).toBe("2025-01-05");
+  });
+});
+
+describe("isQuietTime", () => {
+  it("handles windows across midnight", () => {
+    // 03:00 UTC is 22:00 in New York
+    expect(isQuietTime(newYork, new Date("2025-01-15T03:00:00Z"))).toBe(true);
+    expect(isQuietTime(newYork, new Date("2025-01-15T11:30:00Z"))).toBe(true);
+    expect(isQuietTime(newYork, new Date("2025-01-15T12:00:00Z"))).toBe(false);
+    expect(isQuietTime({ ...newYork, quietHours: null }, new Date("2025-01-15T03:00:00Z"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("calendar settings", () => {
+  it("parses working day ranges and lists", () => {
+    expect(parseWorkDays("1-5")).toEqual([1, 2, 3, 4, 5]);
+    expect(parseWorkDays("sun,tue, Thu")).toEqual([0, 2, 4]);
+    expect(parseWorkDays("fri-mon")).toEqual([0, 1, 5, 6]);
+    expect(() => parseWorkDays("funday")).toThrow("Unknown working day: funday");
+  });
+
+  it("validates fields before merging them", () => {
+    expect(validateCalendar({ workDays: [5, 1, 1], quietHours: null }, newYork)).toMatchObject({
+      workDays: [1, 5],
+      quietHours: null,
+    });
+    expect(() => validateCalendar({ timezone: "Mars/Olympus" }, newYork)).toThrow(/IANA/);
+    expect(() =>
+      validateCalendar({ workHours: { start: "17:00", end: "09:00" } }, newYork),
+    ).toThrow(/end after/);
+    expect(() => validateCalendar({ holidays: ["next friday"] }, newYork)).toThrow(/YYYY-MM-DD/);
+    expect(() => validateCalendar({ weekend: [0, 6] }, newYork)).toThrow(
+      "Unknown calendar field: weekend",
+    );
+  });
+});
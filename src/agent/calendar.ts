@@ -0,0 +1,324 @@
+/**
+ * @module agent/calendar
+ * Working time per account: timezone, working days and hours, holidays and quiet hours.
+ * Response times, SLAs and age escalation count working hours only, so an item left on Friday
+ * evening is not overdue on Monday morning; quiet hours hold notifications back.
+ */
+
+import { env } from "../soterflow-env.js";
+import {
+  getCalendarSettings,
+  saveCalendarSettings,
+  type TimeWindow,
+  type WorkCalendar,
+} from "../store/calendar.js";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Parse a local time of day.
+ * @returns Minutes after midnight, or null unless the time is `HH:MM` (24h)
+ */
+export function parseClockTime(time: string): number | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Parse a window such as `09:00-17:00` (or `22:00-07:00` across midnight).
+ * @throws Error if either end is not `HH:MM` or both are equal
+ */
+export function parseTimeWindow(spec: string): TimeWindow {
+  const [start = "", end = ""] = spec.split("-").map((s) => s.trim());
+  return validateWindow({ start, end }, "time window");
+}
+
+function validateWindow(input: unknown, field: string): TimeWindow {
+  const w = (input ?? {}) as Record<string, unknown>;
+  const start = typeof w.start === "string" ? parseClockTime(w.start) : null;
+  const end = typeof w.end === "string" ? parseClockTime(w.end) : null;
+  if (start === null || end === null || start === end) {
+    throw new Error(`${field} needs a start and end like "09:00" that differ`);
+  }
+  return { start: (w.start as string).trim(), end: (w.end as string).trim() };
+}
+
+/**
+ * Parse working days: a range (`1-5`) or list (`mon,tue,thu` or `1,2,4`), 0/`sun` = Sunday.
+ * @throws Error on unknown days
+ */
+export function parseWorkDays(spec: string): number[] {
+  const day = (s: string): number => {
+    const name = WEEKDAYS.indexOf(s.slice(0, 3).toLowerCase());
+    const n = name !== -1 ? name : /^[0-6]$/.test(s) ? Number(s) : NaN;
+    if (isNaN(n)) {
+      throw new Error(`Unknown working day: ${s}`);
+    }
+    return n;
+  };
+  const days = new Set<number>();
+  for (const part of spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)) {
+    const [from, to] = part.split("-").map((s) => s.trim());
+    if (to === undefined) {
+      days.add(day(from));
+      continue;
+    }
+    for (let d = day(from); ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === day(to)) {
+        break;
+      }
+    }
+  }
+  return [...days].toSorted((a: number, b: number) => a - b);
+}
+
+function isTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate untrusted calendar fields (API body) and merge them into `base`.
+ * @throws Error describing the first invalid field
+ */
+export function validateCalendar(input: unknown, base: WorkCalendar): WorkCalendar {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const calendar = { ...base };
+  for (const key of Object.keys(body)) {
+    if (!(key in base)) {
+      throw new Error(`Unknown calendar field: ${key}`);
+    }
+  }
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== "string" || !isTimezone(body.timezone)) {
+      throw new Error("timezone must be an IANA timezone like Europe/Berlin");
+    }
+    calendar.timezone = body.timezone;
+  }
+  if (body.workDays !== undefined) {
+    const days = body.workDays;
+    if (
+      !Array.isArray(days) ||
+      days.length === 0 ||
+      !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    ) {
+      throw new Error("workDays must be a non-empty array of weekdays 0-6 (0 = Sunday)");
+    }
+    calendar.workDays = [...new Set(days as number[])].toSorted((a: number, b: number) => a - b);
+  }
+  if (body.workHours !== undefined) {
+    const hours = validateWindow(body.workHours, "workHours");
+    if (parseClockTime(hours.end)! < parseClockTime(hours.start)!) {
+      throw new Error("workHours must end after they start");
+    }
+    calendar.workHours = hours;
+  }
+  if (body.holidays !== undefined) {
+    const holidays = body.holidays;
+    if (
+      !Array.isArray(holidays) ||
+      !holidays.every((d) => typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d))
+    ) {
+      throw new Error("holidays must be an array of YYYY-MM-DD dates");
+    }
+    calendar.holidays = [...new Set(holidays as string[])].toSorted();
+  }
+  if (body.quietHours !== undefined) {
+    calendar.quietHours =
+      body.quietHours === null ? null : validateWindow(body.quietHours, "quietHours");
+  }
+  return calendar;
+}
+
+/**
+ * The calendar from `SOTERFLOW_TIMEZONE`, `SOTERFLOW_WORK_DAYS`, `SOTERFLOW_WORK_HOURS`,
+ * `SOTERFLOW_HOLIDAYS` and `SOTERFLOW_QUIET_HOURS`.
+ * @throws Error if one of them is malformed
+ */
+export function defaultCalendar(): WorkCalendar {
+  return validateCalendar(
+    {},
+    {
+      timezone: env.SOTERFLOW_TIMEZONE,
+      workDays: parseWorkDays(env.SOTERFLOW_WORK_DAYS),
+      workHours: parseTimeWindow(env.SOTERFLOW_WORK_HOURS),
+      holidays: env.SOTERFLOW_HOLIDAYS.split(",")
+        .map((s) => s.trim())
+        .filter(Boolean),
+      quietHours: env.SOTERFLOW_QUIET_HOURS ? parseTimeWindow(env.SOTERFLOW_QUIET_HOURS) : null,
+    },
+  );
+}
+
+/** The current account's calendar: its own settings over the env defaults. */
+export function getCalendar(): WorkCalendar {
+  return { ...defaultCalendar(), ...getCalendarSettings() };
+}
+
+/**
+ * Change the current account's calendar.
+ * @returns The updated calendar
+ * @throws Error if a field is invalid
+ */
+export function updateCalendar(changes: unknown): WorkCalendar {
+  const calendar = validateCalendar(changes, getCalendar());
+  // Only fields the user set are stored; the rest keep following the env defaults
+  const changed = Object.keys(changes ?? {}).map((key) => [
+    key,
+    calendar[key as keyof WorkCalendar],
+  ]);
+  saveCalendarSettings({ ...getCalendarSettings(), ...Object.fromEntries(changed) });
+  return calendar;
+}
+
+// --- Timezone math ---
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of an instant in a timezone. */
+function zonedParts(date: Date, timezone: string) {
+  let format = formatters.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, format);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of format.formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts as Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>;
+}
+
+/** Wall-clock time of an instant in a timezone, as milliseconds of a UTC date. */
+function toWallClock(date: Date, timezone: string): number {
+  const p = zonedParts(date, timezone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+}
+
+/** The instant a wall-clock time (as from {@link toWallClock}) occurs in a timezone. */
+function fromWallClock(wall: number, timezone: string): Date {
+  const guess = wall - (toWallClock(new Date(wall), timezone) - wall);
+  return new Date(wall - (toWallClock(new Date(guess), timezone) - guess));
+}
+
+function wallDay(wall: number): string {
+  return new Date(wall).toISOString().slice(0, 10);
+}
+
+/** Local date as `YYYY-MM-DD`, in the given timezone (default: the server's). */
+export function localDay(date: Date, timezone?: string): string {
+  if (timezone) {
+    return wallDay(toWallClock(date, timezone));
+  }
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Day of the week (0 = Sunday) of an instant in the given timezone (default: the server's). */
+export function localWeekday(date: Date, timezone?: string): number {
+  return timezone ? new Date(toWallClock(date, timezone)).getUTCDay() : date.getDay();
+}
+
+/**
+ * The instant `minutes` after local midnight, `days` days after the local date of `date`, in
+ * the given timezone (default: the server's).
+ */
+export function atLocalTime(date: Date, days: number, minutes: number, timezone?: string): Date {
+  if (!timezone) {
+    const d = new Date(date);
+    d.setDate(d.getDate() + days);
+    d.setHours(0, minutes, 0, 0);
+    return d;
+  }
+  let day = toWallClock(date, timezone);
+  day -= day % DAY_MS;
+  return fromWallClock(day + days * DAY_MS + minutes * MINUTE_MS, timezone);
+}
+
+/** Minutes after local midnight of an instant in the calendar's timezone. */
+export function localMinutes(date: Date, calendar: WorkCalendar): number {
+  const p = zonedParts(date, calendar.timezone);
+  return p.hour * 60 + p.minute;
+}
+
+/** Whether the calendar counts the given local date (`wall` midnight) as a working day. */
+function isWorkingDay(wall: number, calendar: WorkCalendar): boolean {
+  return (
+    calendar.workDays.includes(new Date(wall).getUTCDay()) &&
+    !calendar.holidays.includes(wallDay(wall))
+  );
+}
+
+/**
+ * Working time between two instants.
+ * @returns Milliseconds inside working hours, 0 if `to` is not after `from`
+ */
+export function workingMs(
+  from: Date,
+  to: Date,
+  calendar: WorkCalendar = defaultCalendar(),
+): number {
+  if (to <= from) {
+    return 0;
+  }
+  const { timezone } = calendar;
+  const start = parseClockTime(calendar.workHours.start)! * MINUTE_MS;
+  const end = parseClockTime(calendar.workHours.end)! * MINUTE_MS;
+  const lastDay = wallDay(toWallClock(to, timezone));
+
+  let total = 0;
+  let day = toWallClock(from, timezone);
+  day -= day % DAY_MS;
+  for (; wallDay(day) <= lastDay; day += DAY_MS) {
+    if (!isWorkingDay(day, calendar)) {
+      continue;
+    }
+    const opens = fromWallClock(day + start, timezone).getTime();
+    const closes = fromWallClock(day + end, timezone).getTime();
+    total += Math.max(0, Math.min(closes, to.getTime()) - Math.max(opens, from.getTime()));
+  }
+  return total;
+}
+
+/** Working hours between two instants, see {@link workingMs}. */
+export function workingHours(from: Date, to: Date, calendar?: WorkCalendar): number {
+  return workingMs(from, to, calendar) / HOUR_MS;
+}
+
+/** Length of one working day in hours. */
+export function workdayHours(calendar: WorkCalendar): number {
+  return (parseClockTime(calendar.workHours.end)! - parseClockTime(calendar.workHours.start)!) / 60;
+}
+
+/** Whether `now` falls inside the calendar's quiet hours. */
+export function isQuietTime(calendar: WorkCalendar, now: Date = new Date()): boolean {
+  if (!calendar.quietHours) {
+    return false;
+  }
+  const minutes = localMinutes(now, calendar);
+  const start = parseClockTime(calendar.quietHours.start)!;
+  const end = parseClockTime(calendar.quietHours.end)!;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItem } from "../channels/base.js";
+import { conversationKey } from "./conversations.js";
+
+function makeItem(overrides: Partial<WorkItem>): WorkItem {
+  return {
+    id: "x",
+    source: "github",
+    type: "notification",
+    title: "t",
+    body: "",
+    author: "a",
+    timestamp: new Date(),
+    priority: "normal",
+    url: "",
+    metadata: {},
+    status: "new",
+    ...overrides,
+  };
+}
+
+describe("conversationKey", () => {
+  it("groups GitHub notification, review request and mention by repo and number", () => {
+    const notif = makeItem({ url: "https://github.com/Acme/API/pull/42" });
+    const pr = makeItem({ type: "pr", url: "https://github.com/acme/api/pull/42" });
+    const mention = makeItem({
+      type: "pr",
+      url: "",
+      metadata: { repo: "acme/api", number: 42 },
+    });
+    expect(conversationKey(notif)).toBe("github:acme/api#42");
+    expect(conversationKey(pr)).toBe("github:acme/api#42");
+    expect(conversationKey(mention)).toBe("github:acme/api#42");
+    expect(conversationKey(makeItem({ metadata: { repo: "acme/api", number: { n: 42 } } }))).toBe(
+      null,
+    );
+  });
+
+  it("uses the Slack thread root", () => {
+    const root = makeItem({ source: "slack", metadata: { channel: "C1", ts: "100.1" } });
+    const reply = makeItem({
+      source: "slack",
+      metadata: { channel: "C1", ts: "100.5", threadTs: "100.1" },
+    });
+    expect(conversationKey(root)).toBe("slack:C1:100.1");
+    expect(conversationKey(reply)).toBe("slack:C1:100.1");
+  });
+
+  it("uses the Jira issue key", () => {
+    expect(conversationKey(makeItem({ source: "jira", metadata: { key: "OPS-7" } }))).toBe(
+      "jira:OPS-7",
+    );
+  });
+
+  it("groups Linear comment mentions with their issue", () => {
+    const issue = makeItem({ source: "linear", metadata: { key: "ENG-12" } });
+    const mention = makeItem({ source: "linear", type: "mention", metadata: { key: "ENG-12" } });
+    expect(conversationKey(issue)).toBe("linear:ENG-12");
+    expect(conversationKey(mention)).toBe("linear:ENG-12");
+  });
+
+  it("groups GitLab to-do items with their merge request or issue", () => {
+    const mr = makeItem({
+      source: "gitlab",
+      type: "pr",
+      metadata: { project: "infra/edge", iid: 4 },
+    });
+    const todo = makeItem({
+      source: "gitlab",
+      type: "task",
+      metadata: { project: "infra/edge", iid: 4, kind: "merge_requests", todoId: 9 },
+    });
+    const issue = makeItem({
+      source: "gitlab",
+      type: "issue",
+      metadata: { project: "infra/edge", iid: 4 },
+    });
+    expect(conversationKey(mr)).toBe("gitlab:infra/edge!4");
+    expect(conversationKey(todo)).toBe("gitlab:infra/edge!4");
+    expect(conversationKey(issue)).toBe("gitlab:infra/edge#4");
+  });
+
+  it("threads Gmail messages by References, In-Reply-To, then Message-ID", () => {
+    const first = makeItem({ source: "gmail", metadata: { messageId: "<A@mail>" } });
+    const reply = makeItem({
+      source: "gmail",
+      metadata: { messageId: "<B@mail>", inReplyTo: "<A@mail>", references: ["<A@mail>"] },
+    });
+    const replyNoRefs = makeItem({
+      source: "gmail",
+      metadata: { messageId: "<C@mail>", inReplyTo: "<a@mail>" },
+    });
+    expect(conversationKey(first)).toBe("gmail:a@mail");
+    expect(conversationKey(reply)).toBe("gmail:a@mail");
+    expect(conversationKey(replyNoRefs)).toBe("gmail:a@mail");
+  });
+
+  it("returns null for items without a thread", () => {
+    expect(conversationKey(makeItem({ url: "https://github.com/acme/api" }))).toBeNull();
+    expect(conversationKey(makeItem({ source: "other" }))).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @module agent/conversations
+ * Conversation grouping — derives a conversation key for each work item and collapses
+ * the inbox to one row per conversation.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import {
+  addConversationEvent,
+  getConversationSummaries,
+  upsertConversation,
+  type ConversationSummary,
+} from "../store/conversations.js";
+
+/** An inbox row: the most relevant item of a conversation plus its counts. */
+export type InboxEntry = WorkItem & { conversation?: ConversationSummary };
+
+const PRIORITY_ORDER: Record<string, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+/** Strip angle brackets and whitespace from an email Message-ID. */
+function normalizeMessageId(id: string): string {
+  return id.trim().replace(/^<|>$/g, "").toLowerCase();
+}
+
+/** `owner/repo#number` for a GitHub PR or issue, from its URL or metadata. */
+function githubThread(item: WorkItem): string | null {
+  const m = /github\.com\/([^/]+\/[^/]+)\/(?:pull|pulls|issues)\/(\d+)/.exec(item.url ?? "");
+  if (m) {
+    return `${m[1].toLowerCase()}#${m[2]}`;
+  }
+  const repo = item.metadata?.repo;
+  const number = item.metadata?.number;
+  if (
+    typeof repo === "string" &&
+    repo &&
+    (typeof number === "number" || typeof number === "string")
+  ) {
+    return `${repo.toLowerCase()}#${number}`;
+  }
+  return null;
+}
+
+/**
+ * Derive the conversation an item belongs to:
+ * - GitHub: repository + PR/issue number (notification, review request and mention share it)
+ * - Slack: channel + `thread_ts` (or the message's own `ts` for thread roots)
+ * - Jira: issue key
+ * - Gmail: first `References` entry, else `In-Reply-To`, else the item's own `Message-ID`
+ * - Outlook: Graph `conversationId`
+ * - Linear: issue identifier (the issue and mentions in its comments share it)
+ * - GitLab: project path + merge request `!iid` or issue `#iid` (a to-do item shares its target's)
+ * @returns Conversation id, or null if the item stands alone
+ */
+export function conversationKey(item: WorkItem): string | null {
+  const meta = item.metadata ?? {};
+  switch (item.source) {
+    case "github": {
+      const thread = githubThread(item);
+      return thread ? `github:${thread}` : null;
+    }
+    case "slack": {
+      const channel = meta.channel;
+      const root = meta.threadTs || meta.ts;
+      return typeof channel === "string" && typeof root === "string"
+        ? `slack:${channel}:${root}`
+        : null;
+    }
+    case "jira":
+      return typeof meta.key === "string" && meta.key ? `jira:${meta.key}` : null;
+    case "gmail": {
+      const refs = Array.isArray(meta.references) ? (meta.references as string[]) : [];
+      const root =
+        refs[0] ||
+        (typeof meta.inReplyTo === "string" && meta.inReplyTo) ||
+        (typeof meta.messageId === "string" && meta.messageId);
+      return root ? `gmail:${normalizeMessageId(root)}` : null;
+    }
+    case "outlook":
+      return typeof meta.outlookConversationId === "string" && meta.outlookConversationId
+        ? `outlook:${meta.outlookConversationId}`
+        : null;
+    case "linear":
+      return typeof meta.key === "string" && meta.key ? `linear:${meta.key}` : null;
+    case "gitlab": {
+      const iid = meta.iid;
+      if (typeof meta.project !== "string" || !meta.project || typeof iid !== "number") {
+        return null;
+      }
+      const sep = meta.kind === "issues" || item.type === "issue" ? "#" : "!";
+      return `gitlab:${meta.project}${sep}${iid}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Assign an item to its conversation and record the activity on the timeline.
+ * Called on ingest, before the item is stored.
+ * @param existing - The stored version of the item, if any
+ */
+export function trackConversation(item: WorkItem, existing: WorkItem | null): void {
+  const id = conversationKey(item);
+  item.conversationId = id;
+  if (!id) {
+    return;
+  }
+  upsertConversation(id, item);
+  if (!existing) {
+    addConversationEvent(id, item, "created");
+  } else if (existing.timestamp.getTime() !== item.timestamp.getTime()) {
+    addConversationEvent(id, item, "updated");
+  }
+}
+
+/**
+ * Collapse items to one entry per conversation. Input order is kept (the first member
+ * of each conversation represents it), and the entry takes the highest member priority.
+ */
+export function groupConversations(items: WorkItem[]): InboxEntry[] {
+  const groups = new Map<string, WorkItem[]>();
+  const entries: Array<WorkItem | string> = [];
+  for (const item of items) {
+    const id = item.conversationId;
+    if (!id) {
+      entries.push(item);
+      continue;
+    }
+    const group = groups.get(id);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(id, [item]);
+      entries.push(id);
+    }
+  }
+
+  const summaries = getConversationSummaries([...groups.keys()]);
+  return entries.map((entry) => {
+    if (typeof entry !== "string") {
+      return entry;
+    }
+    const members = groups.get(entry)!;
+    const priority = members
+      .map((m) => m.priority)
+      .reduce((a, b) => ((PRIORITY_ORDER[b] ?? 2) < (PRIORITY_ORDER[a] ?? 2) ? b : a));
+    const summary = summaries.get(entry);
+    return summary
+      ? { ...members[0], priority, conversation: summary }
+      : { ...members[0], priority };
+  });
+}
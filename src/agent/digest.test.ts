@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItem } from "../channels/base.js";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2025, 0, 15, 9, 0);
+
+function makeItem(overrides: Partial<WorkItem>): WorkItem {
+  return {
+    id: "x",
+    source: "github",
+    type: "notification",
+    title: "t",
+    body: "",
+    author: "a",
+    timestamp: now,
+    priority: "normal",
+    url: "",
+    metadata: {},
+    status: "new",
+    ...overrides,
+  };
+}
+
+describe("digest schedule", () => {
+  it("is due once per day after the digest time", async () => {
+    const { isDigestDue } = await import("./digest.js");
+    expect(isDigestDue({ time: "08:30", lastSentOn: null }, now)).toBe(true);
+    expect(isDigestDue({ time: "09:30", lastSentOn: null }, now)).toBe(false);
+    expect(isDigestDue({ time: "08:30", lastSentOn: "2025-01-15" }, now)).toBe(false);
+    expect(isDigestDue({ time: "08:30", lastSentOn: "2025-01-14" }, now)).toBe(true);
+    expect(isDigestDue({ time: "", lastSentOn: null }, now)).toBe(false);
+  });
+
+  it("uses the calendar's timezone", async () => {
+    const { isDigestDue } = await import("./digest.js");
+    const { defaultCalendar } = await import("./calendar.js");
+    const calendar = { ...defaultCalendar(), timezone: "Asia/Tokyo" };
+    // 23:30 UTC is 08:30 the next day in Tokyo
+    const late = new Date(Date.UTC(2025, 0, 14, 23, 30));
+    expect(isDigestDue({ time: "08:00", lastSentOn: "2025-01-14" }, late, calendar)).toBe(true);
+    expect(isDigestDue({ time: "08:00", lastSentOn: "2025-01-15" }, late, calendar)).toBe(false);
+  });
+});
+
+describe("buildDigest", () => {
+  it("collects urgent, waiting and stale items and counts per source", async () => {
+    const { upsert } = await import("../store/workitems.js");
+    const { buildDigest, formatDigest } = await import("./digest.js");
+    const old = new Date(now.getTime() - 4 * DAY_MS);
+
+    upsert(makeItem({ id: "urgent", priority: "urgent", title: "Prod down" }));
+    upsert(makeItem({ id: "high-seen", priority: "high", status: "seen" }));
+    upsert(
+      makeItem({
+        id: "review",
+        type: "pr",
+        title: "Add cache",
+        metadata: { reviewRequested: true },
+      }),
+    );
+    upsert(
+      makeItem({
+        id: "jira-idle",
+        source: "jira",
+        type: "task",
+        title: "[OPS-1] Rotate keys",
+        timestamp: old,
+        metadata: { assignedToMe: true },
+      }),
+    );
+    upsert(makeItem({ id: "jira-fresh", source: "jira", metadata: { assignedToMe: true } }));
+    upsert(makeItem({ id: "stale", status: "in_progress", title: "Refactor", timestamp: old }));
+    upsert(makeItem({ id: "done", status: "done", priority: "urgent" }));
+
+    const digest = buildDigest(now);
+    expect(digest.urgent.map((i) => i.id)).toEqual(["urgent"]);
+    expect(digest.waitingOnMe.map((i) => i.id).toSorted()).toEqual(["jira-idle", "review"]);
+    expect(digest.staleInProgress.map((i) => i.id)).toEqual(["stale"]);
+    expect(digest.sources).toEqual({ github: { open: 4, new: 2 }, jira: { open: 2, new: 2 } });
+
+    const text = formatDigest(digest);
+    expect(text).toContain("SoterFlow digest — 2025-01-15");
+    expect(text).toContain("[urgent] Prod down (github)");
+    expect(text).toContain("Review: Add cache");
+    expect(text).toContain("[OPS-1] Rotate keys — no update since 4 days ago");
+    expect(text).toContain("Refactor — last activity 4 days ago");
+    expect(text).toContain("jira: 2 open, 2 new");
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * @module agent/digest
+ * Daily digest: new urgent/high items, items waiting on the user, stale in-progress items and
+ * open counts per source, sent to Telegram (and optionally by e-mail) at the account's digest
+ * time.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import type { WorkCalendar } from "../store/calendar.js";
+import { buildMessage, sendMail } from "../channels/smtp.js";
+import { env } from "../soterflow-env.js";
+import { getDigestSettings, markDigestSent } from "../store/digest.js";
+import { getHistory } from "../store/history.js";
+import { getAll } from "../store/workitems.js";
+import {
+  defaultCalendar,
+  getCalendar,
+  isQuietTime,
+  localDay,
+  localMinutes,
+  parseClockTime,
+} from "./calendar.js";
+import { channelCredentials } from "./orchestrator.js";
+import { isReviewRequest } from "./rules.js";
+import { accountChatId, sendTelegramMessage } from "./telegram.js";
+
+/** Assigned Jira tickets count as waiting once they have not changed for this long. */
+export const IDLE_JIRA_DAYS = 2;
+/** In-progress items without upstream changes or local activity for this long are stale. */
+export const STALE_IN_PROGRESS_DAYS = 3;
+/** Items listed per section; the rest are only counted. */
+const SECTION_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPEN_STATUSES = new Set<WorkItem["status"]>(["new", "seen", "in_progress"]);
+const PRIORITY_ORDER: Record<WorkItem["priority"], number> = {
+  urgent: 0,
+  high: 1,
+  normal: 2,
+  low: 3,
+};
+
+export interface Digest {
+  generatedAt: Date;
+  /** New urgent and high priority items, most urgent first. */
+  urgent: WorkItem[];
+  /** Review requests and assigned Jira tickets with no recent update. */
+  waitingOnMe: WorkItem[];
+  /** In-progress items with no activity for {@link STALE_IN_PROGRESS_DAYS}. */
+  staleInProgress: WorkItem[];
+  /** Open (new, seen, in progress) and new item counts per source. */
+  sources: Record<string, { open: number; new: number }>;
+}
+
+/** Last upstream change or local status change/action on the item. */
+function lastActivity(item: WorkItem): Date {
+  const events = getHistory(item.id);
+  const last = events.at(-1)?.createdAt;
+  return last && last > item.timestamp ? last : item.timestamp;
+}
+
+/** Build the digest of the current account from the stored items. */
+export function buildDigest(now: Date = new Date()): Digest {
+  const open = getAll().filter((item) => OPEN_STATUSES.has(item.status));
+
+  const sources: Digest["sources"] = {};
+  for (const item of open) {
+    const counts = (sources[item.source] ??= { open: 0, new: 0 });
+    counts.open++;
+    if (item.status === "new") {
+      counts.new++;
+    }
+  }
+
+  const urgent = open
+    .filter((i) => i.status === "new" && (i.priority === "urgent" || i.priority === "high"))
+    .toSorted(
+      (a: WorkItem, b: WorkItem) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority],
+    );
+
+  const waitingOnMe = open.filter(
+    (i) =>
+      isReviewRequest(i) ||
+      (i.source === "jira" &&
+        i.metadata.assignedToMe === true &&
+        now.getTime() - i.timestamp.getTime() >= IDLE_JIRA_DAYS * DAY_MS),
+  );
+
+  const staleInProgress = open.filter(
+    (i) =>
+      i.status === "in_progress" &&
+      now.getTime() - lastActivity(i).getTime() >= STALE_IN_PROGRESS_DAYS * DAY_MS,
+  );
+
+  return { generatedAt: now, urgent, waitingOnMe, staleInProgress, sources };
+}
+
+function daysAgo(date: Date, now: Date): string {
+  const days = Math.floor((now.getTime() - date.getTime()) / DAY_MS);
+  return days < 1 ? "today" : days === 1 ? "1 day ago" : `${days} days ago`;
+}
+
+function section(title: string, items: WorkItem[], line: (item: WorkItem) => string): string[] {
+  if (items.length === 0) {
+    return [];
+  }
+  const lines = [``, `${title} (${items.length})`];
+  for (const item of items.slice(0, SECTION_LIMIT)) {
+    lines.push(`• ${line(item)}`, item.url ? `  ${item.url}` : "");
+  }
+  if (items.length > SECTION_LIMIT) {
+    lines.push(`  …and ${items.length - SECTION_LIMIT} more`);
+  }
+  return lines.filter((l) => l !== "");
+}
+
+/** Render the digest as plain text (used for Telegram and e-mail alike). */
+export function formatDigest(digest: Digest): string {
+  const now = digest.generatedAt;
+  const lines = [`📬 SoterFlow digest — ${localDay(now)}`];
+
+  lines.push(
+    ...section(
+      "🔥 New urgent & high",
+      digest.urgent,
+      (i) => `[${i.priority}] ${i.title} (${i.source})`,
+    ),
+    ...section("⏳ Waiting on you", digest.waitingOnMe, (i) =>
+      isReviewRequest(i)
+        ? `Review: ${i.title}`
+        : `${i.title} — no update since ${daysAgo(i.timestamp, now)}`,
+    ),
+    ...section(
+      "🐢 Stale in progress",
+      digest.staleInProgress,
+      (i) => `${i.title} — last activity ${daysAgo(lastActivity(i), now)}`,
+    ),
+  );
+
+  const sources = Object.entries(digest.sources).toSorted(([a], [b]) => a.localeCompare(b));
+  lines.push(``, `📊 Open items`);
+  if (sources.length === 0) {
+    lines.push(`Inbox zero 🎉`);
+  }
+  for (const [source, counts] of sources) {
+    lines.push(`${source}: ${counts.open} open, ${counts.new} new`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Whether the scheduled digest is due: the digest time has passed today (in the calendar's
+ * timezone) and today's digest was not sent yet. A digest missed while the server was down is sent
+ * later the same day.
+ */
+export function isDigestDue(
+  settings: { time: string; lastSentOn: string | null },
+  now: Date = new Date(),
+  calendar: WorkCalendar = defaultCalendar(),
+): boolean {
+  const minutes = parseClockTime(settings.time);
+  if (minutes === null || settings.lastSentOn === localDay(now, calendar.timezone)) {
+    return false;
+  }
+  return localMinutes(now, calendar) >= minutes;
+}
+
+/**
+ * Send the digest of the current account to its Telegram chat and, if a digest address is set,
+ * by e-mail through the account's Gmail SMTP settings.
+ * @returns Where it was delivered
+ * @throws Error if a delivery fails (e-mail is still attempted when Telegram fails)
+ */
+export async function deliverDigest(
+  digest: Digest = buildDigest(),
+): Promise<{ telegram: boolean; email: boolean }> {
+  const text = formatDigest(digest);
+  const { email } = getDigestSettings();
+  const errors: string[] = [];
+  const delivered = { telegram: false, email: false };
+
+  try {
+    await sendTelegramMessage(accountChatId(), text);
+    delivered.telegram = true;
+  } catch (e: unknown) {
+    errors.push(e instanceof Error ? e.message : String(e));
+  }
+
+  if (email) {
+    try {
+      await emailDigest(email, `SoterFlow digest — ${localDay(digest.generatedAt)}`, text);
+      delivered.email = true;
+    } catch (e: unknown) {
+      errors.push(`E-mail: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+  return delivered;
+}
+
+async function emailDigest(to: string, subject: string, text: string): Promise<void> {
+  const gmail = channelCredentials("gmail");
+  if (!gmail?.GMAIL_USER || !gmail.GMAIL_APP_PASSWORD) {
+    throw new Error("Digest e-mails are sent with the Gmail channel's credentials; none are set");
+  }
+  const { raw } = buildMessage({ from: gmail.GMAIL_USER, to: [to], subject, text });
+  await sendMail(
+    {
+      host: env.GMAIL_SMTP_HOST,
+      port: env.GMAIL_SMTP_PORT,
+      secure: env.GMAIL_SMTP_PORT === 465,
+      auth: { user: gmail.GMAIL_USER, pass: gmail.GMAIL_APP_PASSWORD },
+    },
+    { from: gmail.GMAIL_USER, to: [to] },
+    raw,
+  );
+}
+
+/**
+ * Send the scheduled digest of the current account if it is due. Today's digest counts as sent
+ * even if a delivery failed, so a broken chat or mailbox is not retried every minute. During quiet
+ * hours the digest waits until they end.
+ * @returns The digest that was sent, or null if none was due
+ */
+export async function sendDigestIfDue(now: Date = new Date()): Promise<Digest | null> {
+  const calendar = getCalendar();
+  if (!isDigestDue(getDigestSettings(), now, calendar) || isQuietTime(calendar, now)) {
+    return null;
+  }
+  markDigestSent(localDay(now, calendar.timezone));
+  const digest = buildDigest(now);
+  await deliverDigest(digest);
+  return digest;
+}
@@ -0,0 +1,368 @@
+import type { AddressInfo } from "node:net";
+import http from "node:http";
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import type { BaseChannel, WorkItem } from "../channels/base.js";
+import type { Approval } from "./approvals.js";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+process.env.SOTERFLOW_LLM_API_KEY = "sk-test";
+
+const channels = vi.hoisted(() => [] as BaseChannel[]);
+vi.mock("./orchestrator.js", () => ({ getCachedChannels: () => channels }));
+
+function makeItem(overrides: Partial<WorkItem>): WorkItem {
+  return {
+    id: "jira-OPS-1",
+    source: "jira",
+    type: "issue",
+    title: "Fix login",
+    body: "Users cannot log in with SSO",
+    author: "alice",
+    timestamp: new Date("2026-03-02T09:00:00Z"),
+    priority: "normal",
+    url: "",
+    metadata: { key: "OPS-1" },
+    status: "new",
+    ...overrides,
+  };
+}
+
+function makeChannel(performAction: (...args: unknown[]) => Promise<void>, name = "jira") {
+  return {
+    name,
+    isConnected: () => true,
+    connect: vi.fn(async () => {}),
+    performAction: vi.fn(performAction),
+    canUndo: () => false,
+  } as unknown as BaseChannel & { performAction: ReturnType<typeof vi.fn> };
+}
+
+const never = () => new Promise<void>(() => {});
+
+/** GitHub channel on a fake Octokit that answers every call the skills make. */
+async function makeGitHubChannel(calls: string[]) {
+  const { GitHubChannel } = await import("../channels/github.js");
+  const call =
+    (name: string, data: unknown = {}) =>
+    async () => {
+      calls.push(name);
+      return { data };
+    };
+  const octokit = {
+    paginate: async (fn: () => Promise<{ data: unknown }>) => (await fn()).data,
+    pulls: {
+      get: call("pulls.get", {
+        head: { sha: "abc123" },
+        mergeable: true,
+        mergeable_state: "clean",
+      }),
+      listFiles: call("pulls.listFiles", []),
+      merge: call("pulls.merge"),
+      createReview: call("pulls.createReview"),
+      createReviewComment: call("pulls.createReviewComment"),
+    },
+    checks: { listForRef: call("checks.listForRef", []) },
+    issues: {
+      update: call("issues.update"),
+      createComment: call("issues.createComment"),
+      addLabels: call("issues.addLabels"),
+      addAssignees: call("issues.addAssignees"),
+    },
+    repos: { get: call("repos.get", { default_branch: "main" }) },
+    actions: {
+      createWorkflowDispatch: call("actions.createWorkflowDispatch"),
+      listWorkflowRunsForRepo: call("actions.listWorkflowRunsForRepo", { workflow_runs: [] }),
+    },
+  };
+  return Object.assign(new GitHubChannel(), { octokit, username: "me", _connected: true });
+}
+
+describe("Director", () => {
+  let server: http.Server;
+  let prompts: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const { messages } = JSON.parse(body) as { messages: Array<{ content: string }> };
+        prompts.push(messages.at(-1)?.content ?? "");
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ choices: [{ message: { content: "- SSO login is broken" } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    process.env.SOTERFLOW_LLM_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    const { upsert } = await import("../store/workitems.js");
+    upsert(makeItem({}));
+    upsert(makeItem({ id: "slack-1", source: "slack", type: "message" }));
+    upsert(
+      makeItem({
+        id: "github-pr-7",
+        source: "github",
+        type: "pr",
+        url: "https://github.com/acme/api/pull/7",
+        metadata: { repo: "acme/api", number: 7 },
+      }),
+    );
+    upsert(makeItem({ id: "linear-ENG-1", source: "linear", metadata: { key: "ENG-1" } }));
+    upsert(makeItem({ id: "gitlab-1", source: "gitlab", metadata: { projectId: 1, iid: 2 } }));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    channels.length = 0;
+    prompts = [];
+  });
+
+  async function finished(id: string) {
+    const { Director } = await import("./director.js");
+    await vi.waitFor(() => expect(Director.getInstance().getAgent(id)?.status).not.toBe("running"));
+    return Director.getInstance().getAgent(id)!;
+  }
+
+  it("runs a skill action on the item's channel and reports progress", async () => {
+    const { Director } = await import("./director.js");
+    const director = Director.getInstance();
+    const jira = makeChannel(async () => {});
+    channels.push(jira);
+    const updates: string[] = [];
+    director.onUpdate((agent) => updates.push(agent.status));
+
+    const agent = director.dispatch("jira-OPS-1", "jira-update", {
+      action: "comment",
+      params: { body: "Looking into it" },
+    });
+    expect(agent).toMatchObject({ status: "running", action: "comment", task: "jira-OPS-1" });
+
+    const done = await finished(agent.id);
+    expect(done.status).toBe("completed");
+    expect(done.result).toContain('comment done on "Fix login"');
+    expect(done.progress?.map((p) => p.message)).toContain("Executing comment on jira...");
+    expect(jira.performAction).toHaveBeenCalledWith("jira-OPS-1", "comment", {
+      key: "OPS-1",
+      body: "Looking into it",
+    });
+    expect(updates.at(-1)).toBe("completed");
+    expect(updates).toContain("running");
+  });
+
+  it("summarizes an item through the LLM provider", async () => {
+    const { Director } = await import("./director.js");
+    const agent = Director.getInstance().dispatch("jira-OPS-1", "summarize");
+    const done = await finished(agent.id);
+    expect(done).toMatchObject({ status: "completed", result: "- SSO login is broken" });
+    expect(prompts[0]).toContain("[jira issue] Fix login");
+    expect(prompts[0]).toContain("Users cannot log in with SSO");
+  });
+
+  it("fails agents that time out", async () => {
+    const { Director } = await import("./director.js");
+    channels.push(makeChannel(never));
+    const agent = Director.getInstance().dispatch("jira-OPS-1", "jira-update", {
+      action: "assign",
+      timeoutMs: 50,
+    });
+    const done = await finished(agent.id);
+    expect(done).toMatchObject({ status: "failed", error: "Timed out after 0.05s" });
+    expect(done.completedAt).toBeInstanceOf(Date);
+  });
+
+  it("cancels running agents", async () => {
+    const { Director } = await import("./director.js");
+    const director = Director.getInstance();
+    channels.push(makeChannel(never));
+    const agent = director.dispatch("jira-OPS-1", "jira-update", { action: "assign" });
+    await vi.waitFor(() =>
+      expect(director.getAgent(agent.id)?.progress?.length).toBeGreaterThan(0),
+    );
+
+    director.cancel(agent.id);
+    expect((await finished(agent.id)).status).toBe("cancelled");
+    expect(() => director.cancel(agent.id)).toThrow("Agent is already cancelled");
+    expect(director.cancel("missing")).toBeNull();
+  });
+
+  it("records channel errors", async () => {
+    const { Director } = await import("./director.js");
+    const agent = Director.getInstance().dispatch("jira-OPS-1", "jira-update", {
+      action: "comment",
+    });
+    expect(await finished(agent.id)).toMatchObject({
+      status: "failed",
+      error: "No channel for source: jira",
+    });
+  });
+
+  async function pendingApproval(agentId: string) {
+    const { Approvals } = await import("./approvals.js");
+    let approval: Approval | undefined;
+    await vi.waitFor(() => {
+      approval = Approvals.getInstance()
+        .list("pending")
+        .find((a) => a.agentId === agentId);
+      expect(approval).toBeDefined();
+    });
+    return approval!;
+  }
+
+  it("runs destructive actions once approved", async () => {
+    const { Director } = await import("./director.js");
+    const { Approvals } = await import("./approvals.js");
+    const director = Director.getInstance();
+    const jira = makeChannel(async () => {});
+    channels.push(jira);
+
+    const agent = director.dispatch("jira-OPS-1", "jira-update", {
+      action: "transition",
+      params: { status: "Done" },
+    });
+    const approval = await pendingApproval(agent.id);
+    expect(approval).toMatchObject({ action: "transition", classification: "destructive" });
+    expect(director.getAgent(agent.id)?.status).toBe("running");
+    expect(jira.performAction).not.toHaveBeenCalled();
+
+    const actor = { type: "telegram" as const, id: "42", name: "owner" };
+    expect(Approvals.getInstance().decide(approval.id, "approved", actor)).toMatchObject({
+      status: "approved",
+      decidedBy: actor,
+    });
+    expect((await finished(agent.id)).status).toBe("completed");
+    expect(jira.performAction).toHaveBeenCalledTimes(1);
+    expect(() => Approvals.getInstance().decide(approval.id, "rejected", actor)).toThrow(
+      "Approval is already approved",
+    );
+
+    const audit = director.getLogs().filter((l) => l.metadata?.approvalId === approval.id);
+    expect(audit.map((l) => l.message)).toContain(
+      `Approval ${approval.id}: transition on jira-OPS-1 approved by owner`,
+    );
+    expect(audit.some((l) => l.message.includes("requested"))).toBe(true);
+  });
+
+  it("cancels agents whose action is rejected", async () => {
+    const { Director } = await import("./director.js");
+    const { Approvals } = await import("./approvals.js");
+    const jira = makeChannel(async () => {});
+    channels.push(jira);
+    const agent = Director.getInstance().dispatch("jira-OPS-1", "jira-update", {
+      action: "transition",
+    });
+    const approval = await pendingApproval(agent.id);
+    Approvals.getInstance().decide(approval.id, "rejected", { type: "system", name: "local" });
+    expect(await finished(agent.id)).toMatchObject({
+      status: "cancelled",
+      error: "transition on jira-OPS-1 rejected by local",
+    });
+    expect(jira.performAction).not.toHaveBeenCalled();
+  });
+
+  it("cancels the approval of an agent cancelled while waiting", async () => {
+    const { Director } = await import("./director.js");
+    const { Approvals } = await import("./approvals.js");
+    const director = Director.getInstance();
+    const agent = director.dispatch("jira-OPS-1", "jira-update", { action: "transition" });
+    const approval = await pendingApproval(agent.id);
+    director.cancel(agent.id);
+    expect((await finished(agent.id)).status).toBe("cancelled");
+    expect(Approvals.getInstance().get(approval.id)?.status).toBe("cancelled");
+  });
+
+  it("expires approvals without a decision", async () => {
+    const { Approvals } = await import("./approvals.js");
+    const approvals = Approvals.getInstance();
+    const approval = approvals.create(
+      {
+        agentId: "agent-1",
+        itemId: "jira-OPS-1",
+        skill: "jira-update",
+        action: "transition",
+        classification: "destructive",
+      },
+      20,
+    );
+    const decided = await approvals.wait(approval, new AbortController().signal);
+    expect(decided.status).toBe("expired");
+  });
+
+  it("runs every action of the built-in skills", async () => {
+    const { Director } = await import("./director.js");
+    const { Approvals, classifyAction } = await import("./approvals.js");
+    const director = Director.getInstance();
+    const githubCalls: string[] = [];
+    channels.push(
+      await makeGitHubChannel(githubCalls),
+      ...["jira", "linear", "gitlab", "slack"].map((name) => makeChannel(async () => {}, name)),
+    );
+    const items: Record<string, string> = {
+      github: "github-pr-7",
+      jira: "jira-OPS-1",
+      linear: "linear-ENG-1",
+      gitlab: "gitlab-1",
+      slack: "slack-1",
+    };
+    const params: Record<string, Record<string, unknown>> = {
+      comment: { body: "On it" },
+      review: { body: "Looks fine" },
+      "request-changes": { body: "Needs tests" },
+      "inline-comment": { path: "a.ts", line: 3, body: "Why?" },
+      label: { labels: ["bug"] },
+      "trigger-workflow": { workflow: "deploy.yml" },
+    };
+
+    for (const skill of director.getSkills().filter((s) => !s.origin)) {
+      for (const action of skill.actions) {
+        const source = skill.applicableTo[0];
+        const agent = director.dispatch(items[source], skill.id, {
+          action,
+          params: params[action],
+        });
+        if ((skill.classification?.[action] ?? classifyAction(source, action)) === "destructive") {
+          const approval = await pendingApproval(agent.id);
+          Approvals.getInstance().decide(approval.id, "approved", { type: "system", name: "test" });
+        }
+        const done = await finished(agent.id);
+        expect([skill.id, action, done.status, done.error ?? null]).toEqual([
+          skill.id,
+          action,
+          "completed",
+          null,
+        ]);
+      }
+    }
+    for (const skill of director.getSkills()) {
+      // Approval policy only covers actions the skill runs
+      expect(skill.actions).toEqual(
+        expect.arrayContaining(Object.keys(skill.classification ?? {})),
+      );
+    }
+    expect(githubCalls).toEqual(
+      expect.arrayContaining([
+        "issues.addLabels",
+        "issues.addAssignees",
+        "actions.createWorkflowDispatch",
+        "actions.listWorkflowRunsForRepo",
+      ]),
+    );
+  });
+
+  it("rejects unknown items, actions and sources the skill does not apply to", async () => {
+    const { Director } = await import("./director.js");
+    const director = Director.getInstance();
+    expect(() => director.dispatch("missing", "summarize")).toThrow("Work item not found");
+    expect(() => director.dispatch("jira-OPS-1", "jira-update")).toThrow(
+      "Skill jira-update needs an action: transition, comment, assign",
+    );
+    expect(() => director.dispatch("jira-OPS-1", "jira-update", { action: "merge" })).toThrow(
+      "needs an action",
+    );
+    expect(() => director.dispatch("slack-1", "jira-update", { action: "comment" })).toThrow(
+      "Skill jira-update does not apply to slack items",
+    );
+  });
+});
@@ -1,10 +1,43 @@
 /**
  * @module agent/director
  * The Director — orchestration layer for sub-agent management, skills dispatch, logs, and memory.
+ * A dispatch starts a sub-agent that runs the skill's handler on the work item in the
+ * background; its progress, result or error are persisted in `sub_agents` and announced to
+ * listeners. Agents can be cancelled and time out after `SOTERFLOW_AGENT_TIMEOUT_SECONDS`.
+ * Besides the built-in skills, skills are loaded from manifests (see `agent/skill-registry`).
+ * Destructive actions wait for the owner's approval before they run (see `agent/approvals`).
  */
 
 import { randomUUID } from "node:crypto";
+import type { BaseChannel } from "../channels/base.js";
+import { env } from "../soterflow-env.js";
 import { getDb } from "../store/db.js";
+import { getById } from "../store/workitems.js";
+import {
+  Approvals,
+  approvalKeyboard,
+  approvalMessage,
+  classifyAction,
+  decisionText,
+  type ActionClass,
+  type ApprovalRequest,
+} from "./approvals.js";
+import { getCachedChannels } from "./orchestrator.js";
+import {
+  loadSkills,
+  skillDirs,
+  validateSkillInput,
+  watchSkillDirs,
+  type InputSchema,
+} from "./skill-registry.js";
+import {
+  runChannelAction,
+  runGitHubAction,
+  runSummarize,
+  type SkillContext,
+  type SkillHandler,
+} from "./skills.js";
+import { accountChatId, editTelegramMessage, sendTelegramMessage } from "./telegram.js";
 
 // --- Interfaces ---
 
@@ -12,14 +45,35 @@ export interface SubAgent {
   id: string;
   name: string;
   skill: string;
-  status: "idle" | "running" | "completed" | "failed";
+  status: "idle" | "running" | "completed" | "failed" | "cancelled";
+  /** Work item id. */
   task?: string;
+  /** Skill action being run. */
+  action?: string;
+  /** Steps reported while running, oldest first. */
+  progress?: AgentStep[];
   result?: string;
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
 }
 
+export interface AgentStep {
+  timestamp: Date;
+  message: string;
+}
+
+export interface DispatchOptions {
+  /** Skill action to run; may be omitted for skills with a single action. */
+  action?: string;
+  /** Action params, on top of the ones taken from the work item. */
+  params?: Record<string, unknown>;
+  /** Time limit (default: `SOTERFLOW_AGENT_TIMEOUT_SECONDS`). */
+  timeoutMs?: number;
+}
+
+type AgentListener = (agent: SubAgent) => void;
+
 export interface DirectorLog {
   id: string;
   timestamp: Date;
@@ -35,6 +89,14 @@ export interface Skill {
   description: string;
   applicableTo: string[];
   actions: string[];
+  /** Classes of actions that differ from `classifyAction`. */
+  classification?: Record<string, ActionClass>;
+  /** Schema the dispatch params are validated against. */
+  input?: InputSchema;
+  /** Runs an action of the skill (default: the action on the item's channel). */
+  run?: SkillHandler;
+  /** Manifest the skill was loaded from (unset for built-in skills). */
+  origin?: string;
 }
 
 // --- Skills registry ---
@@ -43,9 +105,20 @@ const SKILLS: Skill[] = [
   {
     id: "github-pr",
     name: "github-pr",
-    description: "Review, approve, merge PRs",
+    description: "Review diffs and checks, comment inline, request changes, approve, merge PRs",
     applicableTo: ["github"],
-    actions: ["approve", "merge", "comment", "close"],
+    actions: [
+      "diff",
+      "checks",
+      "inline-comment",
+      "review",
+      "request-changes",
+      "approve",
+      "merge",
+      "comment",
+      "close",
+    ],
+    run: runGitHubAction,
   },
   {
     id: "github-issue",
@@ -53,6 +126,7 @@ const SKILLS: Skill[] = [
     description: "Manage issues",
     applicableTo: ["github"],
     actions: ["comment", "close", "label", "assign"],
+    run: runGitHubAction,
   },
   {
     id: "jira-update",
@@ -61,6 +135,20 @@ const SKILLS: Skill[] = [
     applicableTo: ["jira"],
     actions: ["transition", "comment", "assign"],
   },
+  {
+    id: "linear-update",
+    name: "linear-update",
+    description: "Move issues through workflow states, comment, assign, set priority",
+    applicableTo: ["linear"],
+    actions: ["transition", "comment", "assign", "set-priority"],
+  },
+  {
+    id: "gitlab-mr",
+    name: "gitlab-mr",
+    description: "Approve, merge, comment on and close merge requests; clear to-dos",
+    applicableTo: ["gitlab"],
+    actions: ["approve", "merge", "comment", "close", "mark-todo-done"],
+  },
   {
     id: "slack-reply",
     name: "slack-reply",
@@ -74,13 +162,16 @@ const SKILLS: Skill[] = [
     description: "Trigger CI/CD pipelines",
     applicableTo: ["github"],
     actions: ["trigger-workflow", "check-status"],
+    classification: { "trigger-workflow": "destructive", "check-status": "read-only" },
+    run: runGitHubAction,
   },
   {
     id: "summarize",
     name: "summarize",
     description: "Summarize a work item or thread",
-    applicableTo: ["github", "jira", "slack"],
+    applicableTo: ["github", "jira", "slack", "linear", "gitlab"],
     actions: ["summarize"],
+    run: runSummarize,
   },
 ];
 
@@ -96,12 +187,43 @@ export class Director {
     return Director.instance;
   }
 
-  /** Dispatch a task: create a sub-agent, assign skill, simulate execution. */
-  dispatch(workItemId: string, skillName: string): SubAgent {
-    const skill = SKILLS.find((s) => s.id === skillName);
+  /** Abort controllers of the agents running in this process. */
+  private running = new Map<string, AbortController>();
+  private listeners: AgentListener[] = [];
+  /** Skills loaded from manifests. */
+  private loaded: Skill[] = [];
+  private stopWatching: (() => void) | null = null;
+
+  /** Register a callback invoked whenever an agent reports progress or finishes. */
+  onUpdate(listener: AgentListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Dispatch a task: create a sub-agent and run the skill on the work item in the background.
+   * A destructive action first waits for approval; the time limit starts once it is approved.
+   * @returns The running agent
+   * @throws Error if the skill, item or action is unknown, or the skill does not apply
+   */
+  dispatch(workItemId: string, skillName: string, options: DispatchOptions = {}): SubAgent {
+    const skill = this.getSkills().find((s) => s.id === skillName);
     if (!skill) {
       throw new Error(`Unknown skill: ${skillName}`);
     }
+    const item = getById(workItemId);
+    if (!item) {
+      throw new Error(`Work item not found: ${workItemId}`);
+    }
+    if (!skill.applicableTo.includes(item.source)) {
+      throw new Error(`Skill ${skillName} does not apply to ${item.source} items`);
+    }
+    const action = options.action ?? (skill.actions.length === 1 ? skill.actions[0] : undefined);
+    if (!action || !skill.actions.includes(action)) {
+      throw new Error(`Skill ${skillName} needs an action: ${skill.actions.join(", ")}`);
+    }
+    if (skill.input) {
+      validateSkillInput(skill.input, options.params ?? {});
+    }
 
     const agent: SubAgent = {
       id: randomUUID(),
@@ -109,43 +231,260 @@ export class Director {
       skill: skillName,
       status: "running",
       task: workItemId,
+      action,
+      progress: [],
       startedAt: new Date(),
     };
 
     // Persist
     const db = getDb();
     db.prepare(
-      `INSERT INTO sub_agents (id, name, skill, status, task, result, started_at, completed_at, error)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO sub_agents (id, name, skill, status, task, action, progress, result, started_at, completed_at, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     ).run(
       agent.id,
       agent.name,
       agent.skill,
       agent.status,
       agent.task ?? null,
+      action,
+      "[]",
       agent.result ?? null,
       agent.startedAt?.toISOString() ?? null,
       agent.completedAt?.toISOString() ?? null,
       agent.error ?? null,
     );
 
-    this.log("info", `Dispatched ${skillName} for work item ${workItemId}`, agent.id);
+    this.log("info", `Dispatched ${skillName} (${action}) for work item ${workItemId}`, agent.id);
 
-    // Simulate async completion after 2s
-    setTimeout(() => {
-      this.completeAgent(agent.id, `Completed ${skillName} on ${workItemId}`);
-    }, 2000);
+    const controller = new AbortController();
+    this.running.set(agent.id, controller);
+    const classification = skill.classification?.[action] ?? classifyAction(item.source, action);
+    const approval: ApprovalRequest | null =
+      classification === "destructive"
+        ? {
+            agentId: agent.id,
+            itemId: workItemId,
+            skill: skillName,
+            action,
+            params: options.params,
+            classification,
+          }
+        : null;
+
+    const context: SkillContext = {
+      item,
+      channel: null,
+      action,
+      params: options.params ?? {},
+      actor: { type: "agent", id: agent.id, name: agent.name },
+      signal: controller.signal,
+      progress: (step) => this.reportProgress(agent, step),
+    };
+    void this.execute(agent, skill.run ?? runChannelAction, context, controller, {
+      timeoutMs: options.timeoutMs ?? env.SOTERFLOW_AGENT_TIMEOUT_SECONDS * 1000,
+      approval,
+    })
+      .catch((e: unknown) => {
+        const msg = e instanceof Error ? e.message : String(e);
+        this.log("error", `Agent ${agent.id} failed: ${msg}`, agent.id);
+      })
+      .finally(() => this.running.delete(agent.id));
 
-    return agent;
+    return { ...agent, progress: [] };
   }
 
-  private completeAgent(id: string, result: string): void {
-    const db = getDb();
-    const now = new Date().toISOString();
-    db.prepare(
-      `UPDATE sub_agents SET status = 'completed', result = ?, completed_at = ? WHERE id = ?`,
-    ).run(result, now, id);
-    this.log("info", `Agent ${id} completed`, id);
+  /**
+   * Cancel a running agent. Work already sent to a remote system is not rolled back.
+   * @returns The cancelled agent, or null if it does not exist
+   * @throws Error if the agent is no longer running
+   */
+  cancel(id: string): SubAgent | null {
+    const agent = this.getAgent(id);
+    if (!agent) {
+      return null;
+    }
+    if (agent.status !== "running") {
+      throw new Error(`Agent is already ${agent.status}`);
+    }
+    const controller = this.running.get(id);
+    if (controller) {
+      controller.abort(new AgentCancelled());
+    } else {
+      // Left running by a previous process
+      this.finishAgent(agent, "cancelled", { error: "Cancelled" });
+    }
+    return this.getAgent(id);
+  }
+
+  /**
+   * Wait for approval if needed, run the handler until it settles or the agent is aborted,
+   * then persist the outcome.
+   */
+  private async execute(
+    agent: SubAgent,
+    run: SkillHandler,
+    context: SkillContext,
+    controller: AbortController,
+    options: { timeoutMs: number; approval: ApprovalRequest | null },
+  ): Promise<void> {
+    const { signal } = context;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      if (options.approval) {
+        await this.awaitApproval(agent, context, options.approval);
+      }
+      timer = setTimeout(
+        () => controller.abort(new Error(`Timed out after ${options.timeoutMs / 1000}s`)),
+        options.timeoutMs,
+      );
+      timer.unref?.();
+      const aborted = new Promise<never>((_, reject) => {
+        if (signal.aborted) {
+          reject(signal.reason);
+        }
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+      });
+      const work = (async () => {
+        context.channel = await this.connectedChannel(context.item.source, context.progress);
+        return run(context);
+      })();
+      // A handler that ignores the signal keeps running; its late outcome is dropped
+      work.catch(() => {});
+      const result = await Promise.race([work, aborted]);
+      this.finishAgent(agent, "completed", { result });
+    } catch (e: unknown) {
+      const reason = signal.aborted ? signal.reason : e;
+      if (reason instanceof AgentCancelled) {
+        this.finishAgent(agent, "cancelled", { error: reason.message });
+      } else {
+        this.finishAgent(agent, "failed", {
+          error: reason instanceof Error ? reason.message : String(reason),
+        });
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Ask the owner to approve the action (in the Mini App and on Telegram) and wait.
+   * @throws AgentCancelled if it is rejected or the agent is cancelled, Error if it expires
+   */
+  private async awaitApproval(
+    agent: SubAgent,
+    context: SkillContext,
+    request: ApprovalRequest,
+  ): Promise<void> {
+    const approvals = Approvals.getInstance();
+    const approval = approvals.create(request);
+    const audit = { approvalId: approval.id, action: request.action, itemId: request.itemId };
+    this.log(
+      "info",
+      `Approval ${approval.id} requested: ${request.action} on ${request.itemId} is ${request.classification}`,
+      agent.id,
+      audit,
+    );
+    this.reportProgress(agent, `Waiting for approval of ${request.action}...`);
+
+    const chatId = accountChatId();
+    const sent = sendTelegramMessage(chatId, approvalMessage(approval, context.item), {
+      replyMarkup: approvalKeyboard(approval.id),
+    }).then(
+      (messageId) => {
+        approvals.setTelegramMessage(approval.id, messageId);
+        return messageId;
+      },
+      (e: unknown) => {
+        const msg = e instanceof Error ? e.message : String(e);
+        this.log("warn", `Approval ${approval.id} not sent to Telegram: ${msg}`, agent.id, audit);
+        return null;
+      },
+    );
+
+    let decided = approval;
+    try {
+      decided = await approvals.wait(approval, context.signal);
+    } finally {
+      // Also when the agent is cancelled while waiting
+      decided = approvals.get(approval.id) ?? decided;
+      this.log(
+        decided.status === "approved" ? "info" : "warn",
+        `Approval ${approval.id}: ${decisionText(decided)}`,
+        agent.id,
+        { ...audit, status: decided.status, decidedBy: decided.decidedBy },
+      );
+      const text = `🛡️ ${decisionText(decided)}`;
+      void sent.then((messageId) =>
+        messageId ? editTelegramMessage(chatId, messageId, text).catch(() => {}) : undefined,
+      );
+    }
+    if (decided.status === "rejected") {
+      throw new AgentCancelled(decisionText(decided));
+    }
+    if (decided.status !== "approved") {
+      throw new Error(`Approval ${decided.status}: ${request.action} was not approved in time`);
+    }
+    this.reportProgress(agent, `${request.action} approved`);
+  }
+
+  /** The connected channel of a source, or null if it is not configured. */
+  private async connectedChannel(
+    source: string,
+    progress: (step: string) => void,
+  ): Promise<BaseChannel | null> {
+    const channel = getCachedChannels().find((c) => c.name === source);
+    if (channel && !channel.isConnected()) {
+      progress(`Connecting to ${source}...`);
+      await channel.connect();
+    }
+    return channel ?? null;
+  }
+
+  private reportProgress(agent: SubAgent, message: string): void {
+    if (agent.status !== "running") {
+      return;
+    }
+    agent.progress = [...(agent.progress ?? []), { timestamp: new Date(), message }];
+    getDb()
+      .prepare(`UPDATE sub_agents SET progress = ? WHERE id = ?`)
+      .run(JSON.stringify(agent.progress), agent.id);
+    this.notify(agent);
+  }
+
+  private finishAgent(
+    agent: SubAgent,
+    status: "completed" | "failed" | "cancelled",
+    outcome: { result?: string; error?: string },
+  ): void {
+    agent.status = status;
+    agent.result = outcome.result;
+    agent.error = outcome.error;
+    agent.completedAt = new Date();
+    getDb()
+      .prepare(
+        `UPDATE sub_agents SET status = ?, result = ?, error = ?, completed_at = ? WHERE id = ?`,
+      )
+      .run(
+        status,
+        outcome.result ?? null,
+        outcome.error ?? null,
+        agent.completedAt.toISOString(),
+        agent.id,
+      );
+    if (status === "failed") {
+      this.log("error", `Agent ${agent.id} failed: ${outcome.error}`, agent.id);
+    } else {
+      this.log("info", `Agent ${agent.id} ${status}`, agent.id);
+    }
+    this.notify(agent);
+  }
+
+  private notify(agent: SubAgent): void {
+    const snapshot = { ...agent, progress: [...(agent.progress ?? [])] };
+    for (const listener of this.listeners) {
+      listener(snapshot);
+    }
   }
 
   getAgents(): SubAgent[] {
@@ -220,7 +559,53 @@ export class Director {
   }
 
   getSkills(): Skill[] {
-    return SKILLS;
+    return [...SKILLS, ...this.loaded];
+  }
+
+  /**
+   * (Re)load the skills of `SOTERFLOW_SKILLS_DIRS`. Invalid manifests are skipped and logged;
+   * skills already running keep their previous handler.
+   * @returns The loaded skills
+   */
+  async reloadSkills(dirs = skillDirs()): Promise<Skill[]> {
+    const { skills, errors } = await loadSkills(dirs);
+    this.loaded = [];
+    for (const skill of skills) {
+      if (SKILLS.some((s) => s.id === skill.id)) {
+        errors.push({ path: skill.origin, error: `Duplicate skill id: ${skill.id}` });
+        continue;
+      }
+      this.loaded.push({ ...skill, name: skill.id });
+    }
+    for (const { path, error } of errors) {
+      this.log("warn", `Skipped skill ${path}: ${error}`, undefined, { path });
+    }
+    this.log("info", `Loaded ${this.loaded.length} skill(s) from ${dirs.join(", ")}`);
+    return this.loaded;
+  }
+
+  /** Load the skills and reload them whenever their directories change. */
+  async watchSkills(dirs = skillDirs()): Promise<void> {
+    this.unwatchSkills();
+    await this.reloadSkills(dirs);
+    this.stopWatching = watchSkillDirs(dirs, () => {
+      this.reloadSkills(dirs).catch((e: unknown) => {
+        const msg = e instanceof Error ? e.message : String(e);
+        this.log("error", `Reloading skills failed: ${msg}`);
+      });
+    });
+  }
+
+  unwatchSkills(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+  }
+}
+
+/** Abort reason of a cancelled agent. */
+class AgentCancelled extends Error {
+  constructor(message = "Cancelled") {
+    super(message);
   }
 }
 
@@ -231,6 +616,13 @@ function rowToAgent(r: any): SubAgent {
     skill: r.skill,
     status: r.status,
     task: r.task ?? undefined,
+    action: r.action ?? undefined,
+    progress: r.progress
+      ? (JSON.parse(r.progress) as Array<{ timestamp: string; message: string }>).map((p) => ({
+          timestamp: new Date(p.timestamp),
+          message: p.message,
+        }))
+      : [],
     result: r.result ?? undefined,
     startedAt: r.started_at ? new Date(r.started_at) : undefined,
     completedAt: r.completed_at ? new Date(r.completed_at) : undefined,
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItem } from "../channels/base.js";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+
+const { extractReferences, linkItems, getRelatedItems, proposeLinkedActions } =
+  await import("./links.js");
+const { updateStatus, upsert } = await import("../store/workitems.js");
+
+function makeItem(overrides: Partial<WorkItem>): WorkItem {
+  return {
+    id: "x",
+    source: "github",
+    type: "notification",
+    title: "t",
+    body: "",
+    author: "a",
+    timestamp: new Date(),
+    priority: "normal",
+    url: "",
+    metadata: {},
+    status: "new",
+    ...overrides,
+  };
+}
+
+describe("extractReferences", () => {
+  it("finds issue keys, GitHub refs and URLs in title, body and metadata", () => {
+    const refs = extractReferences(
+      makeItem({
+        title: "PROJ-12: fix login",
+        body:
+          "Closes Acme/API#7, see https://github.com/acme/web/pull/3 and " +
+          "https://acme.slack.com/archives/C01/p1700000000000100.",
+        metadata: {
+          branch: "feature/ops-4",
+          links: ["https://gitlab.com/group/app/-/merge_requests/5"],
+        },
+      }),
+    );
+    expect(refs).toEqual(
+      expect.arrayContaining([
+        "jira:PROJ-12",
+        "linear:PROJ-12",
+        "github:acme/api#7",
+        "github:acme/web#3",
+        "gitlab:group/app!5",
+        "slack:C01:1700000000.000100",
+        "url:https://acme.slack.com/archives/C01/p1700000000000100",
+      ]),
+    );
+    expect(refs).not.toContain("jira:ops-4");
+  });
+
+  it("uses the thread of a Slack reply permalink", () => {
+    const refs = extractReferences(
+      makeItem({
+        body: "https://acme.slack.com/archives/C01/p1700000000000500?thread_ts=1700000000.000100&cid=C01",
+      }),
+    );
+    expect(refs).toContain("slack:C01:1700000000.000100");
+  });
+});
+
+describe("linkItems", () => {
+  const pr = makeItem({
+    id: "github-pr-1",
+    type: "pr",
+    title: "PROJ-12: fix login",
+    body: "Closes acme/api#7",
+    url: "https://github.com/acme/api/pull/42",
+    metadata: { repo: "acme/api", number: 42 },
+  });
+  const issue = makeItem({
+    id: "github-issue-7",
+    type: "issue",
+    title: "Login broken",
+    url: "https://github.com/acme/api/issues/7",
+    metadata: { repo: "acme/api", number: 7 },
+  });
+  const ticket = makeItem({
+    id: "jira-PROJ-12",
+    source: "jira",
+    type: "issue",
+    title: "Users cannot log in",
+    metadata: { key: "PROJ-12" },
+  });
+  const thread = makeItem({
+    id: "slack-C01-1700000000.000100",
+    source: "slack",
+    type: "message",
+    title: "Login fix",
+    body: "PR is up: acme/api#42",
+    metadata: { channel: "C01", ts: "1700000000.000100" },
+  });
+
+  it("links items that reference each other, once", () => {
+    for (const item of [pr, issue, ticket, thread]) {
+      upsert(item);
+    }
+    expect(linkItems()).toBe(3);
+    expect(linkItems()).toBe(0);
+
+    const related = getRelatedItems(pr.id)!;
+    expect(related.map((r) => [r.id, r.ref])).toEqual(
+      expect.arrayContaining([
+        [ticket.id, "jira:PROJ-12"],
+        [issue.id, "github:acme/api#7"],
+        [thread.id, "github:acme/api#42"],
+      ]),
+    );
+    expect(related).toHaveLength(3);
+    expect(getRelatedItems(ticket.id)!.map((r) => r.id)).toEqual([pr.id]);
+    expect(getRelatedItems("missing")).toBeNull();
+  });
+
+  it("proposes completing the open linked items when a PR is merged", () => {
+    expect(proposeLinkedActions(pr, "approve")).toEqual([]);
+    const proposals = proposeLinkedActions(pr, "merge");
+    expect(proposals).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          itemId: ticket.id,
+          action: "transition",
+          params: { key: "PROJ-12", to: "Done" },
+          reason: "PROJ-12: fix login was merged",
+        }),
+        expect.objectContaining({
+          itemId: issue.id,
+          action: "close",
+          params: { owner: "acme", repo: "api", number: 7 },
+        }),
+      ]),
+    );
+    expect(proposals).toHaveLength(2);
+
+    updateStatus(ticket.id, "done");
+    expect(proposeLinkedActions(pr, "merge").map((p) => p.itemId)).toEqual([issue.id]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * @module agent/links
+ * Cross-source linking. After each sync the items' titles, bodies and metadata are scanned for
+ * references to other items — Jira/Linear issue keys, GitHub `owner/repo#n`, and GitHub,
+ * GitLab, Slack and other URLs — and items that reference each other are linked. Completing an
+ * item (merging or closing it) proposes the matching action on its linked items, such as
+ * moving the Jira ticket of a merged pull request to Done.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import { addLinks, getLinks } from "../store/links.js";
+import { getAll, getByConversation, getById } from "../store/workitems.js";
+import { conversationKey } from "./conversations.js";
+
+/** A linked item and the reference that links it. */
+export type RelatedItem = WorkItem & { ref: string };
+
+/** An action on a linked item, ready for `POST /api/inbox/:id/action`. */
+export interface LinkedActionProposal {
+  itemId: string;
+  source: string;
+  title: string;
+  action: string;
+  params: Record<string, unknown>;
+  /** Why it is proposed, e.g. `acme/api#42 was merged`. */
+  reason: string;
+}
+
+/** Jira and Linear issue keys, e.g. `PROJ-123`. */
+const ISSUE_KEY = /\b([A-Z][A-Z0-9]{1,9}-\d+)\b/g;
+const GITHUB_REF = /(?<![\w/.-])([\w.-]+\/[\w.-]+)#(\d+)\b/g;
+const GITHUB_URL = /github\.com\/([\w.-]+\/[\w.-]+)\/(?:pull|pulls|issues)\/(\d+)/g;
+const GITLAB_URL =
+  /https?:\/\/[^\s/]+\/([\w.-]+(?:\/[\w.-]+)+)\/-\/(merge_requests|issues)\/(\d+)/g;
+const SLACK_URL =
+  /slack\.com\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})(?:\S*?thread_ts=(\d+\.\d+))?/g;
+const ANY_URL = /https?:\/\/[^\s<>()"'`\]]+/g;
+
+/** Actions that finish an item, proposing to finish its linked items too. */
+const COMPLETING_ACTIONS = new Set(["merge", "close"]);
+
+/** `url:` key of a URL, ignoring trailing punctuation and slashes. */
+function urlKey(url: string): string {
+  return `url:${url.replace(/[.,;:!?]+$/, "").replace(/\/+$/, "")}`;
+}
+
+/** Keys other items can reference this item by: its conversation and its URL. */
+function itemKeys(item: WorkItem): string[] {
+  const keys: string[] = [];
+  const conversation = item.conversationId ?? conversationKey(item);
+  if (conversation) {
+    keys.push(conversation);
+  }
+  if (item.url) {
+    keys.push(urlKey(item.url));
+  }
+  return keys;
+}
+
+/** Text of an item that may mention other items: title, body and string metadata. */
+function searchableText(item: WorkItem): string {
+  const parts = [item.title, item.body];
+  for (const value of Object.values(item.metadata ?? {})) {
+    if (typeof value === "string") {
+      parts.push(value);
+    } else if (Array.isArray(value)) {
+      parts.push(...value.filter((v): v is string => typeof v === "string"));
+    }
+  }
+  return parts.join("\n");
+}
+
+/**
+ * References an item makes to other items, as conversation keys (`jira:PROJ-1`,
+ * `linear:PROJ-1`, `github:acme/api#42`, `gitlab:group/app!7`, `slack:C1:1700000000.000100`)
+ * or `url:` keys. An issue key could be Jira's or Linear's, so both are returned.
+ */
+export function extractReferences(item: WorkItem): string[] {
+  const text = searchableText(item);
+  const refs = new Set<string>();
+  for (const [, key] of text.matchAll(ISSUE_KEY)) {
+    refs.add(`jira:${key}`);
+    refs.add(`linear:${key}`);
+  }
+  for (const [, repo, number] of text.matchAll(GITHUB_REF)) {
+    refs.add(`github:${repo.toLowerCase()}#${number}`);
+  }
+  for (const [, repo, number] of text.matchAll(GITHUB_URL)) {
+    refs.add(`github:${repo.toLowerCase()}#${number}`);
+  }
+  for (const [, project, kind, iid] of text.matchAll(GITLAB_URL)) {
+    refs.add(`gitlab:${project}${kind === "issues" ? "#" : "!"}${iid}`);
+  }
+  for (const [, channel, seconds, micros, threadTs] of text.matchAll(SLACK_URL)) {
+    refs.add(`slack:${channel}:${threadTs ?? `${seconds}.${micros}`}`);
+  }
+  for (const [url] of text.matchAll(ANY_URL)) {
+    refs.add(urlKey(url));
+  }
+  return [...refs];
+}
+
+/**
+ * Link the items that reference each other (default: all stored items). Items of the same
+ * conversation are not linked; they already share an inbox row.
+ * @returns How many new links were stored
+ */
+export function linkItems(items: WorkItem[] = getAll()): number {
+  const byKey = new Map<string, WorkItem[]>();
+  for (const item of items) {
+    for (const key of itemKeys(item)) {
+      byKey.set(key, [...(byKey.get(key) ?? []), item]);
+    }
+  }
+  const links: Array<{ itemId: string; linkedId: string; ref: string }> = [];
+  for (const item of items) {
+    const own = new Set(itemKeys(item));
+    for (const ref of extractReferences(item)) {
+      if (own.has(ref)) {
+        continue;
+      }
+      for (const target of byKey.get(ref) ?? []) {
+        const sameConversation =
+          !!item.conversationId && item.conversationId === target.conversationId;
+        if (target.id !== item.id && !sameConversation) {
+          links.push({ itemId: item.id, linkedId: target.id, ref });
+        }
+      }
+    }
+  }
+  return addLinks(links);
+}
+
+/**
+ * Items linked to an item or to another item of its conversation, one per linked
+ * conversation.
+ * @returns The related items, or null if the item does not exist
+ */
+export function getRelatedItems(id: string): RelatedItem[] | null {
+  const item = getById(id);
+  if (!item) {
+    return null;
+  }
+  const members = item.conversationId ? getByConversation(item.conversationId) : [item];
+  const memberIds = new Set([item.id, ...members.map((m) => m.id)]);
+  const related = new Map<string, RelatedItem>();
+  for (const link of getLinks([...memberIds])) {
+    const linked = memberIds.has(link.linkedId) ? null : getById(link.linkedId);
+    const key = linked ? (linked.conversationId ?? linked.id) : null;
+    if (linked && key && !related.has(key)) {
+      related.set(key, { ...linked, ref: link.ref });
+    }
+  }
+  return [...related.values()];
+}
+
+/**
+ * Actions to propose on the open linked items after `action` succeeded on `item`: merging or
+ * closing it proposes moving linked Jira and Linear issues to Done and closing linked GitHub
+ * and GitLab issues.
+ */
+export function proposeLinkedActions(item: WorkItem, action: string): LinkedActionProposal[] {
+  if (!COMPLETING_ACTIONS.has(action)) {
+    return [];
+  }
+  const reason = `${item.title} was ${action === "merge" ? "merged" : "closed"}`;
+  const proposals: LinkedActionProposal[] = [];
+  for (const related of getRelatedItems(item.id) ?? []) {
+    if (related.status === "done" || related.status === "dismissed") {
+      continue;
+    }
+    const proposal = linkedAction(related);
+    if (proposal) {
+      proposals.push({
+        itemId: related.id,
+        source: related.source,
+        title: related.title,
+        ...proposal,
+        reason,
+      });
+    }
+  }
+  return proposals;
+}
+
+/** The action that completes a linked item, or null if there is none. */
+function linkedAction(item: WorkItem): { action: string; params: Record<string, unknown> } | null {
+  const meta = item.metadata ?? {};
+  switch (item.source) {
+    case "jira":
+      return { action: "transition", params: { key: meta.key, to: "Done" } };
+    case "linear":
+      return { action: "transition", params: { key: meta.key, state: "Done" } };
+    case "github": {
+      if (item.type !== "issue" || typeof meta.repo !== "string" || meta.number === undefined) {
+        return null;
+      }
+      const [owner, repo] = meta.repo.split("/");
+      return { action: "close", params: { owner, repo, number: meta.number } };
+    }
+    case "gitlab":
+      return item.type === "issue"
+        ? {
+            action: "close",
+            params: { projectId: meta.projectId, iid: meta.iid, kind: meta.kind ?? "issues" },
+          }
+        : null;
+    default:
+      return null;
+  }
+}
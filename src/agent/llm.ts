@@ -0,0 +1,68 @@
+/**
+ * @module agent/llm
+ * Text completion through the configured LLM provider: any OpenAI-compatible chat completions
+ * API (`SOTERFLOW_LLM_URL`, `SOTERFLOW_LLM_API_KEY`, `SOTERFLOW_LLM_MODEL`).
+ */
+
+import { withRetry } from "../channels/retry.js";
+import { env } from "../soterflow-env.js";
+
+export interface CompletionOptions {
+  /** System prompt. */
+  system?: string;
+  /** Aborts the request (e.g. when the agent is cancelled or times out). */
+  signal?: AbortSignal;
+  maxTokens?: number;
+}
+
+/** Whether an LLM provider is configured. */
+export function isLlmConfigured(): boolean {
+  return !!env.SOTERFLOW_LLM_API_KEY;
+}
+
+/**
+ * Complete a prompt with the configured model.
+ * @returns The model's reply
+ * @throws Error if no provider is configured or the provider rejects the request
+ */
+export async function complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+  if (!isLlmConfigured()) {
+    throw new Error("No LLM provider configured (set SOTERFLOW_LLM_API_KEY)");
+  }
+  const url = `${env.SOTERFLOW_LLM_URL.replace(/\/+$/, "")}/chat/completions`;
+  const messages = [
+    ...(options.system ? [{ role: "system", content: options.system }] : []),
+    { role: "user", content: prompt },
+  ];
+  return withRetry(async () => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${env.SOTERFLOW_LLM_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: env.SOTERFLOW_LLM_MODEL,
+        messages,
+        max_tokens: options.maxTokens ?? 500,
+      }),
+      signal: options.signal,
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      const err = new Error(`LLM API error: ${res.status} ${text || res.statusText}`) as Error & {
+        status: number;
+        response: { headers: Headers };
+      };
+      err.status = res.status;
+      err.response = { headers: res.headers };
+      throw err;
+    }
+    const data = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> };
+    const content = data.choices?.[0]?.message?.content?.trim();
+    if (!content) {
+      throw new Error("LLM returned an empty reply");
+    }
+    return content;
+  });
+}
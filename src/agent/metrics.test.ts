@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItem } from "../channels/base.js";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+
+function makeItem(overrides: Partial<WorkItem>): WorkItem {
+  return {
+    id: "x",
+    source: "github",
+    type: "notification",
+    title: "t",
+    body: "",
+    author: "a",
+    timestamp: new Date(),
+    priority: "normal",
+    url: "",
+    metadata: {},
+    status: "new",
+    ...overrides,
+  };
+}
+
+describe("SLA targets", () => {
+  it("parses working-time durations per key", async () => {
+    const { parseSlaTargets } = await import("./metrics.js");
+    expect(parseSlaTargets("review=4h, github:pr=1d,Jira=30m")).toEqual({
+      review: 4,
+      "github:pr": 24,
+      jira: 0.5,
+    });
+    expect(parseSlaTargets("")).toEqual({});
+    expect(() => parseSlaTargets("review")).toThrow("Invalid SLA target: review");
+  });
+
+  it("picks the most specific target", async () => {
+    const { slaTargetFor } = await import("./metrics.js");
+    const targets = { review: 4, "github:pr": 8, pr: 16, jira: 24 };
+    const review = makeItem({ type: "pr", metadata: { reviewRequested: true } });
+    expect(slaTargetFor(review, targets)).toEqual({ key: "review", hours: 4 });
+    expect(slaTargetFor(makeItem({ type: "pr" }), targets)).toEqual({ key: "github:pr", hours: 8 });
+    expect(slaTargetFor(makeItem({ source: "jira", type: "task" }), targets)).toEqual({
+      key: "jira",
+      hours: 24,
+    });
+    expect(slaTargetFor(makeItem({ source: "slack" }), targets)).toBeNull();
+  });
+});
+
+describe("response times", () => {
+  it("records first action and done times from the history", async () => {
+    const { upsert, updateStatus, getTimings } = await import("../store/workitems.js");
+    upsert(makeItem({ id: "tracked" }));
+    updateStatus("tracked", "seen", { type: "cli" });
+    updateStatus("tracked", "dismissed", { type: "rule", id: "r1" });
+    let [timing] = getTimings(new Date(0)).filter((t) => t.item.id === "tracked");
+    expect(timing.firstSeenAt).toBeInstanceOf(Date);
+    expect(timing.firstActionAt).toBeNull();
+
+    updateStatus("tracked", "done", { type: "telegram", id: "1" });
+    [timing] = getTimings(new Date(0)).filter((t) => t.item.id === "tracked");
+    expect(timing.firstActionAt).toBeInstanceOf(Date);
+    expect(timing.doneAt).toEqual(timing.firstActionAt);
+
+    updateStatus("tracked", "in_progress", { type: "cli" });
+    [timing] = getTimings(new Date(0)).filter((t) => t.item.id === "tracked");
+    expect(timing.doneAt).toBeNull();
+  });
+
+  it("groups response times by week and flags SLA breaches", async () => {
+    const { getDb } = await import("../store/db.js");
+    const { upsert } = await import("../store/workitems.js");
+    const { computeMetrics } = await import("./metrics.js");
+    getDb().exec("DELETE FROM workitems");
+
+    const setTimes = (id: string, seen: Date, action: Date | null, done: Date | null) =>
+      getDb()
+        .prepare(
+          "UPDATE workitems SET first_seen_at = ?, first_action_at = ?, done_at = ? WHERE id = ?",
+        )
+        .run(seen.toISOString(), action?.toISOString() ?? null, done?.toISOString() ?? null, id);
+
+    const review = { type: "pr" as const, metadata: { reviewRequested: true, repo: "acme/api" } };
+    upsert(makeItem({ id: "fast", ...review, status: "done" }));
+    setTimes("fast", new Date(2025, 0, 6, 10), new Date(2025, 0, 6, 11), new Date(2025, 0, 6, 15));
+    // Friday 16:00 → Monday 12:00 is 4 working hours
+    upsert(makeItem({ id: "weekend", ...review, status: "in_progress" }));
+    setTimes("weekend", new Date(2025, 0, 10, 16), new Date(2025, 0, 13, 12), null);
+    upsert(makeItem({ id: "slow", ...review, title: "Slow review", status: "seen" }));
+    setTimes("slow", new Date(2025, 0, 14, 9), new Date(2025, 0, 14, 15), null);
+    upsert(makeItem({ id: "waiting", ...review, title: "Unanswered" }));
+    setTimes("waiting", new Date(2025, 0, 15, 9), null, null);
+    upsert(makeItem({ id: "ticket", source: "jira", type: "task", metadata: { key: "OPS-7" } }));
+    setTimes("ticket", new Date(2025, 0, 15, 10), null, null);
+
+    const metrics = computeMetrics({
+      groupBy: "repo",
+      weeks: 2,
+      targets: { review: 4 },
+      now: new Date(2025, 0, 16, 12),
+    });
+
+    expect(metrics.weekly.map((w) => w.weekStart)).toEqual(["2025-01-06", "2025-01-13"]);
+    expect(metrics.weekly[0]).toMatchObject({ items: 2, responded: 2, medianResponseHours: 1 });
+    expect(metrics.weekly[1]).toMatchObject({ items: 3, responded: 1, breaches: 2 });
+    expect(metrics.total).toMatchObject({ items: 5, done: 1, medianDoneHours: 5 });
+    expect(metrics.groups.map((g) => g.key)).toEqual(["acme/api", "OPS"]);
+    expect(metrics.breaches).toEqual([
+      expect.objectContaining({ id: "waiting", responseHours: 11, open: true }),
+      expect.objectContaining({ id: "slow", target: "review", responseHours: 6, open: false }),
+    ]);
+  });
+
+  it("starts weeks on Monday in the calendar's timezone", async () => {
+    const { getDb } = await import("../store/db.js");
+    const { upsert } = await import("../store/workitems.js");
+    const { defaultCalendar } = await import("./calendar.js");
+    const { computeMetrics } = await import("./metrics.js");
+    getDb().exec("DELETE FROM workitems");
+
+    upsert(makeItem({ id: "sunday" }));
+    getDb()
+      .prepare("UPDATE workitems SET first_seen_at = ? WHERE id = ?")
+      .run("2025-01-13T02:00:00.000Z", "sunday");
+
+    // 03:00 UTC on Monday is still Sunday evening in New York
+    const metrics = computeMetrics({
+      weeks: 1,
+      calendar: { ...defaultCalendar(), timezone: "America/New_York" },
+      now: new Date("2025-01-13T03:00:00Z"),
+    });
+    expect(metrics.since).toEqual(new Date("2025-01-06T05:00:00Z"));
+    expect(metrics.weekly).toEqual([
+      expect.objectContaining({ weekStart: "2025-01-06", items: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @module agent/metrics
+ * Response-time and time-to-done metrics from the item timings kept by the store, grouped by
+ * source, type, author or repo, with a weekly trend and SLA breaches. All durations are working
+ * hours of the account's calendar (see agent/calendar).
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import type { WorkCalendar } from "../store/calendar.js";
+import { env } from "../soterflow-env.js";
+import { getTimings, type ItemTiming } from "../store/workitems.js";
+import { atLocalTime, getCalendar, localDay, localWeekday, workingHours } from "./calendar.js";
+import { isReviewRequest, itemRepo, parseDuration } from "./rules.js";
+
+export const METRICS_GROUPS = ["source", "type", "author", "repo"] as const;
+export type MetricsGroupBy = (typeof METRICS_GROUPS)[number];
+
+/** SLA target in working hours per key: `review`, `<source>:<type>`, `<type>` or `<source>`. */
+export type SlaTargets = Record<string, number>;
+
+/** Response and done times of a set of items. */
+export interface MetricsSummary {
+  items: number;
+  /** Items with a first action. */
+  responded: number;
+  medianResponseHours: number | null;
+  p90ResponseHours: number | null;
+  done: number;
+  medianDoneHours: number | null;
+  /** Items that missed (or, still unanswered, already passed) their SLA target. */
+  breaches: number;
+}
+
+export interface MetricsGroup extends MetricsSummary {
+  key: string;
+}
+
+export interface WeeklyMetrics extends MetricsSummary {
+  /** Local date (`YYYY-MM-DD`) of the Monday the week starts on. */
+  weekStart: string;
+}
+
+export interface SlaBreach {
+  id: string;
+  title: string;
+  source: string;
+  type: WorkItem["type"];
+  url: string;
+  /** SLA key that applied, e.g. `review`. */
+  target: string;
+  targetHours: number;
+  /** Working hours to the first action, or so far if there was none. */
+  responseHours: number;
+  /** Still waiting for a first action. */
+  open: boolean;
+}
+
+export interface Metrics {
+  since: Date;
+  until: Date;
+  groupBy: MetricsGroupBy;
+  targets: SlaTargets;
+  total: MetricsSummary;
+  groups: MetricsGroup[];
+  weekly: WeeklyMetrics[];
+  breaches: SlaBreach[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parse SLA targets such as `review=4h,github:pr=1d,jira=2d` (durations in working time).
+ * @throws Error on malformed entries
+ */
+export function parseSlaTargets(spec: string): SlaTargets {
+  const targets: SlaTargets = {};
+  for (const entry of spec.split(",").map((s) => s.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const [key, value = ""] = entry.split("=").map((s) => s.trim());
+    const ms = parseDuration(value);
+    if (!key || ms === null || ms <= 0) {
+      throw new Error(`Invalid SLA target: ${entry} (expected key=duration, e.g. review=4h)`);
+    }
+    targets[key.toLowerCase()] = ms / HOUR_MS;
+  }
+  return targets;
+}
+
+/**
+ * The SLA target for an item: `review` for review requests, else the most specific of
+ * `<source>:<type>`, `<type>` and `<source>`.
+ * @returns The key and its working hours, or null if no target applies
+ */
+export function slaTargetFor(
+  item: WorkItem,
+  targets: SlaTargets,
+): { key: string; hours: number } | null {
+  const keys = [`${item.source}:${item.type}`, item.type, item.source];
+  if (isReviewRequest(item)) {
+    keys.unshift("review");
+  }
+  const key = keys.find((k) => targets[k] !== undefined);
+  return key ? { key, hours: targets[key] } : null;
+}
+
+function groupKey(item: WorkItem, groupBy: MetricsGroupBy): string {
+  switch (groupBy) {
+    case "source":
+      return item.source;
+    case "type":
+      return item.type;
+    case "author":
+      return item.author || "unknown";
+    case "repo": {
+      // GitHub repo, or the Jira project of the issue key
+      const key = item.metadata.key;
+      const project = item.source === "jira" && typeof key === "string" ? key.split("-")[0] : "";
+      return itemRepo(item) || project || "(none)";
+    }
+  }
+}
+
+/** Value at the given percentile (nearest rank), rounded to 0.1. */
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = values.toSorted((a: number, b: number) => a - b);
+  const value = sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+  return Math.round(value * 10) / 10;
+}
+
+interface Measured {
+  timing: ItemTiming;
+  responseHours: number | null;
+  doneHours: number | null;
+  breach: SlaBreach | null;
+}
+
+function measure(
+  timing: ItemTiming,
+  targets: SlaTargets,
+  calendar: WorkCalendar,
+  now: Date,
+): Measured {
+  const { item, firstSeenAt, firstActionAt, doneAt } = timing;
+  const responseHours = firstActionAt ? workingHours(firstSeenAt, firstActionAt, calendar) : null;
+  const doneHours = doneAt ? workingHours(firstSeenAt, doneAt, calendar) : null;
+
+  let breach: SlaBreach | null = null;
+  const target = slaTargetFor(item, targets);
+  // Items closed without a response (e.g. dismissed upstream) no longer wait on anyone
+  const waiting = !firstActionAt && (item.status === "new" || item.status === "seen");
+  const elapsed = responseHours ?? (waiting ? workingHours(firstSeenAt, now, calendar) : null);
+  if (target && elapsed !== null && elapsed > target.hours) {
+    breach = {
+      id: item.id,
+      title: item.title,
+      source: item.source,
+      type: item.type,
+      url: item.url,
+      target: target.key,
+      targetHours: target.hours,
+      responseHours: Math.round(elapsed * 10) / 10,
+      open: responseHours === null,
+    };
+  }
+  return { timing, responseHours, doneHours, breach };
+}
+
+function summarize(measured: Measured[]): MetricsSummary {
+  const responses = measured.flatMap((m) => (m.responseHours === null ? [] : [m.responseHours]));
+  const doneTimes = measured.flatMap((m) => (m.doneHours === null ? [] : [m.doneHours]));
+  return {
+    items: measured.length,
+    responded: responses.length,
+    medianResponseHours: percentile(responses, 50),
+    p90ResponseHours: percentile(responses, 90),
+    done: doneTimes.length,
+    medianDoneHours: percentile(doneTimes, 50),
+    breaches: measured.filter((m) => m.breach).length,
+  };
+}
+
+/** Monday 00:00 in the timezone of the week containing `date`. */
+function weekStart(date: Date, timezone: string): Date {
+  return atLocalTime(date, -((localWeekday(date, timezone) + 6) % 7), 0, timezone);
+}
+
+/**
+ * Metrics for items first seen in the last `weeks` calendar weeks (including this one).
+ * @param options.groupBy - Grouping of `groups` (default `source`)
+ * @param options.weeks - Weeks covered by the trend (default 4)
+ * @param options.targets - SLA targets (default `SOTERFLOW_SLA_TARGETS`)
+ * @param options.calendar - Working calendar (default: the account's)
+ */
+export function computeMetrics(
+  options: {
+    groupBy?: MetricsGroupBy;
+    weeks?: number;
+    targets?: SlaTargets;
+    calendar?: WorkCalendar;
+    now?: Date;
+  } = {},
+): Metrics {
+  const now = options.now ?? new Date();
+  const groupBy = options.groupBy ?? "source";
+  const weeks = Math.max(1, options.weeks ?? 4);
+  const targets = options.targets ?? parseSlaTargets(env.SOTERFLOW_SLA_TARGETS);
+
+  const calendar = options.calendar ?? getCalendar();
+  const { timezone } = calendar;
+  const since = atLocalTime(weekStart(now, timezone), -7 * (weeks - 1), 0, timezone);
+  const measured = getTimings(since).map((t) => measure(t, targets, calendar, now));
+
+  const byGroup = new Map<string, Measured[]>();
+  for (const m of measured) {
+    const key = groupKey(m.timing.item, groupBy);
+    byGroup.set(key, [...(byGroup.get(key) ?? []), m]);
+  }
+  const groups = [...byGroup.entries()]
+    .map(([key, members]) => ({ key, ...summarize(members) }))
+    .toSorted(
+      (a: MetricsGroup, b: MetricsGroup) => b.items - a.items || a.key.localeCompare(b.key),
+    );
+
+  const weekly: WeeklyMetrics[] = [];
+  for (let i = 0; i < weeks; i++) {
+    const start = atLocalTime(since, 7 * i, 0, timezone);
+    const end = atLocalTime(since, 7 * (i + 1), 0, timezone);
+    const inWeek = measured.filter(
+      (m) => m.timing.firstSeenAt >= start && m.timing.firstSeenAt < end,
+    );
+    weekly.push({ weekStart: localDay(start, timezone), ...summarize(inWeek) });
+  }
+
+  return {
+    since,
+    until: now,
+    groupBy,
+    targets,
+    total: summarize(measured),
+    groups,
+    weekly,
+    breaches: measured
+      .flatMap((m) => (m.breach ? [m.breach] : []))
+      .toSorted((a: SlaBreach, b: SlaBreach) => b.responseHours - a.responseHours),
+  };
+}
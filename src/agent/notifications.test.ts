@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItem } from "../channels/base.js";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+
+function makeItem(overrides: Partial<WorkItem>): WorkItem {
+  return {
+    id: "x",
+    source: "github",
+    type: "notification",
+    title: "t",
+    body: "",
+    author: "a",
+    timestamp: new Date(),
+    priority: "normal",
+    url: "",
+    metadata: {},
+    status: "new",
+    ...overrides,
+  };
+}
+
+describe("quiet hours", () => {
+  it("holds notifications until the window ends, except break-through items", async () => {
+    const { updateCalendar } = await import("./calendar.js");
+    const { createRule } = await import("../store/rules.js");
+    const { heldNotifications, releaseHeldNotifications, routeNotification } =
+      await import("./notifications.js");
+    updateCalendar({ timezone: "UTC", quietHours: { start: "22:00", end: "07:00" } });
+    createRule({
+      name: "Incidents",
+      match: { labels: ["incident"] },
+      actions: [{ type: "break_through" }],
+    });
+
+    const night = new Date("2025-01-15T23:00:00Z");
+    const morning = new Date("2025-01-16T07:00:00Z");
+    const item = makeItem({ id: "a" });
+    expect(routeNotification({ type: "workitem_added", item }, morning)).toBe("deliver");
+    expect(routeNotification({ type: "workitem_added", item }, night)).toBe("held");
+    expect(routeNotification({ type: "workitem_added", item }, night)).toBe("held");
+    expect(
+      routeNotification(
+        { type: "snooze_expired", item: makeItem({ id: "b", metadata: { labels: ["incident"] } }) },
+        night,
+      ),
+    ).toBe("break_through");
+    expect(heldNotifications()).toHaveLength(1);
+
+    expect(releaseHeldNotifications(night)).toEqual([]);
+    expect(releaseHeldNotifications(morning).map((n) => n.item.id)).toEqual(["a"]);
+    expect(heldNotifications()).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @module agent/notifications
+ * Quiet hours for item notifications. While the account's calendar is in quiet hours, new and
+ * resurfaced items are held back per account and released as one batch when the window ends;
+ * items matching a `break_through` rule are delivered (and alerted on Telegram) right away.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import { getRules } from "../store/rules.js";
+import { scopeKey } from "../store/scope.js";
+import { getCalendar, isQuietTime } from "./calendar.js";
+import { evaluateRules } from "./rules.js";
+
+/** An item event pushed to clients. */
+export interface ItemNotification {
+  type: "workitem_added" | "snooze_expired";
+  item: WorkItem;
+}
+
+/** `deliver` now, `held` until quiet hours end, or `break_through` quiet hours. */
+export type NotificationRoute = "deliver" | "held" | "break_through";
+
+/** Held notifications per account (in memory; the items themselves stay in the inbox). */
+const held = new Map<string, ItemNotification[]>();
+
+/**
+ * Decide how to deliver an item notification for the current account, holding it if needed.
+ */
+export function routeNotification(
+  notification: ItemNotification,
+  now: Date = new Date(),
+): NotificationRoute {
+  if (!isQuietTime(getCalendar(), now)) {
+    return "deliver";
+  }
+  if (evaluateRules(notification.item, getRules(true), now).breakThrough) {
+    return "break_through";
+  }
+  // Keep only the latest event per item
+  const queue = (held.get(scopeKey()) ?? []).filter(
+    (n) => n.item.id !== notification.item.id || n.type !== notification.type,
+  );
+  queue.push(notification);
+  held.set(scopeKey(), queue);
+  return "held";
+}
+
+/** Notifications the current account is holding. */
+export function heldNotifications(): ItemNotification[] {
+  return held.get(scopeKey()) ?? [];
+}
+
+/**
+ * Release the current account's held notifications once its quiet hours are over.
+ * @returns The released notifications (empty while still quiet or if none were held)
+ */
+export function releaseHeldNotifications(now: Date = new Date()): ItemNotification[] {
+  const queue = held.get(scopeKey());
+  if (!queue?.length || isQuietTime(getCalendar(), now)) {
+    return [];
+  }
+  held.delete(scopeKey());
+  return queue;
+}
+
+/** Plain-text Telegram summary of released notifications. */
+export function formatHeldSummary(notifications: ItemNotification[]): string {
+  const lines = [`🌅 ${notifications.length} update(s) during quiet hours`];
+  for (const { type, item } of notifications.slice(0, 10)) {
+    lines.push(`• ${type === "snooze_expired" ? "⏰ " : ""}${item.title} (${item.source})`);
+  }
+  if (notifications.length > 10) {
+    lines.push(`…and ${notifications.length - 10} more`);
+  }
+  return lines.join("\n");
+}
@@ -71,39 +71,51 @@ describe("deduplicateItems", () => {
 });
 
 describe("applyAgeEscalation", () => {
-  it("escalates normal → high after 24h", () => {
-    const item = makeItem({
-      priority: "normal",
-      timestamp: new Date(Date.now() - 25 * 60 * 60 * 1000),
-    });
-    applyAgeEscalation(item);
+  // Mon–Fri 09:00–17:00 UTC; Wednesday 2025-01-15 12:00
+  const calendar = {
+    timezone: "UTC",
+    workDays: [1, 2, 3, 4, 5],
+    workHours: { start: "09:00", end: "17:00" },
+    holidays: [],
+    quietHours: null,
+  };
+  const now = new Date("2025-01-15T12:00:00Z");
+
+  it("escalates normal → high after one working day", () => {
+    const item = makeItem({ priority: "normal", timestamp: new Date("2025-01-14T11:00:00Z") });
+    applyAgeEscalation(item, now, calendar);
     expect(item.priority).toBe("high");
   });
 
-  it("escalates high → urgent after 48h", () => {
-    const item = makeItem({
-      priority: "high",
-      timestamp: new Date(Date.now() - 49 * 60 * 60 * 1000),
-    });
-    applyAgeEscalation(item);
+  it("escalates high → urgent after two working days", () => {
+    const item = makeItem({ priority: "high", timestamp: new Date("2025-01-13T11:00:00Z") });
+    applyAgeEscalation(item, now, calendar);
     expect(item.priority).toBe("urgent");
   });
 
   it("does not escalate recent items", () => {
-    const item = makeItem({
+    const item = makeItem({ priority: "normal", timestamp: new Date("2025-01-15T11:00:00Z") });
+    applyAgeEscalation(item, now, calendar);
+    expect(item.priority).toBe("normal");
+  });
+
+  it("does not count weekends and holidays", () => {
+    // Friday 16:00 → Monday 12:00 is 4 working hours
+    const item = makeItem({ priority: "normal", timestamp: new Date("2025-01-10T16:00:00Z") });
+    applyAgeEscalation(item, new Date("2025-01-13T12:00:00Z"), calendar);
+    expect(item.priority).toBe("normal");
+
+    const beforeHoliday = makeItem({
       priority: "normal",
-      timestamp: new Date(Date.now() - 1 * 60 * 60 * 1000),
+      timestamp: new Date("2025-01-14T11:00:00Z"),
     });
-    applyAgeEscalation(item);
-    expect(item.priority).toBe("normal");
+    applyAgeEscalation(beforeHoliday, now, { ...calendar, holidays: ["2025-01-14"] });
+    expect(beforeHoliday.priority).toBe("normal");
   });
 
   it("does not escalate low items (only normal and high)", () => {
-    const item = makeItem({
-      priority: "low",
-      timestamp: new Date(Date.now() - 25 * 60 * 60 * 1000),
-    });
-    applyAgeEscalation(item);
+    const item = makeItem({ priority: "low", timestamp: new Date("2025-01-13T11:00:00Z") });
+    applyAgeEscalation(item, now, calendar);
     expect(item.priority).toBe("low");
   });
 });
@@ -3,57 +3,221 @@
  * Orchestrates syncing across all channels, applies priority heuristics, and returns a sorted inbox.
  */
 
+import type { WorkCalendar } from "../store/calendar.js";
 import { BaseChannel, WorkItem } from "../channels/base.js";
 import { GitHubChannel } from "../channels/github.js";
+import { GitLabChannel } from "../channels/gitlab.js";
 import { GmailChannel } from "../channels/gmail.js";
 import { JiraChannel } from "../channels/jira.js";
+import { LinearChannel } from "../channels/linear.js";
+import { OutlookChannel } from "../channels/outlook.js";
 import { SlackChannel } from "../channels/slack.js";
-import { env } from "../soterflow-env.js";
-import { updateSyncState } from "../store/sync.js";
-import { upsert, getAll } from "../store/workitems.js";
+import { getCredentials, type ChannelCredentials } from "../store/credentials.js";
+import { recordEvent } from "../store/history.js";
+import { getRules } from "../store/rules.js";
+import { currentUser, scopeKey } from "../store/scope.js";
+import { getSyncState, updateSyncState } from "../store/sync.js";
+import { upsert, getAll, getById, getByUrl, search } from "../store/workitems.js";
+import { defaultCalendar, getCalendar, workdayHours, workingHours } from "./calendar.js";
+import { trackConversation } from "./conversations.js";
 import { Director } from "./director.js";
+import { linkItems } from "./links.js";
+import { applyRules } from "./rules.js";
 
 /** Stats from a sync run. */
 export interface SyncStats {
   totalItems: number;
   newItems: number;
   duplicatesSkipped: number;
-  perSource: Record<string, { total: number; new: number }>;
+  perSource: Record<string, SourceSyncStats>;
+}
+
+/** Per-channel outcome of a sync run. */
+export interface SourceSyncStats {
+  total: number;
+  new: number;
+  /** Error message when the channel failed to sync. */
+  error?: string;
+  /** Whether the failure looks like bad or missing credentials. */
+  authError?: boolean;
+}
+
+/** Result of storing a batch of items through the dedup + heuristics pipeline. */
+export interface IngestResult {
+  /** Items that were upserted (after dedup and heuristics). */
+  items: WorkItem[];
+  /** Subset of `items` that were not in the store before. */
+  newItems: WorkItem[];
+  /** Items dropped because another item shares their URL. */
+  duplicatesSkipped: number;
+}
+
+/**
+ * Credential settings per channel (env var names). A channel is configured when all of its
+ * `required` settings are set; `optional` ones are stored with the user's credentials too.
+ */
+export const CHANNEL_CREDENTIALS: Record<string, { required: string[]; optional: string[] }> = {
+  github: { required: ["GITHUB_TOKEN"], optional: [] },
+  jira: { required: ["JIRA_URL", "JIRA_EMAIL", "JIRA_TOKEN"], optional: ["JIRA_OWNER_ACCOUNT_ID"] },
+  slack: { required: ["SLACK_TOKEN"], optional: ["SLACK_APP_TOKEN"] },
+  gmail: { required: ["GMAIL_USER", "GMAIL_APP_PASSWORD"], optional: ["GMAIL_IMPORTANT_SENDERS"] },
+  outlook: {
+    required: ["OUTLOOK_CLIENT_ID", "OUTLOOK_REFRESH_TOKEN"],
+    optional: ["OUTLOOK_CLIENT_SECRET", "OUTLOOK_TENANT_ID"],
+  },
+  linear: { required: ["LINEAR_API_KEY"], optional: [] },
+  gitlab: { required: ["GITLAB_TOKEN"], optional: ["GITLAB_URL"] },
+};
+
+const CHANNEL_FACTORIES: Record<string, () => BaseChannel> = {
+  github: () => new GitHubChannel(),
+  jira: () => new JiraChannel(),
+  slack: () => new SlackChannel(),
+  gmail: () => new GmailChannel(),
+  outlook: () => new OutlookChannel(),
+  linear: () => new LinearChannel(),
+  gitlab: () => new GitLabChannel(),
+};
+
+/** Credentials per channel as configured in the environment (single-user mode). */
+export function envCredentials(): Record<string, ChannelCredentials> {
+  const credentials: Record<string, ChannelCredentials> = {};
+  for (const [name, { required, optional }] of Object.entries(CHANNEL_CREDENTIALS)) {
+    if (!required.every((key) => process.env[key])) {
+      continue;
+    }
+    credentials[name] = Object.fromEntries(
+      [...required, ...optional].map((key) => [key, process.env[key] ?? ""]),
+    );
+  }
+  return credentials;
+}
+
+/**
+ * Credentials of the current account: its vault, plus (outside a user scope) the environment
+ * for channels without stored credentials.
+ */
+function accountCredentials(): {
+  stored: Record<string, ChannelCredentials>;
+  all: Record<string, ChannelCredentials>;
+} {
+  const stored = getCredentials();
+  return { stored, all: currentUser() ? stored : { ...envCredentials(), ...stored } };
+}
+
+/** Credentials of one channel for the current account, or null if it is not configured. */
+export function channelCredentials(name: string): ChannelCredentials | null {
+  return accountCredentials().all[name] ?? null;
 }
 
 /**
- * Create channel instances based on which env vars are configured.
- * Only instantiates connectors that have the required tokens set.
+ * A channel instance reading the given credentials. Settings of the channel missing from
+ * `credentials` stay empty rather than falling back to the server's environment.
+ */
+function channelWithCredentials(name: string, credentials: ChannelCredentials): BaseChannel {
+  const { required, optional } = CHANNEL_CREDENTIALS[name];
+  const settings = Object.fromEntries([...required, ...optional].map((key) => [key, ""]));
+  return CHANNEL_FACTORIES[name]().useCredentials({ ...settings, ...credentials });
+}
+
+/**
+ * Create channel instances for the current account.
+ * Only instantiates connectors whose required credentials are set, from the credential vault
+ * or (outside a user scope) the environment.
  */
 export function createChannels(): BaseChannel[] {
+  const { stored, all } = accountCredentials();
   const channels: BaseChannel[] = [];
 
-  if (env.GITHUB_TOKEN) {
-    channels.push(new GitHubChannel());
+  for (const [name, { required }] of Object.entries(CHANNEL_CREDENTIALS)) {
+    const values = all[name];
+    if (!values || !required.every((key) => values[key])) {
+      continue;
+    }
+    channels.push(stored[name] ? channelWithCredentials(name, values) : CHANNEL_FACTORIES[name]());
+  }
+
+  return channels;
+}
+
+/**
+ * Get info about which channels are configured for the current account, and whether their
+ * credentials come from the vault.
+ */
+export function getConfiguredChannels(): Array<{
+  name: string;
+  configured: boolean;
+  stored: boolean;
+}> {
+  const { stored, all } = accountCredentials();
+  return Object.entries(CHANNEL_CREDENTIALS).map(([name, { required }]) => ({
+    name,
+    configured: required.every((key) => all[name]?.[key]),
+    stored: !!stored[name],
+  }));
+}
+
+/**
+ * Check credentials before storing them: only known settings, all required ones set.
+ * @throws Error naming the unknown channel or the offending setting
+ */
+export function validateChannelCredentials(name: string, credentials: unknown): ChannelCredentials {
+  const spec = Object.hasOwn(CHANNEL_CREDENTIALS, name) ? CHANNEL_CREDENTIALS[name] : undefined;
+  if (!spec) {
+    throw new Error(`Unknown channel: ${name}`);
   }
-  if (env.JIRA_URL && env.JIRA_EMAIL && env.JIRA_TOKEN) {
-    channels.push(new JiraChannel());
+  if (!credentials || typeof credentials !== "object" || Array.isArray(credentials)) {
+    throw new Error("credentials must be an object of settings");
   }
-  if (env.SLACK_TOKEN) {
-    channels.push(new SlackChannel());
+  const known = [...spec.required, ...spec.optional];
+  const values: ChannelCredentials = {};
+  for (const [key, value] of Object.entries(credentials)) {
+    if (!known.includes(key)) {
+      throw new Error(`Unknown setting for ${name}: ${key} (expected ${known.join(", ")})`);
+    }
+    if (typeof value !== "string") {
+      throw new Error(`${key} must be a string`);
+    }
+    values[key] = value.trim();
   }
-  if (env.GMAIL_USER && env.GMAIL_APP_PASSWORD) {
-    channels.push(new GmailChannel());
+  const missing = spec.required.filter((key) => !values[key]);
+  if (missing.length > 0) {
+    throw new Error(`Missing ${missing.join(", ")}`);
   }
+  return values;
+}
 
-  return channels;
+/**
+ * Connect a channel with the given credentials and disconnect again, to check they work.
+ * @throws Error from the channel's `connect()` when they do not
+ */
+export async function testChannelCredentials(
+  name: string,
+  credentials: ChannelCredentials,
+): Promise<void> {
+  const channel = channelWithCredentials(name, credentials);
+  try {
+    await channel.connect();
+  } finally {
+    await channel.disconnect().catch(() => {});
+  }
 }
 
 /**
- * Get info about which channels are configured.
+ * Drop the current account's channel instances (disconnecting them) so the next
+ * {@link getCachedChannels} picks up changed credentials without a restart.
  */
-export function getConfiguredChannels(): Array<{ name: string; configured: boolean }> {
-  return [
-    { name: "github", configured: !!env.GITHUB_TOKEN },
-    { name: "jira", configured: !!(env.JIRA_URL && env.JIRA_EMAIL && env.JIRA_TOKEN) },
-    { name: "slack", configured: !!env.SLACK_TOKEN },
-    { name: "gmail", configured: !!(env.GMAIL_USER && env.GMAIL_APP_PASSWORD) },
-  ];
+export async function reloadChannels(): Promise<void> {
+  const key = scopeKey();
+  const channels = _cachedChannels.get(key) ?? [];
+  _cachedChannels.delete(key);
+  for (const channel of channels) {
+    if (channel.isConnected()) {
+      await channel.disconnect().catch((err: unknown) => {
+        console.error(`[soterflow] Failed to disconnect ${channel.name}:`, err);
+      });
+    }
+  }
 }
 
 const PRIORITY_ORDER: Record<string, number> = {
@@ -68,27 +232,39 @@ const PRIORITY_ORDER: Record<string, number> = {
  * @param channels - Array of channel instances (already connected)
  * @returns Object with sorted work items and sync stats
  */
-let _syncing = false;
-let _cachedChannels: BaseChannel[] | null = null;
+/** Accounts (see `scopeKey`) with a sync run in progress. */
+const _syncing = new Set<string>();
+/** Channel instances per account. */
+const _cachedChannels = new Map<string, BaseChannel[]>();
+
+/** Whether a sync run is currently in progress for the current account. */
+export function isSyncing(): boolean {
+  return _syncing.has(scopeKey());
+}
 
+/** Channel instances of the current account, created on first use. */
 export function getCachedChannels(): BaseChannel[] {
-  if (!_cachedChannels) {
-    _cachedChannels = createChannels();
+  const key = scopeKey();
+  let channels = _cachedChannels.get(key);
+  if (!channels) {
+    channels = createChannels();
+    _cachedChannels.set(key, channels);
   }
-  return _cachedChannels;
+  return channels;
 }
 
 export async function syncAll(
   channels?: BaseChannel[],
 ): Promise<{ items: WorkItem[]; stats: SyncStats }> {
-  if (_syncing) {
+  const key = scopeKey();
+  if (_syncing.has(key)) {
     throw new Error("Sync already in progress");
   }
-  _syncing = true;
+  _syncing.add(key);
   try {
     return await _syncAllInner(channels ?? getCachedChannels());
   } finally {
-    _syncing = false;
+    _syncing.delete(key);
   }
 }
 
@@ -106,10 +282,12 @@ async function _syncAllInner(
   const allNewItems: WorkItem[] = [];
 
   for (const channel of channels) {
-    const sourceStat = { total: 0, new: 0 };
+    const sourceStat: SourceSyncStats = { total: 0, new: 0 };
     stats.perSource[channel.name] = sourceStat;
 
     try {
+      // Incremental sync: resume from the cursor stored by the previous successful run
+      const previousCursor = getSyncState(channel.name)?.cursor ?? null;
       // 60s timeout per channel to prevent hanging (gmail IMAP needs more time)
       const syncWithTimeout = async () => {
         console.log(`[soterflow] Syncing ${channel.name}...`);
@@ -117,16 +295,16 @@ async function _syncAllInner(
           await channel.connect();
         }
         console.log(`[soterflow] ${channel.name} connected, fetching items...`);
-        const items = await channel.sync();
-        console.log(`[soterflow] ${channel.name} synced: ${items.length} items`);
+        const result = await channel.sync(previousCursor);
+        console.log(`[soterflow] ${channel.name} synced: ${result.items.length} items`);
         // Don't disconnect cached channels — they'll be reused
         // Only disconnect gmail (IMAP needs explicit close)
         if (channel.name === "gmail") {
           await channel.disconnect();
         }
-        return items;
+        return result;
       };
-      const items = await Promise.race([
+      const { items, cursor } = await Promise.race([
         syncWithTimeout(),
         new Promise<never>((_, reject) =>
           setTimeout(() => reject(new Error(`${channel.name} sync timed out after 60s`)), 60000),
@@ -138,7 +316,7 @@ async function _syncAllInner(
         allNewItems.push(item);
       }
 
-      updateSyncState(channel.name);
+      updateSyncState(channel.name, cursor === undefined ? previousCursor : cursor);
       try {
         Director.getInstance().log(
           "info",
@@ -147,6 +325,8 @@ async function _syncAllInner(
       } catch {}
     } catch (err) {
       console.error(`[soterflow] Failed to sync ${channel.name}:`, err);
+      sourceStat.error = err instanceof Error ? err.message : String(err);
+      sourceStat.authError = isAuthError(err);
       try {
         await channel.disconnect();
       } catch {
@@ -156,29 +336,140 @@ async function _syncAllInner(
   }
 
   console.log(`[soterflow] All channels done. Total raw items: ${allNewItems.length}`);
-  // Deduplicate by URL across channels (same URL = same item, keep highest priority)
-  const deduped = deduplicateItems(allNewItems);
-  stats.duplicatesSkipped = allNewItems.length - deduped.length;
-  stats.totalItems = deduped.length;
+  const result = ingestItems(allNewItems);
+  console.log(`[soterflow] Stored ${result.items.length} items (${result.newItems.length} new).`);
+  stats.duplicatesSkipped = result.duplicatesSkipped;
+  stats.totalItems = result.items.length;
+
+  // Connect items that mention each other (a PR naming its Jira ticket, a Slack permalink, …)
+  try {
+    const linked = linkItems();
+    if (linked > 0) {
+      console.log(`[soterflow] Linked ${linked} related item pair(s).`);
+    }
+  } catch (err) {
+    console.error("[soterflow] Linking related items failed:", err);
+  }
+
+  for (const item of result.newItems) {
+    stats.newItems++;
+    const sourceStat = stats.perSource[item.source];
+    if (sourceStat) {
+      sourceStat.new++;
+    }
+  }
 
-  // Get existing IDs to count new items
-  const existingItems = new Set(getAll().map((i) => i.id));
+  return { items: getInbox(), stats };
+}
 
-  console.log(`[soterflow] Deduped: ${deduped.length} items. Upserting...`);
-  for (const item of deduped) {
+/**
+ * Heuristic check for credential failures (401/403, missing tokens, revoked auth).
+ * Rate-limit 403s are not auth errors.
+ */
+export function isAuthError(err: unknown): boolean {
+  const e = err as Record<string, unknown> | null;
+  const status = (e?.status ?? (e?.response as Record<string, unknown>)?.status ?? e?.statusCode) as
+    | number
+    | undefined;
+  const msg = err instanceof Error ? err.message : String(err);
+  if (/rate limit/i.test(msg)) {
+    return false;
+  }
+  if (status === 401 || status === 403) {
+    return true;
+  }
+  return /\b(401|403)\b|unauthori[sz]ed|invalid_auth|not_authed|token_revoked|authenticationfailed|is not set|must be set/i.test(
+    msg,
+  );
+}
+
+/**
+ * Store a batch of items: deduplicate by URL within the batch, update items already stored
+ * under another id with the same URL under that id, apply priority heuristics and user rules,
+ * assign conversations, and upsert.
+ * Shared by full syncs and real-time pushes.
+ */
+export function ingestItems(items: WorkItem[]): IngestResult {
+  const deduped = deduplicateItems(items);
+  const result: IngestResult = {
+    items: [],
+    newItems: [],
+    duplicatesSkipped: items.length - deduped.length,
+  };
+
+  const rules = getRules(true);
+  for (const mapped of deduped) {
+    // Same URL already stored under another id (e.g. a Slack DM seen via sync and Socket Mode,
+    // or a pull request from issue search): update the stored item
+    const sameUrl = mapped.url ? getByUrl(mapped.url) : null;
+    const item = sameUrl && sameUrl.id !== mapped.id ? { ...mapped, id: sameUrl.id } : mapped;
+
+    const existing = getById(item.id);
+    const isNew = !existing;
     applyPriorityHeuristics(item);
+    const effect = applyRules(item, rules, isNew);
+    trackConversation(item, existing);
     upsert(item);
+    if (isNew && item.status !== "new" && effect.statusRule) {
+      recordEvent({
+        workItemId: item.id,
+        kind: "status_change",
+        fromStatus: "new",
+        toStatus: item.status,
+        actor: { type: "rule", ...effect.statusRule },
+      });
+    }
 
-    if (!existingItems.has(item.id)) {
-      stats.newItems++;
-      const sourceStat = stats.perSource[item.source];
-      if (sourceStat) {
-        sourceStat.new++;
-      }
+    result.items.push(item);
+    if (isNew) {
+      result.newItems.push(item);
     }
   }
 
-  return { items: getInbox(), stats };
+  return result;
+}
+
+/**
+ * Subscribe to real-time items pushed by channels (e.g. Slack Socket Mode) and store them
+ * through {@link ingestItems}. The listener is called for each item that was newly added.
+ * @param onAdded - Callback for each newly stored item
+ * @param channels - Channels to subscribe to (defaults to the cached channels)
+ */
+export function attachPushIngest(
+  onAdded: (item: WorkItem) => void,
+  channels: BaseChannel[] = getCachedChannels(),
+): void {
+  for (const channel of channels) {
+    channel.onNewItem((item) => {
+      try {
+        const { newItems } = ingestItems([item]);
+        for (const added of newItems) {
+          onAdded(added);
+        }
+      } catch (err) {
+        console.error(`[soterflow] Failed to ingest pushed ${channel.name} item:`, err);
+      }
+    });
+  }
+}
+
+/**
+ * Connect channels that push items in real time so events flow without waiting for a sync.
+ * Failures are logged; the next sync retries the connection.
+ */
+export async function connectPushChannels(
+  channels: BaseChannel[] = getCachedChannels(),
+): Promise<void> {
+  for (const channel of channels) {
+    if (!channel.supportsPush() || channel.isConnected()) {
+      continue;
+    }
+    try {
+      await channel.connect();
+    } catch (err) {
+      console.error(`[soterflow] Failed to connect ${channel.name} for push events:`, err);
+    }
+  }
 }
 
 /**
@@ -212,7 +503,7 @@ export function deduplicateItems(items: WorkItem[]): WorkItem[] {
 }
 
 /**
- * Get the current inbox: all non-dismissed/done items, sorted by priority then recency.
+ * Get the current inbox: all non-dismissed/done/snoozed items, sorted by priority then recency.
  */
 export function getInbox(filters?: {
   source?: string;
@@ -221,17 +512,19 @@ export function getInbox(filters?: {
   since?: string;
 }): WorkItem[] {
   const items = getAll(filters);
+  const now = new Date();
+  const calendar = getCalendar();
   return items
     .filter((i) => {
       if (filters?.status) {
         return true;
       } // already filtered by DB
-      return i.status !== "done" && i.status !== "dismissed";
+      return i.status !== "done" && i.status !== "dismissed" && i.status !== "snoozed";
     })
     .map((item) => {
       // Apply age-based escalation for display (don't persist)
       const escalated = { ...item };
-      applyAgeEscalation(escalated);
+      applyAgeEscalation(escalated, now, calendar);
       return escalated;
     })
     .toSorted((a, b) => {
@@ -243,6 +536,73 @@ export function getInbox(filters?: {
     });
 }
 
+/** Inbox query as accepted by `GET /api/inbox` (all fields optional). */
+export interface InboxQuery {
+  source?: string;
+  type?: string;
+  status?: string;
+  /** Full-text search over all items; `source`, `type` and `status` narrow the matches. */
+  search?: string;
+  /** ISO timestamp; defaults to 7 days ago except for `status=snoozed`. */
+  since?: string;
+  /** Comma-separated Jira statuses to leave out. */
+  excludeStatuses?: string;
+  /** Comma-separated GitHub notification reasons to leave out. */
+  excludeReasons?: string;
+}
+
+function csvSet(value: string): Set<string> {
+  return new Set(value.split(",").map((s) => s.trim().toLowerCase()));
+}
+
+/**
+ * Get the inbox items matching a query, as a flat list.
+ */
+export function queryInbox(query: InboxQuery = {}): WorkItem[] {
+  const { source, type, status, excludeStatuses, excludeReasons } = query;
+  // Snoozed items are shown regardless of age
+  const since =
+    query.since ||
+    (status === "snoozed"
+      ? undefined
+      : new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
+
+  let items: WorkItem[];
+  if (query.search) {
+    items = search(query.search).filter(
+      (i) =>
+        (!source || i.source === source) &&
+        (!type || i.type === type) &&
+        (!status || i.status === status),
+    );
+  } else {
+    items = getInbox({ source, type, status, since });
+  }
+  // Filter out excluded Jira statuses
+  if (excludeStatuses) {
+    const excluded = csvSet(excludeStatuses);
+    items = items.filter((i) => {
+      if (i.source !== "jira") {
+        return true;
+      }
+      const jiraStatus = ((i.metadata?.status as string) || "").toLowerCase();
+      return !excluded.has(jiraStatus);
+    });
+  }
+  // Filter out excluded GitHub reasons
+  if (excludeReasons) {
+    const excluded = csvSet(excludeReasons);
+    items = items.filter((i) => {
+      if (i.source !== "github") {
+        return true;
+      }
+      const reason = ((i.metadata?.reason as string) || "").toLowerCase();
+      return !excluded.has(reason);
+    });
+  }
+  return items;
+}
+
 /**
  * Apply heuristic rules to auto-assign priority.
  */
@@ -266,16 +626,20 @@ export function applyPriorityHeuristics(item: WorkItem): void {
 }
 
 /**
- * Escalate priority for items older than 24 hours.
- * normal → high after 24h, high → urgent after 48h
+ * Escalate priority of items left waiting, counting working hours of the calendar only.
+ * normal → high after one working day, high → urgent after two
  */
-export function applyAgeEscalation(item: WorkItem): void {
-  const ageMs = Date.now() - item.timestamp.getTime();
-  const ageHours = ageMs / (1000 * 60 * 60);
+export function applyAgeEscalation(
+  item: WorkItem,
+  now: Date = new Date(),
+  calendar: WorkCalendar = defaultCalendar(),
+): void {
+  const ageHours = workingHours(item.timestamp, now, calendar);
+  const dayHours = workdayHours(calendar);
 
-  if (ageHours > 48 && item.priority === "high") {
+  if (ageHours > 2 * dayHours && item.priority === "high") {
     item.priority = "urgent";
-  } else if (ageHours > 24 && item.priority === "normal") {
+  } else if (ageHours > dayHours && item.priority === "normal") {
     item.priority = "high";
   }
 }
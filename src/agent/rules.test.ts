@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItem } from "../channels/base.js";
+import type { Rule } from "../store/rules.js";
+import {
+  applyRules,
+  dryRunRule,
+  evaluateRules,
+  matchesRule,
+  parseDuration,
+  validateRuleInput,
+} from "./rules.js";
+
+function makeItem(overrides: Partial<WorkItem> = {}): WorkItem {
+  return {
+    id: "github-1",
+    source: "github",
+    type: "pr",
+    title: "Bump lodash from 4.17.20 to 4.17.21",
+    body: "Bumps lodash.",
+    author: "dependabot[bot]",
+    timestamp: new Date(),
+    priority: "high",
+    url: "https://github.com/acme/api/pull/42",
+    metadata: { labels: ["dependencies"] },
+    status: "new",
+    ...overrides,
+  };
+}
+
+function makeRule(overrides: Partial<Rule> = {}): Rule {
+  return {
+    id: "r1",
+    name: "rule",
+    enabled: true,
+    position: 0,
+    match: {},
+    actions: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("parseDuration", () => {
+  it("parses minutes, hours, days and weeks", () => {
+    expect(parseDuration("30m")).toBe(30 * 60_000);
+    expect(parseDuration("2h")).toBe(2 * 60 * 60_000);
+    expect(parseDuration("1d")).toBe(24 * 60 * 60_000);
+    expect(parseDuration("1w")).toBe(7 * 24 * 60 * 60_000);
+  });
+
+  it("rejects unknown formats", () => {
+    expect(parseDuration("soon")).toBeNull();
+    expect(parseDuration("2y")).toBeNull();
+  });
+});
+
+describe("matchesRule", () => {
+  it("requires every condition to match", () => {
+    const item = makeItem();
+    expect(matchesRule(item, { source: "github", author: "Dependabot[bot]" })).toBe(true);
+    expect(matchesRule(item, { source: "github", author: "alice" })).toBe(false);
+  });
+
+  it("matches repo from the item URL", () => {
+    expect(matchesRule(makeItem(), { repo: "acme/api" })).toBe(true);
+    expect(matchesRule(makeItem(), { repo: "acme/web" })).toBe(false);
+  });
+
+  it("matches Jira project and status", () => {
+    const item = makeItem({
+      source: "jira",
+      type: "issue",
+      url: "https://acme.atlassian.net/browse/OPS-12",
+      metadata: { key: "OPS-12", status: "In Review" },
+    });
+    expect(matchesRule(item, { jiraProject: "ops", jiraStatus: "in review" })).toBe(true);
+    expect(matchesRule(item, { jiraProject: "PROJ" })).toBe(false);
+    expect(matchesRule(makeItem(), { jiraStatus: "In Review" })).toBe(false);
+  });
+
+  it("matches any of the given labels", () => {
+    expect(matchesRule(makeItem(), { labels: ["security", "dependencies"] })).toBe(true);
+    expect(matchesRule(makeItem(), { labels: ["security"] })).toBe(false);
+  });
+
+  it("tests title and body regexes case-insensitively", () => {
+    expect(matchesRule(makeItem(), { titleRegex: "^bump " })).toBe(true);
+    expect(matchesRule(makeItem(), { bodyRegex: "react" })).toBe(false);
+  });
+});
+
+describe("evaluateRules", () => {
+  it("lets later rules override earlier ones and accumulates tags", () => {
+    const now = new Date("2025-01-01T00:00:00Z");
+    const effect = evaluateRules(
+      makeItem(),
+      [
+        makeRule({
+          id: "a",
+          match: { source: "github" },
+          actions: [
+            { type: "set_priority", priority: "normal" },
+            { type: "add_tag", tag: "gh" },
+          ],
+        }),
+        makeRule({
+          id: "b",
+          match: { author: "dependabot[bot]" },
+          actions: [
+            { type: "set_priority", priority: "low" },
+            { type: "add_tag", tag: "bots" },
+            { type: "snooze", duration: "2h" },
+          ],
+        }),
+        makeRule({ id: "c", enabled: false, match: { source: "github" } }),
+      ],
+      now,
+    );
+    expect(effect.ruleIds).toEqual(["a", "b"]);
+    expect(effect.priority).toBe("low");
+    expect(effect.tags).toEqual(["gh", "bots"]);
+    expect(effect.snoozedUntil).toEqual(new Date("2025-01-01T02:00:00Z"));
+    expect(effect.breakThrough).toBe(false);
+  });
+
+  it("flags items that break through quiet hours", () => {
+    const rules = [
+      makeRule({ match: { labels: ["incident"] }, actions: [{ type: "break_through" }] }),
+    ];
+    expect(
+      evaluateRules(makeItem({ metadata: { labels: ["incident"] } }), rules).breakThrough,
+    ).toBe(true);
+    expect(evaluateRules(makeItem(), rules).breakThrough).toBe(false);
+  });
+});
+
+describe("applyRules", () => {
+  const rules = [
+    makeRule({
+      match: { author: "dependabot[bot]" },
+      actions: [
+        { type: "set_status", status: "dismissed" },
+        { type: "set_priority", priority: "low" },
+        { type: "add_tag", tag: "bots" },
+      ],
+    }),
+  ];
+
+  it("applies status only to new items", () => {
+    const fresh = makeItem();
+    applyRules(fresh, rules, true);
+    expect(fresh.status).toBe("dismissed");
+    expect(fresh.priority).toBe("low");
+    expect(fresh.metadata.tags).toEqual(["bots"]);
+
+    const known = makeItem();
+    applyRules(known, rules, false);
+    expect(known.status).toBe("new");
+    expect(known.priority).toBe("low");
+  });
+});
+
+describe("validateRuleInput", () => {
+  it("accepts a valid rule", () => {
+    const input = validateRuleInput({
+      name: " Mute bots ",
+      match: { author: "dependabot[bot]" },
+      actions: [{ type: "set_status", status: "dismissed" }],
+    });
+    expect(input.name).toBe("Mute bots");
+  });
+
+  it("rejects bad regexes, empty matches and unknown actions", () => {
+    const base = { name: "x", actions: [{ type: "add_tag", tag: "t" }] };
+    expect(() => validateRuleInput({ ...base, match: { titleRegex: "(" } })).toThrow(/regular/);
+    expect(() => validateRuleInput({ ...base, match: {} })).toThrow(/at least one/);
+    expect(() =>
+      validateRuleInput({ ...base, match: { source: "github" }, actions: [{ type: "nuke" }] }),
+    ).toThrow(/Unknown rule action/);
+  });
+
+  it("allows partial updates", () => {
+    expect(validateRuleInput({ enabled: false }, true)).toEqual({ enabled: false });
+  });
+});
+
+describe("dryRunRule", () => {
+  it("reports matching items with before/after values", () => {
+    const results = dryRunRule(
+      makeRule({
+        match: { labels: ["dependencies"] },
+        actions: [{ type: "set_priority", priority: "low" }],
+      }),
+      [makeItem(), makeItem({ id: "github-2", metadata: {} })],
+    );
+    expect(results).toHaveLength(1);
+    expect(results[0].before.priority).toBe("high");
+    expect(results[0].after.priority).toBe("low");
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * @module agent/rules
+ * Rules engine — matches work items against user-defined rules and applies their actions
+ * (priority, auto-status, tags, snooze, breaking through quiet hours). Rules run after the built-in priority heuristics.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import type { Rule, RuleAction, RuleInput, RuleMatch } from "../store/rules.js";
+
+const PRIORITIES: WorkItem["priority"][] = ["urgent", "high", "normal", "low"];
+const RULE_STATUSES = ["seen", "in_progress", "done", "dismissed"];
+const MATCH_KEYS = new Set<string>([
+  "source",
+  "type",
+  "author",
+  "repo",
+  "jiraProject",
+  "jiraStatus",
+  "labels",
+  "titleRegex",
+  "bodyRegex",
+]);
+
+/** Combined outcome of all rules matching one item. */
+export interface RuleEffect {
+  /** Ids of the rules that matched, in evaluation order. */
+  ruleIds: string[];
+  priority?: WorkItem["priority"];
+  status?: WorkItem["status"];
+  tags: string[];
+  snoozedUntil?: Date;
+  /** Rule that decided the status or snooze, for the item history. */
+  statusRule?: Pick<Rule, "id" | "name">;
+  /** Whether notifications about the item skip quiet hours. */
+  breakThrough: boolean;
+}
+
+/**
+ * Parse a relative duration such as `30m`, `2h`, `1d` or `1w`.
+ * @returns Duration in ms, or null if the format is not recognized
+ */
+export function parseDuration(input: string): number | null {
+  const match = /^(\d+)\s*(m|h|d|w)$/i.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+  const unitMs: Record<string, number> = {
+    m: 60_000,
+    h: 60 * 60_000,
+    d: 24 * 60 * 60_000,
+    w: 7 * 24 * 60 * 60_000,
+  };
+  return parseInt(match[1], 10) * unitMs[match[2].toLowerCase()];
+}
+
+/** GitHub `owner/repo` for an item, from metadata or its URL. */
+export function itemRepo(item: WorkItem): string {
+  if (typeof item.metadata?.repo === "string" && item.metadata.repo) {
+    return item.metadata.repo;
+  }
+  const m = /github\.com\/([^/]+\/[^/]+)/.exec(item.url ?? "");
+  return m ? m[1] : "";
+}
+
+/** Whether the user is asked to review the item (GitHub review request or its notification). */
+export function isReviewRequest(item: WorkItem): boolean {
+  return (
+    item.source === "github" &&
+    (item.metadata.reviewRequested === true || item.metadata.reason === "review_requested")
+  );
+}
+
+function eq(a: unknown, b: string): boolean {
+  return typeof a === "string" && a.toLowerCase() === b.toLowerCase();
+}
+
+/** Check whether an item satisfies every condition of a rule. */
+export function matchesRule(item: WorkItem, match: RuleMatch): boolean {
+  const meta = item.metadata ?? {};
+  if (match.source && !eq(item.source, match.source)) {
+    return false;
+  }
+  if (match.type && item.type !== match.type) {
+    return false;
+  }
+  if (match.author && !eq(item.author, match.author)) {
+    return false;
+  }
+  if (match.repo && !eq(itemRepo(item), match.repo)) {
+    return false;
+  }
+  if (match.jiraProject) {
+    const key = typeof meta.key === "string" ? meta.key : "";
+    if (item.source !== "jira" || !eq(key.split("-")[0], match.jiraProject)) {
+      return false;
+    }
+  }
+  if (match.jiraStatus && (item.source !== "jira" || !eq(meta.status, match.jiraStatus))) {
+    return false;
+  }
+  if (match.labels?.length) {
+    const labels = Array.isArray(meta.labels) ? (meta.labels as unknown[]) : [];
+    if (!match.labels.some((wanted) => labels.some((l) => eq(l, wanted)))) {
+      return false;
+    }
+  }
+  if (match.titleRegex && !new RegExp(match.titleRegex, "i").test(item.title)) {
+    return false;
+  }
+  if (match.bodyRegex && !new RegExp(match.bodyRegex, "i").test(item.body)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluate rules against an item without changing it.
+ * Later rules override priority/status/snooze of earlier ones; tags accumulate.
+ */
+export function evaluateRules(item: WorkItem, rules: Rule[], now = new Date()): RuleEffect {
+  const effect: RuleEffect = { ruleIds: [], tags: [], breakThrough: false };
+  for (const rule of rules) {
+    if (!rule.enabled || !matchesRule(item, rule.match)) {
+      continue;
+    }
+    effect.ruleIds.push(rule.id);
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case "set_priority":
+          effect.priority = action.priority;
+          break;
+        case "set_status":
+          effect.status = action.status;
+          effect.statusRule = { id: rule.id, name: rule.name };
+          break;
+        case "add_tag":
+          if (!effect.tags.includes(action.tag)) {
+            effect.tags.push(action.tag);
+          }
+          break;
+        case "snooze": {
+          const ms = parseDuration(action.duration);
+          if (ms !== null) {
+            effect.snoozedUntil = new Date(now.getTime() + ms);
+            effect.statusRule = { id: rule.id, name: rule.name };
+          }
+          break;
+        }
+        case "break_through":
+          effect.breakThrough = true;
+          break;
+      }
+    }
+  }
+  return effect;
+}
+
+/**
+ * Apply matching rules to an item in place.
+ * Priority and tags are applied on every sync; status and snooze only to items seen
+ * for the first time, so a rule never overrides a status the user chose later.
+ * @param isNew - Whether the item is not yet in the store
+ */
+export function applyRules(item: WorkItem, rules: Rule[], isNew: boolean): RuleEffect {
+  const effect = evaluateRules(item, rules);
+  if (effect.priority) {
+    item.priority = effect.priority;
+  }
+  if (effect.tags.length) {
+    const existing = Array.isArray(item.metadata.tags) ? (item.metadata.tags as string[]) : [];
+    item.metadata = { ...item.metadata, tags: [...new Set([...existing, ...effect.tags])] };
+  }
+  if (isNew && effect.status) {
+    item.status = effect.status;
+  }
+  if (isNew && effect.snoozedUntil && item.status !== "done" && item.status !== "dismissed") {
+    item.status = "snoozed";
+    item.snoozedUntil = effect.snoozedUntil;
+  }
+  return effect;
+}
+
+function validateAction(action: unknown): RuleAction {
+  const a = (action ?? {}) as Record<string, unknown>;
+  switch (a.type) {
+    case "set_priority":
+      if (!PRIORITIES.includes(a.priority as WorkItem["priority"])) {
+        throw new Error(`set_priority requires priority: ${PRIORITIES.join("|")}`);
+      }
+      return { type: "set_priority", priority: a.priority as WorkItem["priority"] };
+    case "set_status":
+      if (!RULE_STATUSES.includes(a.status as string)) {
+        throw new Error(`set_status requires status: ${RULE_STATUSES.join("|")}`);
+      }
+      return { type: "set_status", status: a.status as Exclude<WorkItem["status"], "new"> };
+    case "add_tag":
+      if (typeof a.tag !== "string" || !a.tag.trim()) {
+        throw new Error("add_tag requires a non-empty tag");
+      }
+      return { type: "add_tag", tag: a.tag.trim() };
+    case "snooze":
+      if (typeof a.duration !== "string" || parseDuration(a.duration) === null) {
+        throw new Error("snooze requires a duration like 30m, 2h, 1d or 1w");
+      }
+      return { type: "snooze", duration: a.duration };
+    case "break_through":
+      return { type: "break_through" };
+    default:
+      throw new Error(`Unknown rule action: ${String(a.type)}`);
+  }
+}
+
+/**
+ * Validate untrusted rule input (API body, CLI flags).
+ * @throws Error describing the first invalid field
+ */
+export function validateRuleInput(input: unknown, partial = false): Partial<RuleInput> {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const result: Partial<RuleInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      throw new Error("name required");
+    }
+    result.name = body.name.trim();
+  }
+
+  if (body.match !== undefined || !partial) {
+    const match = (body.match ?? {}) as Record<string, unknown>;
+    if (typeof match !== "object" || Array.isArray(match)) {
+      throw new Error("match must be an object");
+    }
+    const clean: RuleMatch = {};
+    for (const [key, value] of Object.entries(match)) {
+      if (!MATCH_KEYS.has(key)) {
+        throw new Error(`Unknown match field: ${key}`);
+      }
+      if (key === "labels") {
+        if (!Array.isArray(value) || !value.every((l) => typeof l === "string")) {
+          throw new Error("labels must be an array of strings");
+        }
+        clean.labels = value;
+        continue;
+      }
+      if (typeof value !== "string" || !value) {
+        throw new Error(`${key} must be a non-empty string`);
+      }
+      if (key === "titleRegex" || key === "bodyRegex") {
+        try {
+          new RegExp(value, "i");
+        } catch {
+          throw new Error(`${key} is not a valid regular expression`);
+        }
+      }
+      (clean as Record<string, unknown>)[key] = value;
+    }
+    if (Object.keys(clean).length === 0) {
+      throw new Error("match needs at least one condition");
+    }
+    result.match = clean;
+  }
+
+  if (body.actions !== undefined || !partial) {
+    if (!Array.isArray(body.actions) || body.actions.length === 0) {
+      throw new Error("actions must be a non-empty array");
+    }
+    result.actions = body.actions.map(validateAction);
+  }
+
+  if (body.enabled !== undefined) {
+    result.enabled = !!body.enabled;
+  }
+  if (body.position !== undefined) {
+    if (!Number.isInteger(body.position)) {
+      throw new Error("position must be an integer");
+    }
+    result.position = body.position as number;
+  }
+
+  return result;
+}
+
+/** A single inbox item a dry-run rule would change. */
+export interface RuleDryRunResult {
+  id: string;
+  title: string;
+  source: string;
+  before: { priority: WorkItem["priority"]; status: WorkItem["status"] };
+  after: { priority: WorkItem["priority"]; status: WorkItem["status"] };
+  tags: string[];
+  snoozedUntil?: Date;
+}
+
+/**
+ * Show which items a rule would affect, without changing anything.
+ * Status and snooze are shown as if the item were new.
+ */
+export function dryRunRule(rule: Rule, items: WorkItem[]): RuleDryRunResult[] {
+  const results: RuleDryRunResult[] = [];
+  for (const item of items) {
+    const effect = evaluateRules(item, [{ ...rule, enabled: true }]);
+    if (effect.ruleIds.length === 0) {
+      continue;
+    }
+    results.push({
+      id: item.id,
+      title: item.title,
+      source: item.source,
+      before: { priority: item.priority, status: item.status },
+      after: {
+        priority: effect.priority ?? item.priority,
+        status: effect.status ?? item.status,
+      },
+      tags: effect.tags,
+      snoozedUntil: effect.snoozedUntil,
+    });
+  }
+  return results;
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { BaseChannel } from "../channels/base.js";
+import type { SyncStats } from "./orchestrator.js";
+import { AUTH_FAILURE_THRESHOLD, SyncScheduler, parseIntervals } from "./scheduler.js";
+
+vi.mock("./director.js", () => ({
+  Director: { getInstance: () => ({ log: () => {} }) },
+}));
+
+const channel = { name: "github" } as BaseChannel;
+
+function statsFor(perSource: SyncStats["perSource"][string]): { stats: SyncStats } {
+  return {
+    stats: { totalItems: 0, newItems: 0, duplicatesSkipped: 0, perSource: { github: perSource } },
+  };
+}
+
+describe("parseIntervals", () => {
+  it("parses name=seconds pairs into ms", () => {
+    expect(parseIntervals("github=60, jira=300")).toEqual({ github: 60_000, jira: 300_000 });
+  });
+
+  it("ignores malformed entries", () => {
+    expect(parseIntervals("github=abc,=5,slack=0")).toEqual({});
+  });
+});
+
+describe("SyncScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function makeScheduler(runSync: () => Promise<{ stats: SyncStats }>, isBusy = () => false) {
+    return new SyncScheduler({
+      channels: () => [channel],
+      runSync,
+      isBusy,
+      defaultIntervalMs: 60_000,
+      intervals: {},
+      random: () => 0.5, // no jitter
+    });
+  }
+
+  it("runs each channel on its interval and notifies listeners", async () => {
+    const runSync = vi.fn(async () => statsFor({ total: 1, new: 1 }));
+    const scheduler = makeScheduler(runSync);
+    const completed: string[] = [];
+    scheduler.onSyncComplete((name) => completed.push(name));
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(runSync).toHaveBeenCalledTimes(1);
+    expect(completed).toEqual(["github"]);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(runSync).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("backs off exponentially after failures", async () => {
+    const runSync = vi.fn(async () => statsFor({ total: 0, new: 0, error: "boom" }));
+    const scheduler = makeScheduler(runSync);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(runSync).toHaveBeenCalledTimes(1);
+
+    // Second run waits 2 × interval
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(runSync).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(runSync).toHaveBeenCalledTimes(2);
+
+    const [status] = scheduler.getStatus();
+    expect(status.lastError).toBe("boom");
+    expect(status.consecutiveFailures).toBe(2);
+    scheduler.stop();
+  });
+
+  it("pauses a channel after repeated auth errors until resumed", async () => {
+    const runSync = vi.fn(async () =>
+      statsFor({ total: 0, new: 0, error: "Bad credentials", authError: true }),
+    );
+    const scheduler = makeScheduler(runSync);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    expect(runSync).toHaveBeenCalledTimes(AUTH_FAILURE_THRESHOLD);
+
+    const [status] = scheduler.getStatus();
+    expect(status.paused).toBe(true);
+    expect(status.nextRunAt).toBeNull();
+
+    runSync.mockImplementation(async () => statsFor({ total: 0, new: 0 }));
+    expect(scheduler.resume("github")).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(runSync).toHaveBeenCalledTimes(AUTH_FAILURE_THRESHOLD + 1);
+    expect(scheduler.getStatus()[0].paused).toBe(false);
+    scheduler.stop();
+  });
+
+  it("does not reschedule a sync that was in flight during a restart", async () => {
+    let finish: () => void = () => {};
+    const runSync = vi.fn(
+      () =>
+        new Promise<{ stats: SyncStats }>((resolve) => {
+          finish = () => resolve(statsFor({ total: 0, new: 0 }));
+        }),
+    );
+    const scheduler = makeScheduler(runSync);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(runSync).toHaveBeenCalledTimes(1);
+
+    scheduler.restart();
+    finish();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(runSync).toHaveBeenCalledTimes(2);
+    finish();
+
+    // Only the restarted schedule keeps running
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(runSync).toHaveBeenCalledTimes(3);
+    expect(scheduler.getStatus()).toHaveLength(1);
+    scheduler.stop();
+  });
+
+  it("retries later without counting a failure when a sync is already running", async () => {
+    const runSync = vi.fn(async () => statsFor({ total: 0, new: 0 }));
+    let busy = true;
+    const scheduler = makeScheduler(runSync, () => busy);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(runSync).not.toHaveBeenCalled();
+
+    busy = false;
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(runSync).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus()[0].consecutiveFailures).toBe(0);
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * @module agent/scheduler
+ * Background sync scheduler — runs each channel on its own interval with jitter,
+ * exponential backoff after failures, and a circuit breaker that pauses a channel
+ * after repeated auth errors.
+ */
+
+import type { BaseChannel } from "../channels/base.js";
+import { env } from "../soterflow-env.js";
+import { scopeKey } from "../store/scope.js";
+import { Director } from "./director.js";
+import { getCachedChannels, isSyncing, syncAll, type SyncStats } from "./orchestrator.js";
+
+/** Consecutive auth failures before a channel is paused. */
+export const AUTH_FAILURE_THRESHOLD = 3;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const JITTER_RATIO = 0.1;
+/** Retry delay when another sync (manual or scheduled) is already running. */
+const BUSY_RETRY_MS = 15_000;
+
+/** Schedule state of a single channel, as exposed by `GET /api/sync/status`. */
+export interface ChannelSchedule {
+  channel: string;
+  intervalMs: number;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  consecutiveAuthFailures: number;
+  /** Circuit breaker open — no runs until {@link SyncScheduler.resume}. */
+  paused: boolean;
+}
+
+export interface SchedulerOptions {
+  /** Channels to schedule (default: cached channels from the orchestrator). */
+  channels?: () => BaseChannel[];
+  /** Sync runner (default: `syncAll`). */
+  runSync?: (channels: BaseChannel[]) => Promise<{ stats: SyncStats }>;
+  /** Whether another sync is in progress (default: `isSyncing`). */
+  isBusy?: () => boolean;
+  /** Interval for channels without an override, in ms. */
+  defaultIntervalMs?: number;
+  /** Per-channel interval overrides, in ms. */
+  intervals?: Record<string, number>;
+  /** Random source for jitter (0..1). */
+  random?: () => number;
+}
+
+type SyncCompleteListener = (channel: string, stats: SyncStats) => void;
+
+interface ScheduleState extends ChannelSchedule {
+  target: BaseChannel;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Parse per-channel intervals from a `name=seconds` list, e.g. `github=60,jira=300`.
+ * @returns Interval per channel name, in ms
+ */
+export function parseIntervals(spec: string): Record<string, number> {
+  const intervals: Record<string, number> = {};
+  for (const part of spec.split(",")) {
+    const [name, seconds] = part.split("=").map((s) => s.trim());
+    const n = Number(seconds);
+    if (name && Number.isFinite(n) && n > 0) {
+      intervals[name] = n * 1000;
+    }
+  }
+  return intervals;
+}
+
+export class SyncScheduler {
+  /** One scheduler per account (see `scopeKey`). */
+  private static instances = new Map<string, SyncScheduler>();
+
+  private states = new Map<string, ScheduleState>();
+  private listeners: SyncCompleteListener[] = [];
+  private running = false;
+  private readonly getChannels: () => BaseChannel[];
+  private readonly runSync: (channels: BaseChannel[]) => Promise<{ stats: SyncStats }>;
+  private readonly isBusy: () => boolean;
+  private readonly defaultIntervalMs: number;
+  private readonly intervals: Record<string, number>;
+  private readonly random: () => number;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.getChannels = options.channels ?? getCachedChannels;
+    this.runSync = options.runSync ?? syncAll;
+    this.isBusy = options.isBusy ?? isSyncing;
+    this.defaultIntervalMs =
+      options.defaultIntervalMs ?? env.SOTERFLOW_SYNC_INTERVAL_SECONDS * 1000;
+    this.intervals = options.intervals ?? parseIntervals(env.SOTERFLOW_SYNC_INTERVALS);
+    this.random = options.random ?? Math.random;
+  }
+
+  /** The scheduler of the current account. Its timers run in the scope it was started in. */
+  static getInstance(): SyncScheduler {
+    const key = scopeKey();
+    let instance = SyncScheduler.instances.get(key);
+    if (!instance) {
+      instance = new SyncScheduler();
+      SyncScheduler.instances.set(key, instance);
+    }
+    return instance;
+  }
+
+  /** Stop the schedulers of all accounts. */
+  static stopAll(): void {
+    for (const instance of SyncScheduler.instances.values()) {
+      instance.stop();
+    }
+  }
+
+  /** Register a callback invoked after every scheduled channel sync. */
+  onSyncComplete(listener: SyncCompleteListener): void {
+    this.listeners.push(listener);
+  }
+
+  /** Start scheduling all channels. A non-positive default interval disables the scheduler. */
+  start(): void {
+    if (this.running || this.defaultIntervalMs <= 0) {
+      return;
+    }
+    this.running = true;
+    for (const channel of this.getChannels()) {
+      const state: ScheduleState = {
+        channel: channel.name,
+        target: channel,
+        intervalMs: this.intervals[channel.name] ?? this.defaultIntervalMs,
+        nextRunAt: null,
+        lastRunAt: null,
+        lastSuccessAt: null,
+        lastError: null,
+        consecutiveFailures: 0,
+        consecutiveAuthFailures: 0,
+        paused: false,
+        timer: null,
+      };
+      this.states.set(channel.name, state);
+      // Spread initial runs so channels don't all hit the network at once
+      this.schedule(state, this.random() * JITTER_RATIO * state.intervalMs);
+    }
+    console.log(`[soterflow] Sync scheduler started for ${this.states.size} channel(s)`);
+  }
+
+  /** Stop all timers. In-flight syncs finish but are not rescheduled. */
+  stop(): void {
+    this.running = false;
+    for (const state of this.states.values()) {
+      if (state.timer) {
+        clearTimeout(state.timer);
+      }
+    }
+    this.states.clear();
+  }
+
+  /**
+   * Reschedule with the current channel list (after credentials changed). Also starts a stopped
+   * scheduler when background sync runs for any other account.
+   */
+  restart(): void {
+    const start =
+      this.running || [...SyncScheduler.instances.values()].some((instance) => instance.running);
+    this.stop();
+    if (start) {
+      this.start();
+    }
+  }
+
+  /** Close the circuit breaker for a paused channel and run it right away. */
+  resume(channelName: string): boolean {
+    const state = this.states.get(channelName);
+    if (!state) {
+      return false;
+    }
+    state.paused = false;
+    state.consecutiveFailures = 0;
+    state.consecutiveAuthFailures = 0;
+    this.schedule(state, 0);
+    return true;
+  }
+
+  /** Current schedule per channel. */
+  getStatus(): ChannelSchedule[] {
+    return [...this.states.values()].map(({ target: _target, timer: _timer, ...status }) => status);
+  }
+
+  private schedule(state: ScheduleState, delayMs: number): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+    }
+    // A state replaced by restart() (its sync was in flight) is not rescheduled
+    const stale = this.states.get(state.channel) !== state;
+    if (!this.running || state.paused || stale) {
+      state.timer = null;
+      state.nextRunAt = null;
+      return;
+    }
+    state.nextRunAt = new Date(Date.now() + delayMs);
+    state.timer = setTimeout(() => void this.run(state), delayMs);
+  }
+
+  private async run(state: ScheduleState): Promise<void> {
+    state.timer = null;
+    state.nextRunAt = null;
+    if (this.isBusy()) {
+      this.schedule(state, BUSY_RETRY_MS);
+      return;
+    }
+
+    state.lastRunAt = new Date();
+    try {
+      const { stats } = await this.runSync([state.target]);
+      const result = stats.perSource[state.channel];
+      if (result?.error) {
+        this.recordFailure(state, result.error, !!result.authError);
+      } else {
+        state.lastSuccessAt = new Date();
+        state.lastError = null;
+        state.consecutiveFailures = 0;
+        state.consecutiveAuthFailures = 0;
+      }
+      for (const listener of this.listeners) {
+        listener(state.channel, stats);
+      }
+    } catch (err) {
+      this.recordFailure(state, err instanceof Error ? err.message : String(err), false);
+    }
+
+    this.schedule(state, this.nextDelay(state));
+  }
+
+  private recordFailure(state: ScheduleState, message: string, authError: boolean): void {
+    state.lastError = message;
+    state.consecutiveFailures++;
+    state.consecutiveAuthFailures = authError ? state.consecutiveAuthFailures + 1 : 0;
+
+    if (state.consecutiveAuthFailures >= AUTH_FAILURE_THRESHOLD) {
+      state.paused = true;
+      console.warn(
+        `[soterflow] Pausing scheduled sync for ${state.channel} after ${state.consecutiveAuthFailures} auth errors`,
+      );
+      try {
+        Director.getInstance().log(
+          "warn",
+          `Scheduled sync paused for ${state.channel}: ${message}`,
+        );
+      } catch {}
+    }
+  }
+
+  /** Interval, doubled per consecutive failure (capped), with ±10% jitter. */
+  private nextDelay(state: ScheduleState): number {
+    const backoff = Math.min(
+      state.intervalMs * 2 ** Math.min(state.consecutiveFailures, 16),
+      Math.max(MAX_BACKOFF_MS, state.intervalMs),
+    );
+    const jitter = (this.random() * 2 - 1) * JITTER_RATIO;
+    return Math.round(backoff * (1 + jitter));
+  }
+}
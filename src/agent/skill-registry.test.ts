@@ -0,0 +1,198 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+
+vi.mock("./orchestrator.js", () => ({ getCachedChannels: () => [] }));
+
+const { parseSkillManifest, validateSkillInput, loadSkills } = await import("./skill-registry.js");
+
+function manifest(name: string, soterflow: string, description = "Test skill"): string {
+  return [
+    "---",
+    `name: ${name}`,
+    `description: ${description}`,
+    "metadata:",
+    `  { "soterflow": ${soterflow} }`,
+    "---",
+    "",
+    `# ${name}`,
+    "",
+  ].join("\n");
+}
+
+const ECHO_SPEC =
+  '{ "applicableTo": ["jira"], "actions": ["echo"], "classification": { "echo": "read-only" }, ' +
+  '"handler": "handler.mjs", ' +
+  '"input": { "type": "object", "properties": { "text": { "type": "string" } }, "required": ["text"] } }';
+
+describe("parseSkillManifest", () => {
+  it("reads the soterflow block of a SKILL.md", () => {
+    expect(parseSkillManifest(manifest("echo", ECHO_SPEC))).toEqual({
+      id: "echo",
+      description: "Test skill",
+      applicableTo: ["jira"],
+      actions: ["echo"],
+      classification: { echo: "read-only" },
+      input: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      },
+      handler: "handler.mjs",
+    });
+  });
+
+  it("skips skills without a soterflow block", () => {
+    const skill = '---\nname: github\ndescription: gh CLI\nmetadata: { "openclaw": {} }\n---\n';
+    expect(parseSkillManifest(skill)).toBeNull();
+  });
+
+  it("rejects invalid manifests", () => {
+    expect(() => parseSkillManifest("# no frontmatter")).toThrow("Missing frontmatter");
+    expect(() => parseSkillManifest(manifest("Bad Name", ECHO_SPEC))).toThrow("name must be");
+    expect(() =>
+      parseSkillManifest(manifest("echo", '{ "applicableTo": [], "actions": ["echo"] }')),
+    ).toThrow("applicableTo must be a non-empty list of strings");
+    expect(() =>
+      parseSkillManifest(
+        manifest("echo", '{ "applicableTo": ["jira"], "actions": ["x"], "handler": "../x.js" }'),
+      ),
+    ).toThrow("handler must be a path inside the skill directory");
+    expect(() =>
+      parseSkillManifest(
+        manifest(
+          "echo",
+          '{ "applicableTo": ["jira"], "actions": ["x"], "input": { "type": "map" } }',
+        ),
+      ),
+    ).toThrow("input.type must be one of");
+    expect(() =>
+      parseSkillManifest(
+        manifest(
+          "echo",
+          '{ "applicableTo": ["jira"], "actions": ["x"], "classification": { "x": "safe" } }',
+        ),
+      ),
+    ).toThrow("classification.x must be an action mapped to read-only, reversible, destructive");
+  });
+});
+
+describe("validateSkillInput", () => {
+  const schema = {
+    type: "object" as const,
+    properties: {
+      text: { type: "string" as const },
+      count: { type: "integer" as const },
+      mode: { type: "string" as const, enum: ["fast", "slow"] },
+    },
+    required: ["text"],
+  };
+
+  it("accepts matching params", () => {
+    expect(() => validateSkillInput(schema, { text: "hi", count: 2, mode: "fast" })).not.toThrow();
+  });
+
+  it("names the first mismatching param", () => {
+    expect(() => validateSkillInput(schema, {})).toThrow("params.text required");
+    expect(() => validateSkillInput(schema, { text: "hi", count: 1.5 })).toThrow(
+      "params.count must be an integer",
+    );
+    expect(() => validateSkillInput(schema, { text: "hi", mode: "later" })).toThrow(
+      "params.mode must be one of fast, slow",
+    );
+  });
+});
+
+describe("skill directories", () => {
+  let dir: string;
+
+  function writeSkill(name: string, spec: string, result: string) {
+    fs.mkdirSync(path.join(dir, name), { recursive: true });
+    fs.writeFileSync(path.join(dir, name, "SKILL.md"), manifest(name, spec));
+    fs.writeFileSync(
+      path.join(dir, name, "handler.mjs"),
+      `export default async (ctx) => \`${result} \${ctx.params.text}\`;\n`,
+    );
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "soterflow-skills-"));
+  });
+
+  afterEach(async () => {
+    const { Director } = await import("./director.js");
+    Director.getInstance().unwatchSkills();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads valid skills and reports invalid ones", async () => {
+    writeSkill("echo", ECHO_SPEC, "echo");
+    fs.mkdirSync(path.join(dir, "broken"));
+    fs.writeFileSync(
+      path.join(dir, "broken", "SKILL.md"),
+      manifest(
+        "broken",
+        '{ "applicableTo": ["jira"], "actions": ["x"], "handler": "missing.mjs" }',
+      ),
+    );
+
+    const { skills, errors } = await loadSkills([dir, path.join(dir, "nonexistent")]);
+    expect(skills.map((s) => s.id)).toEqual(["echo"]);
+    expect(skills[0].origin).toBe(path.join(dir, "echo", "SKILL.md"));
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toBe(path.join(dir, "broken", "SKILL.md"));
+  });
+
+  it("registers skills with the Director and reloads them on change", async () => {
+    const { Director } = await import("./director.js");
+    const director = Director.getInstance();
+    writeSkill("echo", ECHO_SPEC, "echo");
+    writeSkill("summarize", ECHO_SPEC, "clash");
+
+    await director.watchSkills([dir]);
+    const echo = director.getSkills().find((s) => s.id === "echo");
+    expect(echo).toMatchObject({ name: "echo", applicableTo: ["jira"], actions: ["echo"] });
+    expect(director.getSkills().filter((s) => s.id === "summarize")).toHaveLength(1);
+    expect(director.getLogs().map((l) => l.message)).toContain(
+      `Skipped skill ${path.join(dir, "summarize", "SKILL.md")}: Duplicate skill id: summarize`,
+    );
+    await expect(echo!.run!({ params: { text: "hi" } } as never)).resolves.toBe("echo hi");
+
+    writeSkill("shout", ECHO_SPEC.replaceAll('"echo"', '"shout"'), "SHOUT");
+    await vi.waitFor(() => expect(director.getSkills().some((s) => s.id === "shout")).toBe(true), {
+      timeout: 5000,
+    });
+  });
+
+  it("validates dispatch params against the skill's input schema", async () => {
+    const { Director } = await import("./director.js");
+    const { upsert } = await import("../store/workitems.js");
+    const director = Director.getInstance();
+    writeSkill("echo", ECHO_SPEC, "echo");
+    await director.reloadSkills([dir]);
+    upsert({
+      id: "jira-OPS-2",
+      source: "jira",
+      type: "issue",
+      title: "Echo",
+      body: "",
+      author: "alice",
+      timestamp: new Date(),
+      priority: "normal",
+      url: "",
+      metadata: { key: "OPS-2" },
+      status: "new",
+    });
+
+    expect(() => director.dispatch("jira-OPS-2", "echo", { params: { text: 1 } })).toThrow(
+      "params.text must be a string",
+    );
+    const agent = director.dispatch("jira-OPS-2", "echo", { params: { text: "hi" } });
+    await vi.waitFor(() => expect(director.getAgent(agent.id)?.status).toBe("completed"));
+    expect(director.getAgent(agent.id)?.result).toBe("echo hi");
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * @module agent/skill-registry
+ * Director skills beyond the built-in ones, loaded from skill manifests. Like the repo's
+ * `skills/` folder, each skill is a directory with a `SKILL.md` whose YAML frontmatter names and
+ * describes it; Director skills add a `metadata.soterflow` block (sources, actions, input schema
+ * and handler module), other skills are skipped. The directories in `SOTERFLOW_SKILLS_DIRS`
+ * are scanned at start and again whenever a file in them changes.
+ *
+ * ```markdown
+ * ---
+ * name: jira-from-slack
+ * description: Create a Jira ticket from a Slack message
+ * metadata:
+ *   {
+ *     "soterflow":
+ *       {
+ *         "applicableTo": ["slack"],
+ *         "actions": ["create-ticket"],
+ *         "classification": { "create-ticket": "reversible" },
+ *         "input": { "type": "object", "properties": { "project": { "type": "string" } } },
+ *         "handler": "handler.js",
+ *       },
+ *   }
+ * ---
+ * ```
+ *
+ * The handler module exports a {@link SkillHandler} as `default` or `run`. Actions missing from
+ * `classification` count as destructive, so they need approval.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import YAML from "yaml";
+import type { SkillHandler } from "./skills.js";
+import { env } from "../soterflow-env.js";
+import { ACTION_CLASSES, type ActionClass } from "./approvals.js";
+
+/** JSON Schema subset describing a skill's dispatch params. */
+export interface InputSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, InputSchema>;
+  required?: string[];
+  items?: InputSchema;
+  enum?: unknown[];
+}
+
+/** A skill manifest as read from `SKILL.md`. */
+export interface SkillManifest {
+  id: string;
+  description: string;
+  applicableTo: string[];
+  actions: string[];
+  /** Class of each action. */
+  classification: Record<string, ActionClass>;
+  input?: InputSchema;
+  /** Handler module, relative to the skill directory. */
+  handler: string;
+}
+
+/** A manifest that failed to load. */
+export interface SkillLoadError {
+  path: string;
+  error: string;
+}
+
+/** A skill loaded from a manifest, ready to dispatch. */
+export interface LoadedSkill extends SkillManifest {
+  run: SkillHandler;
+  /** Path of the manifest. */
+  origin: string;
+}
+
+const MANIFEST_FILE = "SKILL.md";
+const SCHEMA_TYPES = new Set(["object", "string", "number", "integer", "boolean", "array"]);
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/** Wait after the last file change before reloading (editors write in several steps). */
+const RELOAD_DEBOUNCE_MS = 200;
+
+/** Directories scanned for skills. */
+export function skillDirs(): string[] {
+  return env.SOTERFLOW_SKILLS_DIRS.split(",")
+    .map((d) => d.trim())
+    .filter(Boolean)
+    .map((d) => path.resolve(d));
+}
+
+/**
+ * Parse a `SKILL.md`.
+ * @returns The manifest, or null if it is not a Director skill (no `metadata.soterflow`)
+ * @throws Error describing the first invalid field
+ */
+export function parseSkillManifest(content: string): SkillManifest | null {
+  const normalized = content.replace(/\r\n?/g, "\n");
+  const end = normalized.indexOf("\n---", 3);
+  if (!normalized.startsWith("---") || end === -1) {
+    throw new Error("Missing frontmatter");
+  }
+  const frontmatter = YAML.parse(normalized.slice(4, end)) as Record<string, unknown> | null;
+  const metadata = frontmatter?.metadata as Record<string, unknown> | undefined;
+  const spec = metadata?.soterflow as Record<string, unknown> | undefined;
+  if (!spec) {
+    return null;
+  }
+
+  const id = frontmatter?.name;
+  if (typeof id !== "string" || !ID_PATTERN.test(id)) {
+    throw new Error("name must be lowercase letters, digits and dashes");
+  }
+  const description = frontmatter?.description;
+  if (typeof description !== "string" || !description.trim()) {
+    throw new Error("description required");
+  }
+  const applicableTo = stringList(spec.applicableTo, "applicableTo");
+  const actions = stringList(spec.actions, "actions");
+  const classification: Record<string, ActionClass> = {};
+  for (const action of actions) {
+    classification[action] = "destructive";
+  }
+  if (spec.classification !== undefined) {
+    if (!spec.classification || typeof spec.classification !== "object") {
+      throw new Error("classification must map actions to classes");
+    }
+    for (const [action, cls] of Object.entries(spec.classification)) {
+      if (!actions.includes(action) || !ACTION_CLASSES.includes(cls as ActionClass)) {
+        throw new Error(
+          `classification.${action} must be an action mapped to ${ACTION_CLASSES.join(", ")}`,
+        );
+      }
+      classification[action] = cls as ActionClass;
+    }
+  }
+  const handler = spec.handler ?? "handler.js";
+  if (
+    typeof handler !== "string" ||
+    path.isAbsolute(handler) ||
+    handler.split(/[\\/]/).includes("..")
+  ) {
+    throw new Error("handler must be a path inside the skill directory");
+  }
+  if (spec.input !== undefined) {
+    validateSchema(spec.input, "input");
+  }
+  return {
+    id,
+    description: description.trim(),
+    applicableTo,
+    actions,
+    classification,
+    input: spec.input as InputSchema | undefined,
+    handler,
+  };
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((v) => typeof v === "string" && v)
+  ) {
+    throw new Error(`${field} must be a non-empty list of strings`);
+  }
+  return value as string[];
+}
+
+/** Check that a schema only uses the supported JSON Schema subset. */
+function validateSchema(schema: unknown, at: string): void {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error(`${at} must be an object`);
+  }
+  const s = schema as Record<string, unknown>;
+  if (typeof s.type !== "string" || !SCHEMA_TYPES.has(s.type)) {
+    throw new Error(`${at}.type must be one of ${[...SCHEMA_TYPES].join(", ")}`);
+  }
+  if (s.enum !== undefined && !Array.isArray(s.enum)) {
+    throw new Error(`${at}.enum must be a list`);
+  }
+  if (s.properties !== undefined) {
+    if (s.type !== "object" || typeof s.properties !== "object" || !s.properties) {
+      throw new Error(`${at}.properties needs type object`);
+    }
+    for (const [name, prop] of Object.entries(s.properties)) {
+      validateSchema(prop, `${at}.properties.${name}`);
+    }
+  }
+  if (
+    s.required !== undefined &&
+    (!Array.isArray(s.required) || !s.required.every((r) => typeof r === "string"))
+  ) {
+    throw new Error(`${at}.required must be a list of property names`);
+  }
+  if (s.items !== undefined) {
+    validateSchema(s.items, `${at}.items`);
+  }
+}
+
+/**
+ * Validate dispatch params against a skill's input schema.
+ * @throws Error naming the first param that does not match
+ */
+export function validateSkillInput(schema: InputSchema, value: unknown, at = "params"): void {
+  const actual = Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+  const matches =
+    schema.type === "integer"
+      ? Number.isInteger(value)
+      : schema.type === "object"
+        ? actual === "object"
+        : actual === schema.type;
+  if (!matches) {
+    throw new Error(`${at} must be ${schema.type === "integer" ? "an" : "a"} ${schema.type}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    throw new Error(`${at} must be one of ${schema.enum.map(String).join(", ")}`);
+  }
+  if (schema.type === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (obj[name] === undefined) {
+        throw new Error(`${at}.${name} required`);
+      }
+    }
+    for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+      if (obj[name] !== undefined) {
+        validateSkillInput(prop, obj[name], `${at}.${name}`);
+      }
+    }
+  }
+  if (schema.type === "array" && schema.items) {
+    (value as unknown[]).forEach((v, i) => validateSkillInput(schema.items!, v, `${at}[${i}]`));
+  }
+}
+
+/** Import a skill's handler module (a fresh copy when the file changed). */
+async function importHandler(file: string): Promise<SkillHandler> {
+  const { mtimeMs } = fs.statSync(file);
+  const mod = (await import(`${pathToFileURL(file).href}?v=${mtimeMs}`)) as {
+    default?: unknown;
+    run?: unknown;
+  };
+  const run = mod.default ?? mod.run;
+  if (typeof run !== "function") {
+    throw new Error(`${file} must export a handler function as default or run`);
+  }
+  return run as SkillHandler;
+}
+
+/**
+ * Load the skills of the given directories (each skill in a subdirectory with a `SKILL.md`).
+ * Invalid manifests and handlers are reported in `errors` instead of failing the whole load.
+ */
+export async function loadSkills(
+  dirs: string[],
+): Promise<{ skills: LoadedSkill[]; errors: SkillLoadError[] }> {
+  const skills: LoadedSkill[] = [];
+  const errors: SkillLoadError[] = [];
+  for (const dir of dirs) {
+    if (!fs.existsSync(dir)) {
+      continue;
+    }
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const file = path.join(dir, entry.name, MANIFEST_FILE);
+      if (!entry.isDirectory() || !fs.existsSync(file)) {
+        continue;
+      }
+      try {
+        const manifest = parseSkillManifest(fs.readFileSync(file, "utf8"));
+        if (!manifest) {
+          continue;
+        }
+        if (skills.some((s) => s.id === manifest.id)) {
+          throw new Error(`Duplicate skill id: ${manifest.id}`);
+        }
+        const run = await importHandler(path.join(dir, entry.name, manifest.handler));
+        skills.push({ ...manifest, run, origin: file });
+      } catch (e: unknown) {
+        errors.push({ path: file, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  }
+  return { skills, errors };
+}
+
+/**
+ * Watch skill directories and call `onChange` (debounced) when anything in them changes.
+ * @returns Function that stops watching
+ */
+export function watchSkillDirs(dirs: string[], onChange: () => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const changed = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      onChange();
+    }, RELOAD_DEBOUNCE_MS);
+    timer.unref?.();
+  };
+  const watchers = dirs
+    .filter((dir) => fs.existsSync(dir))
+    .map((dir) => {
+      const watcher = fs.watch(dir, { recursive: true }, changed);
+      watcher.unref();
+      return watcher;
+    });
+  return () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * @module agent/skills
+ * Skill handlers run by the Director's sub-agents. A handler gets the work item, the connected
+ * channel of its source and the requested action, reports progress as it goes and returns a
+ * short result text; it throws to fail the agent.
+ */
+
+import type { BaseChannel, WorkItem } from "../channels/base.js";
+import type { Actor } from "../store/history.js";
+import { GitHubChannel, pullRequestRef } from "../channels/github.js";
+import { env } from "../soterflow-env.js";
+import { getByConversation } from "../store/workitems.js";
+import { PendingActions } from "./actions.js";
+import { complete } from "./llm.js";
+
+export interface SkillContext {
+  item: WorkItem;
+  /** Connected channel of the item's source, or null if none is configured. */
+  channel: BaseChannel | null;
+  action: string;
+  params: Record<string, unknown>;
+  /** The agent, as recorded in the item's history. */
+  actor: Actor;
+  /** Aborted when the agent is cancelled or times out. */
+  signal: AbortSignal;
+  progress: (step: string) => void;
+}
+
+/** Runs a skill action; resolves to the result text. */
+export type SkillHandler = (ctx: SkillContext) => Promise<string>;
+
+/** Longest item body included in a summary prompt. */
+const MAX_BODY_CHARS = 2000;
+
+/**
+ * Item metadata channels read from action params (Jira/Linear `key`, Slack `channel`/`ts`,
+ * GitLab `projectId`/`iid`/`kind`/`todoId`), passed along unless the dispatch overrides them.
+ */
+const ITEM_PARAM_KEYS = ["key", "channel", "ts", "projectId", "iid", "kind", "todoId"];
+
+/**
+ * Run the action on the item's channel, like an action from the inbox: recorded in the item's
+ * history and applying the local status change (without an undo window).
+ */
+export const runChannelAction: SkillHandler = async (ctx) => {
+  if (!ctx.channel) {
+    throw new Error(`No channel for source: ${ctx.item.source}`);
+  }
+  ctx.signal.throwIfAborted();
+  const params: Record<string, unknown> = {};
+  for (const key of ITEM_PARAM_KEYS) {
+    if (ctx.item.metadata[key] !== undefined) {
+      params[key] = ctx.item.metadata[key];
+    }
+  }
+  const done = await PendingActions.getInstance().execute(
+    ctx.item,
+    ctx.action,
+    { ...params, ...ctx.params },
+    ctx.actor,
+    ctx.progress,
+  );
+  return `${ctx.action} done on "${ctx.item.title}"${done.status ? ` (now ${done.status})` : ""}`;
+};
+
+/** GitHub actions that only read, answered by the channel's getters. */
+const GITHUB_READS = new Set(["diff", "checks", "check-status"]);
+
+/**
+ * GitHub actions: fills in `owner`/`repo`/`number` from the item, and reads a pull request's
+ * diff and checks and the repository's workflow runs, which are not channel actions.
+ */
+export const runGitHubAction: SkillHandler = async (ctx) => {
+  const repo = typeof ctx.item.metadata.repo === "string" ? ctx.item.metadata.repo : "";
+  const [owner, name] = repo.split("/");
+  const params = { owner, repo: name, number: ctx.item.metadata.number, ...ctx.params };
+  if (!GITHUB_READS.has(ctx.action)) {
+    return runChannelAction({ ...ctx, params });
+  }
+  if (ctx.action === "check-status") {
+    return workflowStatus(ctx, params);
+  }
+
+  const ref = pullRequestRef(ctx.item);
+  if (!ref) {
+    throw new Error(`${ctx.item.id} is not a pull request`);
+  }
+  if (!(ctx.channel instanceof GitHubChannel)) {
+    throw new Error("GitHub channel not configured");
+  }
+  if (ctx.action === "diff") {
+    ctx.progress(`Fetching the diff of ${ref.owner}/${ref.repo}#${ref.number}...`);
+    const { files } = await ctx.channel.getPullRequestDiff(ref);
+    const added = files.reduce((n, f) => n + f.additions, 0);
+    const deleted = files.reduce((n, f) => n + f.deletions, 0);
+    return `${files.length} file(s) changed (+${added} −${deleted}): ${files.map((f) => f.filename).join(", ")}`;
+  }
+  ctx.progress(`Fetching checks of ${ref.owner}/${ref.repo}#${ref.number}...`);
+  const checks = await ctx.channel.getPullRequestChecks(ref);
+  const failed = checks.checks.filter((c) => c.conclusion === "failure").map((c) => c.name);
+  const mergeable =
+    checks.mergeable === null
+      ? "mergeability unknown"
+      : checks.mergeable
+        ? "mergeable"
+        : "not mergeable";
+  return `Checks ${checks.state}${failed.length ? ` (failed: ${failed.join(", ")})` : ""}, ${mergeable}`;
+};
+
+/** Latest workflow runs of the item's repository, optionally of one `workflow` and `ref`. */
+async function workflowStatus(ctx: SkillContext, params: Record<string, unknown>): Promise<string> {
+  const { owner, repo, workflow, ref } = params;
+  if (typeof owner !== "string" || !owner || typeof repo !== "string" || !repo) {
+    throw new Error(`${ctx.item.id} has no repository`);
+  }
+  if (workflow !== undefined && typeof workflow !== "string" && typeof workflow !== "number") {
+    throw new Error("params.workflow must be a workflow file name or id");
+  }
+  if (ref !== undefined && typeof ref !== "string") {
+    throw new Error("params.ref must be a string");
+  }
+  if (!(ctx.channel instanceof GitHubChannel)) {
+    throw new Error("GitHub channel not configured");
+  }
+  ctx.progress(`Fetching workflow runs of ${owner}/${repo}...`);
+  const runs = await ctx.channel.getWorkflowRuns({ owner, repo }, { workflow, branch: ref });
+  if (runs.length === 0) {
+    return `No workflow runs in ${owner}/${repo}`;
+  }
+  return runs
+    .map((r) => `${r.name} on ${r.branch}: ${r.conclusion ?? r.status} (${r.url})`)
+    .join("\n");
+}
+
+/** Summarize the item, with the rest of its conversation, through the configured LLM. */
+export const runSummarize: SkillHandler = async (ctx) => {
+  const thread = ctx.item.conversationId
+    ? getByConversation(ctx.item.conversationId).toSorted(
+        (a: WorkItem, b: WorkItem) => a.timestamp.getTime() - b.timestamp.getTime(),
+      )
+    : [ctx.item];
+  ctx.progress(`Summarizing ${thread.length} item(s) with ${env.SOTERFLOW_LLM_MODEL}...`);
+  return complete(summaryPrompt(thread), {
+    system:
+      "You summarize work items (pull requests, issues, messages) for a busy engineer. " +
+      "Reply in at most 5 short bullet points: what it is about, its current state, and what " +
+      "is expected of the reader, if anything.",
+    signal: ctx.signal,
+  });
+};
+
+/** Prompt listing the items of a thread, oldest first. */
+export function summaryPrompt(items: WorkItem[]): string {
+  return items
+    .map((item) => {
+      const body =
+        item.body.length > MAX_BODY_CHARS ? `${item.body.slice(0, MAX_BODY_CHARS)}…` : item.body;
+      return [
+        `[${item.source} ${item.type}] ${item.title}`,
+        `From ${item.author} at ${item.timestamp.toISOString()}`,
+        body,
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n\n---\n\n");
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { WAKE_HOUR, bumpPriority, parseSnoozeUntil } from "./snooze.js";
+
+describe("parseSnoozeUntil", () => {
+  // Wednesday, local time
+  const now = new Date(2025, 0, 15, 14, 30);
+
+  it("adds relative durations", () => {
+    expect(parseSnoozeUntil("2h", now)).toEqual(new Date(2025, 0, 15, 16, 30));
+    expect(parseSnoozeUntil("30m", now)).toEqual(new Date(2025, 0, 15, 15, 0));
+  });
+
+  it("resolves tomorrow to the next morning", () => {
+    expect(parseSnoozeUntil("tomorrow", now)).toEqual(new Date(2025, 0, 16, WAKE_HOUR));
+  });
+
+  it("resolves weekday names to their next occurrence", () => {
+    expect(parseSnoozeUntil("Monday", now)).toEqual(new Date(2025, 0, 20, WAKE_HOUR));
+    // Same weekday means next week, not today
+    expect(parseSnoozeUntil("wednesday", now)).toEqual(new Date(2025, 0, 22, WAKE_HOUR));
+  });
+
+  it("wakes at the wake hour of the given timezone", () => {
+    // 03:00 UTC on Thursday is still Wednesday 22:00 in New York
+    const late = new Date("2025-01-16T03:00:00Z");
+    expect(parseSnoozeUntil("tomorrow", late, "America/New_York")).toEqual(
+      new Date("2025-01-16T14:00:00Z"),
+    );
+    expect(parseSnoozeUntil("thursday", late, "America/New_York")).toEqual(
+      new Date("2025-01-16T14:00:00Z"),
+    );
+    expect(parseSnoozeUntil("monday", late, "Asia/Tokyo")).toEqual(
+      new Date("2025-01-20T00:00:00Z"),
+    );
+  });
+
+  it("accepts future ISO timestamps only", () => {
+    expect(parseSnoozeUntil("2025-02-01T10:00:00Z", now)).toEqual(new Date("2025-02-01T10:00:00Z"));
+    expect(parseSnoozeUntil("2024-01-01T00:00:00Z", now)).toBeNull();
+  });
+
+  it("rejects unknown specs", () => {
+    expect(parseSnoozeUntil("later", now)).toBeNull();
+    expect(parseSnoozeUntil("0h", now)).toBeNull();
+  });
+});
+
+describe("bumpPriority", () => {
+  it("raises priority one level, capped at urgent", () => {
+    expect(bumpPriority("low")).toBe("normal");
+    expect(bumpPriority("high")).toBe("urgent");
+    expect(bumpPriority("urgent")).toBe("urgent");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @module agent/snooze
+ * Snooze / remind-me-later — parses wake times, snoozes items and resurfaces them when due.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import type { Actor } from "../store/history.js";
+import { getById, getDueSnoozes, setSnooze, wakeSnoozed } from "../store/workitems.js";
+import { atLocalTime, getCalendar, localWeekday } from "./calendar.js";
+import { parseDuration } from "./rules.js";
+
+/** Hour of day (in the calendar's timezone) used for `tomorrow` and weekday wake times. */
+export const WAKE_HOUR = 9;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const BUMPED: Record<WorkItem["priority"], WorkItem["priority"]> = {
+  low: "normal",
+  normal: "high",
+  high: "urgent",
+  urgent: "urgent",
+};
+
+/**
+ * Resolve a snooze spec to a wake time.
+ * Accepts a duration (`30m`, `2h`, `1d`, `1w`), `tomorrow`, a weekday name (`monday`, next
+ * occurrence) or an ISO timestamp.
+ * @param timezone - Timezone of `tomorrow` and weekday wake times (default: the server's)
+ * @returns The wake time, or null if the spec is not recognized or not in the future
+ */
+export function parseSnoozeUntil(
+  spec: string,
+  now: Date = new Date(),
+  timezone?: string,
+): Date | null {
+  const input = spec.trim().toLowerCase();
+
+  const ms = parseDuration(input);
+  if (ms !== null) {
+    return ms > 0 ? new Date(now.getTime() + ms) : null;
+  }
+
+  if (input === "tomorrow") {
+    return atLocalTime(now, 1, WAKE_HOUR * 60, timezone);
+  }
+
+  const weekday = WEEKDAYS.indexOf(input);
+  if (weekday !== -1) {
+    const days = (weekday - localWeekday(now, timezone) + 7) % 7 || 7;
+    return atLocalTime(now, days, WAKE_HOUR * 60, timezone);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(input)) {
+    const d = new Date(spec.trim());
+    return !isNaN(d.getTime()) && d > now ? d : null;
+  }
+
+  return null;
+}
+
+/** One priority step up (`low` → `normal` → `high` → `urgent`). */
+export function bumpPriority(priority: WorkItem["priority"]): WorkItem["priority"] {
+  return BUMPED[priority] ?? priority;
+}
+
+/**
+ * Snooze an item until the given spec.
+ * @param id - Work item ID
+ * @param spec - Wake time spec, see {@link parseSnoozeUntil}
+ * @param options.bump - Resurface one priority level higher
+ * @param options.actor - Who snoozed it, for the item history
+ * @returns The updated item
+ * @throws Error if the item does not exist or the spec is invalid
+ */
+export function snoozeItem(
+  id: string,
+  spec: string,
+  options: { bump?: boolean; actor?: Actor } = {},
+): WorkItem {
+  const item = getById(id);
+  if (!item) {
+    throw new Error(`Work item not found: ${id}`);
+  }
+  const until = parseSnoozeUntil(spec, new Date(), getCalendar().timezone);
+  if (!until) {
+    throw new Error(`Invalid snooze time: ${spec}. Use e.g. 2h, tomorrow, monday`);
+  }
+  setSnooze(id, until, options.bump ? bumpPriority(item.priority) : null, options.actor);
+  return getById(id)!;
+}
+
+/**
+ * Resurface every snoozed item whose wake time has passed.
+ * Also catches up on items that came due while the server was down.
+ * @returns The woken items, as stored after waking
+ */
+export function wakeSnoozedItems(now: Date = new Date()): WorkItem[] {
+  const woken: WorkItem[] = [];
+  for (const item of getDueSnoozes(now)) {
+    wakeSnoozed(item.id);
+    const updated = getById(item.id);
+    if (updated) {
+      woken.push(updated);
+    }
+  }
+  return woken;
+}
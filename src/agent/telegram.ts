@@ -0,0 +1,92 @@
+/**
+ * @module agent/telegram
+ * Outbound messages to a Telegram chat through the Bot API (`TELEGRAM_BOT_TOKEN`), and answers
+ * to presses on their inline keyboard buttons.
+ */
+
+import { env } from "../soterflow-env.js";
+import { currentUser } from "../store/scope.js";
+
+export interface TelegramMessageOptions {
+  /** `Markdown` or `HTML`; plain text when omitted. */
+  parseMode?: "Markdown" | "HTML";
+  /** Inline keyboard or other reply markup, passed through as is. */
+  replyMarkup?: unknown;
+}
+
+/**
+ * Chat of the current account: its Telegram user (multi-user mode), or
+ * `SOTERFLOW_OWNER_CHAT_ID`.
+ */
+export function accountChatId(): string {
+  return currentUser()?.userId ?? env.SOTERFLOW_OWNER_CHAT_ID;
+}
+
+/**
+ * Send a message with the bot.
+ * @returns The Telegram message ID
+ * @throws Error if the bot is not configured or Telegram rejects the message
+ */
+export async function sendTelegramMessage(
+  chatId: string,
+  text: string,
+  options: TelegramMessageOptions = {},
+): Promise<number> {
+  if (!env.TELEGRAM_BOT_TOKEN || !chatId) {
+    throw new Error("TELEGRAM_BOT_TOKEN and SOTERFLOW_OWNER_CHAT_ID must be set");
+  }
+  const result = (await callBotApi("sendMessage", {
+    chat_id: chatId,
+    text,
+    parse_mode: options.parseMode,
+    reply_markup: options.replyMarkup,
+    disable_web_page_preview: true,
+  })) as { message_id: number } | undefined;
+  return result?.message_id ?? 0;
+}
+
+/**
+ * Replace the text of a message sent by the bot (and its inline keyboard, removed unless
+ * `replyMarkup` is given).
+ * @throws Error if the bot is not configured or Telegram rejects the edit
+ */
+export async function editTelegramMessage(
+  chatId: string,
+  messageId: number,
+  text: string,
+  options: TelegramMessageOptions = {},
+): Promise<void> {
+  await callBotApi("editMessageText", {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    parse_mode: options.parseMode,
+    reply_markup: options.replyMarkup,
+    disable_web_page_preview: true,
+  });
+}
+
+/**
+ * Acknowledge a press on an inline keyboard button, showing `text` as a toast.
+ * @throws Error if the bot is not configured or Telegram rejects the answer
+ */
+export async function answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void> {
+  await callBotApi("answerCallbackQuery", { callback_query_id: callbackQueryId, text });
+}
+
+async function callBotApi(method: string, body: Record<string, unknown>): Promise<unknown> {
+  const botToken = env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    throw new Error("TELEGRAM_BOT_TOKEN must be set");
+  }
+  const res = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = (await res.json()) as { ok: boolean; description?: string; result?: unknown };
+  if (!data.ok) {
+    throw new Error(`Telegram API: ${data.description}`);
+  }
+  return data.result;
+}
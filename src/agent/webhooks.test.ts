@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+
+// Set env BEFORE dynamic imports
+process.env.SOTERFLOW_DB_PATH = ":memory:";
+
+const { mapGitHubWebhook, mapJiraWebhook, mapSlackWebhook, processWebhook } =
+  await import("./webhooks.js");
+const { getById, upsert } = await import("../store/workitems.js");
+const { getDeadLetters } = await import("../store/webhooks.js");
+
+const PULL_REQUEST = {
+  id: 555,
+  number: 8,
+  title: "Add webhooks",
+  body: "OPS-1",
+  user: { login: "octocat" },
+  labels: [],
+  updated_at: "2026-01-02T10:00:00Z",
+  html_url: "https://github.com/acme/api/pull/8",
+};
+
+describe("mapGitHubWebhook", () => {
+  it("maps pull request events with the repository of the payload", () => {
+    const [item] = mapGitHubWebhook("pull_request", {
+      action: "opened",
+      pull_request: PULL_REQUEST,
+      repository: { url: "https://api.github.com/repos/acme/api" },
+    });
+    expect(item).toMatchObject({
+      id: "github-pr-555",
+      type: "pr",
+      title: "Add webhooks",
+      url: "https://github.com/acme/api/pull/8",
+      metadata: { number: 8, repo: "acme/api" },
+    });
+  });
+
+  it("maps comments on a pull request to the pull request", () => {
+    const [item] = mapGitHubWebhook("issue_comment", {
+      issue: {
+        ...PULL_REQUEST,
+        id: 444,
+        pull_request: {},
+        repository_url: "https://api.github.com/repos/acme/api",
+      },
+    });
+    expect(item).toMatchObject({ id: "github-pr-444", type: "pr" });
+  });
+
+  it("ignores other events and rejects payloads without their object", () => {
+    expect(mapGitHubWebhook("ping", { zen: "Keep it simple" })).toEqual([]);
+    expect(() => mapGitHubWebhook("issues", {})).toThrow("issues payload has no issue");
+  });
+});
+
+describe("mapJiraWebhook", () => {
+  it("maps the issue with the site of its API URL", () => {
+    const [item] = mapJiraWebhook("jira:issue_updated", {
+      issue: {
+        id: "10001",
+        key: "OPS-1",
+        self: "https://acme.atlassian.net/rest/api/3/issue/10001",
+        fields: {
+          summary: "Broken login",
+          description: null,
+          assignee: null,
+          reporter: { displayName: "Ann" },
+          status: { name: "To Do" },
+          priority: { name: "High" },
+          updated: "2026-01-02T10:00:00.000+0000",
+          created: "2026-01-01T10:00:00.000+0000",
+          issuetype: { name: "Bug" },
+        },
+      },
+    });
+    expect(item).toMatchObject({
+      id: "jira-OPS-1",
+      url: "https://acme.atlassian.net/browse/OPS-1",
+      metadata: { key: "OPS-1", status: "To Do" },
+    });
+    expect(mapJiraWebhook("jira:issue_deleted", { issue: {} })).toEqual([]);
+    expect(mapJiraWebhook("sprint_started", {})).toEqual([]);
+  });
+});
+
+describe("mapSlackWebhook", () => {
+  it("maps mentions and messages, keeping the sync's ids for DMs", () => {
+    const event = { channel: "D1", user: "U1", text: "hi", ts: "1700000000.000100" };
+    expect(
+      mapSlackWebhook("message", { event: { ...event, type: "message", channel_type: "im" } }),
+    ).toMatchObject([{ id: "slack-dm-D1-1700000000.000100" }]);
+    expect(
+      mapSlackWebhook("app_mention", { event: { ...event, channel: "C1", type: "app_mention" } }),
+    ).toMatchObject([{ id: "slack-mention-C1-1700000000.000100", priority: "high" }]);
+    expect(
+      mapSlackWebhook("message", { event: { ...event, type: "message", subtype: "bot_message" } }),
+    ).toEqual([]);
+  });
+});
+
+describe("processWebhook", () => {
+  it("updates an item stored under another id with the same URL", () => {
+    upsert({
+      id: "github-pr-1234",
+      source: "github",
+      type: "pr",
+      title: "Old title",
+      body: "",
+      author: "octocat",
+      timestamp: new Date("2026-01-01T00:00:00Z"),
+      priority: "normal",
+      url: PULL_REQUEST.html_url,
+      metadata: { number: 8, repo: "acme/api" },
+      status: "in_progress",
+    });
+    const result = processWebhook({
+      source: "github",
+      event: "pull_request",
+      deliveryId: "d-1",
+      payload: {
+        pull_request: PULL_REQUEST,
+        repository: { url: "https://api.github.com/repos/acme/api" },
+      },
+    });
+    expect(result.newItems).toEqual([]);
+    expect(getById("github-pr-1234")).toMatchObject({
+      title: "Add webhooks",
+      status: "in_progress",
+    });
+    expect(getById("github-pr-555")).toBeNull();
+  });
+
+  it("drops replays and keeps unmappable payloads as dead letters", () => {
+    const delivery = {
+      source: "github" as const,
+      event: "pull_request",
+      deliveryId: "d-2",
+      payload: { action: "opened" },
+    };
+    const result = processWebhook(delivery);
+    expect(result.deadLetterId).toEqual(expect.any(Number));
+    expect(getDeadLetters()[0]).toMatchObject({
+      id: result.deadLetterId,
+      deliveryId: "d-2",
+      error: "pull_request payload has no pull_request",
+      payload: { action: "opened" },
+    });
+    expect(processWebhook(delivery)).toEqual({ duplicate: true, items: [], newItems: [] });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @module agent/webhooks
+ * Webhook deliveries from GitHub, Jira and the Slack Events API, turned into work items with the
+ * channels' own mappers and stored at once through {@link ingestItems}. Each delivery id is
+ * processed once; payloads that fail to map are kept as dead letters (see store/webhooks). The
+ * routes and their signature checks live in api/server.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import { mapIssue, mapPR } from "../channels/github.js";
+import { mapJiraIssue, type JiraIssue } from "../channels/jira.js";
+import { mapSlackDM, mapSlackEvent } from "../channels/slack.js";
+import { env } from "../soterflow-env.js";
+import {
+  addDeadLetter,
+  deleteDeadLetter,
+  getDeadLetter,
+  recordDelivery,
+  updateDeadLetterError,
+} from "../store/webhooks.js";
+import { ingestItems } from "./orchestrator.js";
+
+export type WebhookSource = "github" | "jira" | "slack";
+
+export interface WebhookDelivery {
+  source: WebhookSource;
+  /** Event type: `X-GitHub-Event`, Jira's `webhookEvent`, or the Slack event's `type`. */
+  event: string;
+  /** Unique id of the delivery, kept across the sender's retries; null to skip the replay check. */
+  deliveryId: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface WebhookResult {
+  /** The delivery was processed before and was dropped. */
+  duplicate?: boolean;
+  /** Items stored from the payload. */
+  items: WorkItem[];
+  /** Items that were not stored before. */
+  newItems: WorkItem[];
+  /** Dead letter keeping the payload, if it could not be mapped. */
+  deadLetterId?: number;
+}
+
+/** GitHub events carrying the pull request itself. */
+const GITHUB_PR_EVENTS = new Set([
+  "pull_request",
+  "pull_request_review",
+  "pull_request_review_comment",
+]);
+
+/** GitHub events carrying an issue, or a pull request in its issue form. */
+const GITHUB_ISSUE_EVENTS = new Set(["issues", "issue_comment"]);
+
+/** Map a GitHub webhook payload; events other than issues and pull requests map to nothing. */
+export function mapGitHubWebhook(event: string, payload: Record<string, unknown>): WorkItem[] {
+  const repository = payload.repository as Record<string, unknown> | undefined;
+  if (GITHUB_PR_EVENTS.has(event)) {
+    const pr = payload.pull_request as Record<string, unknown> | undefined;
+    if (!pr) {
+      throw new Error(`${event} payload has no pull_request`);
+    }
+    return [mapPR({ ...pr, repository_url: pr.repository_url ?? repository?.url })];
+  }
+  if (GITHUB_ISSUE_EVENTS.has(event)) {
+    const issue = payload.issue as Record<string, unknown> | undefined;
+    if (!issue) {
+      throw new Error(`${event} payload has no issue`);
+    }
+    return [issue.pull_request ? mapPR(issue) : mapIssue({ ...issue, repository })];
+  }
+  return [];
+}
+
+/** Map a Jira webhook payload; events without an issue, and deletions, map to nothing. */
+export function mapJiraWebhook(event: string, payload: Record<string, unknown>): WorkItem[] {
+  const issue = payload.issue as JiraIssue | undefined;
+  if (event === "jira:issue_deleted") {
+    return [];
+  }
+  if (!issue) {
+    if (event.startsWith("jira:issue_") || event.startsWith("comment_")) {
+      throw new Error(`${event} payload has no issue`);
+    }
+    return [];
+  }
+  // The issue's API URL names the site, also when JIRA_URL is only in the credential vault
+  const baseUrl = issue.self ? new URL(issue.self).origin : env.JIRA_URL;
+  return [mapJiraIssue(issue, baseUrl)];
+}
+
+/**
+ * Map the event of a Slack Events API callback: mentions, and messages other than edits,
+ * deletions and bot posts. Direct messages keep the ids the sync gives them.
+ */
+export function mapSlackWebhook(event: string, payload: Record<string, unknown>): WorkItem[] {
+  const slackEvent = payload.event as Record<string, unknown> | undefined;
+  if (!slackEvent) {
+    throw new Error("Event callback has no event");
+  }
+  if (event === "app_mention") {
+    return [mapSlackEvent(slackEvent, "mention")];
+  }
+  if (event !== "message" || slackEvent.subtype || slackEvent.bot_id) {
+    return [];
+  }
+  return slackEvent.channel_type === "im"
+    ? [mapSlackDM(slackEvent, slackEvent.channel as string)]
+    : [mapSlackEvent(slackEvent, "message")];
+}
+
+/** Map a delivery with the mapper of its source. */
+export function mapWebhook(delivery: Omit<WebhookDelivery, "deliveryId">): WorkItem[] {
+  const { source, event, payload } = delivery;
+  const items =
+    source === "github"
+      ? mapGitHubWebhook(event, payload)
+      : source === "jira"
+        ? mapJiraWebhook(event, payload)
+        : mapSlackWebhook(event, payload);
+  for (const item of items) {
+    if (typeof item.title !== "string" || Number.isNaN(item.timestamp.getTime())) {
+      throw new Error(`${event} payload maps to an incomplete item (${item.id})`);
+    }
+  }
+  return items;
+}
+
+/**
+ * Store the items of a delivery. Replays of a processed delivery are dropped; a payload that
+ * fails to map or store becomes a dead letter.
+ */
+export function processWebhook(delivery: WebhookDelivery): WebhookResult {
+  const { source, event, deliveryId, payload } = delivery;
+  if (deliveryId && !recordDelivery(source, deliveryId)) {
+    return { duplicate: true, items: [], newItems: [] };
+  }
+  try {
+    return ingestWebhookItems(mapWebhook(delivery));
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.error(`[soterflow] Failed to map ${source} webhook ${event}: ${error}`);
+    const deadLetterId = addDeadLetter({ source, event, deliveryId, payload, error });
+    return { items: [], newItems: [], deadLetterId };
+  }
+}
+
+/**
+ * Map and store a dead letter again (e.g. after a mapper fix); it is removed on success.
+ * @returns The result, or null if the dead letter does not exist
+ * @throws Error if it still fails; the dead letter keeps the new error
+ */
+export function retryDeadLetter(id: number): WebhookResult | null {
+  const letter = getDeadLetter(id);
+  if (!letter) {
+    return null;
+  }
+  try {
+    const result = ingestWebhookItems(
+      mapWebhook({
+        source: letter.source as WebhookSource,
+        event: letter.event,
+        payload: letter.payload as Record<string, unknown>,
+      }),
+    );
+    deleteDeadLetter(id);
+    return result;
+  } catch (e: unknown) {
+    updateDeadLetterError(id, e instanceof Error ? e.message : String(e));
+    throw e;
+  }
+}
+
+/** Store mapped items. */
+function ingestWebhookItems(items: WorkItem[]): WebhookResult {
+  const { items: stored, newItems } = ingestItems(items);
+  return { items: stored, newItems };
+}
@@ -5,7 +5,9 @@
 
 import type { Request, Response, NextFunction } from "express";
 import crypto from "node:crypto";
+import type { Actor } from "../store/history.js";
 import { env } from "../soterflow-env.js";
+import { authorizeUser, isMultiUser, type User } from "../store/users.js";
 
 export interface TelegramUser {
   id: number;
@@ -17,6 +19,8 @@ export interface TelegramUser {
 
 export interface AuthedRequest extends Request {
   telegramUser?: TelegramUser;
+  /** The SoterFlow account of the Telegram user (multi-user mode only). */
+  account?: User;
 }
 
 /**
@@ -96,5 +100,113 @@ export function authMiddleware(req: AuthedRequest, res: Response, next: NextFunc
   }
 
   req.telegramUser = user;
+
+  // In multi-user mode only allowlisted users get in, each with their own account
+  if (isMultiUser()) {
+    const account = accountFor(user);
+    if (!account) {
+      res.status(403).json({ ok: false, error: "Telegram user is not allowed" });
+      return;
+    }
+    req.account = account;
+  }
   next();
 }
+
+/**
+ * Express middleware: only admins may continue. Local requests without Telegram auth and
+ * single-user mode count as admin.
+ */
+export function requireAdmin(req: AuthedRequest, res: Response, next: NextFunction): void {
+  if (req.telegramUser && isMultiUser() && req.account?.role !== "admin") {
+    res.status(403).json({ ok: false, error: "Admin role required" });
+    return;
+  }
+  next();
+}
+
+/**
+ * The SoterFlow account of an authenticated Telegram user (see `authorizeUser`).
+ * @returns The account, or null if the user is not on the allowlist
+ */
+export function accountFor(user: TelegramUser): User | null {
+  return authorizeUser(String(user.id), telegramName(user));
+}
+
+function telegramName(user: TelegramUser): string {
+  return user.username ?? [user.first_name, user.last_name].filter(Boolean).join(" ");
+}
+
+/**
+ * Actor for the item history: the authenticated Telegram user, or `system` for
+ * unauthenticated local requests.
+ */
+export function requestActor(req: Request): Actor {
+  const user = (req as AuthedRequest).telegramUser;
+  if (!user) {
+    return { type: "system", name: "local" };
+  }
+  return telegramActor(user);
+}
+
+/** Actor for the item history of a Telegram user. */
+export function telegramActor(user: TelegramUser): Actor {
+  return { type: "telegram", id: String(user.id), name: telegramName(user) };
+}
+
+/**
+ * Check the secret Telegram sends with webhook updates in `X-Telegram-Bot-Api-Secret-Token`
+ * (the `secret_token` given to setWebhook). Always false when no secret is configured.
+ */
+export function validateWebhookSecret(header: string | undefined, secret: string): boolean {
+  if (!secret || !header) {
+    return false;
+  }
+  const a = Buffer.from(header);
+  const b = Buffer.from(secret);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Oldest Slack request timestamp accepted, in seconds, as Slack recommends. */
+const SLACK_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Check an `X-Hub-Signature-256`-style header (`sha256=<hex HMAC of the raw body>`), as sent by
+ * GitHub and Jira webhooks. Always false when no secret is configured.
+ */
+export function validateHubSignature(
+  rawBody: Buffer | undefined,
+  header: string | undefined,
+  secret: string,
+): boolean {
+  if (!secret || !header || !rawBody) {
+    return false;
+  }
+  const expected = "sha256=" + crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+  return validateWebhookSecret(header, expected);
+}
+
+/**
+ * Check the `X-Slack-Signature` of an Events API request: `v0=<hex HMAC of "v0:<timestamp>:<raw
+ * body>">` with the app's signing secret. Requests whose `X-Slack-Request-Timestamp` is more than
+ * five minutes off are rejected as replays. Always false when no secret is configured.
+ */
+export function validateSlackSignature(
+  rawBody: Buffer | undefined,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  secret: string,
+  now = Date.now(),
+): boolean {
+  const seconds = Number(timestamp);
+  if (!secret || !signature || !rawBody || !Number.isInteger(seconds)) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - seconds) > SLACK_MAX_AGE_SECONDS) {
+    return false;
+  }
+  const expected =
+    "v0=" +
+    crypto.createHmac("sha256", secret).update(`v0:${timestamp}:`).update(rawBody).digest("hex");
+  return validateWebhookSecret(signature, expected);
+}
@@ -2,7 +2,9 @@
  * Tests for the SoterFlow API server and auth.
  */
 
+import type { AddressInfo } from "node:net";
 import crypto from "node:crypto";
+import http from "node:http";
 import { describe, it, expect, beforeAll } from "vitest";
 
 const BOT_TOKEN = "1234567890:ABCdefGHIjklMNOpqrsTUVwxyz";
@@ -10,6 +12,11 @@ const BOT_TOKEN = "1234567890:ABCdefGHIjklMNOpqrsTUVwxyz";
 // Set env BEFORE dynamic imports
 process.env.TELEGRAM_BOT_TOKEN = BOT_TOKEN;
 process.env.SOTERFLOW_DB_PATH = ":memory:";
+process.env.SOTERFLOW_SECRET_KEY = "test-secret";
+process.env.TELEGRAM_WEBHOOK_SECRET = "hook-secret";
+process.env.GITHUB_WEBHOOK_SECRET = "gh-secret";
+process.env.JIRA_WEBHOOK_SECRET = "jira-secret";
+process.env.SLACK_SIGNING_SECRET = "slack-secret";
 
 function makeInitData(user: object, botToken: string, overrides?: { expire?: boolean }): string {
   const params = new URLSearchParams();
@@ -144,4 +151,447 @@ describe("API server endpoints", () => {
     });
     expect(res.status).toBe(400);
   });
+
+  it("rules CRUD and dry-run", async () => {
+    const headers = { Authorization: validAuth, "Content-Type": "application/json" };
+    const bad = await fetch(`${baseUrl}/api/rules`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ name: "bad", match: { titleRegex: "(" }, actions: [] }),
+    });
+    expect(bad.status).toBe(400);
+
+    const created = await fetch(`${baseUrl}/api/rules`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        name: "Mute bots",
+        match: { author: "dependabot" },
+        actions: [{ type: "set_status", status: "dismissed" }],
+      }),
+    }).then((r) => r.json());
+    expect(created.ok).toBe(true);
+    const id = created.data.id;
+
+    const updated = await fetch(`${baseUrl}/api/rules/${id}`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ enabled: false }),
+    }).then((r) => r.json());
+    expect(updated.data.enabled).toBe(false);
+
+    const dryRun = await fetch(`${baseUrl}/api/rules/dry-run`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ id }),
+    }).then((r) => r.json());
+    expect(dryRun.ok).toBe(true);
+    expect(Array.isArray(dryRun.data)).toBe(true);
+
+    const del = await fetch(`${baseUrl}/api/rules/${id}`, { method: "DELETE", headers });
+    expect(del.status).toBe(200);
+    const missing = await fetch(`${baseUrl}/api/rules/${id}`, { headers });
+    expect(missing.status).toBe(404);
+  });
+
+  it("records actions in GET /api/inbox/:id/history", async () => {
+    const { upsert } = await import("../store/workitems.js");
+    upsert({
+      id: "hist-api-1",
+      source: "github",
+      type: "issue",
+      title: "History test",
+      body: "",
+      author: "someone",
+      timestamp: new Date(),
+      priority: "normal",
+      url: "https://example.com/hist-api-1",
+      metadata: {},
+      status: "new",
+    });
+    const headers = { Authorization: validAuth, "Content-Type": "application/json" };
+    await fetch(`${baseUrl}/api/inbox/hist-api-1/action`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ action: "done" }),
+    });
+
+    const body = await fetch(`${baseUrl}/api/inbox/hist-api-1/history`, { headers }).then((r) =>
+      r.json(),
+    );
+    expect(body.ok).toBe(true);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0]).toMatchObject({
+      kind: "status_change",
+      fromStatus: "new",
+      toStatus: "done",
+    });
+  });
+
+  it("GET /api/inbox/:id/related lists linked items", async () => {
+    const { upsert } = await import("../store/workitems.js");
+    const { linkItems } = await import("../agent/links.js");
+    const base = {
+      body: "",
+      author: "someone",
+      timestamp: new Date(),
+      priority: "normal" as const,
+      status: "new" as const,
+    };
+    upsert({
+      ...base,
+      id: "jira-REL-1",
+      source: "jira",
+      type: "issue",
+      title: "Related ticket",
+      url: "https://example.atlassian.net/browse/REL-1",
+      metadata: { key: "REL-1" },
+    });
+    upsert({
+      ...base,
+      id: "related-pr-1",
+      source: "github",
+      type: "pr",
+      title: "REL-1: implement",
+      url: "https://github.com/acme/rel/pull/1",
+      metadata: { repo: "acme/rel", number: 1 },
+    });
+    linkItems();
+
+    const headers = { Authorization: validAuth };
+    const body = await (
+      await fetch(`${baseUrl}/api/inbox/related-pr-1/related`, { headers })
+    ).json();
+    expect(body.ok).toBe(true);
+    expect(body.data).toEqual([expect.objectContaining({ id: "jira-REL-1", ref: "jira:REL-1" })]);
+
+    const missing = await fetch(`${baseUrl}/api/inbox/nope/related`, { headers });
+    expect(missing.status).toBe(404);
+  });
+
+  it("POST /api/inbox/bulk-action applies a status by ids and by filter", async () => {
+    const { getById, upsert } = await import("../store/workitems.js");
+    for (const id of ["bulk-api-1", "bulk-api-2"]) {
+      upsert({
+        id,
+        source: "jira",
+        type: "issue",
+        title: "Bulk test",
+        body: "",
+        author: "someone",
+        timestamp: new Date(),
+        priority: "normal",
+        url: `https://example.com/${id}`,
+        metadata: {},
+        status: "new",
+      });
+    }
+    const headers = { Authorization: validAuth, "Content-Type": "application/json" };
+    const byIds = await fetch(`${baseUrl}/api/inbox/bulk-action`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ ids: ["bulk-api-1", "bulk-missing"], action: "seen" }),
+    }).then((r) => r.json());
+    expect(byIds.data).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+    expect(byIds.data.results).toContainEqual({
+      id: "bulk-missing",
+      ok: false,
+      error: "Not found",
+    });
+    expect(getById("bulk-api-1")!.status).toBe("seen");
+
+    const byFilter = await fetch(`${baseUrl}/api/inbox/bulk-action`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ filter: { source: "jira", status: "seen" }, action: "done" }),
+    }).then((r) => r.json());
+    expect(byFilter.ok).toBe(true);
+    expect(byFilter.data.results.map((r: { id: string }) => r.id)).toEqual(["bulk-api-1"]);
+    expect(getById("bulk-api-1")!.status).toBe("done");
+    expect(getById("bulk-api-2")!.status).toBe("new");
+
+    const invalid = await fetch(`${baseUrl}/api/inbox/bulk-action`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ action: "done" }),
+    });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("GET /api/inbox/:id/diff and /checks only serve GitHub pull requests", async () => {
+    const { upsert } = await import("../store/workitems.js");
+    upsert({
+      id: "pr-routes-issue-1",
+      source: "github",
+      type: "issue",
+      title: "Not a PR",
+      body: "",
+      author: "someone",
+      timestamp: new Date(),
+      priority: "normal",
+      url: "https://github.com/org/repo/issues/9",
+      metadata: { repo: "org/repo", number: 9 },
+      status: "new",
+    });
+    const headers = { Authorization: validAuth };
+    for (const route of ["diff", "checks"]) {
+      const res = await fetch(`${baseUrl}/api/inbox/pr-routes-issue-1/${route}`, { headers });
+      expect(res.status).toBe(404);
+      expect((await res.json()).error).toBe("GitHub pull request not found");
+    }
+  });
+
+  it("stores, tests and removes channel credentials at runtime", async () => {
+    // Stand-in Jira that accepts one token
+    const jira = http.createServer((req, res) => {
+      const ok = req.headers.authorization === `Basic ${btoa("me@acme.io:good-token")}`;
+      res.writeHead(ok ? 200 : 401, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(ok ? { accountId: "acc-1" } : { errorMessages: ["Unauthorized"] }));
+    });
+    await new Promise<void>((resolve) => jira.listen(0, "127.0.0.1", () => resolve()));
+    const JIRA_URL = `http://127.0.0.1:${(jira.address() as AddressInfo).port}`;
+    const headers = { Authorization: validAuth, "Content-Type": "application/json" };
+    const post = (route: string, body: unknown) =>
+      fetch(`${baseUrl}/api/config/channels/${route}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+      });
+
+    try {
+      expect((await post("fax", { credentials: {} })).status).toBe(404);
+      const missing = await post("jira", { credentials: { JIRA_URL } });
+      expect(missing.status).toBe(400);
+      expect((await missing.json()).error).toBe("Missing JIRA_EMAIL, JIRA_TOKEN");
+      const unknown = await post("jira", { credentials: { JIRA_URL, PASSWORD: "x" } });
+      expect((await unknown.json()).error).toMatch(/^Unknown setting for jira: PASSWORD/);
+
+      const credentials = { JIRA_URL, JIRA_EMAIL: "me@acme.io", JIRA_TOKEN: "bad-token" };
+      const failed = await post("jira", { credentials });
+      expect(failed.status).toBe(400);
+      expect((await failed.json()).error).toMatch(/^Connection test failed: /);
+
+      const tested = await post("jira/test", {
+        credentials: { ...credentials, JIRA_TOKEN: "good-token" },
+      });
+      expect((await tested.json()).data).toEqual({ channel: "jira", connected: true });
+
+      const saved = await post("jira", {
+        credentials: { ...credentials, JIRA_TOKEN: "good-token" },
+      });
+      expect((await saved.json()).data).toEqual({ name: "jira", configured: true, stored: true });
+      const { getCachedChannels } = await import("../agent/orchestrator.js");
+      expect(getCachedChannels().map((c) => c.name)).toContain("jira");
+
+      const { getDb } = await import("../store/db.js");
+      const row = getDb()
+        .prepare("SELECT secret FROM channel_credentials WHERE channel = 'jira'")
+        .get() as { secret: string };
+      expect(row.secret).not.toContain("good-token");
+
+      const removed = await fetch(`${baseUrl}/api/config/channels/jira`, {
+        method: "DELETE",
+        headers,
+      });
+      expect(removed.status).toBe(200);
+      expect(getCachedChannels().map((c) => c.name)).not.toContain("jira");
+      const again = await fetch(`${baseUrl}/api/config/channels/jira`, {
+        method: "DELETE",
+        headers,
+      });
+      expect(again.status).toBe(404);
+    } finally {
+      await new Promise<void>((resolve) => jira.close(() => resolve()));
+    }
+  });
+
+  it("previews the digest and validates digest settings", async () => {
+    const headers = { Authorization: validAuth, "Content-Type": "application/json" };
+    const preview = await fetch(`${baseUrl}/api/digest/preview`, { headers }).then((r) => r.json());
+    expect(preview.data.text).toMatch(/^📬 SoterFlow digest/);
+    expect(preview.data.digest).toHaveProperty("sources");
+
+    const put = (body: unknown) =>
+      fetch(`${baseUrl}/api/digest/settings`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify(body),
+      });
+    expect((await put({ time: "25:00" })).status).toBe(400);
+    expect((await put({ email: "nope" })).status).toBe(400);
+    const saved = await put({ time: "08:30", email: "me@acme.io" }).then((r) => r.json());
+    expect(saved.data).toEqual({ time: "08:30", email: "me@acme.io", lastSentOn: null });
+    const off = await put({ time: "" }).then((r) => r.json());
+    expect(off.data).toMatchObject({ time: "", email: "me@acme.io" });
+  });
+
+  it("reports response-time metrics", async () => {
+    const headers = { Authorization: validAuth };
+    const res = await fetch(`${baseUrl}/api/metrics?groupBy=type&weeks=2`, { headers });
+    const body = await res.json();
+    expect(body.data.groupBy).toBe("type");
+    expect(body.data.weekly).toHaveLength(2);
+    expect(body.data.targets).toEqual({ review: 4 });
+
+    const bad = await fetch(`${baseUrl}/api/metrics?groupBy=color`, { headers });
+    expect(bad.status).toBe(400);
+  });
+
+  it("reads and updates the working calendar", async () => {
+    const headers = { Authorization: validAuth, "Content-Type": "application/json" };
+    const res = await fetch(`${baseUrl}/api/calendar`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ timezone: "Europe/Berlin", holidays: ["2025-12-25"] }),
+    });
+    const body = await res.json();
+    expect(body.data).toMatchObject({ timezone: "Europe/Berlin", holidays: ["2025-12-25"] });
+    expect(typeof body.data.quietNow).toBe("boolean");
+
+    const current = await (await fetch(`${baseUrl}/api/calendar`, { headers })).json();
+    expect(current.data.timezone).toBe("Europe/Berlin");
+
+    const bad = await fetch(`${baseUrl}/api/calendar`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ workDays: [] }),
+    });
+    expect(bad.status).toBe(400);
+  });
+
+  it("lists and decides agent approvals", async () => {
+    const headers = { Authorization: validAuth, "Content-Type": "application/json" };
+    const list = await (
+      await fetch(`${baseUrl}/api/director/approvals?status=pending`, { headers })
+    ).json();
+    expect(list).toEqual({ ok: true, data: [] });
+
+    const bad = await fetch(`${baseUrl}/api/director/approvals?status=maybe`, { headers });
+    expect(bad.status).toBe(400);
+
+    const missing = await fetch(`${baseUrl}/api/director/approvals/nope/approve`, {
+      method: "POST",
+      headers,
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it("POST /hooks/telegram checks the webhook secret", async () => {
+    const update = { update_id: 1, message: { text: "hi" } };
+    const unsigned = await fetch(`${baseUrl}/hooks/telegram`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Telegram-Bot-Api-Secret-Token": "wrong" },
+      body: JSON.stringify(update),
+    });
+    expect(unsigned.status).toBe(401);
+
+    const signed = await fetch(`${baseUrl}/hooks/telegram`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Telegram-Bot-Api-Secret-Token": "hook-secret",
+      },
+      body: JSON.stringify(update),
+    });
+    expect(await signed.json()).toEqual({ ok: true });
+  });
+
+  it("POST /hooks/github checks the signature and drops replays", async () => {
+    const body = JSON.stringify({
+      action: "opened",
+      issue: {
+        id: 9001,
+        number: 5,
+        title: "Webhook issue",
+        body: "",
+        user: { login: "octocat" },
+        labels: [],
+        updated_at: "2026-01-01T00:00:00Z",
+        html_url: "https://github.com/acme/hooks/issues/5",
+      },
+      repository: { full_name: "acme/hooks" },
+    });
+    const signature =
+      "sha256=" + crypto.createHmac("sha256", "gh-secret").update(body).digest("hex");
+    const send = (sig: string) =>
+      fetch(`${baseUrl}/hooks/github`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-GitHub-Event": "issues",
+          "X-GitHub-Delivery": "delivery-1",
+          "X-Hub-Signature-256": sig,
+        },
+        body,
+      });
+
+    expect((await send("sha256=bad")).status).toBe(401);
+    expect((await (await send(signature)).json()).data).toMatchObject({ items: 1 });
+    expect((await (await send(signature)).json()).data).toMatchObject({ duplicate: true });
+
+    const { getById } = await import("../store/workitems.js");
+    expect(getById("github-issue-9001")).toMatchObject({ title: "Webhook issue" });
+  });
+
+  it("POST /hooks/slack answers the URL challenge of signed requests only", async () => {
+    const body = JSON.stringify({ type: "url_verification", challenge: "c-123" });
+    const send = (timestamp: number) => {
+      const signature =
+        "v0=" +
+        crypto.createHmac("sha256", "slack-secret").update(`v0:${timestamp}:${body}`).digest("hex");
+      return fetch(`${baseUrl}/hooks/slack`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Slack-Request-Timestamp": String(timestamp),
+          "X-Slack-Signature": signature,
+        },
+        body,
+      });
+    };
+    const now = Math.floor(Date.now() / 1000);
+
+    expect((await send(now - 600)).status).toBe(401);
+    expect(await (await send(now)).json()).toEqual({ challenge: "c-123" });
+  });
+
+  it("POST /hooks/jira keeps payloads that fail to map as dead letters", async () => {
+    const payload = { webhookEvent: "jira:issue_updated", issue: { key: "HOOK-1", fields: {} } };
+    const unsigned = await fetch(`${baseUrl}/hooks/jira?secret=wrong`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    expect(unsigned.status).toBe(401);
+
+    const received = await (
+      await fetch(`${baseUrl}/hooks/jira?secret=jira-secret`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      })
+    ).json();
+    const id = received.data.deadLetterId;
+    expect(id).toEqual(expect.any(Number));
+
+    const headers = { Authorization: validAuth };
+    const list = await (await fetch(`${baseUrl}/api/hooks/dead-letters`, { headers })).json();
+    expect(list.data[0]).toMatchObject({ id, source: "jira", event: "jira:issue_updated" });
+
+    const retry = await fetch(`${baseUrl}/api/hooks/dead-letters/${id}/retry`, {
+      method: "POST",
+      headers,
+    });
+    expect(retry.status).toBe(500);
+    const removed = await fetch(`${baseUrl}/api/hooks/dead-letters/${id}`, {
+      method: "DELETE",
+      headers,
+    });
+    expect(removed.status).toBe(200);
+    const missing = await fetch(`${baseUrl}/api/hooks/dead-letters/${id}`, {
+      method: "DELETE",
+      headers,
+    });
+    expect(missing.status).toBe(404);
+  });
 });
@@ -4,22 +4,117 @@
  */
 
 import express from "express";
+import { createHash, randomUUID } from "node:crypto";
 import http from "node:http";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { WebSocketServer, WebSocket } from "ws";
 import type { WorkItem } from "../channels/base.js";
+import { conversationRow, PendingActions } from "../agent/actions.js";
+import {
+  APPROVAL_STATUSES,
+  Approvals,
+  parseApprovalCallback,
+  type ApprovalStatus,
+} from "../agent/approvals.js";
+import { runBulkAction } from "../agent/bulk.js";
+import { getCalendar, isQuietTime, parseClockTime, updateCalendar } from "../agent/calendar.js";
+import { groupConversations } from "../agent/conversations.js";
+import { buildDigest, deliverDigest, formatDigest, sendDigestIfDue } from "../agent/digest.js";
 import { Director } from "../agent/director.js";
+import { getRelatedItems, proposeLinkedActions } from "../agent/links.js";
+import { computeMetrics, METRICS_GROUPS, type MetricsGroupBy } from "../agent/metrics.js";
+import {
+  formatHeldSummary,
+  releaseHeldNotifications,
+  routeNotification,
+  type ItemNotification,
+} from "../agent/notifications.js";
 import {
   getInbox,
+  queryInbox,
   syncAll,
   getConfiguredChannels,
   getCachedChannels,
+  attachPushIngest,
+  CHANNEL_CREDENTIALS,
+  connectPushChannels,
+  reloadChannels,
+  testChannelCredentials,
+  validateChannelCredentials,
 } from "../agent/orchestrator.js";
+import { dryRunRule, validateRuleInput } from "../agent/rules.js";
+import { SyncScheduler } from "../agent/scheduler.js";
+import { snoozeItem, wakeSnoozedItems } from "../agent/snooze.js";
+import { accountChatId, answerCallbackQuery, sendTelegramMessage } from "../agent/telegram.js";
+import {
+  processWebhook,
+  retryDeadLetter,
+  type WebhookDelivery,
+  type WebhookResult,
+} from "../agent/webhooks.js";
+import { pullRequestRef, type GitHubChannel, type PullRequestRef } from "../channels/github.js";
 import { env } from "../soterflow-env.js";
+import {
+  getConversation,
+  getConversationEvents,
+  markConversationSeen,
+} from "../store/conversations.js";
+import {
+  deleteCredentials,
+  setCredentials,
+  type ChannelCredentials,
+} from "../store/credentials.js";
+import { getDigestSettings, updateDigestSettings } from "../store/digest.js";
+import { getHistory } from "../store/history.js";
+import {
+  createRule,
+  deleteRule,
+  getRule,
+  getRules,
+  updateRule,
+  type Rule,
+  type RuleInput,
+} from "../store/rules.js";
+import { runAsUser, scopeKey } from "../store/scope.js";
 import { getAllSyncStates } from "../store/sync.js";
-import { getAll, search, updateStatus } from "../store/workitems.js";
-import { authMiddleware } from "./auth.js";
+import {
+  createUser,
+  deleteUser,
+  forEachAccount,
+  getOwner,
+  getUser,
+  getUsers,
+  isMultiUser,
+  scopeFor,
+  updateUser,
+  type User,
+} from "../store/users.js";
+import { deleteDeadLetter, getDeadLetters } from "../store/webhooks.js";
+import { getAll, getByConversation, getById, updateStatus } from "../store/workitems.js";
+import {
+  accountFor,
+  authMiddleware,
+  requestActor,
+  requireAdmin,
+  telegramActor,
+  validateHubSignature,
+  validateInitData,
+  validateSlackSignature,
+  validateWebhookSecret,
+  type AuthedRequest,
+  type TelegramUser,
+} from "./auth.js";
+
+/** Request of a webhook route, with the raw body its signature covers. */
+type RawBodyRequest = express.Request & { rawBody?: Buffer };
+
+/** How often snoozed items are checked for their wake time. */
+const SNOOZE_CHECK_INTERVAL_MS = 60_000;
+/** How often accounts are checked for a due daily digest. */
+const DIGEST_CHECK_INTERVAL_MS = 60_000;
+/** How often accounts are checked for quiet hours that ended with notifications held. */
+const QUIET_HOURS_CHECK_INTERVAL_MS = 60_000;
 
 export function createServer() {
   const app = express();
@@ -28,7 +123,7 @@ export function createServer() {
   // CORS
   app.use((_req, res, next) => {
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
+    res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,DELETE,OPTIONS");
     res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization");
     if (_req.method === "OPTIONS") {
       res.status(204).end();
@@ -37,6 +132,16 @@ export function createServer() {
     next();
   });
 
+  // Webhooks are signed over the raw body, so keep it; their payloads can be large
+  app.use(
+    "/hooks",
+    express.json({
+      limit: "5mb",
+      verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+      },
+    }),
+  );
   app.use(express.json());
 
   // Serve static Mini App frontend
@@ -48,14 +153,26 @@ export function createServer() {
     if (req.path === "/health") {
       return next();
     }
-    // Allow local requests without auth (localhost / 127.0.0.1)
-    const ip = req.ip ?? req.socket.remoteAddress ?? "";
-    if (ip === "127.0.0.1" || ip === "::1" || ip === "::ffff:127.0.0.1") {
+    // Allow local requests without auth (localhost / 127.0.0.1) unless they carry Telegram auth
+    if (isLocalAddress(req.ip ?? req.socket.remoteAddress) && !req.headers.authorization) {
       return next();
     }
     return (authMiddleware as express.RequestHandler)(req, res, next);
   });
 
+  // Multi-user mode: each request runs as its account — the Telegram user's, or the owner's
+  // for local requests — so the store and channels below only see that account's data
+  app.use("/api", (req, _res, next) => {
+    const account = isMultiUser()
+      ? ((req as AuthedRequest).account ??
+        ((req as AuthedRequest).telegramUser ? null : getOwner()))
+      : null;
+    if (!account) {
+      return next();
+    }
+    return runAsUser(scopeFor(account), next);
+  });
+
   // --- Health ---
   app.get("/api/health", (_req, res) => {
     res.json({ ok: true, data: { status: "running" } });
@@ -64,46 +181,10 @@ export function createServer() {
   // --- Inbox ---
   app.get("/api/inbox", (req, res) => {
     try {
-      const {
-        source,
-        type,
-        status,
-        search: q,
-        since,
-        excludeStatuses,
-        excludeReasons,
-      } = req.query as Record<string, string>;
-      // Default to 7 days ago if no since param
-      const sinceDate = since || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-      let items: WorkItem[];
-      if (q) {
-        items = search(q);
-      } else {
-        items = getInbox({ source, type, status, since: sinceDate });
-      }
-      // Filter out excluded Jira statuses
-      if (excludeStatuses) {
-        const excluded = new Set(excludeStatuses.split(",").map((s) => s.trim().toLowerCase()));
-        items = items.filter((i) => {
-          if (i.source !== "jira") {
-            return true;
-          }
-          const jiraStatus = ((i.metadata?.status as string) || "").toLowerCase();
-          return !excluded.has(jiraStatus);
-        });
-      }
-      // Filter out excluded GitHub reasons
-      if (excludeReasons) {
-        const excl = new Set(excludeReasons.split(",").map((s) => s.trim().toLowerCase()));
-        items = items.filter((i) => {
-          if (i.source !== "github") {
-            return true;
-          }
-          const reason = ((i.metadata?.reason as string) || "").toLowerCase();
-          return !excl.has(reason);
-        });
-      }
-      res.json({ ok: true, data: items });
+      const { group, ...query } = req.query as Record<string, string>;
+      const items = queryInbox(query);
+      // One row per conversation unless the flat list is asked for
+      res.json({ ok: true, data: group === "false" ? items : groupConversations(items) });
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
       res.status(500).json({ ok: false, error: msg });
@@ -125,14 +206,65 @@ export function createServer() {
     }
   });
 
+  app.get("/api/inbox/:id/history", (req, res) => {
+    try {
+      if (!getById(req.params.id)) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      res.json({ ok: true, data: getHistory(req.params.id) });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.get("/api/inbox/:id/timeline", (req, res) => {
+    try {
+      const item = getById(req.params.id);
+      if (!item) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      if (!item.conversationId) {
+        res.json({ ok: true, data: { conversation: null, items: [item], events: [] } });
+        return;
+      }
+      res.json({
+        ok: true,
+        data: {
+          conversation: getConversation(item.conversationId),
+          items: getByConversation(item.conversationId),
+          events: getConversationEvents(item.conversationId),
+        },
+      });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  // Items linked to this one by references across sources (Jira keys, PR refs, permalinks)
+  app.get("/api/inbox/:id/related", (req, res) => {
+    try {
+      const related = getRelatedItems(req.params.id);
+      if (!related) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      res.json({ ok: true, data: related });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
   // Get unique Jira statuses from current items
   app.get("/api/jira/statuses", (_req, res) => {
     try {
       const all = getAll({ source: "jira" });
       const statuses = [
-        ...new Set(
-          all.map((i) => (i.metadata as Record<string, unknown>)?.status as string).filter(Boolean),
-        ),
+        ...new Set(all.map((i) => i.metadata.status as string).filter(Boolean)),
       ].toSorted();
       res.json({ ok: true, data: statuses });
     } catch (e: unknown) {
@@ -170,6 +302,65 @@ export function createServer() {
     }
   });
 
+  /**
+   * Resolve the pull request and connected GitHub channel for a PR review route.
+   * Sends the error response and returns null when either is missing.
+   */
+  async function pullRequestFor(
+    req: express.Request,
+    res: express.Response,
+  ): Promise<{ github: GitHubChannel; ref: PullRequestRef } | null> {
+    const item = getById(String(req.params.id));
+    const ref = item?.source === "github" ? pullRequestRef(item) : null;
+    if (!ref) {
+      res.status(404).json({ ok: false, error: "GitHub pull request not found" });
+      return null;
+    }
+    const github = getCachedChannels().find((c) => c.name === "github") as
+      | GitHubChannel
+      | undefined;
+    if (!github) {
+      res.status(400).json({ ok: false, error: "GitHub channel not configured" });
+      return null;
+    }
+    if (!github.isConnected()) {
+      await github.connect();
+    }
+    return { github, ref };
+  }
+
+  // Changed files and unified diff of a pull request
+  app.get("/api/inbox/:id/diff", async (req, res) => {
+    try {
+      const pr = await pullRequestFor(req, res);
+      if (pr) {
+        res.json({
+          ok: true,
+          data: { ...pr.ref, ...(await pr.github.getPullRequestDiff(pr.ref)) },
+        });
+      }
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  // CI check runs and mergeability of a pull request
+  app.get("/api/inbox/:id/checks", async (req, res) => {
+    try {
+      const pr = await pullRequestFor(req, res);
+      if (pr) {
+        res.json({
+          ok: true,
+          data: { ...pr.ref, ...(await pr.github.getPullRequestChecks(pr.ref)) },
+        });
+      }
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
   /** Broadcast a progress event to all connected WebSocket clients. */
   function progress(itemId: string, step: string, status: "running" | "done" | "error") {
     broadcast(wss, { type: "progress", itemId, step, status, ts: Date.now() });
@@ -177,13 +368,14 @@ export function createServer() {
 
   app.post("/api/inbox/:id/action", async (req, res) => {
     try {
-      const { action, params } = req.body ?? {};
+      const { action, params, immediate } = req.body ?? {};
       if (!action) {
         res.status(400).json({ ok: false, error: "action required" });
         return;
       }
 
       const itemId = req.params.id;
+      const actor = requestActor(req);
       progress(itemId, `Starting ${action}...`, "running");
 
       // Find the item to determine its source channel
@@ -195,9 +387,45 @@ export function createServer() {
         return;
       }
 
+      // Local status changes apply to the whole conversation row. Acting on a row also
+      // counts as having seen the conversation.
+      const rowItems = conversationRow(item);
+      if (item.conversationId) {
+        markConversationSeen(item.conversationId);
+      }
+
+      if (action === "snooze") {
+        const until = params?.until;
+        if (typeof until !== "string") {
+          progress(itemId, "Snooze time required", "error");
+          res.status(400).json({ ok: false, error: "params.until required (e.g. 2h, tomorrow)" });
+          return;
+        }
+        let snoozed: WorkItem;
+        try {
+          snoozed = snoozeItem(item.id, until, { bump: !!params?.bump, actor });
+          for (const other of rowItems.filter((i) => i.id !== item.id)) {
+            snoozeItem(other.id, until, { bump: !!params?.bump, actor });
+          }
+        } catch (e: unknown) {
+          const msg = e instanceof Error ? e.message : String(e);
+          progress(itemId, msg, "error");
+          res.status(400).json({ ok: false, error: msg });
+          return;
+        }
+        progress(itemId, `Snoozed until ${snoozed.snoozedUntil!.toISOString()}`, "done");
+        res.json({
+          ok: true,
+          data: { id: item.id, status: snoozed.status, snoozedUntil: snoozed.snoozedUntil },
+        });
+        return;
+      }
+
       // Simple built-in actions
-      if (["seen", "in_progress", "done", "dismissed"].includes(action)) {
-        updateStatus(item.id, action as WorkItem["status"]);
+      if (["new", "seen", "in_progress", "done", "dismissed"].includes(action)) {
+        for (const target of rowItems) {
+          updateStatus(target.id, action as WorkItem["status"], actor);
+        }
         progress(itemId, `Marked as ${action}`, "done");
         res.json({ ok: true, data: { id: item.id, status: action } });
         return;
@@ -205,36 +433,49 @@ export function createServer() {
 
       // Channel-specific action
       const channels = getCachedChannels();
-      const channel = channels.find((c) => c.name === item.source);
-      if (!channel) {
+      if (!channels.some((c) => c.name === item.source)) {
         progress(itemId, `No channel for ${item.source}`, "error");
         res.status(400).json({ ok: false, error: `No channel for source: ${item.source}` });
         return;
       }
 
-      if (!channel.isConnected()) {
-        progress(itemId, `Connecting to ${item.source}...`, "running");
-        await channel.connect();
-      }
-      progress(itemId, `Executing ${action} on ${item.source}...`, "running");
-      await channel.performAction(item.id, action, params);
-      // Don't disconnect cached channels — they're reused across syncs
-
-      // Map source-specific actions to local status updates
-      const statusMap: Record<string, WorkItem["status"]> = {
-        read: "seen",
-        archive: "done",
-        close: "done",
-        merge: "done",
-        approve: "seen",
-      };
-      const newStatus = statusMap[action];
-      if (newStatus) {
-        updateStatus(item.id, newStatus);
+      // Destructive actions wait out the undo window unless the client opts out
+      if (!immediate && pendingActions.shouldDelay(item, action)) {
+        const pending = pendingActions.enqueue(item, action, params, actor);
+        progress(
+          itemId,
+          `⏳ ${action} in ${pendingActions.windowMs / 1000}s — undo available`,
+          "done",
+        );
+        res.json({
+          ok: true,
+          data: {
+            id: item.id,
+            action,
+            pending: true,
+            token: pending.token,
+            executeAt: pending.executeAt,
+          },
+        });
+        return;
       }
 
+      const done = await pendingActions.execute(item, action, params, actor, (step) =>
+        progress(itemId, step, "running"),
+      );
       progress(itemId, `✅ ${action} completed`, "done");
-      res.json({ ok: true, data: { id: item.id, action, status: newStatus || item.status } });
+      res.json({
+        ok: true,
+        data: {
+          id: item.id,
+          action,
+          status: done.status,
+          // Token for POST /api/actions/:token/undo, when the remote system can reverse it
+          undoToken: done.undoUntil ? done.token : undefined,
+          // Follow-up actions on linked items, e.g. moving the Jira ticket of a merged PR
+          proposals: proposeLinkedActions(item, action),
+        },
+      });
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
       progress(req.params.id, `❌ ${msg}`, "error");
@@ -242,6 +483,101 @@ export function createServer() {
     }
   });
 
+  // --- Pending actions (undo window) ---
+  const pendingActions = PendingActions.getInstance();
+  pendingActions.onChange((pending) => {
+    broadcast(wss, { type: "pending_action", ...pending });
+    if (pending.state === "committed") {
+      progress(pending.itemId, `✅ ${pending.action} completed`, "done");
+      const item = getById(pending.itemId);
+      const proposals = item ? proposeLinkedActions(item, pending.action) : [];
+      if (proposals.length > 0) {
+        broadcast(wss, {
+          type: "linked_actions",
+          itemId: pending.itemId,
+          action: pending.action,
+          proposals,
+        });
+      }
+    } else if (pending.state === "failed") {
+      progress(pending.itemId, `❌ ${pending.error}`, "error");
+    }
+  });
+
+  app.get("/api/actions", (_req, res) => {
+    res.json({ ok: true, data: pendingActions.list() });
+  });
+
+  app.post("/api/actions/:token/cancel", (req, res) => {
+    try {
+      const cancelled = pendingActions.cancel(req.params.token, requestActor(req));
+      if (!cancelled) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      res.json({ ok: true, data: cancelled });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(409).json({ ok: false, error: msg });
+    }
+  });
+
+  app.post("/api/actions/:token/undo", async (req, res) => {
+    try {
+      const undone = await pendingActions.undo(req.params.token, requestActor(req));
+      if (!undone) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      res.json({ ok: true, data: undone });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(409).json({ ok: false, error: msg });
+    }
+  });
+
+  app.post("/api/inbox/bulk-action", async (req, res) => {
+    const { ids, filter, action, params } = req.body ?? {};
+    if (!action || typeof action !== "string") {
+      res.status(400).json({ ok: false, error: "action required" });
+      return;
+    }
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === "string"))) {
+      res.status(400).json({ ok: false, error: "ids must be an array of strings" });
+      return;
+    }
+    if (!ids && (!filter || typeof filter !== "object")) {
+      res.status(400).json({ ok: false, error: "ids or filter required" });
+      return;
+    }
+
+    const bulkId = randomUUID();
+    try {
+      const report = await runBulkAction(ids ? { ids } : { filter }, action, params, {
+        actor: requestActor(req),
+        onItem: (result, done, total) => {
+          broadcast(wss, { type: "bulk_progress", bulkId, action, result, done, total });
+          progress(
+            result.id,
+            result.ok ? `✅ ${action} (bulk)` : `❌ ${result.error}`,
+            result.ok ? "done" : "error",
+          );
+        },
+      });
+      broadcast(wss, {
+        type: "bulk_complete",
+        bulkId,
+        action,
+        succeeded: report.succeeded,
+        failed: report.failed,
+      });
+      res.json({ ok: true, data: { id: bulkId, ...report } });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: msg });
+    }
+  });
+
   // --- Prompt (send item + free text to Telegram bot chat) ---
   app.post("/api/inbox/:id/prompt", async (req, res) => {
     try {
@@ -263,7 +599,7 @@ export function createServer() {
       }
 
       const botToken = env.TELEGRAM_BOT_TOKEN;
-      const chatId = env.SOTERFLOW_OWNER_CHAT_ID;
+      const chatId = (req as AuthedRequest).account?.telegramId ?? env.SOTERFLOW_OWNER_CHAT_ID;
       if (!botToken || !chatId) {
         res
           .status(500)
@@ -290,23 +626,13 @@ export function createServer() {
 
       const message = contextParts.join("\n");
 
-      // Send via Telegram Bot API
-      const tgRes = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          chat_id: chatId,
-          text: message,
-          parse_mode: "Markdown",
-          disable_web_page_preview: true,
-        }),
-      });
       progress(itemId, "Sending to Telegram...", "running");
-      const tgData = (await tgRes.json()) as { ok: boolean; description?: string };
-
-      if (!tgData.ok) {
-        progress(itemId, `Telegram error: ${tgData.description}`, "error");
-        res.status(500).json({ ok: false, error: `Telegram API: ${tgData.description}` });
+      try {
+        await sendTelegramMessage(chatId, message, { parseMode: "Markdown" });
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        progress(itemId, `Telegram error: ${msg}`, "error");
+        res.status(500).json({ ok: false, error: msg });
         return;
       }
 
@@ -319,7 +645,144 @@ export function createServer() {
     }
   });
 
+  // --- Daily digest ---
+  app.get("/api/digest/preview", (_req, res) => {
+    try {
+      const digest = buildDigest();
+      res.json({ ok: true, data: { text: formatDigest(digest), digest } });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.post("/api/digest/send", async (_req, res) => {
+    try {
+      res.json({ ok: true, data: await deliverDigest() });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.get("/api/digest/settings", (_req, res) => {
+    res.json({ ok: true, data: getDigestSettings() });
+  });
+
+  app.put("/api/digest/settings", (req, res) => {
+    const { time, email } = req.body ?? {};
+    if (
+      time !== undefined &&
+      (typeof time !== "string" || (time && parseClockTime(time) === null))
+    ) {
+      res.status(400).json({ ok: false, error: 'time must be "HH:MM" or "" to turn digests off' });
+      return;
+    }
+    if (email !== undefined && (typeof email !== "string" || (email && !email.includes("@")))) {
+      res.status(400).json({ ok: false, error: 'email must be an e-mail address or ""' });
+      return;
+    }
+    res.json({
+      ok: true,
+      data: updateDigestSettings({ time: time?.trim(), email: email?.trim() }),
+    });
+  });
+
+  // --- Metrics ---
+  app.get("/api/metrics", (req, res) => {
+    const groupBy = (req.query.groupBy as string | undefined) ?? "source";
+    const weeks = req.query.weeks === undefined ? 4 : Number(req.query.weeks);
+    if (!(METRICS_GROUPS as readonly string[]).includes(groupBy)) {
+      res
+        .status(400)
+        .json({ ok: false, error: `groupBy must be one of: ${METRICS_GROUPS.join(", ")}` });
+      return;
+    }
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > 52) {
+      res.status(400).json({ ok: false, error: "weeks must be a whole number from 1 to 52" });
+      return;
+    }
+    try {
+      res.json({
+        ok: true,
+        data: computeMetrics({ groupBy: groupBy as MetricsGroupBy, weeks }),
+      });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  // --- Calendar ---
+  app.get("/api/calendar", (_req, res) => {
+    try {
+      const calendar = getCalendar();
+      res.json({ ok: true, data: { ...calendar, quietNow: isQuietTime(calendar) } });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.put("/api/calendar", (req, res) => {
+    try {
+      const calendar = updateCalendar(req.body ?? {});
+      res.json({ ok: true, data: { ...calendar, quietNow: isQuietTime(calendar) } });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: msg });
+    }
+  });
+
+  // --- Notifications ---
+  // New and resurfaced items wait out the account's quiet hours unless a rule lets them break
+  // through, in which case they are also sent to Telegram.
+  const notifyTelegram = (text: string) => {
+    const chatId = accountChatId();
+    if (!env.TELEGRAM_BOT_TOKEN || !chatId) {
+      return;
+    }
+    sendTelegramMessage(chatId, text).catch((e: unknown) => {
+      console.error("[soterflow] Failed to send a Telegram notification:", e);
+    });
+  };
+  const notifyItem = (notification: ItemNotification) => {
+    const route = routeNotification(notification);
+    if (route === "held") {
+      return;
+    }
+    broadcast(wss, { ...notification });
+    if (route === "break_through") {
+      const { item } = notification;
+      notifyTelegram(`🚨 ${item.title}${item.url ? `\n${item.url}` : ""}`);
+    }
+  };
+
   // --- Sync ---
+  // Each account has its own channels and scheduler. Scheduled runs and items pushed by
+  // channels in real time (Slack Socket Mode) are announced to that account's clients.
+  const wiredAccounts = new Set<string>();
+  const wireAccount = () => {
+    if (!wiredAccounts.has(scopeKey())) {
+      wiredAccounts.add(scopeKey());
+      SyncScheduler.getInstance().onSyncComplete((channel, stats) => {
+        broadcast(wss, { type: "sync_complete", stats, channel, scheduled: true });
+      });
+    }
+    attachPushIngest((item) => {
+      notifyItem({ type: "workitem_added", item });
+    });
+  };
+  forEachAccount(wireAccount);
+
+  /** Swap in the current account's channels after its credentials changed, without a restart. */
+  const reloadAccountChannels = async () => {
+    await reloadChannels();
+    wireAccount();
+    void connectPushChannels();
+    SyncScheduler.getInstance().restart();
+  };
+
   app.post("/api/sync", async (_req, res) => {
     try {
       const { stats } = await syncAll();
@@ -335,13 +798,28 @@ export function createServer() {
     try {
       const states = getAllSyncStates();
       const configured = getConfiguredChannels();
-      res.json({ ok: true, data: { syncStates: states, channels: configured } });
+      res.json({
+        ok: true,
+        data: {
+          syncStates: states,
+          channels: configured,
+          schedule: SyncScheduler.getInstance().getStatus(),
+        },
+      });
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
       res.status(500).json({ ok: false, error: msg });
     }
   });
 
+  app.post("/api/sync/:channel/resume", (req, res) => {
+    if (!SyncScheduler.getInstance().resume(req.params.channel)) {
+      res.status(404).json({ ok: false, error: "Channel is not scheduled" });
+      return;
+    }
+    res.json({ ok: true, data: { channel: req.params.channel } });
+  });
+
   // --- Orchestrator status ---
   app.get("/api/orchestrator/status", (_req, res) => {
     try {
@@ -367,18 +845,248 @@ export function createServer() {
     }
   });
 
+  // --- Rules ---
+  app.get("/api/rules", (_req, res) => {
+    res.json({ ok: true, data: getRules() });
+  });
+
+  // Registered before /api/rules/:id so "dry-run" is not taken for an id
+  app.post("/api/rules/dry-run", (req, res) => {
+    try {
+      const { id, ...input } = req.body ?? {};
+      let rule: Rule | null;
+      if (id) {
+        rule = getRule(id);
+        if (!rule) {
+          res.status(404).json({ ok: false, error: "Rule not found" });
+          return;
+        }
+      } else {
+        const valid = validateRuleInput(input) as RuleInput;
+        rule = {
+          ...valid,
+          id: "dry-run",
+          enabled: true,
+          position: 0,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+      }
+      res.json({ ok: true, data: dryRunRule(rule, getInbox()) });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: msg });
+    }
+  });
+
+  app.get("/api/rules/:id", (req, res) => {
+    const rule = getRule(req.params.id);
+    if (!rule) {
+      res.status(404).json({ ok: false, error: "Not found" });
+      return;
+    }
+    res.json({ ok: true, data: rule });
+  });
+
+  app.post("/api/rules", (req, res) => {
+    try {
+      const rule = createRule(validateRuleInput(req.body) as RuleInput);
+      res.json({ ok: true, data: rule });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: msg });
+    }
+  });
+
+  app.put("/api/rules/:id", (req, res) => {
+    try {
+      const rule = updateRule(req.params.id, validateRuleInput(req.body, true));
+      if (!rule) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      res.json({ ok: true, data: rule });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: msg });
+    }
+  });
+
+  app.delete("/api/rules/:id", (req, res) => {
+    if (!deleteRule(req.params.id)) {
+      res.status(404).json({ ok: false, error: "Not found" });
+      return;
+    }
+    res.json({ ok: true });
+  });
+
   // --- Config ---
   app.get("/api/config/channels", (_req, res) => {
-    res.json({ ok: true, data: getConfiguredChannels() });
+    try {
+      res.json({ ok: true, data: getConfiguredChannels() });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  /** Validated credentials from the request body, or null after sending the error response. */
+  const channelCredentialsFor = (
+    req: express.Request,
+    res: express.Response,
+  ): ChannelCredentials | null => {
+    const name = String(req.params.name);
+    if (!Object.hasOwn(CHANNEL_CREDENTIALS, name)) {
+      res.status(404).json({ ok: false, error: `Unknown channel: ${name}` });
+      return null;
+    }
+    try {
+      return validateChannelCredentials(name, req.body?.credentials);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: msg });
+      return null;
+    }
+  };
+
+  /** Run the connect() round-trip; sends a 400 and returns false when it fails. */
+  const connectionTestPasses = async (
+    name: string,
+    credentials: ChannelCredentials,
+    res: express.Response,
+  ): Promise<boolean> => {
+    try {
+      await testChannelCredentials(name, credentials);
+      return true;
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: `Connection test failed: ${msg}` });
+      return false;
+    }
+  };
+
+  app.post("/api/config/channels/:name/test", async (req, res) => {
+    const credentials = channelCredentialsFor(req, res);
+    if (credentials && (await connectionTestPasses(req.params.name, credentials, res))) {
+      res.json({ ok: true, data: { channel: req.params.name, connected: true } });
+    }
   });
 
-  app.post("/api/config/channels", (_req, res) => {
-    // Placeholder — writing to .env is risky; just acknowledge for now
-    res.status(501).json({ ok: false, error: "Channel config update not yet implemented" });
+  app.post("/api/config/channels/:name", async (req, res) => {
+    const name = req.params.name;
+    const credentials = channelCredentialsFor(req, res);
+    if (!credentials) {
+      return;
+    }
+    // Credentials are only stored once they connect, unless the test is skipped explicitly
+    if (req.body?.test !== false && !(await connectionTestPasses(name, credentials, res))) {
+      return;
+    }
+    try {
+      setCredentials(name, credentials);
+      await reloadAccountChannels();
+      broadcast(wss, { type: "channels_updated", channel: name });
+      res.json({ ok: true, data: getConfiguredChannels().find((c) => c.name === name) });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.delete("/api/config/channels/:name", async (req, res) => {
+    try {
+      if (!deleteCredentials(req.params.name)) {
+        res.status(404).json({ ok: false, error: `No stored credentials for ${req.params.name}` });
+        return;
+      }
+      await reloadAccountChannels();
+      broadcast(wss, { type: "channels_updated", channel: req.params.name });
+      res.json({ ok: true });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  // --- Users (multi-user mode) ---
+  app.get("/api/me", (req, res) => {
+    const account = (req as AuthedRequest).account;
+    res.json({
+      ok: true,
+      data: {
+        multiUser: isMultiUser(),
+        telegramId: account?.telegramId ?? null,
+        name: account?.name ?? null,
+        // Local requests and single-user mode have full access
+        role: account?.role ?? "admin",
+      },
+    });
+  });
+
+  app.get("/api/users", requireAdmin, (_req, res) => {
+    try {
+      res.json({ ok: true, data: isMultiUser() ? getUsers().map(publicUser) : [] });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.post("/api/users", requireAdmin, (req, res) => {
+    try {
+      if (!isMultiUser()) {
+        res
+          .status(400)
+          .json({ ok: false, error: "Multi-user mode is off (set SOTERFLOW_ADMIN_USERS)" });
+        return;
+      }
+      const { telegramId, name, role } = req.body ?? {};
+      if (role !== undefined && role !== "admin" && role !== "member") {
+        res.status(400).json({ ok: false, error: "role must be admin or member" });
+        return;
+      }
+      const user = createUser(String(telegramId ?? ""), { name, role });
+      res.status(201).json({ ok: true, data: publicUser(user) });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(400).json({ ok: false, error: msg });
+    }
+  });
+
+  app.put("/api/users/:id", requireAdmin, (req, res) => {
+    const { name, role } = req.body ?? {};
+    if (role !== undefined && role !== "admin" && role !== "member") {
+      res.status(400).json({ ok: false, error: "role must be admin or member" });
+      return;
+    }
+    const user = isMultiUser() ? updateUser(String(req.params.id), { name, role }) : null;
+    if (!user) {
+      res.status(404).json({ ok: false, error: "Not found" });
+      return;
+    }
+    res.json({ ok: true, data: publicUser(user) });
+  });
+
+  app.delete("/api/users/:id", requireAdmin, (req, res) => {
+    const user = isMultiUser() ? getUser(String(req.params.id)) : null;
+    if (!user) {
+      res.status(404).json({ ok: false, error: "Not found" });
+      return;
+    }
+    if (user.telegramId === getOwner()?.telegramId) {
+      res.status(400).json({ ok: false, error: "The owner cannot be removed" });
+      return;
+    }
+    runAsUser(scopeFor(user), () => SyncScheduler.getInstance().stop());
+    deleteUser(user.telegramId);
+    res.json({ ok: true });
   });
 
   // --- Director ---
   const director = Director.getInstance();
+  director.onUpdate((agent) => {
+    broadcast(wss, { type: "director_agent_updated", agent });
+  });
 
   app.get("/api/director/skills", (_req, res) => {
     res.json({ ok: true, data: director.getSkills() });
@@ -397,14 +1105,245 @@ export function createServer() {
     res.json({ ok: true, data: agent });
   });
 
+  app.post("/api/director/agents/:id/cancel", (req, res) => {
+    try {
+      const agent = director.cancel(req.params.id);
+      if (!agent) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      res.json({ ok: true, data: agent });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(409).json({ ok: false, error: msg });
+    }
+  });
+
+  // --- Approvals of destructive agent actions ---
+  const approvals = Approvals.getInstance();
+  approvals.onChange((approval) => broadcast(wss, { type: "director_approval", approval }));
+
+  app.get("/api/director/approvals", (req, res) => {
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    if (status && !APPROVAL_STATUSES.includes(status as ApprovalStatus)) {
+      res
+        .status(400)
+        .json({ ok: false, error: `status must be one of: ${APPROVAL_STATUSES.join(", ")}` });
+      return;
+    }
+    res.json({ ok: true, data: approvals.list(status as ApprovalStatus | undefined) });
+  });
+
+  const decideApproval =
+    (decision: "approved" | "rejected"): express.RequestHandler<{ id: string }> =>
+    (req, res) => {
+      try {
+        const approval = approvals.decide(req.params.id, decision, requestActor(req));
+        if (!approval) {
+          res.status(404).json({ ok: false, error: "Not found" });
+          return;
+        }
+        res.json({ ok: true, data: approval });
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        res.status(409).json({ ok: false, error: msg });
+      }
+    };
+  app.post("/api/director/approvals/:id/approve", decideApproval("approved"));
+  app.post("/api/director/approvals/:id/reject", decideApproval("rejected"));
+
+  // Telegram webhook: presses on the approve/reject buttons of approval messages. Telegram
+  // authenticates with the webhook secret, not initData, so this lives outside /api.
+  app.post("/hooks/telegram", (req, res) => {
+    const secret = req.get("x-telegram-bot-api-secret-token");
+    if (!validateWebhookSecret(secret, env.TELEGRAM_WEBHOOK_SECRET)) {
+      res.status(401).json({ ok: false, error: "Invalid secret token" });
+      return;
+    }
+    res.json({ ok: true });
+
+    const query = req.body?.callback_query as
+      | { id: string; from: TelegramUser; data?: string }
+      | undefined;
+    const callback = query?.data ? parseApprovalCallback(query.data) : null;
+    if (!query || !callback) {
+      return;
+    }
+    let answer: string;
+    try {
+      const account = isMultiUser() ? accountFor(query.from) : null;
+      const allowed = isMultiUser()
+        ? account !== null
+        : String(query.from.id) === env.SOTERFLOW_OWNER_CHAT_ID;
+      if (!allowed) {
+        answer = "You are not allowed to decide approvals";
+      } else {
+        const decide = () =>
+          approvals.decide(callback.id, callback.decision, telegramActor(query.from));
+        const approval = account ? runAsUser(scopeFor(account), decide) : decide();
+        answer = approval ? `${approval.action} ${approval.status}` : "Approval not found";
+      }
+    } catch (e: unknown) {
+      answer = e instanceof Error ? e.message : String(e);
+    }
+    answerCallbackQuery(query.id, answer).catch(() => {});
+  });
+
+  // --- Webhooks (GitHub, Jira, Slack Events API) ---
+  // Signed by the sender instead of Telegram auth. Items go to the owner's account in multi-user
+  // mode and are announced like items pushed in real time.
+  const receiveWebhook = (res: express.Response, delivery: WebhookDelivery) => {
+    const owner = isMultiUser() ? getOwner() : null;
+    const receive = (): WebhookResult => {
+      const result = processWebhook(delivery);
+      for (const item of result.newItems) {
+        notifyItem({ type: "workitem_added", item });
+      }
+      return result;
+    };
+    try {
+      const result = owner ? runAsUser(scopeFor(owner), receive) : receive();
+      res.json({
+        ok: true,
+        data: {
+          duplicate: result.duplicate,
+          items: result.items.length,
+          deadLetterId: result.deadLetterId,
+        },
+      });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  };
+
+  app.post("/hooks/github", (req, res) => {
+    const rawBody = (req as RawBodyRequest).rawBody;
+    if (!validateHubSignature(rawBody, req.get("x-hub-signature-256"), env.GITHUB_WEBHOOK_SECRET)) {
+      res.status(401).json({ ok: false, error: "Invalid signature" });
+      return;
+    }
+    receiveWebhook(res, {
+      source: "github",
+      event: req.get("x-github-event") ?? "",
+      deliveryId: req.get("x-github-delivery") ?? null,
+      payload: req.body ?? {},
+    });
+  });
+
+  // Jira signs with the webhook's secret (X-Hub-Signature); Jira Server and automation rules,
+  // which cannot sign, pass it as ?secret= instead
+  app.post("/hooks/jira", (req, res) => {
+    const rawBody = (req as RawBodyRequest).rawBody;
+    const secret = env.JIRA_WEBHOOK_SECRET;
+    const token = typeof req.query.secret === "string" ? req.query.secret : undefined;
+    if (
+      !validateHubSignature(rawBody, req.get("x-hub-signature"), secret) &&
+      !validateWebhookSecret(token, secret)
+    ) {
+      res.status(401).json({ ok: false, error: "Invalid signature" });
+      return;
+    }
+    const payload = (req.body ?? {}) as Record<string, unknown>;
+    receiveWebhook(res, {
+      source: "jira",
+      event: typeof payload.webhookEvent === "string" ? payload.webhookEvent : "",
+      // Retries keep the identifier; without it, the same payload counts as the same delivery
+      deliveryId:
+        req.get("x-atlassian-webhook-identifier") ??
+        createHash("sha256")
+          .update(rawBody ?? "")
+          .digest("hex"),
+      payload,
+    });
+  });
+
+  app.post("/hooks/slack", (req, res) => {
+    const valid = validateSlackSignature(
+      (req as RawBodyRequest).rawBody,
+      req.get("x-slack-request-timestamp"),
+      req.get("x-slack-signature"),
+      env.SLACK_SIGNING_SECRET,
+    );
+    if (!valid) {
+      res.status(401).json({ ok: false, error: "Invalid signature" });
+      return;
+    }
+    const payload = (req.body ?? {}) as Record<string, unknown>;
+    // Sent once when the Request URL is saved in the Slack app settings
+    if (payload.type === "url_verification") {
+      res.json({ challenge: payload.challenge });
+      return;
+    }
+    if (payload.type !== "event_callback") {
+      res.json({ ok: true, data: { items: 0 } });
+      return;
+    }
+    const event = payload.event as Record<string, unknown> | undefined;
+    receiveWebhook(res, {
+      source: "slack",
+      event: typeof event?.type === "string" ? event.type : "",
+      deliveryId: typeof payload.event_id === "string" ? payload.event_id : null,
+      payload,
+    });
+  });
+
+  app.get("/api/hooks/dead-letters", (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string, 10) || 50;
+      res.json({ ok: true, data: getDeadLetters(limit) });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.post("/api/hooks/dead-letters/:id/retry", (req, res) => {
+    try {
+      const result = retryDeadLetter(Number(req.params.id));
+      if (!result) {
+        res.status(404).json({ ok: false, error: "Not found" });
+        return;
+      }
+      for (const item of result.newItems) {
+        notifyItem({ type: "workitem_added", item });
+      }
+      res.json({ ok: true, data: { items: result.items.length } });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      res.status(500).json({ ok: false, error: msg });
+    }
+  });
+
+  app.delete("/api/hooks/dead-letters/:id", (req, res) => {
+    if (!deleteDeadLetter(Number(req.params.id))) {
+      res.status(404).json({ ok: false, error: "Not found" });
+      return;
+    }
+    res.json({ ok: true });
+  });
+
   app.post("/api/director/dispatch", (req, res) => {
     try {
-      const { workItemId, skill } = req.body ?? {};
+      const { workItemId, skill, action, params, timeoutSeconds } = req.body ?? {};
       if (!workItemId || !skill) {
         res.status(400).json({ ok: false, error: "workItemId and skill required" });
         return;
       }
-      const agent = director.dispatch(workItemId, skill);
+      if (params !== undefined && (typeof params !== "object" || Array.isArray(params))) {
+        res.status(400).json({ ok: false, error: "params must be an object" });
+        return;
+      }
+      const timeout = timeoutSeconds === undefined ? undefined : Number(timeoutSeconds);
+      if (timeout !== undefined && !(timeout > 0)) {
+        res.status(400).json({ ok: false, error: "timeoutSeconds must be a positive number" });
+        return;
+      }
+      const agent = director.dispatch(workItemId, skill, {
+        action,
+        params,
+        timeoutMs: timeout === undefined ? undefined : timeout * 1000,
+      });
       broadcast(wss, { type: "director_dispatch", agent });
       res.json({ ok: true, data: agent });
     } catch (e: unknown) {
@@ -439,10 +1378,66 @@ export function createServer() {
 
   // --- WebSocket ---
   const wss = new WebSocketServer({ server, path: "/ws" });
-  wss.on("connection", (ws) => {
+  wss.on("connection", (ws, req) => {
+    // Multi-user mode: clients only receive their account's events
+    if (isMultiUser()) {
+      const account = socketAccount(req);
+      if (!account) {
+        ws.close(4401, "Unauthorized");
+        return;
+      }
+      socketAccounts.set(ws, account.telegramId);
+    }
     ws.send(JSON.stringify({ type: "connected" }));
   });
 
+  // Resurface snoozed items when they come due (including any that came due while stopped)
+  const wakeDue = () => {
+    forEachAccount(() => {
+      try {
+        for (const item of wakeSnoozedItems()) {
+          notifyItem({ type: "snooze_expired", item });
+        }
+      } catch (e: unknown) {
+        console.error("[soterflow] Failed to wake snoozed items:", e);
+      }
+    });
+  };
+  const snoozeTimer = setInterval(wakeDue, SNOOZE_CHECK_INTERVAL_MS);
+  snoozeTimer.unref();
+  server.on("listening", wakeDue);
+  server.on("close", () => clearInterval(snoozeTimer));
+
+  // Send each account's daily digest once its digest time has passed
+  const sendDueDigests = () => {
+    forEachAccount(() => {
+      sendDigestIfDue().catch((e: unknown) => {
+        console.error("[soterflow] Failed to send the daily digest:", e);
+      });
+    });
+  };
+  const digestTimer = setInterval(sendDueDigests, DIGEST_CHECK_INTERVAL_MS);
+  digestTimer.unref();
+  server.on("close", () => clearInterval(digestTimer));
+
+  // Deliver what each account held back once its quiet hours are over
+  const releaseHeld = () => {
+    forEachAccount(() => {
+      try {
+        const events = releaseHeldNotifications();
+        if (events.length > 0) {
+          broadcast(wss, { type: "notifications_batch", events });
+          notifyTelegram(formatHeldSummary(events));
+        }
+      } catch (e: unknown) {
+        console.error("[soterflow] Failed to release held notifications:", e);
+      }
+    });
+  };
+  const quietTimer = setInterval(releaseHeld, QUIET_HOURS_CHECK_INTERVAL_MS);
+  quietTimer.unref();
+  server.on("close", () => clearInterval(quietTimer));
+
   return { app, server, wss };
 }
 
@@ -452,6 +1447,10 @@ export function createServer() {
 export async function gracefulShutdown(server: http.Server, wss: WebSocketServer): Promise<void> {
   const { closeDb } = await import("../store/db.js");
 
+  SyncScheduler.stopAll();
+  PendingActions.getInstance().stop();
+  Director.getInstance().unwatchSkills();
+
   // Close all WS connections
   for (const client of wss.clients) {
     client.close(1001, "Server shutting down");
@@ -468,10 +1467,42 @@ export async function gracefulShutdown(server: http.Server, wss: WebSocketServer
   console.log("[soterflow] Graceful shutdown complete.");
 }
 
+/** Account (Telegram user ID) of each WebSocket client in multi-user mode. */
+const socketAccounts = new WeakMap<WebSocket, string>();
+
+function isLocalAddress(ip: string | undefined): boolean {
+  return ip === "127.0.0.1" || ip === "::1" || ip === "::ffff:127.0.0.1";
+}
+
+/**
+ * Account of a WebSocket client: from Telegram initData in the `auth` query parameter, or the
+ * owner for local clients without it.
+ */
+function socketAccount(req: http.IncomingMessage): User | null {
+  const initData = new URL(req.url ?? "/", "http://localhost").searchParams.get("auth");
+  if (initData) {
+    const user = validateInitData(initData, env.TELEGRAM_BOT_TOKEN);
+    return user ? accountFor(user) : null;
+  }
+  return isLocalAddress(req.socket.remoteAddress) ? getOwner() : null;
+}
+
+/** User fields exposed by the API (the database path stays on the server). */
+function publicUser(user: User) {
+  return {
+    telegramId: user.telegramId,
+    name: user.name,
+    role: user.role,
+    createdAt: user.createdAt,
+  };
+}
+
+/** Send an event to the clients of the current account. */
 function broadcast(wss: WebSocketServer, data: Record<string, unknown>) {
   const msg = JSON.stringify(data);
+  const account = scopeKey();
   for (const client of wss.clients) {
-    if (client.readyState === WebSocket.OPEN) {
+    if (client.readyState === WebSocket.OPEN && (socketAccounts.get(client) ?? "") === account) {
       client.send(msg);
     }
   }
@@ -3,17 +3,34 @@
  * Standalone entry point: loads env, inits DB, starts the API server with graceful shutdown.
  */
 
+import { Director } from "../agent/director.js";
+import { connectPushChannels, envCredentials } from "../agent/orchestrator.js";
+import { SyncScheduler } from "../agent/scheduler.js";
 import { env } from "../soterflow-env.js";
 import { getDb } from "../store/db.js";
+import { forEachAccount, migrateSingleUser } from "../store/users.js";
 import { createServer, gracefulShutdown } from "./server.js";
 
 const port = env.SOTERFLOW_API_PORT;
 
 getDb(); // ensure DB is initialized
+// First start in multi-user mode: the existing data and env tokens become the owner's account
+if (migrateSingleUser(envCredentials())) {
+  console.log("[soterflow] Migrated single-user data into the owner's account");
+}
 const { server, wss } = createServer();
 
 server.listen(port, () => {
   console.log(`[soterflow] API server listening on http://localhost:${port}`);
+  // Skill manifests, reloaded when they change
+  Director.getInstance()
+    .watchSkills()
+    .catch((e: unknown) => console.error("[soterflow] Loading skills failed:", e));
+  forEachAccount(() => {
+    // Start real-time event streams (e.g. Slack Socket Mode) without waiting for the first sync
+    void connectPushChannels();
+    SyncScheduler.getInstance().start();
+  });
 });
 
 // Graceful shutdown on SIGINT/SIGTERM
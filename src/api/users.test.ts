@@ -0,0 +1,201 @@
+/**
+ * Tests for multi-user mode: allowlist, roles, per-user stores and credentials.
+ */
+
+import type http from "node:http";
+import type { AddressInfo } from "node:net";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { WorkItem } from "../channels/base.js";
+
+const BOT_TOKEN = "1234567890:ABCdefGHIjklMNOpqrsTUVwxyz";
+const USERS_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "soterflow-users-"));
+
+// Set env BEFORE dynamic imports
+process.env.TELEGRAM_BOT_TOKEN = BOT_TOKEN;
+process.env.SOTERFLOW_DB_PATH = path.join(USERS_DIR, "soterflow.db");
+process.env.SOTERFLOW_ACCOUNTS_DB_PATH = ":memory:";
+process.env.SOTERFLOW_USERS_DIR = USERS_DIR;
+process.env.SOTERFLOW_ADMIN_USERS = "100";
+process.env.SOTERFLOW_ALLOWED_USERS = "200";
+process.env.SOTERFLOW_SECRET_KEY = "test-secret";
+process.env.GITHUB_TOKEN = "ghp_owner";
+
+function auth(user: { id: number; first_name: string; username?: string }): string {
+  const params = new URLSearchParams();
+  params.set("user", JSON.stringify(user));
+  params.set("auth_date", String(Math.floor(Date.now() / 1000) - 60));
+  const sorted = [...params.entries()]
+    .toSorted(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${v}`)
+    .join("\n");
+  const secretKey = crypto.createHmac("sha256", "WebAppData").update(BOT_TOKEN).digest();
+  params.set("hash", crypto.createHmac("sha256", secretKey).update(sorted).digest("hex"));
+  return "tma " + params.toString();
+}
+
+const OWNER = auth({ id: 100, first_name: "Olga", username: "olga" });
+const MEMBER = auth({ id: 200, first_name: "Max" });
+const STRANGER = auth({ id: 300, first_name: "Sam" });
+
+function item(id: string): WorkItem {
+  return {
+    id,
+    source: "github",
+    type: "issue",
+    title: `Item ${id}`,
+    body: "",
+    author: "someone",
+    timestamp: new Date(),
+    priority: "normal",
+    url: `https://github.com/acme/app/issues/${id}`,
+    metadata: {},
+    status: "new",
+  };
+}
+
+describe("credential encryption", () => {
+  it("round-trips and rejects tampering or the wrong key", async () => {
+    const { decryptSecret, encryptSecret } = await import("../store/crypto.js");
+    const sealed = encryptSecret('{"GITHUB_TOKEN":"ghp_x"}');
+    expect(sealed).toMatch(/^v1:/);
+    expect(sealed).not.toContain("ghp_x");
+    expect(decryptSecret(sealed)).toBe('{"GITHUB_TOKEN":"ghp_x"}');
+
+    const parts = sealed.split(":");
+    parts[3] = Buffer.from("tampered").toString("base64");
+    expect(() => decryptSecret(parts.join(":"))).toThrow("Could not decrypt credentials");
+    expect(() => decryptSecret(sealed, "other-secret")).toThrow("Could not decrypt credentials");
+    expect(() => encryptSecret("x", "")).toThrow("No master key");
+  });
+});
+
+describe("multi-user mode", () => {
+  let baseUrl: string;
+  let server: http.Server;
+
+  beforeAll(async () => {
+    const { envCredentials } = await import("../agent/orchestrator.js");
+    const { migrateSingleUser } = await import("../store/users.js");
+    const { runAsUser } = await import("../store/scope.js");
+    const { upsert } = await import("../store/workitems.js");
+
+    // Data from single-user mode lives in the default database
+    upsert(item("legacy-1"));
+    const owner = migrateSingleUser(envCredentials());
+    expect(owner).toMatchObject({ telegramId: "100", role: "admin" });
+    expect(migrateSingleUser(envCredentials())).toBeNull();
+
+    const { createUser, scopeFor } = await import("../store/users.js");
+    runAsUser(scopeFor(createUser("250", { name: "other" })), () => upsert(item("other-1")));
+
+    const { createServer } = await import("./server.js");
+    server = createServer().server;
+    await new Promise<void>((resolve) => server.listen(0, () => resolve()));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    const { closeDb } = await import("../store/db.js");
+    closeDb();
+    fs.rmSync(USERS_DIR, { recursive: true, force: true });
+  });
+
+  const get = (route: string, authorization?: string) =>
+    fetch(`${baseUrl}${route}`, { headers: authorization ? { Authorization: authorization } : {} });
+
+  it("moves the single-user data and env tokens into the owner's account", async () => {
+    const { getCredentials } = await import("../store/credentials.js");
+    const { runAsUser } = await import("../store/scope.js");
+    const { getUser, scopeFor } = await import("../store/users.js");
+    const owner = getUser("100")!;
+    expect(owner.dbPath).toBe(process.env.SOTERFLOW_DB_PATH);
+    expect(runAsUser(scopeFor(owner), getCredentials).github).toEqual({
+      GITHUB_TOKEN: "ghp_owner",
+    });
+
+    const inbox = await get("/api/inbox?group=false", OWNER).then((r) => r.json());
+    expect(inbox.data.map((i: WorkItem) => i.id)).toContain("legacy-1");
+  });
+
+  it("only lets allowlisted Telegram users in", async () => {
+    expect((await get("/api/inbox", MEMBER)).status).toBe(200);
+    const denied = await get("/api/inbox", STRANGER);
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).error).toBe("Telegram user is not allowed");
+  });
+
+  it("gives each user their own store and channels", async () => {
+    const inbox = await get("/api/inbox?group=false", MEMBER).then((r) => r.json());
+    expect(inbox.data).toEqual([]);
+    expect(fs.existsSync(path.join(USERS_DIR, "200.db"))).toBe(true);
+
+    const memberChannels = await get("/api/config/channels", MEMBER).then((r) => r.json());
+    expect(memberChannels.data.find((c: { name: string }) => c.name === "github").configured).toBe(
+      false,
+    );
+    const ownerChannels = await get("/api/config/channels", OWNER).then((r) => r.json());
+    expect(ownerChannels.data.find((c: { name: string }) => c.name === "github").configured).toBe(
+      true,
+    );
+
+    // Local requests without Telegram auth act as the owner
+    const local = await get("/api/inbox?group=false").then((r) => r.json());
+    expect(local.data.map((i: WorkItem) => i.id)).toEqual(["legacy-1"]);
+  });
+
+  it("builds a user's channels from their own credentials only", async () => {
+    const { createChannels } = await import("../agent/orchestrator.js");
+    const { setCredentials } = await import("../store/credentials.js");
+    const { runAsUser } = await import("../store/scope.js");
+    const { getUser, scopeFor } = await import("../store/users.js");
+
+    const channels = runAsUser(scopeFor(getUser("250")!), () => {
+      setCredentials("jira", { JIRA_URL: "https://acme.atlassian.net", JIRA_EMAIL: "o@x" });
+      setCredentials("slack", { SLACK_TOKEN: "xoxb-other" });
+      return createChannels();
+    });
+    // Jira lacks its token; the server's GITHUB_TOKEN is not borrowed
+    expect(channels.map((c) => c.name)).toEqual(["slack"]);
+  });
+
+  it("restricts user management to admins", async () => {
+    expect((await get("/api/users", MEMBER)).status).toBe(403);
+
+    const me = await get("/api/me", MEMBER).then((r) => r.json());
+    expect(me.data).toEqual({ multiUser: true, telegramId: "200", name: "Max", role: "member" });
+
+    const added = await fetch(`${baseUrl}/api/users`, {
+      method: "POST",
+      headers: { Authorization: OWNER, "Content-Type": "application/json" },
+      body: JSON.stringify({ telegramId: "300", name: "Sam" }),
+    }).then((r) => r.json());
+    expect(added.data).toMatchObject({ telegramId: "300", role: "member" });
+    expect(added.data).not.toHaveProperty("dbPath");
+    expect((await get("/api/inbox", STRANGER)).status).toBe(200);
+
+    const users = await get("/api/users", OWNER).then((r) => r.json());
+    expect(users.data.map((u: { telegramId: string }) => u.telegramId)).toEqual([
+      "100",
+      "250",
+      "200",
+      "300",
+    ]);
+
+    const ownerRemoval = await fetch(`${baseUrl}/api/users/100`, {
+      method: "DELETE",
+      headers: { Authorization: OWNER },
+    });
+    expect(ownerRemoval.status).toBe(400);
+    const removal = await fetch(`${baseUrl}/api/users/300`, {
+      method: "DELETE",
+      headers: { Authorization: OWNER },
+    });
+    expect(removal.status).toBe(200);
+    expect((await get("/api/inbox", STRANGER)).status).toBe(403);
+  });
+});
@@ -15,7 +15,23 @@ export interface WorkItem {
   priority: "urgent" | "high" | "normal" | "low";
   url: string;
   metadata: Record<string, unknown>;
-  status: "new" | "seen" | "in_progress" | "done" | "dismissed";
+  status: "new" | "seen" | "in_progress" | "done" | "dismissed" | "snoozed";
+  /** Wake time while `status` is `snoozed`. */
+  snoozedUntil?: Date | null;
+  /** Priority to resurface with when the snooze ends (null keeps the current one). */
+  wakePriority?: WorkItem["priority"] | null;
+  /** Conversation this item belongs to (same PR, Slack thread, Jira issue or email thread). */
+  conversationId?: string | null;
+}
+
+/** Items fetched by a sync run plus the cursor to resume from next time. */
+export interface SyncResult {
+  items: WorkItem[];
+  /**
+   * Opaque, channel-specific cursor persisted in `sync_state.cursor` and passed back to the
+   * next `sync()`. Omit to keep the previous cursor.
+   */
+  cursor?: string | null;
 }
 
 /**
@@ -29,19 +45,62 @@ export abstract class BaseChannel {
   /** Whether the channel is currently connected. */
   protected _connected = false;
 
+  /** Callbacks for items pushed in real time (kept across reconnects). */
+  private itemListeners: Array<(item: WorkItem) => void> = [];
+
+  /** A user's credentials (env var name → value), used instead of the process environment. */
+  private credentials: Record<string, string> | null = null;
+
+  /**
+   * Read settings from a user's credentials instead of the process environment. Settings
+   * present in `credentials` (even empty) never fall back to the environment.
+   */
+  useCredentials(credentials: Record<string, string>): this {
+    this.credentials = credentials;
+    return this;
+  }
+
+  /** A setting from the user's credentials, or the process environment. */
+  protected setting(name: string): string | undefined {
+    if (this.credentials && Object.hasOwn(this.credentials, name)) {
+      return this.credentials[name] || undefined;
+    }
+    return process.env[name];
+  }
+
   /** Check if channel is connected. */
   isConnected(): boolean {
     return this._connected;
   }
 
+  /** Whether the channel pushes items in real time between syncs (e.g. Slack Socket Mode). */
+  supportsPush(): boolean {
+    return false;
+  }
+
+  /** Register a callback for real-time incoming work items. */
+  onNewItem(listener: (item: WorkItem) => void): void {
+    this.itemListeners.push(listener);
+  }
+
+  /** Hand a pushed item to all registered listeners. */
+  protected emitNewItem(item: WorkItem): void {
+    for (const listener of this.itemListeners) {
+      listener(item);
+    }
+  }
+
   /** Establish connection / authenticate with the external service. */
   abstract connect(): Promise<void>;
 
   /** Tear down connection and clean up resources. */
   abstract disconnect(): Promise<void>;
 
-  /** Fetch new/updated items from the channel and return them as WorkItems. */
-  abstract sync(): Promise<WorkItem[]>;
+  /**
+   * Fetch new/updated items from the channel and return them as WorkItems.
+   * @param cursor - Cursor returned by the previous sync, or null for a full window sync
+   */
+  abstract sync(cursor?: string | null): Promise<SyncResult>;
 
   /**
    * Perform an action on a work item (e.g. close, comment, merge).
@@ -54,4 +113,23 @@ export abstract class BaseChannel {
     action: string,
     params?: Record<string, unknown>,
   ): Promise<void>;
+
+  /** Whether a performed action can be reversed with {@link undoAction}. */
+  canUndo(_action: string): boolean {
+    return false;
+  }
+
+  /**
+   * Reverse a previously performed action (e.g. reopen after close).
+   * @param itemId - The work item ID
+   * @param action - The action that was performed
+   * @param params - Parameters of the original action, plus any state captured before it ran
+   */
+  async undoAction(
+    _itemId: string,
+    action: string,
+    _params?: Record<string, unknown>,
+  ): Promise<void> {
+    throw new Error(`${this.name} cannot undo ${action}`);
+  }
 }
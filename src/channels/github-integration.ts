@@ -15,7 +15,7 @@ async function main() {
   console.log("✅ Connected!\n");
 
   console.log("🔄 Syncing work items...\n");
-  const items = await channel.sync();
+  const { items } = await channel.sync();
 
   if (items.length === 0) {
     console.log("📭 No work items found.");
@@ -1,10 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WorkItem } from "./base";
 import {
   assignPriority,
   mapNotification,
   mapIssue,
   mapPR,
   mapMention,
+  parseCursor,
+  pullRequestRef,
+  parseReviewComments,
+  combinedCheckState,
   GitHubChannel,
 } from "./github";
 
@@ -142,6 +147,102 @@ describe("mapMention", () => {
   });
 });
 
+describe("parseCursor", () => {
+  it("normalizes a valid ISO cursor", () => {
+    expect(parseCursor("2026-01-15T10:00:00Z")).toBe("2026-01-15T10:00:00.000Z");
+  });
+
+  it("returns null for missing or malformed cursors", () => {
+    expect(parseCursor(null)).toBeNull();
+    expect(parseCursor("not-a-date")).toBeNull();
+  });
+});
+
+// --- PR review helpers ---
+
+describe("pullRequestRef", () => {
+  const item = (overrides: Partial<WorkItem>): WorkItem => ({
+    id: "x",
+    source: "github",
+    type: "pr",
+    title: "",
+    body: "",
+    author: "",
+    timestamp: new Date(),
+    priority: "normal",
+    url: "",
+    metadata: {},
+    status: "new",
+    ...overrides,
+  });
+
+  it("reads the PR from the URL or metadata", () => {
+    expect(pullRequestRef(item({ url: "https://github.com/org/repo/pull/2" }))).toEqual({
+      owner: "org",
+      repo: "repo",
+      number: 2,
+    });
+    expect(pullRequestRef(item({ metadata: { repo: "org/repo", number: 3 } }))).toEqual({
+      owner: "org",
+      repo: "repo",
+      number: 3,
+    });
+  });
+
+  it("returns null for issues", () => {
+    expect(
+      pullRequestRef(
+        item({ type: "issue", url: "https://github.com/org/repo/issues/2", metadata: {} }),
+      ),
+    ).toBeNull();
+  });
+
+  it("takes the repo from search results", () => {
+    const pr = mapPR({
+      id: 1,
+      number: 4,
+      title: "t",
+      updated_at: "2026-01-15T10:00:00Z",
+      html_url: "https://github.com/org/repo/pull/4",
+      repository_url: "https://api.github.com/repos/org/repo",
+    });
+    expect(pr.metadata.repo).toBe("org/repo");
+  });
+});
+
+describe("parseReviewComments", () => {
+  it("validates inline comments", () => {
+    expect(parseReviewComments(undefined)).toEqual([]);
+    expect(
+      parseReviewComments([{ path: "src/a.ts", line: "12", startLine: 10, body: "Nit" }]),
+    ).toEqual([{ path: "src/a.ts", line: 12, side: undefined, startLine: 10, body: "Nit" }]);
+    expect(() => parseReviewComments([{ path: "a.ts", body: "x" }])).toThrow(
+      "Review comments need a path and a line",
+    );
+    expect(() => parseReviewComments([{ path: "a.ts", line: 3 }])).toThrow("needs a body");
+    expect(() => parseReviewComments([{ path: "a.ts", line: 3, body: "x", side: "UP" }])).toThrow(
+      "side must be LEFT or RIGHT",
+    );
+  });
+});
+
+describe("combinedCheckState", () => {
+  it("fails on any failure, pends on unfinished runs", () => {
+    const ok = { name: "build", status: "completed", conclusion: "success" };
+    expect(combinedCheckState([])).toBe("none");
+    expect(combinedCheckState([ok])).toBe("success");
+    expect(combinedCheckState([ok, { name: "e2e", status: "in_progress", conclusion: null }])).toBe(
+      "pending",
+    );
+    expect(
+      combinedCheckState([
+        { name: "lint", status: "completed", conclusion: "failure" },
+        { name: "e2e", status: "queued", conclusion: null },
+      ]),
+    ).toBe("failure");
+  });
+});
+
 // --- GitHubChannel with mocked Octokit ---
 
 describe("GitHubChannel", () => {
@@ -164,6 +265,223 @@ describe("GitHubChannel", () => {
     });
   });
 
+  describe("PR review", () => {
+    const ref = { owner: "org", repo: "repo", number: 7 };
+    let calls: Array<[string, Record<string, unknown>]>;
+
+    beforeEach(() => {
+      calls = [];
+      const record = (name: string, data: unknown) => async (args: Record<string, unknown>) => {
+        calls.push([name, args]);
+        return { data };
+      };
+      // oxlint-disable-next-line typescript/no-explicit-any
+      (channel as any).octokit = {
+        paginate: async (fn: (args: unknown) => Promise<{ data: unknown }>, args: unknown) =>
+          (await fn(args)).data,
+        pulls: {
+          get: async (args: Record<string, unknown>) => {
+            calls.push(["pulls.get", args]);
+            return args.mediaType
+              ? { data: "diff --git a/a.ts b/a.ts" }
+              : { data: { head: { sha: "abc123" }, mergeable: false, mergeable_state: "dirty" } };
+          },
+          listFiles: record("pulls.listFiles", [
+            { filename: "a.ts", status: "modified", additions: 2, deletions: 1, changes: 3 },
+          ]),
+          createReview: record("pulls.createReview", {}),
+          createReviewComment: record("pulls.createReviewComment", {}),
+        },
+        checks: {
+          listForRef: record("checks.listForRef", [
+            { name: "build", status: "completed", conclusion: "failure", html_url: "https://x" },
+          ]),
+        },
+      };
+    });
+
+    it("returns changed files and the diff", async () => {
+      const result = await channel.getPullRequestDiff(ref);
+      expect(result.diff).toBe("diff --git a/a.ts b/a.ts");
+      expect(result.files[0]).toMatchObject({ filename: "a.ts", additions: 2, deletions: 1 });
+    });
+
+    it("returns check runs for the head commit and mergeability", async () => {
+      const result = await channel.getPullRequestChecks(ref);
+      expect(result).toMatchObject({
+        headSha: "abc123",
+        state: "failure",
+        mergeable: false,
+        mergeableState: "dirty",
+      });
+      expect(calls.find(([name]) => name === "checks.listForRef")?.[1].ref).toBe("abc123");
+    });
+
+    it("submits a review requesting changes with inline comments", async () => {
+      await channel.performAction("github-pr-1", "request-changes", {
+        ...ref,
+        body: "Needs tests",
+        comments: [{ path: "a.ts", line: 5, startLine: 3, body: "Extract this" }],
+      });
+      expect(calls).toEqual([
+        [
+          "pulls.createReview",
+          {
+            owner: "org",
+            repo: "repo",
+            pull_number: 7,
+            event: "REQUEST_CHANGES",
+            body: "Needs tests",
+            comments: [
+              {
+                path: "a.ts",
+                line: 5,
+                side: "RIGHT",
+                start_line: 3,
+                start_side: "RIGHT",
+                body: "Extract this",
+              },
+            ],
+          },
+        ],
+      ]);
+    });
+
+    it("requires a body for review events GitHub rejects without one", async () => {
+      await expect(
+        channel.performAction("github-pr-1", "request-changes", { ...ref }),
+      ).rejects.toThrow("params.body required");
+      await expect(
+        channel.performAction("github-pr-1", "review", { ...ref, event: "DISMISS", body: "x" }),
+      ).rejects.toThrow("Unsupported review event: DISMISS");
+      await expect(
+        channel.performAction("github-pr-1", "review", { ...ref, body: ["LGTM"] }),
+      ).rejects.toThrow("params.body must be a string");
+      await expect(
+        channel.performAction("github-pr-1", "approve", { ...ref, body: 1 }),
+      ).rejects.toThrow("params.body must be a string");
+    });
+
+    it("posts an inline comment on the head commit", async () => {
+      await channel.performAction("github-pr-1", "inline-comment", {
+        ...ref,
+        path: "a.ts",
+        line: 9,
+        side: "LEFT",
+        body: "Why remove this?",
+      });
+      expect(calls.at(-1)).toEqual([
+        "pulls.createReviewComment",
+        {
+          owner: "org",
+          repo: "repo",
+          pull_number: 7,
+          commit_id: "abc123",
+          path: "a.ts",
+          line: 9,
+          side: "LEFT",
+          body: "Why remove this?",
+        },
+      ]);
+    });
+  });
+
+  describe("issue and workflow actions", () => {
+    const ref = { owner: "org", repo: "repo", number: 7 };
+    let calls: Array<[string, Record<string, unknown>]>;
+
+    beforeEach(() => {
+      calls = [];
+      const record = (name: string, data: unknown) => async (args: Record<string, unknown>) => {
+        calls.push([name, args]);
+        return { data };
+      };
+      Object.assign(channel, {
+        username: "octocat",
+        octokit: {
+          issues: {
+            addLabels: record("issues.addLabels", {}),
+            addAssignees: record("issues.addAssignees", {}),
+          },
+          repos: { get: record("repos.get", { default_branch: "main" }) },
+          actions: {
+            createWorkflowDispatch: record("actions.createWorkflowDispatch", {}),
+            listWorkflowRuns: record("actions.listWorkflowRuns", {
+              workflow_runs: [
+                {
+                  name: "Deploy",
+                  display_title: "Deploy main",
+                  head_branch: "main",
+                  status: "completed",
+                  conclusion: "success",
+                  html_url: "https://github.com/org/repo/actions/runs/1",
+                  created_at: "2026-01-02T10:00:00Z",
+                },
+              ],
+            }),
+          },
+        },
+      });
+    });
+
+    it("adds labels and assignees, assigning the token's user by default", async () => {
+      await channel.performAction("github-issue-1", "label", { ...ref, labels: "bug" });
+      await channel.performAction("github-issue-1", "assign", { ...ref });
+      expect(calls).toEqual([
+        ["issues.addLabels", { owner: "org", repo: "repo", issue_number: 7, labels: ["bug"] }],
+        [
+          "issues.addAssignees",
+          { owner: "org", repo: "repo", issue_number: 7, assignees: ["octocat"] },
+        ],
+      ]);
+    });
+
+    it("dispatches a workflow on the default branch and lists its runs", async () => {
+      await channel.performAction("github-pr-1", "trigger-workflow", {
+        ...ref,
+        workflow: "deploy.yml",
+        inputs: { env: "staging", dryRun: true },
+      });
+      expect(calls.at(-1)).toEqual([
+        "actions.createWorkflowDispatch",
+        {
+          owner: "org",
+          repo: "repo",
+          workflow_id: "deploy.yml",
+          ref: "main",
+          inputs: { env: "staging", dryRun: "true" },
+        },
+      ]);
+      const runs = await channel.getWorkflowRuns(
+        { owner: "org", repo: "repo" },
+        { workflow: "deploy.yml", branch: "main" },
+      );
+      expect(runs).toEqual([
+        {
+          name: "Deploy",
+          branch: "main",
+          status: "completed",
+          conclusion: "success",
+          url: "https://github.com/org/repo/actions/runs/1",
+          createdAt: "2026-01-02T10:00:00Z",
+        },
+      ]);
+    });
+
+    it("rejects missing or malformed params", async () => {
+      await expect(channel.performAction("github-issue-1", "label", { ...ref })).rejects.toThrow(
+        "params.labels required",
+      );
+      await expect(
+        channel.performAction("github-issue-1", "assign", { ...ref, assignees: [1] }),
+      ).rejects.toThrow("params.assignees must be a string or a list of strings");
+      await expect(
+        channel.performAction("github-pr-1", "trigger-workflow", { ...ref }),
+      ).rejects.toThrow("params.workflow required");
+      expect(calls).toEqual([]);
+    });
+  });
+
   describe("retry logic", () => {
     it("retries on 500 errors", async () => {
       // Access private method via any
@@ -1,12 +1,15 @@
 /**
  * @module channels/github
  * GitHub channel connector — fetches notifications, assigned issues, review-requested PRs, and mentions.
- * Features: pagination, rate-limit handling, exponential backoff retries.
+ * Features: pagination, rate-limit handling, exponential backoff retries, incremental sync.
+ * PR review: changed files and unified diff, check runs and mergeability, inline comments
+ * and review submission.
+ * The sync cursor is the ISO timestamp at which the previous sync started.
  */
 
 import { Octokit } from "@octokit/rest";
-import { BaseChannel, WorkItem } from "./base";
-import { withRetry, sleep } from "./retry";
+import { BaseChannel, SyncResult, WorkItem } from "./base.js";
+import { withRetry, sleep } from "./retry.js";
 
 const RATE_LIMIT_THRESHOLD = 10; // back off when remaining < this
 
@@ -16,13 +19,78 @@ interface GhLabel {
   [key: string]: unknown;
 }
 
+/** Identifies a pull request: `owner/repo#number`. */
+export interface PullRequestRef {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+/** A file changed by a pull request. */
+export interface PullRequestFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  changes: number;
+  /** Unified diff hunk; missing for binary or very large files. */
+  patch?: string;
+  previousFilename?: string;
+}
+
+export interface PullRequestDiff {
+  files: PullRequestFile[];
+  /** Full unified diff of the pull request. */
+  diff: string;
+}
+
+export interface CheckRun {
+  name: string;
+  status: string;
+  conclusion: string | null;
+  url?: string;
+}
+
+export interface PullRequestChecks {
+  headSha: string;
+  /** Combined CI state: failure if any run failed, pending while any is unfinished. */
+  state: "success" | "failure" | "pending" | "none";
+  /** Null while GitHub is still computing mergeability. */
+  mergeable: boolean | null;
+  mergeableState: string;
+  checks: CheckRun[];
+}
+
+/** A GitHub Actions workflow run. */
+export interface WorkflowRun {
+  name: string;
+  branch: string;
+  /** `queued`, `in_progress` or `completed`. */
+  status: string;
+  conclusion: string | null;
+  url: string;
+  createdAt: string;
+}
+
+/** An inline review comment on a line (or range, with `startLine`) of the diff. */
+export interface ReviewComment {
+  path: string;
+  line: number;
+  side?: "LEFT" | "RIGHT";
+  startLine?: number;
+  body: string;
+}
+
+const REVIEW_EVENTS = new Set(["COMMENT", "REQUEST_CHANGES"]);
+const FAILED_CONCLUSIONS = new Set(["failure", "timed_out", "cancelled", "action_required"]);
+
 export class GitHubChannel extends BaseChannel {
   name = "github";
   private octokit: Octokit | null = null;
   private username = "";
 
   async connect(): Promise<void> {
-    const token = process.env.GITHUB_TOKEN;
+    const token = this.setting("GITHUB_TOKEN");
     if (!token) {
       throw new Error("GITHUB_TOKEN is not set");
     }
@@ -70,23 +138,33 @@ export class GitHubChannel extends BaseChannel {
     }
   }
 
-  async sync(): Promise<WorkItem[]> {
+  async sync(cursor?: string | null): Promise<SyncResult> {
     if (!this.octokit) {
       throw new Error("Not connected — call connect() first");
     }
 
     const items: WorkItem[] = [];
-    const syncDays = parseInt(process.env.SOTERFLOW_SYNC_WINDOW_DAYS ?? "7", 10);
-    const sinceDate = new Date(Date.now() - syncDays * 24 * 60 * 60 * 1000).toISOString();
-
-    // 1. Notifications (paginated, filtered by since)
+    const startedAt = new Date().toISOString();
+    const syncDays = parseInt(this.setting("SOTERFLOW_SYNC_WINDOW_DAYS") ?? "7", 10);
+    const since = parseCursor(cursor);
+    const sinceDate = since ?? new Date(Date.now() - syncDays * 24 * 60 * 60 * 1000).toISOString();
+    // Search API only needs second precision
+    const updatedQualifier = since ? ` updated:>=${since.replace(/\.\d{3}Z$/, "Z")}` : "";
+
+    // 1. Notifications (paginated, filtered by since; 304 when nothing changed)
     const notifications = await this.withRetry(() =>
       this.octokit!.paginate(this.octokit!.activity.listNotificationsForAuthenticatedUser, {
         all: false,
         since: sinceDate,
         per_page: 100,
+        headers: since ? { "if-modified-since": new Date(since).toUTCString() } : {},
       }),
-    );
+    ).catch((err: unknown) => {
+      if ((err as { status?: number })?.status === 304) {
+        return [];
+      }
+      throw err;
+    });
     for (const n of notifications) {
       items.push(mapNotification(n));
     }
@@ -114,7 +192,7 @@ export class GitHubChannel extends BaseChannel {
     // 3. PRs where review is requested (search, paginated)
     const reviewPrs = await this.withRetry(() =>
       this.octokit!.paginate(this.octokit!.search.issuesAndPullRequests, {
-        q: `is:pr is:open review-requested:${this.username}`,
+        q: `is:pr is:open review-requested:${this.username}${updatedQualifier}`,
         per_page: 100,
       }),
     );
@@ -127,7 +205,7 @@ export class GitHubChannel extends BaseChannel {
     // 4. Mentions in issues/PRs
     const mentions = await this.withRetry(() =>
       this.octokit!.paginate(this.octokit!.search.issuesAndPullRequests, {
-        q: `mentions:${this.username} is:open`,
+        q: `mentions:${this.username} is:open${updatedQualifier}`,
         per_page: 100,
       }),
     );
@@ -139,7 +217,7 @@ export class GitHubChannel extends BaseChannel {
       }
     }
 
-    return items;
+    return { items, cursor: startedAt };
   }
 
   async performAction(
@@ -163,15 +241,20 @@ export class GitHubChannel extends BaseChannel {
         case "merge":
           await this.octokit!.pulls.merge({ owner, repo, pull_number: number });
           break;
-        case "approve":
+        case "approve": {
+          const body = meta.body ?? "";
+          if (typeof body !== "string") {
+            throw new Error("params.body must be a string");
+          }
           await this.octokit!.pulls.createReview({
             owner,
             repo,
             pull_number: number,
             event: "APPROVE",
-            body: (meta.body as string) ?? "",
+            body,
           });
           break;
+        }
         case "comment":
           await this.octokit!.issues.createComment({
             owner,
@@ -180,15 +263,341 @@ export class GitHubChannel extends BaseChannel {
             body: meta.body as string,
           });
           break;
+        case "review":
+        case "request-changes": {
+          const event =
+            action === "request-changes" ? "REQUEST_CHANGES" : (meta.event ?? "COMMENT");
+          if (typeof event !== "string") {
+            throw new Error("params.event must be a string");
+          }
+          if (!REVIEW_EVENTS.has(event)) {
+            throw new Error(`Unsupported review event: ${event}`);
+          }
+          const body = meta.body ?? "";
+          if (typeof body !== "string") {
+            throw new Error("params.body must be a string");
+          }
+          const comments = parseReviewComments(meta.comments);
+          if (!body && (event === "REQUEST_CHANGES" || comments.length === 0)) {
+            throw new Error("params.body required");
+          }
+          await this.octokit!.pulls.createReview({
+            owner,
+            repo,
+            pull_number: number,
+            event: event as "COMMENT" | "REQUEST_CHANGES",
+            body,
+            comments: comments.map((c) => ({
+              path: c.path,
+              line: c.line,
+              side: c.side ?? "RIGHT",
+              ...(c.startLine ? { start_line: c.startLine, start_side: c.side ?? "RIGHT" } : {}),
+              body: c.body,
+            })),
+          });
+          break;
+        }
+        case "inline-comment": {
+          const [comment] = parseReviewComments([meta]);
+          const commitId =
+            (meta.commitId as string | undefined) ??
+            (await this.octokit!.pulls.get({ owner, repo, pull_number: number })).data.head.sha;
+          await this.octokit!.pulls.createReviewComment({
+            owner,
+            repo,
+            pull_number: number,
+            commit_id: commitId,
+            path: comment.path,
+            line: comment.line,
+            side: comment.side ?? "RIGHT",
+            ...(comment.startLine
+              ? { start_line: comment.startLine, start_side: comment.side ?? "RIGHT" }
+              : {}),
+            body: comment.body,
+          });
+          break;
+        }
+        case "label": {
+          const labels = parseStringList(meta.labels ?? meta.label, "labels");
+          if (labels.length === 0) {
+            throw new Error("params.labels required");
+          }
+          await this.octokit!.issues.addLabels({ owner, repo, issue_number: number, labels });
+          break;
+        }
+        case "assign": {
+          // Without assignees the issue is assigned to the token's user
+          const assignees = parseStringList(meta.assignees ?? meta.assignee, "assignees");
+          await this.octokit!.issues.addAssignees({
+            owner,
+            repo,
+            issue_number: number,
+            assignees: assignees.length > 0 ? assignees : [this.username],
+          });
+          break;
+        }
+        case "trigger-workflow": {
+          const workflow = meta.workflow;
+          if (typeof workflow !== "string" && typeof workflow !== "number") {
+            throw new Error("params.workflow required (workflow file name or id)");
+          }
+          if (meta.ref !== undefined && typeof meta.ref !== "string") {
+            throw new Error("params.ref must be a string");
+          }
+          const ref =
+            meta.ref ?? (await this.octokit!.repos.get({ owner, repo })).data.default_branch;
+          await this.octokit!.actions.createWorkflowDispatch({
+            owner,
+            repo,
+            workflow_id: workflow,
+            ref,
+            inputs: parseWorkflowInputs(meta.inputs),
+          });
+          break;
+        }
         default:
           throw new Error(`Unsupported GitHub action: ${action}`);
       }
     });
   }
+
+  /** Changed files and the unified diff of a pull request. */
+  async getPullRequestDiff(ref: PullRequestRef): Promise<PullRequestDiff> {
+    if (!this.octokit) {
+      throw new Error("Not connected");
+    }
+    const params = { owner: ref.owner, repo: ref.repo, pull_number: ref.number };
+    const files = await this.withRetry(() =>
+      this.octokit!.paginate(this.octokit!.pulls.listFiles, { ...params, per_page: 100 }),
+    );
+    const { data: diff } = await this.withRetry(() =>
+      this.octokit!.pulls.get({ ...params, mediaType: { format: "diff" } }),
+    );
+    return {
+      files: files.map((f) => ({
+        filename: f.filename,
+        status: f.status,
+        additions: f.additions,
+        deletions: f.deletions,
+        changes: f.changes,
+        patch: f.patch,
+        previousFilename: f.previous_filename,
+      })),
+      // With the diff media type the response body is the raw diff text
+      diff: diff as unknown as string,
+    };
+  }
+
+  /** Check runs on the head commit, combined CI state and mergeability of a pull request. */
+  async getPullRequestChecks(ref: PullRequestRef): Promise<PullRequestChecks> {
+    if (!this.octokit) {
+      throw new Error("Not connected");
+    }
+    const { data: pr } = await this.withRetry(() =>
+      this.octokit!.pulls.get({ owner: ref.owner, repo: ref.repo, pull_number: ref.number }),
+    );
+    const runs = await this.withRetry(() =>
+      this.octokit!.paginate(this.octokit!.checks.listForRef, {
+        owner: ref.owner,
+        repo: ref.repo,
+        ref: pr.head.sha,
+        per_page: 100,
+      }),
+    );
+    const checks: CheckRun[] = runs.map((r) => ({
+      name: r.name,
+      status: r.status,
+      conclusion: r.conclusion,
+      url: r.html_url ?? undefined,
+    }));
+    return {
+      headSha: pr.head.sha,
+      state: combinedCheckState(checks),
+      mergeable: pr.mergeable,
+      mergeableState: pr.mergeable_state,
+      checks,
+    };
+  }
+
+  /**
+   * Latest workflow runs of a repository, newest first.
+   * @param options - `workflow` (file name or id) and `branch` narrow the runs
+   */
+  async getWorkflowRuns(
+    repo: { owner: string; repo: string },
+    options: { workflow?: string | number; branch?: string; limit?: number } = {},
+  ): Promise<WorkflowRun[]> {
+    if (!this.octokit) {
+      throw new Error("Not connected");
+    }
+    const query = {
+      ...repo,
+      ...(options.branch ? { branch: options.branch } : {}),
+      per_page: options.limit ?? 5,
+    };
+    const workflow = options.workflow;
+    const { data } = await this.withRetry(() =>
+      workflow === undefined
+        ? this.octokit!.actions.listWorkflowRunsForRepo(query)
+        : this.octokit!.actions.listWorkflowRuns({ ...query, workflow_id: workflow }),
+    );
+    return data.workflow_runs.map((r) => ({
+      name: r.name ?? r.display_title,
+      branch: r.head_branch ?? "",
+      status: r.status ?? "unknown",
+      conclusion: r.conclusion,
+      url: r.html_url,
+      createdAt: r.created_at,
+    }));
+  }
+
+  canUndo(action: string): boolean {
+    return action === "close";
+  }
+
+  /** Reopen a closed issue/PR. Merges cannot be reversed. */
+  async undoAction(
+    _itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.octokit) {
+      throw new Error("Not connected");
+    }
+    if (action !== "close") {
+      throw new Error(`GitHub cannot undo ${action}`);
+    }
+    const meta = params ?? {};
+    await this.withRetry(() =>
+      this.octokit!.issues.update({
+        owner: meta.owner as string,
+        repo: meta.repo as string,
+        issue_number: meta.number as number,
+        state: "open",
+      }),
+    );
+  }
 }
 
 // --- Mapping helpers (exported for testing) ---
 
+/**
+ * The pull request a work item refers to, from `metadata.repo`/`metadata.number` or the
+ * item's GitHub URL. Null for items that are not pull requests.
+ */
+export function pullRequestRef(item: WorkItem): PullRequestRef | null {
+  const fromUrl = /github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/.exec(item.url ?? "");
+  if (fromUrl) {
+    return { owner: fromUrl[1], repo: fromUrl[2], number: parseInt(fromUrl[3], 10) };
+  }
+  const meta = item.metadata ?? {};
+  if (item.type === "pr" && typeof meta.repo === "string" && meta.repo.includes("/")) {
+    const [owner, repo] = meta.repo.split("/");
+    const number = Number(meta.number);
+    return Number.isInteger(number) && number > 0 ? { owner, repo, number } : null;
+  }
+  return null;
+}
+
+/**
+ * Validate inline review comments from action params.
+ * @throws Error if a comment lacks a path, a positive line or a body
+ */
+export function parseReviewComments(value: unknown): ReviewComment[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error("params.comments must be an array");
+  }
+  return value.map((raw: Record<string, unknown>) => {
+    const line = Number(raw.line);
+    if (typeof raw.path !== "string" || !raw.path || !Number.isInteger(line) || line < 1) {
+      throw new Error("Review comments need a path and a line");
+    }
+    if (typeof raw.body !== "string" || !raw.body) {
+      throw new Error(`Review comment on ${raw.path}:${line} needs a body`);
+    }
+    if (raw.side !== undefined && raw.side !== "LEFT" && raw.side !== "RIGHT") {
+      throw new Error("side must be LEFT or RIGHT");
+    }
+    const startLine = raw.startLine === undefined ? undefined : Number(raw.startLine);
+    if (startLine !== undefined && (!Number.isInteger(startLine) || startLine >= line)) {
+      throw new Error("startLine must be below line");
+    }
+    return {
+      path: raw.path,
+      line,
+      side: raw.side as ReviewComment["side"],
+      startLine,
+      body: raw.body,
+    };
+  });
+}
+
+/**
+ * A list of names from action params: one string or an array of strings.
+ * @throws Error if the value is neither
+ */
+export function parseStringList(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every((v): v is string => typeof v === "string" && v.length > 0)) {
+    throw new Error(`params.${name} must be a string or a list of strings`);
+  }
+  return list;
+}
+
+/**
+ * Inputs of a workflow dispatch; GitHub takes string values only.
+ * @throws Error if the inputs are not an object of strings, numbers or booleans
+ */
+export function parseWorkflowInputs(value: unknown): Record<string, string> | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("params.inputs must be an object");
+  }
+  const inputs: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v !== "string" && typeof v !== "number" && typeof v !== "boolean") {
+      throw new Error(`params.inputs.${key} must be a string, number or boolean`);
+    }
+    inputs[key] = String(v);
+  }
+  return inputs;
+}
+
+/** Combine check runs into one state: any failure fails, any unfinished run is pending. */
+export function combinedCheckState(checks: CheckRun[]): PullRequestChecks["state"] {
+  if (checks.length === 0) {
+    return "none";
+  }
+  if (checks.some((c) => c.conclusion && FAILED_CONCLUSIONS.has(c.conclusion))) {
+    return "failure";
+  }
+  if (checks.some((c) => c.status !== "completed")) {
+    return "pending";
+  }
+  return "success";
+}
+
+/** Validate a sync cursor (ISO timestamp); returns null for missing or malformed cursors. */
+export function parseCursor(cursor?: string | null): string | null {
+  if (!cursor || isNaN(Date.parse(cursor))) {
+    return null;
+  }
+  return new Date(cursor).toISOString();
+}
+
+/** `owner/repo` from a search result's `repository_url`. */
+function repoFromApiUrl(url: unknown): string | undefined {
+  return typeof url === "string" ? /\/repos\/([^/]+\/[^/]+)$/.exec(url)?.[1] : undefined;
+}
+
 function labelName(l: string | GhLabel): string {
   return typeof l === "string" ? l.toLowerCase() : ((l.name as string) ?? "").toLowerCase();
 }
@@ -309,7 +718,7 @@ export function mapPR(pr: Record<string, unknown>): WorkItem {
     timestamp: new Date(pr.updated_at as string),
     priority: assignPriority({ isReviewRequest: true, labels: pr.labels as unknown[] }),
     url: pr.html_url as string,
-    metadata: { number: pr.number },
+    metadata: { number: pr.number, repo: repoFromApiUrl(pr.repository_url), reviewRequested: true },
     status: "new",
   };
 }
@@ -330,6 +739,7 @@ export function mapMention(m: Record<string, unknown>): WorkItem {
     metadata: {
       number: m.number,
       labels: labelNames(m.labels),
+      repo: repoFromApiUrl(m.repository_url),
     },
     status: "new",
   };
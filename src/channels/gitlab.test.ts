@@ -0,0 +1,295 @@
+import type { AddressInfo } from "node:net";
+import http from "node:http";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import {
+  GitLabChannel,
+  gitlabTarget,
+  mapGitLabMergeRequest,
+  mapGitLabTodo,
+  pipelineStatus,
+  type GitLabIssue,
+  type GitLabMergeRequest,
+  type GitLabTodo,
+} from "./gitlab.js";
+
+const me = { id: 7, username: "kim", name: "Kim" };
+
+const mr: GitLabMergeRequest = {
+  id: 9001,
+  iid: 42,
+  project_id: 12,
+  title: "Rotate TLS certificates",
+  description: "Renews the ingress certs",
+  state: "opened",
+  web_url: "https://git.example.com/infra/edge/-/merge_requests/42",
+  updated_at: "2026-03-02T09:00:00Z",
+  labels: ["Security"],
+  author: { id: 3, username: "ana", name: "Ana" },
+  source_branch: "certs",
+  target_branch: "main",
+  detailed_merge_status: "mergeable",
+  references: { full: "infra/edge!42" },
+};
+
+const issue: GitLabIssue = {
+  id: 5001,
+  iid: 8,
+  project_id: 12,
+  title: "Disk alert on runner-3",
+  state: "opened",
+  web_url: "https://git.example.com/infra/edge/-/issues/8",
+  updated_at: "2026-03-02T10:00:00Z",
+  labels: ["P1"],
+  author: { id: 3, username: "ana", name: "Ana" },
+  references: { full: "infra/edge#8" },
+};
+
+const todo = (id: number, overrides: Partial<GitLabTodo>): GitLabTodo => ({
+  id,
+  action_name: "mentioned",
+  target_type: "MergeRequest",
+  target: { iid: 42, title: mr.title },
+  target_url: mr.web_url,
+  body: "@kim can you check the cert chain?",
+  author: { id: 3, username: "ana", name: "Ana" },
+  project: { id: 12, path_with_namespace: "infra/edge" },
+  created_at: "2026-03-02T11:00:00Z",
+  ...overrides,
+});
+
+describe("mapGitLabMergeRequest", () => {
+  it("maps a merge request with its head pipeline status", () => {
+    const item = mapGitLabMergeRequest(
+      { ...mr, head_pipeline: { id: 1, status: "running", web_url: "https://ci/1" } },
+      { reviewRequested: true },
+    );
+    expect(item.id).toBe("gitlab-mr-12-42");
+    expect(item.type).toBe("pr");
+    expect(item.priority).toBe("high");
+    expect(item.metadata).toMatchObject({
+      project: "infra/edge",
+      iid: 42,
+      pipelineStatus: "running",
+      pipelineUrl: "https://ci/1",
+      labels: ["security"],
+      reviewRequested: true,
+    });
+  });
+
+  it("raises the user's own MR with a failed pipeline", () => {
+    const failed = { ...mr, labels: [], pipeline: { id: 2, status: "failed" } };
+    expect(pipelineStatus(failed)).toBe("failed");
+    expect(pipelineStatus(mr)).toBe("none");
+    expect(mapGitLabMergeRequest(failed, { assignedToMe: true }).priority).toBe("high");
+    expect(mapGitLabMergeRequest({ ...mr, labels: [] }, { assignedToMe: true }).priority).toBe(
+      "normal",
+    );
+  });
+});
+
+describe("helpers", () => {
+  it("finds the action target from params or the item id", () => {
+    expect(gitlabTarget("gitlab-mr-12-42")).toEqual({
+      kind: "merge_requests",
+      projectId: 12,
+      iid: 42,
+    });
+    expect(gitlabTarget("gitlab-issue-12-8")).toEqual({ kind: "issues", projectId: 12, iid: 8 });
+    expect(gitlabTarget("gitlab-todo-3", { kind: "issues", projectId: 4, iid: 2 })).toEqual({
+      kind: "issues",
+      projectId: 4,
+      iid: 2,
+    });
+    expect(gitlabTarget("gitlab-todo-3")).toBeNull();
+  });
+
+  it("maps to-dos on other targets to items of their own", () => {
+    const item = mapGitLabTodo(
+      todo(77, { target_type: "Epic", target: { title: "Q3 hardening" }, project: null }),
+    );
+    expect(item).toMatchObject({ id: "gitlab-todo-77", type: "mention", priority: "high" });
+    expect(item.metadata).toMatchObject({ todoId: 77, targetType: "Epic" });
+    expect(item.metadata.projectId).toBeUndefined();
+  });
+});
+
+// --- Against a local GitLab API mock ---
+
+describe("GitLabChannel (mock server)", () => {
+  let server: http.Server;
+  let requests: Array<{ method: string; url: string; token?: string; body: unknown }>;
+  let rateLimited: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        requests.push({
+          method: req.method ?? "",
+          url: url.pathname + url.search,
+          token: req.headers["private-token"] as string | undefined,
+          body: raw ? JSON.parse(raw) : undefined,
+        });
+        const json = (data: unknown, headers: Record<string, string> = {}) => {
+          res.writeHead(200, { "Content-Type": "application/json", ...headers });
+          res.end(JSON.stringify(data));
+        };
+        const path = url.pathname.replace(/^\/gitlab\/api\/v4/, "");
+        const page = url.searchParams.get("page");
+
+        if (rateLimited > 0) {
+          rateLimited--;
+          res.writeHead(429, { "Retry-After": "0" });
+          res.end("Retry later");
+          return;
+        }
+        if (path === "/user") {
+          json(me);
+        } else if (path === "/merge_requests" && url.searchParams.get("reviewer_username")) {
+          json([mr]);
+        } else if (path === "/merge_requests") {
+          // Assigned: the same MR again on page 1, another one on page 2
+          json(
+            page === "1" ? [mr] : [{ ...mr, id: 9002, iid: 43, title: "Bump runner image" }],
+            page === "1" ? { "x-next-page": "2" } : {},
+          );
+        } else if (path === "/projects/12/merge_requests/42") {
+          json({ ...mr, head_pipeline: { id: 1, status: "success" } });
+        } else if (path === "/projects/12/merge_requests/43") {
+          json({ ...mr, id: 9002, iid: 43, title: "Bump runner image", head_pipeline: null });
+        } else if (path === "/issues") {
+          json([issue]);
+        } else if (path === "/todos") {
+          json([
+            todo(70, { action_name: "review_requested" }),
+            todo(71, {
+              target_type: "Issue",
+              target: { iid: 99, title: "Old flaky test" },
+              target_url: "https://git.example.com/infra/edge/-/issues/99",
+            }),
+          ]);
+        } else if (req.method !== "GET") {
+          json({});
+        } else {
+          res.writeHead(404);
+          res.end("Not found");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    process.env.GITLAB_TOKEN = "glpat-test";
+    process.env.GITLAB_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/gitlab/`;
+  });
+
+  afterAll(async () => {
+    delete process.env.GITLAB_TOKEN;
+    delete process.env.GITLAB_URL;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    rateLimited = 0;
+  });
+
+  async function connected(): Promise<GitLabChannel> {
+    const channel = new GitLabChannel();
+    await channel.connect();
+    return channel;
+  }
+
+  it("requires a token", async () => {
+    const saved = process.env.GITLAB_TOKEN;
+    delete process.env.GITLAB_TOKEN;
+    await expect(new GitLabChannel().connect()).rejects.toThrow("GITLAB_TOKEN must be set");
+    process.env.GITLAB_TOKEN = saved;
+  });
+
+  it("syncs MRs, issues and to-dos without duplicates", async () => {
+    const channel = await connected();
+    const cursor = "2026-03-01T00:00:00.000Z";
+    const result = await channel.sync(cursor);
+
+    expect(result.items.map((i) => i.id)).toEqual([
+      "gitlab-mr-12-42",
+      "gitlab-mr-12-43",
+      "gitlab-issue-12-8",
+      "gitlab-todo-71",
+    ]);
+    expect(requests[0].token).toBe("glpat-test");
+    const reviewList = new URL(requests[1].url, "http://x").searchParams;
+    expect(reviewList.get("reviewer_username")).toBe("kim");
+    expect(reviewList.get("updated_after")).toBe(cursor);
+    expect(requests.filter((r) => r.url.includes("assignee_username")).length).toBe(2);
+
+    const [both, second, assignedIssue, ownTodo] = result.items;
+    expect(both.metadata).toMatchObject({
+      reviewRequested: true,
+      assignedToMe: true,
+      pipelineStatus: "success",
+      todoId: 70,
+      todoAction: "review_requested",
+    });
+    expect(second.metadata.pipelineStatus).toBe("none");
+    expect(second.priority).toBe("normal");
+    expect(assignedIssue.priority).toBe("urgent");
+    expect(ownTodo.metadata).toMatchObject({ kind: "issues", projectId: 12, iid: 99 });
+    expect(Date.parse(result.cursor ?? "")).toBeGreaterThan(Date.parse(cursor));
+  });
+
+  it("retries when rate limited", async () => {
+    rateLimited = 1;
+    await connected();
+    expect(requests.map((r) => r.url)).toEqual(["/gitlab/api/v4/user", "/gitlab/api/v4/user"]);
+  });
+
+  it("approves, merges, comments, closes and marks to-dos done", async () => {
+    const channel = await connected();
+    requests = [];
+    await channel.performAction("gitlab-mr-12-42", "approve");
+    await channel.performAction("gitlab-mr-12-42", "merge", { squash: true });
+    await channel.performAction("gitlab-issue-12-8", "comment", { body: "On it" });
+    await channel.performAction("gitlab-issue-12-8", "close");
+    await channel.performAction("gitlab-mr-12-42", "mark-todo-done", { todoId: 70 });
+    await channel.performAction("gitlab-todo-71", "mark-todo-done");
+
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      "POST /gitlab/api/v4/projects/12/merge_requests/42/approve",
+      "PUT /gitlab/api/v4/projects/12/merge_requests/42/merge",
+      "POST /gitlab/api/v4/projects/12/issues/8/notes",
+      "PUT /gitlab/api/v4/projects/12/issues/8",
+      "POST /gitlab/api/v4/todos/70/mark_as_done",
+      "POST /gitlab/api/v4/todos/71/mark_as_done",
+    ]);
+    expect(requests[1].body).toEqual({ squash: true });
+    expect(requests[2].body).toEqual({ body: "On it" });
+    expect(requests[3].body).toEqual({ state_event: "close" });
+  });
+
+  it("undoes a close by reopening", async () => {
+    const channel = await connected();
+    expect(channel.canUndo("close")).toBe(true);
+    requests = [];
+    await channel.undoAction("gitlab-mr-12-42", "close");
+    expect(requests[0]).toMatchObject({
+      method: "PUT",
+      url: "/gitlab/api/v4/projects/12/merge_requests/42",
+      body: { state_event: "reopen" },
+    });
+  });
+
+  it("rejects unknown actions and actions on the wrong target", async () => {
+    const channel = await connected();
+    await expect(channel.performAction("gitlab-issue-12-8", "approve")).rejects.toThrow(
+      "GitLab approve needs a merge request",
+    );
+    await expect(channel.performAction("gitlab-mr-12-42", "rebase")).rejects.toThrow(
+      "Unsupported GitLab action: rebase",
+    );
+    await expect(channel.performAction("gitlab-todo-5", "close")).rejects.toThrow(
+      "is not a GitLab merge request or issue",
+    );
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * @module channels/gitlab
+ * GitLab channel connector — syncs the To-Do list, assigned issues, and merge requests the user
+ * reviews or is assigned to, from gitlab.com or a self-hosted instance (`GITLAB_URL`).
+ * Auth uses a personal access token (`GITLAB_TOKEN`, `read_api` for sync, `api` for actions).
+ * Features: page-header pagination, rate-limit handling via `withRetry`, MR pipeline status.
+ * Items use stable ids per merge request/issue, so an MR that is both assigned and up for review
+ * is one item; pending to-dos are folded into the item they point at, and only become items of
+ * their own when their target was not synced.
+ * The sync cursor is the ISO timestamp at which the previous sync started.
+ */
+
+import { BaseChannel, SyncResult, WorkItem } from "./base.js";
+import { assignPriority } from "./github.js";
+import { withRetry } from "./retry.js";
+
+const DEFAULT_URL = "https://gitlab.com";
+const PAGE_SIZE = 100;
+
+export interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+}
+
+interface GitLabPipeline {
+  id: number;
+  status: string;
+  web_url?: string;
+}
+
+export interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  project_id: number;
+  title: string;
+  description?: string | null;
+  state: string;
+  web_url: string;
+  updated_at: string;
+  draft?: boolean;
+  labels?: string[];
+  author?: GitLabUser | null;
+  assignees?: GitLabUser[];
+  reviewers?: GitLabUser[];
+  source_branch?: string;
+  target_branch?: string;
+  detailed_merge_status?: string;
+  references?: { full?: string };
+  /** Only returned by the single merge request endpoint. */
+  head_pipeline?: GitLabPipeline | null;
+  pipeline?: GitLabPipeline | null;
+}
+
+export interface GitLabIssue {
+  id: number;
+  iid: number;
+  project_id: number;
+  title: string;
+  description?: string | null;
+  state: string;
+  web_url: string;
+  updated_at: string;
+  labels?: string[];
+  author?: GitLabUser | null;
+  due_date?: string | null;
+  references?: { full?: string };
+}
+
+export interface GitLabTodo {
+  id: number;
+  /** e.g. `assigned`, `mentioned`, `review_requested`, `directly_addressed`, `build_failed`. */
+  action_name: string;
+  target_type: string;
+  target: { iid?: number; title?: string; description?: string | null; web_url?: string };
+  target_url: string;
+  body?: string;
+  author?: GitLabUser | null;
+  project?: { id: number; path_with_namespace: string } | null;
+  created_at: string;
+}
+
+/** A merge request or issue addressed by a GitLab action. */
+export interface GitLabTarget {
+  kind: "merge_requests" | "issues";
+  projectId: number;
+  iid: number;
+}
+
+/** To-dos that ask the user for something; they raise the target item to high priority. */
+const DIRECT_TODO_ACTIONS = new Set([
+  "assigned",
+  "mentioned",
+  "directly_addressed",
+  "review_requested",
+  "approval_required",
+  "build_failed",
+  "unmergeable",
+]);
+
+const FAILED_PIPELINE_STATUSES = new Set(["failed", "canceled"]);
+
+export class GitLabChannel extends BaseChannel {
+  name = "gitlab";
+  private baseUrl = DEFAULT_URL;
+  private token = "";
+  private username = "";
+
+  async connect(): Promise<void> {
+    const token = this.setting("GITLAB_TOKEN");
+    if (!token) {
+      throw new Error("GITLAB_TOKEN must be set");
+    }
+    this.baseUrl = (this.setting("GITLAB_URL") || DEFAULT_URL).replace(/\/+$/, "");
+    this.token = token;
+
+    // Verify connectivity
+    const user = (await this.request("GET", "/user")).data as GitLabUser;
+    this.username = user.username;
+    this._connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.token = "";
+    this.username = "";
+    this._connected = false;
+  }
+
+  /**
+   * Call the REST API (v4). Failures are thrown with `status` and the response headers so
+   * `withRetry` backs off on 429 (GitLab sends `Retry-After`) and 5xx.
+   */
+  private async request(
+    method: string,
+    path: string,
+    body?: Record<string, unknown>,
+  ): Promise<{ data: unknown; headers: Headers }> {
+    return withRetry(async () => {
+      const res = await fetch(`${this.baseUrl}/api/v4${path}`, {
+        method,
+        headers: {
+          "PRIVATE-TOKEN": this.token,
+          ...(body ? { "Content-Type": "application/json" } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        const err = new Error(
+          `GitLab API error: ${res.status} ${text || res.statusText}`,
+        ) as Error & { status: number; response: { headers: Headers } };
+        err.status = res.status;
+        err.response = { headers: res.headers };
+        throw err;
+      }
+      const data = res.status === 204 ? null : await res.json().catch(() => null);
+      return { data, headers: res.headers };
+    });
+  }
+
+  /** Fetch every page of a list endpoint, following the `x-next-page` header. */
+  private async paginate<T>(path: string, query: Record<string, string>): Promise<T[]> {
+    const results: T[] = [];
+    let page = "1";
+    while (page) {
+      const qs = new URLSearchParams({ ...query, per_page: String(PAGE_SIZE), page });
+      const { data, headers } = await this.request("GET", `${path}?${qs}`);
+      results.push(...(data as T[]));
+      page = headers.get("x-next-page") ?? "";
+    }
+    return results;
+  }
+
+  async sync(cursor?: string | null): Promise<SyncResult> {
+    if (!this.token) {
+      throw new Error("Not connected — call connect() first");
+    }
+    const startedAt = new Date();
+    const days = parseInt(this.setting("SOTERFLOW_SYNC_WINDOW_DAYS") ?? "7", 10);
+    const since =
+      cursor && !isNaN(Date.parse(cursor))
+        ? new Date(cursor)
+        : new Date(startedAt.getTime() - days * 86_400_000);
+    const updatedAfter = since.toISOString();
+    const items: WorkItem[] = [];
+    const byId = new Map<string, WorkItem>();
+
+    // 1. Merge requests to review, then assigned ones (one item when both)
+    const reviewing = await this.paginate<GitLabMergeRequest>("/merge_requests", {
+      scope: "all",
+      state: "opened",
+      reviewer_username: this.username,
+      updated_after: updatedAfter,
+    });
+    const assignedMrs = await this.paginate<GitLabMergeRequest>("/merge_requests", {
+      scope: "all",
+      state: "opened",
+      assignee_username: this.username,
+      updated_after: updatedAfter,
+    });
+    for (const [list, flag] of [
+      [reviewing, "reviewRequested"],
+      [assignedMrs, "assignedToMe"],
+    ] as const) {
+      for (const mr of list) {
+        const id = gitlabItemId("merge_requests", mr.project_id, mr.iid);
+        const existing = byId.get(id);
+        if (existing) {
+          existing.metadata[flag] = true;
+          continue;
+        }
+        // The list endpoint has no pipeline; the single MR has the head pipeline
+        const detailed = (
+          await this.request("GET", `/projects/${mr.project_id}/merge_requests/${mr.iid}`)
+        ).data as GitLabMergeRequest;
+        const item = mapGitLabMergeRequest({ ...mr, ...detailed }, { [flag]: true });
+        byId.set(id, item);
+        items.push(item);
+      }
+    }
+
+    // 2. Assigned issues
+    const issues = await this.paginate<GitLabIssue>("/issues", {
+      scope: "assigned_to_me",
+      state: "opened",
+      updated_after: updatedAfter,
+    });
+    for (const issue of issues) {
+      const item = mapGitLabIssue(issue);
+      byId.set(item.id, item);
+      items.push(item);
+    }
+
+    // 3. Pending to-dos (all of them: the list is what is left to do, not what changed)
+    const todos = await this.paginate<GitLabTodo>("/todos", { state: "pending" });
+    for (const todo of todos) {
+      const target = todoTarget(todo);
+      const existing = target && byId.get(gitlabItemId(target.kind, target.projectId, target.iid));
+      if (existing) {
+        mergeTodo(existing, todo);
+      } else {
+        items.push(mapGitLabTodo(todo));
+      }
+    }
+
+    return { items, cursor: startedAt.toISOString() };
+  }
+
+  async performAction(
+    itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.token) {
+      throw new Error("Not connected");
+    }
+    if (action === "mark-todo-done") {
+      const todoId = Number(params?.todoId ?? /^gitlab-todo-(\d+)$/.exec(itemId)?.[1]);
+      if (!Number.isInteger(todoId) || todoId < 1) {
+        throw new Error(`${itemId} has no GitLab to-do (params.todoId required)`);
+      }
+      await this.request("POST", `/todos/${todoId}/mark_as_done`);
+      return;
+    }
+
+    const target = gitlabTarget(itemId, params);
+    if (!target) {
+      throw new Error(`${itemId} is not a GitLab merge request or issue`);
+    }
+    const path = `/projects/${target.projectId}/${target.kind}/${target.iid}`;
+    const mrOnly = () => {
+      if (target.kind !== "merge_requests") {
+        throw new Error(`GitLab ${action} needs a merge request`);
+      }
+    };
+
+    switch (action) {
+      case "approve":
+        mrOnly();
+        await this.request("POST", `${path}/approve`);
+        break;
+      case "merge":
+        mrOnly();
+        await this.request("PUT", `${path}/merge`, {
+          ...(params?.squash !== undefined ? { squash: Boolean(params.squash) } : {}),
+          ...(params?.removeSourceBranch !== undefined
+            ? { should_remove_source_branch: Boolean(params.removeSourceBranch) }
+            : {}),
+        });
+        break;
+      case "comment":
+        if (typeof params?.body !== "string" || !params.body) {
+          throw new Error("params.body required");
+        }
+        await this.request("POST", `${path}/notes`, { body: params.body });
+        break;
+      case "close":
+        await this.request("PUT", path, { state_event: "close" });
+        break;
+      default:
+        throw new Error(`Unsupported GitLab action: ${action}`);
+    }
+  }
+
+  canUndo(action: string): boolean {
+    return action === "close";
+  }
+
+  /** Reverse a close by reopening the merge request or issue. */
+  async undoAction(
+    itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (action !== "close") {
+      throw new Error(`GitLab cannot undo ${action}`);
+    }
+    const target = gitlabTarget(itemId, params);
+    if (!target) {
+      throw new Error(`${itemId} is not a GitLab merge request or issue`);
+    }
+    await this.request("PUT", `/projects/${target.projectId}/${target.kind}/${target.iid}`, {
+      state_event: "reopen",
+    });
+  }
+}
+
+// --- Exported helpers for testability ---
+
+/** Stable item id of a merge request or issue. */
+export function gitlabItemId(kind: GitLabTarget["kind"], projectId: number, iid: number): string {
+  return `gitlab-${kind === "merge_requests" ? "mr" : "issue"}-${projectId}-${iid}`;
+}
+
+/**
+ * The merge request or issue an action addresses: `params.projectId`/`params.iid` (with
+ * `params.kind`, default from the item) or the item id. Null for to-do-only items without them.
+ */
+export function gitlabTarget(
+  itemId: string,
+  params?: Record<string, unknown>,
+): GitLabTarget | null {
+  const fromId = /^gitlab-(mr|issue)-(\d+)-(\d+)$/.exec(itemId);
+  const kind =
+    params?.kind === "merge_requests" || params?.kind === "issues"
+      ? params.kind
+      : fromId?.[1] === "issue"
+        ? "issues"
+        : "merge_requests";
+  const projectId = Number(params?.projectId ?? fromId?.[2]);
+  const iid = Number(params?.iid ?? fromId?.[3]);
+  if (!Number.isInteger(projectId) || projectId < 1 || !Number.isInteger(iid) || iid < 1) {
+    return null;
+  }
+  return { kind, projectId, iid };
+}
+
+/**
+ * Pipeline status of a merge request (`success`, `failed`, `running`, …), or "none" when it has
+ * no pipeline.
+ */
+export function pipelineStatus(mr: GitLabMergeRequest): string {
+  return (mr.head_pipeline ?? mr.pipeline)?.status ?? "none";
+}
+
+/** `group/project` from a `group/project!12` or `group/project#12` reference. */
+function projectPath(ref: string | undefined, webUrl: string): string {
+  return (
+    ref?.replace(/[!#]\d+$/, "") ??
+    /^https?:\/\/[^/]+\/(.+?)\/-\/(?:merge_requests|issues)\//.exec(webUrl)?.[1] ??
+    ""
+  );
+}
+
+/** Map a merge request to a WorkItem; `flags` records why it was synced. */
+export function mapGitLabMergeRequest(
+  mr: GitLabMergeRequest,
+  flags: Record<string, boolean> = {},
+): WorkItem {
+  const pipeline = mr.head_pipeline ?? mr.pipeline;
+  const status = pipelineStatus(mr);
+  let priority = assignPriority({ labels: mr.labels, isReviewRequest: !!flags.reviewRequested });
+  // A broken pipeline on the user's own MR needs them
+  if (flags.assignedToMe && FAILED_PIPELINE_STATUSES.has(status) && priority === "normal") {
+    priority = "high";
+  }
+  return {
+    id: gitlabItemId("merge_requests", mr.project_id, mr.iid),
+    source: "gitlab",
+    type: "pr",
+    title: mr.title,
+    body: mr.description ?? "",
+    author: mr.author?.username ?? "unknown",
+    timestamp: new Date(mr.updated_at),
+    priority,
+    url: mr.web_url,
+    metadata: {
+      projectId: mr.project_id,
+      iid: mr.iid,
+      project: projectPath(mr.references?.full, mr.web_url),
+      state: mr.state,
+      draft: !!mr.draft,
+      labels: (mr.labels ?? []).map((l) => l.toLowerCase()),
+      sourceBranch: mr.source_branch,
+      targetBranch: mr.target_branch,
+      mergeStatus: mr.detailed_merge_status,
+      pipelineStatus: status,
+      pipelineUrl: pipeline?.web_url,
+      ...flags,
+    },
+    status: "new",
+  };
+}
+
+/** Map an assigned issue to a WorkItem. */
+export function mapGitLabIssue(issue: GitLabIssue): WorkItem {
+  return {
+    id: gitlabItemId("issues", issue.project_id, issue.iid),
+    source: "gitlab",
+    type: "issue",
+    title: issue.title,
+    body: issue.description ?? "",
+    author: issue.author?.username ?? "unknown",
+    timestamp: new Date(issue.updated_at),
+    priority: assignPriority({ labels: issue.labels, reason: "assign" }),
+    url: issue.web_url,
+    metadata: {
+      projectId: issue.project_id,
+      iid: issue.iid,
+      project: projectPath(issue.references?.full, issue.web_url),
+      state: issue.state,
+      labels: (issue.labels ?? []).map((l) => l.toLowerCase()),
+      dueDate: issue.due_date ?? undefined,
+      assignedToMe: true,
+    },
+    status: "new",
+  };
+}
+
+/** The merge request or issue a to-do points at, or null for other targets (e.g. epics). */
+export function todoTarget(todo: GitLabTodo): GitLabTarget | null {
+  const kind =
+    todo.target_type === "MergeRequest"
+      ? "merge_requests"
+      : todo.target_type === "Issue"
+        ? "issues"
+        : null;
+  if (!kind || !todo.project || !todo.target.iid) {
+    return null;
+  }
+  return { kind, projectId: todo.project.id, iid: todo.target.iid };
+}
+
+/** Record a to-do on the item of its target, raising it to high when the to-do asks for the user. */
+export function mergeTodo(item: WorkItem, todo: GitLabTodo): void {
+  item.metadata.todoId = todo.id;
+  item.metadata.todoAction = todo.action_name;
+  if (DIRECT_TODO_ACTIONS.has(todo.action_name) && item.priority !== "urgent") {
+    item.priority = "high";
+  }
+}
+
+/** Map a to-do whose target was not synced to a WorkItem of its own. */
+export function mapGitLabTodo(todo: GitLabTodo): WorkItem {
+  const target = todoTarget(todo);
+  const reason = todo.action_name.replace(/_/g, " ");
+  return {
+    id: `gitlab-todo-${todo.id}`,
+    source: "gitlab",
+    type:
+      todo.action_name === "mentioned" || todo.action_name === "directly_addressed"
+        ? "mention"
+        : "task",
+    title: todo.target.title ?? todo.body ?? `GitLab to-do: ${reason}`,
+    body: todo.body ?? "",
+    author: todo.author?.username ?? "unknown",
+    timestamp: new Date(todo.created_at),
+    priority: DIRECT_TODO_ACTIONS.has(todo.action_name) ? "high" : "normal",
+    url: todo.target_url,
+    metadata: {
+      todoId: todo.id,
+      todoAction: todo.action_name,
+      targetType: todo.target_type,
+      project: todo.project?.path_with_namespace ?? "",
+      ...(target ? { projectId: target.projectId, iid: target.iid, kind: target.kind } : {}),
+    },
+    status: "new",
+  };
+}
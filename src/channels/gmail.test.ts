@@ -0,0 +1,146 @@
+import { simpleParser } from "mailparser";
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { GmailChannel, replyRecipients, responseSubject } from "./gmail.js";
+import { sendMail } from "./smtp.js";
+
+vi.mock("./smtp.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./smtp.js")>()),
+  sendMail: vi.fn(async () => {}),
+}));
+
+const ORIGINAL = [
+  "From: Alice <alice@example.com>",
+  "To: me@example.com, Bob <bob@example.com>",
+  "Cc: carol@example.com",
+  "Subject: Launch plan",
+  "Date: Mon, 02 Mar 2026 09:00:00 +0000",
+  "Message-ID: <orig@example.com>",
+  "References: <root@example.com>",
+  "",
+  "Can we ship Friday?",
+  "",
+].join("\r\n");
+
+describe("replyRecipients", () => {
+  it("replies to the sender, or everyone but us for reply-all", async () => {
+    const parsed = await simpleParser(ORIGINAL);
+    expect(replyRecipients(parsed, "me@example.com", false)).toEqual({
+      to: ["Alice <alice@example.com>"],
+      cc: [],
+    });
+    expect(replyRecipients(parsed, "ME@example.com", true)).toEqual({
+      to: ["Alice <alice@example.com>", "Bob <bob@example.com>"],
+      cc: ["carol@example.com"],
+    });
+  });
+
+  it("prefers Reply-To", async () => {
+    const parsed = await simpleParser(`Reply-To: list@example.com\r\n${ORIGINAL}`);
+    expect(replyRecipients(parsed, "me@example.com", false).to).toEqual(["list@example.com"]);
+  });
+
+  it("does not stack subject prefixes", () => {
+    expect(responseSubject("Launch", "Re")).toBe("Re: Launch");
+    expect(responseSubject("RE: Launch", "Re")).toBe("RE: Launch");
+    expect(responseSubject(undefined, "Fwd")).toBe("Fwd: (no subject)");
+  });
+});
+
+// --- Against a fake IMAP client (SMTP is mocked) ---
+
+describe("GmailChannel responses", () => {
+  const saved = { ...process.env };
+  let appended: Array<{ path: string; raw: string; flags: string[] }>;
+  let flagged: Array<{ uid: number; flags: string[] }>;
+
+  function channel(): GmailChannel {
+    const ch = new GmailChannel();
+    // oxlint-disable-next-line typescript/no-explicit-any
+    (ch as any).client = {
+      getMailboxLock: async () => ({ release: () => {} }),
+      fetchOne: async (uid: string) =>
+        uid === "42" ? { uid: 42, source: Buffer.from(ORIGINAL) } : false,
+      append: async (path: string, raw: string, flags: string[]) => {
+        appended.push({ path, raw, flags });
+      },
+      messageFlagsAdd: async ({ uid }: { uid: number }, flags: string[]) => {
+        flagged.push({ uid, flags });
+      },
+    };
+    return ch;
+  }
+
+  beforeEach(() => {
+    process.env.GMAIL_USER = "me@example.com";
+    process.env.GMAIL_APP_PASSWORD = "app-pass";
+    process.env.GMAIL_SMTP_HOST = "127.0.0.1";
+    process.env.GMAIL_SMTP_PORT = "2525";
+    appended = [];
+    flagged = [];
+    vi.mocked(sendMail).mockClear();
+  });
+
+  afterAll(() => {
+    process.env = saved;
+  });
+
+  it("replies in-thread, files the sent copy and marks the original answered", async () => {
+    await channel().performAction("gmail-42", "reply", { text: "Yes, Friday works." });
+
+    expect(sendMail).toHaveBeenCalledTimes(1);
+    const [options, envelope, raw] = vi.mocked(sendMail).mock.calls[0];
+    expect(options).toMatchObject({ host: "127.0.0.1", port: 2525, secure: false });
+    expect(options.auth).toEqual({ user: "me@example.com", pass: "app-pass" });
+    expect(envelope).toEqual({ from: "me@example.com", to: ["Alice <alice@example.com>"] });
+
+    const sent = await simpleParser(raw);
+    expect(sent.subject).toBe("Re: Launch plan");
+    expect(sent.inReplyTo).toBe("<orig@example.com>");
+    expect(sent.references).toEqual(["<root@example.com>", "<orig@example.com>"]);
+    expect(sent.text?.trim()).toBe("Yes, Friday works.");
+
+    expect(appended).toEqual([{ path: "[Gmail]/Sent Mail", raw, flags: ["\\Seen"] }]);
+    expect(flagged).toEqual([{ uid: 42, flags: ["\\Answered"] }]);
+  });
+
+  it("reply-all includes the other recipients", async () => {
+    await channel().performAction("gmail-42", "reply-all", { body: "Agreed" });
+    const [, envelope, raw] = vi.mocked(sendMail).mock.calls[0];
+    expect(envelope.to).toEqual([
+      "Alice <alice@example.com>",
+      "Bob <bob@example.com>",
+      "carol@example.com",
+    ]);
+    expect(raw).toContain("Cc: carol@example.com");
+  });
+
+  it("forwards with the original quoted", async () => {
+    await channel().performAction("gmail-42", "forward", {
+      to: "dave@example.com, erin@example.com",
+      text: "FYI",
+    });
+    const [, envelope, raw] = vi.mocked(sendMail).mock.calls[0];
+    expect(envelope.to).toEqual(["dave@example.com", "erin@example.com"]);
+    const sent = await simpleParser(raw);
+    expect(sent.subject).toBe("Fwd: Launch plan");
+    expect(sent.text).toContain("---------- Forwarded message ---------");
+    expect(sent.text).toContain("Can we ship Friday?");
+    expect(flagged).toEqual([{ uid: 42, flags: ["$Forwarded"] }]);
+  });
+
+  it("validates input before sending", async () => {
+    await expect(channel().performAction("gmail-42", "reply", {})).rejects.toThrow(
+      "params.body required",
+    );
+    await expect(channel().performAction("gmail-42", "reply", { body: 42 })).rejects.toThrow(
+      "params.body must be a string",
+    );
+    await expect(channel().performAction("gmail-42", "forward", { text: "x" })).rejects.toThrow(
+      "params.to required for forward",
+    );
+    await expect(channel().performAction("gmail-7", "reply", { text: "x" })).rejects.toThrow(
+      "Message 7 not found",
+    );
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,20 @@
 /**
  * @module channels/gmail
  * Gmail channel connector via IMAP — fetches recent emails from inbox.
- * Uses imapflow for modern Promise-based IMAP access.
+ * Uses imapflow for modern Promise-based IMAP access; replies and forwards are sent over
+ * SMTP with the same app password and filed in the Sent mailbox.
+ * The sync cursor is `<UIDVALIDITY>:<last seen UID>` so later syncs only fetch newer messages.
  */
 
 import { ImapFlow } from "imapflow";
 import { simpleParser, ParsedMail } from "mailparser";
-import { BaseChannel, WorkItem } from "./base.js";
+import { BaseChannel, SyncResult, WorkItem } from "./base.js";
+import { bareAddress, buildMessage, sendMail, type SmtpOptions } from "./smtp.js";
 
+/** Gmail folder messages are moved to on archive. */
+const ALL_MAIL = "[Gmail]/All Mail";
 const MAX_EMAILS = 20;
+const UID_OPTIONS = { uid: true } as Record<string, unknown>;
 
 /** Typed subset of imapflow FetchMessageObject we actually use */
 interface ImapMessage {
@@ -30,24 +36,87 @@ function addressText(field: ParsedMail["to"]): string {
   return field.text || "";
 }
 
+function toArray(value: string | string[] | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Addresses of a parsed address field, e.g. `Name <addr>`. */
+function addressList(field: ParsedMail["to"]): string[] {
+  if (!field) {
+    return [];
+  }
+  return (Array.isArray(field) ? field : [field]).flatMap((f) =>
+    f.value.filter((a) => a.address).map((a) => (a.name ? `${a.name} <${a.address}>` : a.address!)),
+  );
+}
+
+/**
+ * Recipients of a reply: Reply-To (or From) for `reply`; for `reply-all` also everyone
+ * on To/Cc, without our own address and without duplicates.
+ */
+export function replyRecipients(
+  original: ParsedMail,
+  self: string,
+  all: boolean,
+): { to: string[]; cc: string[] } {
+  const seen = new Set([self.toLowerCase()]);
+  const unique = (list: string[]) =>
+    list.filter((addr) => {
+      const key = bareAddress(addr).toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  const sender = addressList(original.replyTo).length
+    ? addressList(original.replyTo)
+    : addressList(original.from);
+  const to = unique(sender);
+  if (!all) {
+    return { to, cc: [] };
+  }
+  return { to: [...to, ...unique(addressList(original.to))], cc: unique(addressList(original.cc)) };
+}
+
+/** Subject with a `Re:`/`Fwd:` prefix, unless it already has one. */
+export function responseSubject(subject: string | undefined, prefix: "Re" | "Fwd"): string {
+  const base = subject || "(no subject)";
+  return new RegExp(`^${prefix}:`, "i").test(base) ? base : `${prefix}: ${base}`;
+}
+
+/** Parse a `<UIDVALIDITY>:<UID>` sync cursor; returns null when missing or malformed. */
+export function parseGmailCursor(
+  cursor?: string | null,
+): { uidValidity: string; lastUid: number } | null {
+  const match = /^(\d+):(\d+)$/.exec(cursor ?? "");
+  if (!match) {
+    return null;
+  }
+  return { uidValidity: match[1], lastUid: parseInt(match[2], 10) };
+}
+
 export class GmailChannel extends BaseChannel {
   name = "gmail";
   private client: ImapFlow | null = null;
 
   isConfigured(): boolean {
-    return !!(process.env.GMAIL_USER && process.env.GMAIL_APP_PASSWORD);
+    return !!(this.setting("GMAIL_USER") && this.setting("GMAIL_APP_PASSWORD"));
   }
 
   async connect(): Promise<void> {
-    const user = process.env.GMAIL_USER;
-    const pass = process.env.GMAIL_APP_PASSWORD;
+    const user = this.setting("GMAIL_USER");
+    const pass = this.setting("GMAIL_APP_PASSWORD");
     if (!user || !pass) {
       throw new Error("GMAIL_USER and GMAIL_APP_PASSWORD must be set");
     }
 
     this.client = new ImapFlow({
-      host: process.env.GMAIL_IMAP_HOST || "imap.gmail.com",
-      port: parseInt(process.env.GMAIL_IMAP_PORT || "993", 10),
+      host: this.setting("GMAIL_IMAP_HOST") || "imap.gmail.com",
+      port: parseInt(this.setting("GMAIL_IMAP_PORT") || "993", 10),
       secure: true,
       auth: { user, pass },
       logger: false as unknown as Record<string, never>,
@@ -69,12 +138,12 @@ export class GmailChannel extends BaseChannel {
     this._connected = false;
   }
 
-  async sync(): Promise<WorkItem[]> {
+  async sync(cursor?: string | null): Promise<SyncResult> {
     if (!this.client) {
       throw new Error("Not connected — call connect() first");
     }
 
-    const syncDays = parseInt(process.env.SOTERFLOW_SYNC_WINDOW_DAYS ?? "7", 10);
+    const syncDays = parseInt(this.setting("SOTERFLOW_SYNC_WINDOW_DAYS") ?? "7", 10);
     const since = new Date(Date.now() - syncDays * 24 * 60 * 60 * 1000);
 
     const items: WorkItem[] = [];
@@ -82,36 +151,57 @@ export class GmailChannel extends BaseChannel {
 
     const lock = await this.client.getMailboxLock("INBOX");
     try {
-      // Fetch UNSEEN first, then recent — dedup by uid
-      for (const query of [{ seen: false, since }, { since }] as const) {
-        try {
-          for await (const msg of this.client.fetch(query, {
+      const mailbox = this.client.mailbox;
+      const uidValidity = mailbox ? String(mailbox.uidValidity) : "";
+      const previous = parseGmailCursor(cursor);
+      // A changed UIDVALIDITY invalidates all stored UIDs — fall back to the time window
+      const resumeFrom = previous && previous.uidValidity === uidValidity ? previous.lastUid : null;
+      let lastUid = resumeFrom ?? 0;
+
+      const collect = async (range: string | { seen?: boolean; since: Date }) => {
+        for await (const msg of this.client!.fetch(
+          range,
+          {
             envelope: true,
             source: true,
             flags: true,
             uid: true,
             labels: true,
             threadId: true,
-          }) as AsyncIterable<ImapMessage>) {
-            if (seenUids.has(msg.uid)) {
-              continue;
-            }
-            seenUids.add(msg.uid);
-            if (items.length >= MAX_EMAILS) {
-              break;
-            }
+          },
+          { uid: true },
+        ) as AsyncIterable<ImapMessage>) {
+          // "n:*" always matches the newest message, even when its UID is below n
+          if (seenUids.has(msg.uid) || (resumeFrom !== null && msg.uid <= resumeFrom)) {
+            continue;
+          }
+          seenUids.add(msg.uid);
+          if (items.length >= MAX_EMAILS) {
+            break;
+          }
+          lastUid = Math.max(lastUid, msg.uid);
 
-            try {
-              const source = msg.source;
-              if (!source) {
-                continue;
-              }
-              const parsed = await simpleParser(source);
-              items.push(this.mapEmail(msg, parsed));
-            } catch {
-              // skip unparseable emails
+          try {
+            const source = msg.source;
+            if (!source) {
+              continue;
             }
+            const parsed = await simpleParser(source);
+            items.push(this.mapEmail(msg, parsed));
+          } catch {
+            // skip unparseable emails
           }
+        }
+      };
+
+      // Incremental: only UIDs above the cursor. Otherwise UNSEEN first, then recent — dedup by uid
+      const queries =
+        resumeFrom !== null
+          ? [`${resumeFrom + 1}:*`]
+          : ([{ seen: false, since }, { since }] as const);
+      for (const query of queries) {
+        try {
+          await collect(query);
         } catch {
           // query may return no results
         }
@@ -119,11 +209,14 @@ export class GmailChannel extends BaseChannel {
           break;
         }
       }
+
+      // Resume after the newest UID unless an incremental run was capped mid-way
+      const capped = resumeFrom !== null && items.length >= MAX_EMAILS;
+      const nextUid = capped || !mailbox ? lastUid : Math.max(lastUid, mailbox.uidNext - 1);
+      return { items, cursor: uidValidity ? `${uidValidity}:${nextUid}` : null };
     } finally {
       lock.release();
     }
-
-    return items;
   }
 
   private mapEmail(msg: ImapMessage, parsed: ParsedMail): WorkItem {
@@ -136,7 +229,7 @@ export class GmailChannel extends BaseChannel {
     const isUnread = !msg.flags?.has("\\Seen");
     const isFlagged = msg.flags?.has("\\Flagged");
 
-    const importantSenders = (process.env.GMAIL_IMPORTANT_SENDERS || "")
+    const importantSenders = (this.setting("GMAIL_IMPORTANT_SENDERS") || "")
       .split(",")
       .map((s: string) => s.trim().toLowerCase())
       .filter(Boolean);
@@ -166,6 +259,8 @@ export class GmailChannel extends BaseChannel {
         unread: isUnread,
         labels: msg.labels ? [...msg.labels] : [],
         messageId,
+        inReplyTo: parsed.inReplyTo || "",
+        references: toArray(parsed.references),
         threadId: msg.threadId || "",
       },
       status: "new",
@@ -175,7 +270,7 @@ export class GmailChannel extends BaseChannel {
   async performAction(
     itemId: string,
     action: string,
-    _params?: Record<string, unknown>,
+    params?: Record<string, unknown>,
   ): Promise<void> {
     if (!this.client) {
       throw new Error("Not connected");
@@ -197,7 +292,7 @@ export class GmailChannel extends BaseChannel {
           >);
           break;
         case "archive":
-          await this.client.messageMove({ uid }, "[Gmail]/All Mail", { uid: true } as Record<
+          await this.client.messageMove({ uid }, ALL_MAIL, { uid: true } as Record<
             string,
             unknown
           >);
@@ -209,7 +304,9 @@ export class GmailChannel extends BaseChannel {
           >);
           break;
         case "reply":
-          console.warn("[gmail] Reply action not supported via IMAP; use SMTP instead");
+        case "reply-all":
+        case "forward":
+          await this.sendResponse(uid, action, params ?? {});
           break;
         default:
           throw new Error(`Unsupported Gmail action: ${action}`);
@@ -218,4 +315,133 @@ export class GmailChannel extends BaseChannel {
       lock.release();
     }
   }
+
+  /**
+   * Reply to, reply-all to, or forward a message over SMTP. The response carries
+   * In-Reply-To/References so it stays in the thread, a copy is appended to the Sent
+   * mailbox, and the original is flagged `\Answered` (or `$Forwarded`).
+   * Expects the INBOX lock to be held.
+   * @param params - `body` (or `text`); `to` (string or list) is required for `forward`
+   */
+  private async sendResponse(
+    uid: number,
+    action: string,
+    params: Record<string, unknown>,
+  ): Promise<void> {
+    const client = this.client!;
+    const user = this.setting("GMAIL_USER")!;
+    const body = params.body ?? params.text ?? "";
+    if (typeof body !== "string") {
+      throw new Error("params.body must be a string");
+    }
+    if (!body && action !== "forward") {
+      throw new Error("params.body required");
+    }
+
+    const fetched = await client.fetchOne(String(uid), { source: true }, UID_OPTIONS);
+    if (!fetched || !fetched.source) {
+      throw new Error(`Message ${uid} not found`);
+    }
+    const original = await simpleParser(fetched.source);
+
+    let to: string[];
+    let cc: string[] = [];
+    let text = body;
+    if (action === "forward") {
+      to = toArray(params.to as string | string[] | undefined)
+        .flatMap((t) => t.split(","))
+        .map((t) => t.trim())
+        .filter(Boolean);
+      if (to.length === 0) {
+        throw new Error("params.to required for forward");
+      }
+      text = [
+        body,
+        "",
+        "---------- Forwarded message ---------",
+        `From: ${addressText(original.from)}`,
+        `Date: ${original.date?.toUTCString() ?? ""}`,
+        `Subject: ${original.subject ?? ""}`,
+        `To: ${addressText(original.to)}`,
+        "",
+        original.text ?? "",
+      ].join("\n");
+    } else {
+      ({ to, cc } = replyRecipients(original, user, action === "reply-all"));
+      if (to.length === 0 && cc.length === 0) {
+        throw new Error("No recipients to reply to");
+      }
+    }
+
+    const references = [...toArray(original.references), original.messageId].filter(
+      (id): id is string => !!id,
+    );
+    const { raw } = buildMessage({
+      from: user,
+      to,
+      cc,
+      subject: responseSubject(original.subject, action === "forward" ? "Fwd" : "Re"),
+      text,
+      inReplyTo: original.messageId,
+      references,
+    });
+
+    await sendMail(this.smtpOptions(), { from: user, to: [...to, ...cc] }, raw);
+    await client.append(this.sentMailbox(), raw, ["\\Seen"]);
+    await client.messageFlagsAdd(
+      { uid },
+      [action === "forward" ? "$Forwarded" : "\\Answered"],
+      UID_OPTIONS,
+    );
+  }
+
+  private smtpOptions(): SmtpOptions {
+    const port = parseInt(this.setting("GMAIL_SMTP_PORT") || "465", 10);
+    return {
+      host: this.setting("GMAIL_SMTP_HOST") || "smtp.gmail.com",
+      port,
+      secure: port === 465,
+      auth: { user: this.setting("GMAIL_USER")!, pass: this.setting("GMAIL_APP_PASSWORD")! },
+    };
+  }
+
+  private sentMailbox(): string {
+    return this.setting("GMAIL_SENT_MAILBOX") || "[Gmail]/Sent Mail";
+  }
+
+  canUndo(action: string): boolean {
+    return action === "archive";
+  }
+
+  /**
+   * Move an archived message back to the inbox. Its UID changes when moved, so it is
+   * found in All Mail by `params.messageId`.
+   */
+  async undoAction(
+    _itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.client) {
+      throw new Error("Not connected");
+    }
+    if (action !== "archive") {
+      throw new Error(`Gmail cannot undo ${action}`);
+    }
+    const messageId = params?.messageId as string | undefined;
+    if (!messageId) {
+      throw new Error("Message-ID unknown, cannot unarchive");
+    }
+
+    const lock = await this.client.getMailboxLock(ALL_MAIL);
+    try {
+      const uids = await this.client.search({ header: { "message-id": messageId } }, { uid: true });
+      if (!uids || uids.length === 0) {
+        throw new Error(`Message ${messageId} not found in ${ALL_MAIL}`);
+      }
+      await this.client.messageMove(uids, "INBOX", { uid: true });
+    } finally {
+      lock.release();
+    }
+  }
 }
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { adfToMarkdown, findMentions, markdownToAdf, type AdfNode } from "./jira-adf.js";
+
+const text = (value: string, marks?: AdfNode["marks"]): AdfNode => ({
+  type: "text",
+  text: value,
+  ...(marks ? { marks } : {}),
+});
+const paragraph = (...content: AdfNode[]): AdfNode => ({ type: "paragraph", content });
+
+describe("adfToMarkdown", () => {
+  it("passes plain strings through", () => {
+    expect(adfToMarkdown("Widget is broken")).toBe("Widget is broken");
+    expect(adfToMarkdown(null)).toBe("");
+  });
+
+  it("keeps headings, marks, links, mentions and code", () => {
+    const doc = {
+      type: "doc",
+      version: 1,
+      content: [
+        { type: "heading", attrs: { level: 2 }, content: [text("Steps")] },
+        paragraph(
+          text("Ping "),
+          { type: "mention", attrs: { id: "acc-1", text: "@Alice Smith" } },
+          text(" about "),
+          text("this", [{ type: "strong" }]),
+          text(", see "),
+          text("docs", [{ type: "link", attrs: { href: "https://example.com" } }]),
+          text(" and "),
+          text("npm test", [{ type: "code" }]),
+        ),
+        {
+          type: "codeBlock",
+          attrs: { language: "ts" },
+          content: [text("const a = 1;\nconst b = 2;")],
+        },
+      ],
+    };
+    expect(adfToMarkdown(doc)).toBe(
+      [
+        "## Steps",
+        "",
+        "Ping @Alice Smith about **this**, see [docs](https://example.com) and `npm test`",
+        "",
+        "```ts",
+        "const a = 1;",
+        "const b = 2;",
+        "```",
+      ].join("\n"),
+    );
+  });
+
+  it("renders nested lists, quotes and tables", () => {
+    const doc = {
+      type: "doc",
+      content: [
+        {
+          type: "orderedList",
+          attrs: { order: 1 },
+          content: [
+            {
+              type: "listItem",
+              content: [
+                paragraph(text("Build")),
+                {
+                  type: "bulletList",
+                  content: [{ type: "listItem", content: [paragraph(text("lint"))] }],
+                },
+              ],
+            },
+            { type: "listItem", content: [paragraph(text("Ship"))] },
+          ],
+        },
+        { type: "blockquote", content: [paragraph(text("Quoted"))] },
+        {
+          type: "table",
+          content: [
+            {
+              type: "tableRow",
+              content: [
+                { type: "tableHeader", content: [paragraph(text("Env"))] },
+                { type: "tableHeader", content: [paragraph(text("State"))] },
+              ],
+            },
+            {
+              type: "tableRow",
+              content: [
+                { type: "tableCell", content: [paragraph(text("prod"))] },
+                { type: "tableCell", content: [paragraph(text("a|b"))] },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    expect(adfToMarkdown(doc)).toBe(
+      [
+        "1. Build",
+        "   - lint",
+        "2. Ship",
+        "",
+        "> Quoted",
+        "",
+        "| Env | State |",
+        "| --- | --- |",
+        "| prod | a\\|b |",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("markdownToAdf", () => {
+  it("builds paragraphs with marks, links and line breaks", () => {
+    const doc = markdownToAdf("Hello **bold _both_** [site](https://x.io)\nnext `code`");
+    expect(doc).toEqual({
+      type: "doc",
+      version: 1,
+      content: [
+        paragraph(
+          text("Hello "),
+          text("bold ", [{ type: "strong" }]),
+          text("both", [{ type: "strong" }, { type: "em" }]),
+          text(" "),
+          text("site", [{ type: "link", attrs: { href: "https://x.io" } }]),
+          { type: "hardBreak" },
+          text("next "),
+          text("code", [{ type: "code" }]),
+        ),
+      ],
+    });
+  });
+
+  it("builds lists, code blocks and tables", () => {
+    const doc = markdownToAdf(
+      "- one\n- two\n\n3. three\n\n```sh\nnpm test\n```\n\n| A | B |\n| - | - |\n| 1 | 2 |",
+    );
+    expect(doc.content?.map((n) => n.type)).toEqual([
+      "bulletList",
+      "orderedList",
+      "codeBlock",
+      "table",
+    ]);
+    expect(doc.content?.[0].content?.[1]).toEqual({
+      type: "listItem",
+      content: [paragraph(text("two"))],
+    });
+    expect(doc.content?.[1].attrs).toEqual({ order: 3 });
+    expect(doc.content?.[2]).toEqual({
+      type: "codeBlock",
+      attrs: { language: "sh" },
+      content: [text("npm test")],
+    });
+    const rows = doc.content?.[3].content ?? [];
+    expect(rows.map((r) => r.content?.map((c) => c.type))).toEqual([
+      ["tableHeader", "tableHeader"],
+      ["tableCell", "tableCell"],
+    ]);
+    expect(rows[1].content?.[1].content).toEqual([paragraph(text("2"))]);
+  });
+
+  it("turns resolved @handles into mention nodes", () => {
+    const doc = markdownToAdf("Thanks @alice and @bob, mail me@example.com", {
+      alice: { accountId: "acc-1", displayName: "Alice Smith" },
+    });
+    expect(doc.content?.[0].content).toEqual([
+      text("Thanks "),
+      { type: "mention", attrs: { id: "acc-1", text: "@Alice Smith" } },
+      text(" and @bob, mail me@example.com"),
+    ]);
+  });
+
+  it("round-trips through Markdown", () => {
+    const source = "## Plan\n\n- **one**\n- two\n\n```js\nx()\n```";
+    expect(adfToMarkdown(markdownToAdf(source))).toBe(source);
+  });
+});
+
+describe("findMentions", () => {
+  it("finds handles but not e-mail addresses", () => {
+    expect(findMentions("@alice see @j.doe. cc me@example.com @alice")).toEqual(["alice", "j.doe"]);
+  });
+});
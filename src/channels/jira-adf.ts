@@ -0,0 +1,377 @@
+/**
+ * @module channels/jira-adf
+ * Conversion between Jira's Atlassian Document Format (ADF) and Markdown.
+ * Issue descriptions and comments are stored as Markdown so lists, code, links, mentions and
+ * tables survive; comments written in Markdown are posted back as ADF.
+ */
+
+import MarkdownIt from "markdown-it";
+
+/** An ADF node (document, block or inline). */
+export interface AdfNode {
+  type: string;
+  /** Only on the root `doc` node. */
+  version?: number;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+  text?: string;
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+/** A Jira user an `@handle` in Markdown resolves to. */
+export interface AdfMention {
+  accountId: string;
+  displayName: string;
+}
+
+type MarkdownToken = ReturnType<MarkdownIt["parse"]>[number];
+
+const md = new MarkdownIt({ linkify: false });
+
+/** Handles written as `@name` (not e-mail addresses). */
+const MENTION_RE = /(^|[^\w@])@([\w][\w.-]*[\w]|\w)/g;
+
+// --- ADF → Markdown ---
+
+function applyMarks(text: string, marks: AdfNode["marks"]): string {
+  let out = text;
+  let href: string | undefined;
+  for (const mark of marks ?? []) {
+    switch (mark.type) {
+      case "code":
+        out = `\`${out}\``;
+        break;
+      case "strong":
+        out = `**${out}**`;
+        break;
+      case "em":
+        out = `_${out}_`;
+        break;
+      case "strike":
+        out = `~~${out}~~`;
+        break;
+      case "link":
+        href = mark.attrs?.href as string | undefined;
+        break;
+    }
+  }
+  return href ? `[${out}](${href})` : out;
+}
+
+/** A string or number attribute of a node as text; other values are dropped. */
+function attrText(node: AdfNode, name: string): string {
+  const value = node.attrs?.[name];
+  return typeof value === "string" || typeof value === "number" ? String(value) : "";
+}
+
+function inlineToMarkdown(nodes: AdfNode[] | undefined): string {
+  return (nodes ?? [])
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return applyMarks(node.text ?? "", node.marks);
+        case "hardBreak":
+          return "\n";
+        case "mention": {
+          const text = (node.attrs?.text as string | undefined) ?? "";
+          return text.startsWith("@") ? text : `@${text || attrText(node, "id")}`;
+        }
+        case "emoji":
+          return (node.attrs?.text as string) ?? (node.attrs?.shortName as string) ?? "";
+        case "inlineCard":
+          return `<${attrText(node, "url")}>`;
+        case "date": {
+          const ts = Number(node.attrs?.timestamp);
+          return Number.isFinite(ts) ? new Date(ts).toISOString().slice(0, 10) : "";
+        }
+        case "status":
+          return `[${attrText(node, "text")}]`;
+        default:
+          return inlineToMarkdown(node.content);
+      }
+    })
+    .join("");
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 || !line ? line : prefix + line))
+    .join("\n");
+}
+
+function listToMarkdown(node: AdfNode, ordered: boolean): string {
+  const start = Number(node.attrs?.order ?? 1);
+  return (node.content ?? [])
+    .map((item, i) => {
+      const marker = ordered ? `${start + i}. ` : "- ";
+      const body = (item.content ?? []).map(blockToMarkdown).join("\n");
+      return marker + indent(body, " ".repeat(marker.length));
+    })
+    .join("\n");
+}
+
+function tableToMarkdown(node: AdfNode): string {
+  const rows = (node.content ?? []).map((row) =>
+    (row.content ?? []).map((cell) =>
+      (cell.content ?? [])
+        .map(blockToMarkdown)
+        .join(" ")
+        .replace(/\n+/g, " ")
+        .replace(/\|/g, "\\|"),
+    ),
+  );
+  if (rows.length === 0) {
+    return "";
+  }
+  const width = Math.max(...rows.map((r) => r.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  return [
+    line(rows[0]),
+    `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+function blockToMarkdown(node: AdfNode): string {
+  switch (node.type) {
+    case "paragraph":
+      return inlineToMarkdown(node.content);
+    case "heading":
+      return `${"#".repeat(Number(node.attrs?.level ?? 1))} ${inlineToMarkdown(node.content)}`;
+    case "bulletList":
+      return listToMarkdown(node, false);
+    case "orderedList":
+      return listToMarkdown(node, true);
+    case "codeBlock": {
+      const lang = (node.attrs?.language as string | undefined) ?? "";
+      return `\`\`\`${lang}\n${inlineToMarkdown(node.content)}\n\`\`\``;
+    }
+    case "blockquote":
+    case "panel":
+      return (node.content ?? [])
+        .map(blockToMarkdown)
+        .join("\n\n")
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "rule":
+      return "---";
+    case "table":
+      return tableToMarkdown(node);
+    case "mediaSingle":
+    case "mediaGroup":
+      return "[attachment]";
+    case "text":
+    case "hardBreak":
+    case "mention":
+    case "emoji":
+    case "inlineCard":
+      return inlineToMarkdown([node]);
+    default:
+      return (node.content ?? []).map(blockToMarkdown).filter(Boolean).join("\n\n");
+  }
+}
+
+/**
+ * Render an ADF document as Markdown. Strings (Jira v2 / plain text) are returned as-is.
+ */
+export function adfToMarkdown(doc: unknown): string {
+  if (!doc) {
+    return "";
+  }
+  if (typeof doc === "string") {
+    return doc;
+  }
+  if (typeof doc !== "object") {
+    return JSON.stringify(doc);
+  }
+  const root = doc as AdfNode;
+  return (root.type === "doc" ? (root.content ?? []) : [root])
+    .map(blockToMarkdown)
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// --- Markdown → ADF ---
+
+/** `@handles` mentioned in Markdown, without duplicates. */
+export function findMentions(markdown: string): string[] {
+  const handles = new Set<string>();
+  for (const match of markdown.matchAll(MENTION_RE)) {
+    handles.add(match[2]);
+  }
+  return [...handles];
+}
+
+function textNodes(
+  text: string,
+  marks: NonNullable<AdfNode["marks"]>,
+  mentions: Record<string, AdfMention>,
+): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  const push = (value: string) => {
+    if (value) {
+      nodes.push({ type: "text", text: value, ...(marks.length ? { marks: [...marks] } : {}) });
+    }
+  };
+  let last = 0;
+  for (const match of text.matchAll(MENTION_RE)) {
+    const user = mentions[match[2]];
+    if (!user) {
+      continue;
+    }
+    const at = match.index + match[1].length;
+    push(text.slice(last, at));
+    nodes.push({
+      type: "mention",
+      attrs: { id: user.accountId, text: `@${user.displayName}` },
+    });
+    last = at + match[2].length + 1;
+  }
+  push(text.slice(last));
+  return nodes;
+}
+
+function inlineToAdf(tokens: MarkdownToken[], mentions: Record<string, AdfMention>): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  const marks: NonNullable<AdfNode["marks"]> = [];
+  const removeMark = (type: string) => {
+    const index = marks.findLastIndex((m) => m.type === type);
+    if (index !== -1) {
+      marks.splice(index, 1);
+    }
+  };
+  for (const token of tokens) {
+    switch (token.type) {
+      case "text":
+        nodes.push(...textNodes(token.content, marks, mentions));
+        break;
+      case "code_inline":
+        // The code mark only combines with link
+        nodes.push({
+          type: "text",
+          text: token.content,
+          marks: [...marks.filter((m) => m.type === "link"), { type: "code" }],
+        });
+        break;
+      case "softbreak":
+      case "hardbreak":
+        nodes.push({ type: "hardBreak" });
+        break;
+      case "strong_open":
+        marks.push({ type: "strong" });
+        break;
+      case "em_open":
+        marks.push({ type: "em" });
+        break;
+      case "s_open":
+        marks.push({ type: "strike" });
+        break;
+      case "link_open":
+        marks.push({ type: "link", attrs: { href: token.attrGet("href") ?? "" } });
+        break;
+      case "strong_close":
+        removeMark("strong");
+        break;
+      case "em_close":
+        removeMark("em");
+        break;
+      case "s_close":
+        removeMark("strike");
+        break;
+      case "link_close":
+        removeMark("link");
+        break;
+      case "html_inline":
+        nodes.push(...textNodes(token.content, marks, mentions));
+        break;
+    }
+  }
+  return nodes;
+}
+
+const BLOCK_OPEN: Record<string, (token: MarkdownToken) => AdfNode> = {
+  paragraph_open: () => ({ type: "paragraph", content: [] }),
+  heading_open: (t) => ({
+    type: "heading",
+    attrs: { level: parseInt(t.tag.slice(1), 10) },
+    content: [],
+  }),
+  bullet_list_open: () => ({ type: "bulletList", content: [] }),
+  ordered_list_open: (t) => ({
+    type: "orderedList",
+    attrs: { order: parseInt(t.attrGet("start") ?? "1", 10) },
+    content: [],
+  }),
+  list_item_open: () => ({ type: "listItem", content: [] }),
+  blockquote_open: () => ({ type: "blockquote", content: [] }),
+  table_open: () => ({ type: "table", content: [] }),
+  tr_open: () => ({ type: "tableRow", content: [] }),
+  th_open: () => ({ type: "tableHeader", content: [] }),
+  td_open: () => ({ type: "tableCell", content: [] }),
+};
+
+/**
+ * Convert Markdown to an ADF document. `@handle`s found in `mentions` become mention nodes;
+ * unknown handles stay plain text.
+ */
+export function markdownToAdf(
+  markdown: string,
+  mentions: Record<string, AdfMention> = {},
+): AdfNode {
+  const doc: AdfNode = { type: "doc", version: 1, content: [] };
+  const stack: AdfNode[] = [doc];
+  const top = () => stack[stack.length - 1];
+
+  for (const token of md.parse(markdown, {})) {
+    const open = BLOCK_OPEN[token.type];
+    if (open) {
+      const node = open(token);
+      top().content!.push(node);
+      stack.push(node);
+      continue;
+    }
+    if (token.nesting === -1) {
+      // thead/tbody have no ADF counterpart and were never pushed
+      if (token.type !== "thead_close" && token.type !== "tbody_close") {
+        stack.pop();
+      }
+      continue;
+    }
+    switch (token.type) {
+      case "inline": {
+        const content = inlineToAdf(token.children ?? [], mentions);
+        const parent = top();
+        // Table cells hold paragraphs, not inline content
+        if (parent.type === "tableHeader" || parent.type === "tableCell") {
+          parent.content!.push({ type: "paragraph", content });
+        } else {
+          parent.content!.push(...content);
+        }
+        break;
+      }
+      case "fence":
+      case "code_block": {
+        const text = token.content.replace(/\n$/, "");
+        top().content!.push({
+          type: "codeBlock",
+          ...(token.info ? { attrs: { language: token.info.trim().split(/\s+/)[0] } } : {}),
+          content: text ? [{ type: "text", text }] : [],
+        });
+        break;
+      }
+      case "hr":
+        top().content!.push({ type: "rule" });
+        break;
+      case "html_block":
+        top().content!.push({
+          type: "paragraph",
+          content: textNodes(token.content.trim(), [], mentions),
+        });
+        break;
+    }
+  }
+  return doc;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { mapJiraPriority, mapJiraIssue, buildJql, JiraIssue, JiraChannel } from "./jira";
+import {
+  mapJiraPriority,
+  mapJiraIssue,
+  mapJiraComments,
+  buildJql,
+  JiraIssue,
+  JiraChannel,
+} from "./jira";
 
 // --- Priority mapping ---
 
@@ -48,6 +55,13 @@ describe("buildJql", () => {
   it("builds recent JQL with date filter", () => {
     expect(buildJql("recent")).toContain("updated >= -7d");
   });
+
+  it("builds incremental JQL from a cursor with one minute of overlap", () => {
+    const since = new Date(Date.now() - 10 * 60 * 1000);
+    const jql = buildJql("assigned", 7, since);
+    expect(jql).toContain("updated >= -11m");
+    expect(jql).not.toContain("-7d");
+  });
 });
 
 // --- Issue mapping ---
@@ -99,6 +113,73 @@ describe("mapJiraIssue", () => {
     expect(item.body).toBe("");
     expect(item.author).toBe("unknown");
   });
+
+  it("keeps description structure and comment history as Markdown", () => {
+    const issue = {
+      ...fakeIssue,
+      fields: {
+        ...fakeIssue.fields,
+        description: {
+          type: "doc",
+          version: 1,
+          content: [
+            {
+              type: "bulletList",
+              content: [
+                {
+                  type: "listItem",
+                  content: [{ type: "paragraph", content: [{ type: "text", text: "first" }] }],
+                },
+              ],
+            },
+          ],
+        },
+        comment: {
+          total: 1,
+          comments: [
+            {
+              id: "c1",
+              author: { displayName: "Carol", accountId: "acc-3" },
+              body: {
+                type: "doc",
+                content: [
+                  {
+                    type: "paragraph",
+                    content: [{ type: "text", text: "LGTM", marks: [{ type: "strong" }] }],
+                  },
+                ],
+              },
+              created: "2026-01-14T09:00:00.000Z",
+            },
+          ],
+        },
+      },
+    };
+    const item = mapJiraIssue(issue, "https://j.com");
+    expect(item.body).toBe("- first");
+    expect(item.metadata.commentCount).toBe(1);
+    expect(item.metadata.comments).toEqual([
+      {
+        id: "c1",
+        author: "Carol",
+        accountId: "acc-3",
+        body: "**LGTM**",
+        created: "2026-01-14T09:00:00.000Z",
+        updated: undefined,
+      },
+    ]);
+  });
+
+  it("keeps only the most recent comments", () => {
+    const comments = Array.from({ length: 25 }, (_, i) => ({
+      id: String(i),
+      body: `c${i}`,
+      created: "2026-01-14T09:00:00.000Z",
+    }));
+    const kept = mapJiraComments(comments);
+    expect(kept).toHaveLength(20);
+    expect(kept[0].id).toBe("5");
+  });
 });
 
 // --- Error handling ---
@@ -122,4 +203,105 @@ describe("JiraChannel", () => {
       "Unsupported Jira action: delete",
     );
   });
+
+  describe("comment", () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal("fetch", fetchMock);
+      fetchMock.mockReset();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("posts Markdown as ADF with @mentions resolved to account IDs", async () => {
+      fetchMock.mockImplementation(async (url: string) => {
+        const json = url.includes("/user/search?query=alice")
+          ? [
+              { accountId: "acc-9", displayName: "Alice Cooper", emailAddress: "ac@x.com" },
+              { accountId: "acc-1", displayName: "Alice", emailAddress: "alice@x.com" },
+            ]
+          : url.includes("/user/search")
+            ? []
+            : {};
+        return new Response(JSON.stringify(json), { status: 200 });
+      });
+      const channel = new JiraChannel();
+      Object.assign(channel, { baseUrl: "https://jira.example.com", auth: "dGVzdDp0ZXN0" });
+
+      await channel.performAction("jira-X-1", "comment", {
+        key: "X-1",
+        body: "@alice please check **this**; @ghost too",
+      });
+
+      const [url, init] = fetchMock.mock.calls.at(-1)!;
+      expect(url).toBe("https://jira.example.com/rest/api/3/issue/X-1/comment");
+      expect(JSON.parse(init.body).body).toEqual({
+        type: "doc",
+        version: 1,
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              { type: "mention", attrs: { id: "acc-1", text: "@Alice" } },
+              { type: "text", text: " please check " },
+              { type: "text", text: "this", marks: [{ type: "strong" }] },
+              { type: "text", text: "; @ghost too" },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("rejects a comment body that is not a string", async () => {
+      const channel = new JiraChannel();
+      Object.assign(channel, { baseUrl: "https://jira.example.com", auth: "dGVzdDp0ZXN0" });
+
+      await expect(
+        channel.performAction("jira-X-1", "comment", { key: "X-1", body: { text: "hi" } }),
+      ).rejects.toThrow("params.body must be a string");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("transition", () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal("fetch", fetchMock);
+      fetchMock.mockReset();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("resolves the target status name to a transition", async () => {
+      fetchMock.mockImplementation(async (_url: string, init?: RequestInit) => {
+        const json =
+          init?.method === "POST"
+            ? {}
+            : {
+                transitions: [
+                  { id: "11", name: "Start", to: { name: "In Progress" } },
+                  { id: "31", name: "Resolve", to: { name: "Done" } },
+                ],
+              };
+        return new Response(JSON.stringify(json), { status: 200 });
+      });
+      const channel = new JiraChannel();
+      Object.assign(channel, { baseUrl: "https://jira.example.com", auth: "dGVzdDp0ZXN0" });
+
+      await channel.performAction("jira-X-1", "transition", { key: "X-1", to: "done" });
+      const [url, init] = fetchMock.mock.calls.at(-1)!;
+      expect(url).toBe("https://jira.example.com/rest/api/3/issue/X-1/transitions");
+      expect(JSON.parse(init.body)).toEqual({ transition: { id: "31" } });
+
+      await expect(
+        channel.performAction("jira-X-1", "transition", { key: "X-1", to: "Archived" }),
+      ).rejects.toThrow('No transition of X-1 leads to "Archived"');
+    });
+  });
 });
@@ -2,10 +2,14 @@
  * @module channels/jira
  * Jira channel connector — fetches assigned, mentioned, watched, and recently updated issues via REST API v3.
  * Features: pagination via startAt/maxResults, exponential backoff retries, priority mapping.
+ * Descriptions and comment history are converted from ADF to Markdown; comments are written
+ * in Markdown and posted as ADF with `@mentions` resolved to account IDs.
+ * The sync cursor is the ISO timestamp at which the previous sync started.
  */
 
-import { BaseChannel, WorkItem } from "./base";
-import { withRetry } from "./retry";
+import { BaseChannel, SyncResult, WorkItem } from "./base.js";
+import { adfToMarkdown, findMentions, markdownToAdf, type AdfMention } from "./jira-adf.js";
+import { withRetry } from "./retry.js";
 
 export interface JiraIssue {
   id: string;
@@ -21,14 +25,36 @@ export interface JiraIssue {
     updated: string;
     created: string;
     issuetype: { name: string };
-    comment?: { comments: Array<{ author: { displayName: string }; body: string }> };
+    labels?: string[];
+    comment?: { comments: JiraComment[]; total?: number };
     [key: string]: unknown;
   };
 }
 
+export interface JiraComment {
+  id: string;
+  author?: { displayName: string; accountId?: string };
+  /** ADF document (API v3) or plain text. */
+  body: unknown;
+  created: string;
+  updated?: string;
+}
+
+/** A comment as kept in `metadata.comments`, body in Markdown. */
+export interface JiraCommentSummary {
+  id: string;
+  author: string;
+  accountId?: string;
+  body: string;
+  created: string;
+  updated?: string;
+}
+
 const SEARCH_FIELDS =
-  "summary,description,assignee,reporter,status,priority,updated,created,issuetype";
+  "summary,description,assignee,reporter,status,priority,updated,created,issuetype,labels,comment";
 const PAGE_SIZE = 50;
+/** Most recent comments kept per issue. */
+const MAX_COMMENTS = 20;
 
 export class JiraChannel extends BaseChannel {
   name = "jira";
@@ -36,9 +62,9 @@ export class JiraChannel extends BaseChannel {
   private auth = "";
 
   async connect(): Promise<void> {
-    const url = process.env.JIRA_URL;
-    const email = process.env.JIRA_EMAIL;
-    const token = process.env.JIRA_TOKEN;
+    const url = this.setting("JIRA_URL");
+    const email = this.setting("JIRA_EMAIL");
+    const token = this.setting("JIRA_TOKEN");
     if (!url || !email || !token) {
       throw new Error("JIRA_URL, JIRA_EMAIL, and JIRA_TOKEN must be set");
     }
@@ -111,39 +137,72 @@ export class JiraChannel extends BaseChannel {
     return issues;
   }
 
-  async sync(): Promise<WorkItem[]> {
+  async sync(cursor?: string | null): Promise<SyncResult> {
     const seen = new Set<string>();
     const items: WorkItem[] = [];
-    const days = parseInt(process.env.SOTERFLOW_SYNC_WINDOW_DAYS ?? "7", 10);
+    const startedAt = new Date();
+    const days = parseInt(this.setting("SOTERFLOW_SYNC_WINDOW_DAYS") ?? "7", 10);
+    const since = cursor && !isNaN(Date.parse(cursor)) ? new Date(cursor) : undefined;
 
-    const addIssues = (issues: JiraIssue[]) => {
+    const addIssues = (issues: JiraIssue[], assignedToMe = false) => {
       for (const issue of issues) {
         if (seen.has(issue.key)) {
           continue;
         }
         seen.add(issue.key);
-        items.push(mapJiraIssue(issue, this.baseUrl));
+        const item = mapJiraIssue(issue, this.baseUrl);
+        if (assignedToMe) {
+          item.metadata.assignedToMe = true;
+        }
+        items.push(item);
       }
     };
 
     // 1. Assigned issues
-    addIssues(await this.searchAll(buildJql("assigned", days)));
+    addIssues(await this.searchAll(buildJql("assigned", days, since)), true);
     // 2. Watched issues
-    addIssues(await this.searchAll(buildJql("watched", days)));
+    addIssues(await this.searchAll(buildJql("watched", days, since)));
     // 3. Mentioned (text search — current user's email in text)
-    addIssues(await this.searchAll(buildJql("mentioned", days)));
+    addIssues(await this.searchAll(buildJql("mentioned", days, since)));
     // 4. Recently updated
-    addIssues(await this.searchAll(buildJql("recent", days)));
+    addIssues(await this.searchAll(buildJql("recent", days, since)));
 
-    return items;
+    return { items, cursor: startedAt.toISOString() };
   }
 
   /** Get available transitions for a Jira issue. */
-  async getTransitions(issueKey: string): Promise<Array<{ id: string; name: string }>> {
+  async getTransitions(
+    issueKey: string,
+  ): Promise<Array<{ id: string; name: string; to?: string }>> {
     const data = (await this.request(`/rest/api/3/issue/${issueKey}/transitions`)) as {
-      transitions: Array<{ id: string; name: string }>;
+      transitions: Array<{ id: string; name: string; to?: { name: string } }>;
     };
-    return data.transitions.map((t) => ({ id: t.id, name: t.name }));
+    return data.transitions.map((t) => ({ id: t.id, name: t.name, to: t.to?.name }));
+  }
+
+  /**
+   * Look up Jira users for `@handles`. A handle matches a user whose display name (spaces
+   * removed) or e-mail name equals it, or else the only search result. Unresolved handles
+   * are left out and stay plain text.
+   */
+  async resolveMentions(handles: string[]): Promise<Record<string, AdfMention>> {
+    const resolved: Record<string, AdfMention> = {};
+    for (const handle of handles) {
+      const users = (await this.request(
+        `/rest/api/3/user/search?${new URLSearchParams({ query: handle }).toString()}`,
+      )) as Array<{ accountId: string; displayName: string; emailAddress?: string }>;
+      const wanted = handle.toLowerCase();
+      const user =
+        users.find(
+          (u) =>
+            u.displayName.replace(/\s+/g, "").toLowerCase() === wanted ||
+            u.emailAddress?.split("@")[0].toLowerCase() === wanted,
+        ) ?? (users.length === 1 ? users[0] : undefined);
+      if (user) {
+        resolved[handle] = { accountId: user.accountId, displayName: user.displayName };
+      }
+    }
+    return resolved;
   }
 
   async performAction(
@@ -155,12 +214,25 @@ export class JiraChannel extends BaseChannel {
 
     switch (action) {
       case "transition": {
+        // A transition id, or the name of the status to move to
+        let transitionId = params?.transitionId;
+        if (!transitionId && typeof params?.to === "string") {
+          const to = params.to.toLowerCase();
+          const match = (await this.getTransitions(key)).find(
+            (t) => t.to?.toLowerCase() === to || t.name.toLowerCase() === to,
+          );
+          if (!match) {
+            throw new Error(`No transition of ${key} leads to "${params.to}"`);
+          }
+          transitionId = match.id;
+        }
         await this.request(`/rest/api/3/issue/${key}/transitions`, {
           method: "POST",
-          body: JSON.stringify({ transition: { id: params?.transitionId } }),
+          body: JSON.stringify({ transition: { id: transitionId } }),
         });
         // Auto-assign to owner on transition
-        const ownerAccountId = (params?.assignTo as string) || process.env.JIRA_OWNER_ACCOUNT_ID;
+        const ownerAccountId =
+          (params?.assignTo as string) || this.setting("JIRA_OWNER_ACCOUNT_ID");
         if (ownerAccountId) {
           await this.request(`/rest/api/3/issue/${key}/assignee`, {
             method: "PUT",
@@ -169,20 +241,18 @@ export class JiraChannel extends BaseChannel {
         }
         break;
       }
-      case "comment":
+      case "comment": {
+        const markdown = params?.body;
+        if (typeof markdown !== "string") {
+          throw new Error("params.body must be a string");
+        }
+        const mentions = await this.resolveMentions(findMentions(markdown));
         await this.request(`/rest/api/3/issue/${key}/comment`, {
           method: "POST",
-          body: JSON.stringify({
-            body: {
-              type: "doc",
-              version: 1,
-              content: [
-                { type: "paragraph", content: [{ type: "text", text: params?.body ?? "" }] },
-              ],
-            },
-          }),
+          body: JSON.stringify({ body: markdownToAdf(markdown, mentions) }),
         });
         break;
+      }
       case "assign":
         await this.request(`/rest/api/3/issue/${key}/assignee`, {
           method: "PUT",
@@ -193,49 +263,56 @@ export class JiraChannel extends BaseChannel {
         throw new Error(`Unsupported Jira action: ${action}`);
     }
   }
-}
-
-// --- Exported helpers for testability ---
 
-/** Extract plain text from Jira's Atlassian Document Format (ADF) or return string as-is. */
-function extractAdfText(desc: unknown): string {
-  if (!desc) {
-    return "";
-  }
-  if (typeof desc === "string") {
-    return desc;
-  }
-  if (typeof desc !== "object") {
-    return JSON.stringify(desc);
+  canUndo(action: string): boolean {
+    return action === "transition";
   }
 
-  const extract = (node: unknown): string => {
-    if (!node || typeof node !== "object") {
-      return "";
+  /**
+   * Reverse a transition by moving the issue back to `params.previousStatus`,
+   * using whichever available transition leads there.
+   */
+  async undoAction(
+    itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (action !== "transition") {
+      throw new Error(`Jira cannot undo ${action}`);
     }
-    const n = node as Record<string, unknown>;
-    if (n.type === "text" && typeof n.text === "string") {
-      return n.text;
+    const key = (params?.key as string) ?? itemId.replace("jira-", "");
+    const previous = params?.previousStatus as string | undefined;
+    if (!previous) {
+      throw new Error("Previous status unknown, cannot reverse transition");
     }
-    if (Array.isArray(n.content)) {
-      return (n.content as unknown[]).map(extract).join("");
+    const back = (await this.getTransitions(key)).find(
+      (t) => t.to?.toLowerCase() === previous.toLowerCase(),
+    );
+    if (!back) {
+      throw new Error(`No transition from current status back to "${previous}"`);
     }
-    return "";
-  };
-
-  const doc = desc as Record<string, unknown>;
-  if (Array.isArray(doc.content)) {
-    return (doc.content as unknown[])
-      .map((block) => extract(block))
-      .filter(Boolean)
-      .join("\n");
+    await this.request(`/rest/api/3/issue/${key}/transitions`, {
+      method: "POST",
+      body: JSON.stringify({ transition: { id: back.id } }),
+    });
   }
-  return "";
 }
 
-/** Build JQL for different query types */
-export function buildJql(type: "assigned" | "watched" | "mentioned" | "recent", days = 7): string {
-  const timeFilter = `updated >= -${days}d`;
+// --- Exported helpers for testability ---
+
+/**
+ * Build JQL for different query types.
+ * With `since`, only issues updated after that instant are matched. The filter is expressed
+ * in relative minutes (plus one minute of overlap) so it does not depend on the Jira user's timezone.
+ */
+export function buildJql(
+  type: "assigned" | "watched" | "mentioned" | "recent",
+  days = 7,
+  since?: Date,
+): string {
+  const timeFilter = since
+    ? `updated >= -${Math.max(0, Math.ceil((Date.now() - since.getTime()) / 60_000)) + 1}m`
+    : `updated >= -${days}d`;
   switch (type) {
     case "assigned":
       return `assignee = currentUser() AND resolution = Unresolved AND ${timeFilter} ORDER BY updated DESC`;
@@ -267,6 +344,18 @@ export function mapJiraPriority(jiraPriority?: string): WorkItem["priority"] {
   }
 }
 
+/** The most recent comments of an issue, oldest first, with Markdown bodies. */
+export function mapJiraComments(comments: JiraComment[] | undefined): JiraCommentSummary[] {
+  return (comments ?? []).slice(-MAX_COMMENTS).map((c) => ({
+    id: c.id,
+    author: c.author?.displayName ?? "unknown",
+    accountId: c.author?.accountId,
+    body: adfToMarkdown(c.body),
+    created: c.created,
+    updated: c.updated,
+  }));
+}
+
 /** Map a Jira issue to a WorkItem */
 export function mapJiraIssue(issue: JiraIssue, baseUrl: string): WorkItem {
   return {
@@ -274,7 +363,7 @@ export function mapJiraIssue(issue: JiraIssue, baseUrl: string): WorkItem {
     source: "jira",
     type: issue.fields.issuetype.name.toLowerCase() === "task" ? "task" : "issue",
     title: `[${issue.key}] ${issue.fields.summary}`,
-    body: extractAdfText(issue.fields.description),
+    body: adfToMarkdown(issue.fields.description),
     author: issue.fields.reporter?.displayName ?? "unknown",
     timestamp: new Date(issue.fields.updated),
     priority: mapJiraPriority(issue.fields.priority?.name),
@@ -284,6 +373,9 @@ export function mapJiraIssue(issue: JiraIssue, baseUrl: string): WorkItem {
       status: issue.fields.status.name,
       assignee: issue.fields.assignee?.displayName,
       issueType: issue.fields.issuetype.name,
+      labels: issue.fields.labels ?? [],
+      comments: mapJiraComments(issue.fields.comment?.comments),
+      commentCount: issue.fields.comment?.total ?? issue.fields.comment?.comments.length ?? 0,
     },
     status: "new",
   };
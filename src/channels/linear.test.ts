@@ -0,0 +1,255 @@
+import type { AddressInfo } from "node:net";
+import { readFileSync } from "node:fs";
+import http from "node:http";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import {
+  LinearChannel,
+  linearIssueKey,
+  mapLinearIssue,
+  mapLinearPriority,
+  toLinearPriority,
+  type LinearIssue,
+} from "./linear.js";
+
+/** Responses recorded from the Linear GraphQL API (ids and names anonymized). */
+function fixture<T = unknown>(name: string): T {
+  return JSON.parse(
+    readFileSync(new URL(`../../test/fixtures/linear/${name}.json`, import.meta.url), "utf8"),
+  );
+}
+
+const assigned = fixture<{ data: { issues: { nodes: LinearIssue[] } } }>("assigned-issues-page-1")
+  .data.issues.nodes[0];
+
+describe("mapLinearIssue", () => {
+  it("maps an issue with its workflow state and priority", () => {
+    const item = mapLinearIssue(assigned);
+    expect(item.id).toBe("linear-ENG-142");
+    expect(item.source).toBe("linear");
+    expect(item.title).toBe("[ENG-142] Checkout fails for saved cards");
+    expect(item.priority).toBe("urgent");
+    expect(item.metadata).toMatchObject({
+      key: "ENG-142",
+      team: "ENG",
+      status: "In Progress",
+      stateType: "started",
+      linearPriority: 1,
+      project: "Payments v2",
+      labels: ["bug", "payments"],
+    });
+  });
+
+  it("maps Linear priorities 0-4", () => {
+    expect([0, 1, 2, 3, 4].map(mapLinearPriority)).toEqual([
+      "normal",
+      "urgent",
+      "high",
+      "normal",
+      "low",
+    ]);
+  });
+});
+
+describe("helpers", () => {
+  it("finds the issue of issue and comment-mention items", () => {
+    expect(linearIssueKey("linear-ENG-142")).toBe("ENG-142");
+    expect(linearIssueKey("linear-ENG-120-comment-c0ffee00")).toBe("ENG-120");
+    expect(linearIssueKey("linear-update-5e5e5e5e")).toBe("");
+  });
+
+  it("accepts priority names and numbers for set-priority", () => {
+    expect(toLinearPriority("urgent")).toBe(1);
+    expect(toLinearPriority("None")).toBe(0);
+    expect(toLinearPriority(4)).toBe(4);
+    expect(toLinearPriority("2")).toBe(2);
+    expect(toLinearPriority("asap")).toBeNull();
+    expect(toLinearPriority(7)).toBeNull();
+  });
+});
+
+// --- Against a local server replaying recorded GraphQL responses ---
+
+describe("LinearChannel (recorded GraphQL fixtures)", () => {
+  let server: http.Server;
+  let requests: Array<{ operationName: string; variables: Record<string, unknown>; auth?: string }>;
+  let failAuth: boolean;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const { operationName, variables = {} } = JSON.parse(body);
+        requests.push({ operationName, variables, auth: req.headers.authorization });
+        const json = (status: number, data: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(data));
+        };
+
+        if (failAuth) {
+          json(400, fixture("error-authentication"));
+          return;
+        }
+        switch (operationName) {
+          case "Viewer":
+            json(200, fixture("viewer"));
+            break;
+          case "AssignedIssues":
+            json(200, fixture(`assigned-issues-page-${variables.after ? 2 : 1}`));
+            break;
+          case "SubscribedIssues":
+            json(200, fixture("subscribed-issues"));
+            break;
+          case "CommentMentions":
+            json(200, fixture("comment-mentions"));
+            break;
+          case "ProjectUpdates":
+            json(200, fixture("project-updates"));
+            break;
+          case "IssueTeamStates":
+            json(200, fixture("issue-team-states"));
+            break;
+          case "IssueUpdate":
+            json(200, fixture("issue-update"));
+            break;
+          case "CommentCreate":
+            json(200, fixture("comment-create"));
+            break;
+          default:
+            json(400, { errors: [{ message: `Unknown operation ${operationName}` }] });
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    process.env.LINEAR_API_KEY = "lin_api_test";
+    process.env.LINEAR_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterAll(async () => {
+    delete process.env.LINEAR_API_KEY;
+    delete process.env.LINEAR_API_URL;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    failAuth = false;
+  });
+
+  async function connected(): Promise<LinearChannel> {
+    const channel = new LinearChannel();
+    await channel.connect();
+    return channel;
+  }
+
+  it("requires an API key", async () => {
+    const saved = process.env.LINEAR_API_KEY;
+    delete process.env.LINEAR_API_KEY;
+    await expect(new LinearChannel().connect()).rejects.toThrow("LINEAR_API_KEY must be set");
+    process.env.LINEAR_API_KEY = saved;
+  });
+
+  it("reports authentication errors as 401", async () => {
+    failAuth = true;
+    await expect(connected()).rejects.toMatchObject({
+      status: 401,
+      message: expect.stringContaining("Authentication required"),
+    });
+  });
+
+  it("syncs assigned and subscribed issues, comment mentions and project updates", async () => {
+    const channel = await connected();
+    const cursor = "2026-03-01T00:00:00.000Z";
+    const result = await channel.sync(cursor);
+
+    expect(result.items.map((i) => i.id)).toEqual([
+      "linear-ENG-142",
+      "linear-ENG-150",
+      "linear-ENG-151",
+      "linear-ENG-120",
+      "linear-ENG-120-comment-c0ffee00-1234-4abc-8def-000000000042",
+      "linear-update-5e5e5e5e-0001-4aaa-8bbb-cccccccccc01",
+    ]);
+    expect(requests.map((r) => r.operationName)).toEqual([
+      "Viewer",
+      "AssignedIssues",
+      "AssignedIssues",
+      "SubscribedIssues",
+      "CommentMentions",
+      "ProjectUpdates",
+    ]);
+    expect(requests[1]).toMatchObject({ auth: "lin_api_test", variables: { since: cursor } });
+    expect(requests[2].variables.after).toBe("a1b2c3d4-0002-4e5f-8a9b-222222222222");
+
+    const [urgent, , , subscribed, mention, update] = result.items;
+    expect(urgent.metadata.assignedToMe).toBe(true);
+    expect(subscribed.metadata).toMatchObject({ subscribed: true, status: "In Review" });
+    expect(subscribed.priority).toBe("high");
+    expect(mention).toMatchObject({ type: "mention", author: "Lee Chen" });
+    expect(mention.metadata.key).toBe("ENG-120");
+    expect(update).toMatchObject({ type: "notification", priority: "high" });
+    expect(update.metadata.health).toBe("offTrack");
+    expect(Date.parse(result.cursor ?? "")).toBeGreaterThan(Date.parse(cursor));
+  });
+
+  it("transitions by state name, comments, assigns and sets priority", async () => {
+    const channel = await connected();
+    requests = [];
+    await channel.performAction("linear-ENG-142", "transition", { state: "in review" });
+    await channel.performAction("linear-ENG-120-comment-c0ffee00", "comment", {
+      body: "Migrated **all** consumers.",
+    });
+    await channel.performAction("linear-ENG-142", "assign");
+    await channel.performAction("linear-ENG-142", "set-priority", { priority: "low" });
+
+    expect(requests.map((r) => r.operationName)).toEqual([
+      "IssueTeamStates",
+      "IssueUpdate",
+      "CommentCreate",
+      "IssueUpdate",
+      "IssueUpdate",
+    ]);
+    expect(requests[1].variables).toEqual({ id: "ENG-142", input: { stateId: "st-review-0004" } });
+    expect(requests[2].variables).toEqual({
+      input: { issueId: "ENG-120", body: "Migrated **all** consumers." },
+    });
+    expect(requests[3].variables.input).toEqual({
+      assigneeId: "6f0d4a52-2b7e-4a4c-9a1e-0c3d1f5b7a10",
+    });
+    expect(requests[4].variables.input).toEqual({ priority: 4 });
+  });
+
+  it("undoes a transition by moving back to the previous state", async () => {
+    const channel = await connected();
+    expect(channel.canUndo("transition")).toBe(true);
+    requests = [];
+    await channel.undoAction("linear-ENG-142", "transition", {
+      key: "ENG-142",
+      previousStatus: "Todo",
+    });
+    expect(requests.at(-1)?.variables.input).toEqual({ stateId: "st-todo-0002" });
+  });
+
+  it("rejects unknown states, actions and non-issue items", async () => {
+    const channel = await connected();
+    await expect(
+      channel.performAction("linear-ENG-142", "transition", { state: "Shipped" }),
+    ).rejects.toThrow('Unknown Linear state "Shipped"');
+    await expect(channel.performAction("linear-ENG-142", "archive")).rejects.toThrow(
+      "Unsupported Linear action: archive",
+    );
+    await expect(
+      channel.performAction("linear-update-5e5e5e5e", "comment", { body: "x" }),
+    ).rejects.toThrow("is not a Linear issue");
+  });
+
+  it("rejects transitions without a state and comments without a string body", async () => {
+    const channel = await connected();
+    await expect(
+      channel.performAction("linear-ENG-142", "transition", { state: { name: "Done" } }),
+    ).rejects.toThrow("transition requires params.state");
+    await expect(
+      channel.performAction("linear-ENG-142", "comment", { body: ["x"] }),
+    ).rejects.toThrow("comment requires params.body as a string");
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * @module channels/linear
+ * Linear channel connector — syncs assigned and subscribed issues, comment mentions and project
+ * updates through the Linear GraphQL API. Auth uses a personal API key (`LINEAR_API_KEY`).
+ * Linear priorities (1 urgent … 4 low, 0 none) map onto WorkItem priorities; the workflow state
+ * is kept in `metadata.status`/`metadata.stateType`.
+ * The sync cursor is the ISO timestamp at which the previous sync started.
+ */
+
+import { BaseChannel, SyncResult, WorkItem } from "./base.js";
+import { withRetry } from "./retry.js";
+
+const API_URL = "https://api.linear.app/graphql";
+const PAGE_SIZE = 50;
+
+export interface LinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string | null;
+  url: string;
+  /** 0 = no priority, 1 = urgent, 2 = high, 3 = medium, 4 = low. */
+  priority: number;
+  priorityLabel?: string;
+  updatedAt: string;
+  state: { name: string; type: string };
+  team: { key: string; name?: string };
+  assignee?: { id: string; name: string } | null;
+  creator?: { name: string } | null;
+  project?: { name: string } | null;
+  labels?: { nodes: Array<{ name: string }> };
+}
+
+export interface LinearCommentMention {
+  id: string;
+  createdAt: string;
+  issue: LinearIssue;
+  comment: { id: string; body: string; url: string; user?: { name: string } | null };
+}
+
+export interface LinearProjectUpdate {
+  id: string;
+  body: string;
+  url: string;
+  /** `onTrack`, `atRisk` or `offTrack`. */
+  health: string;
+  createdAt: string;
+  user?: { id: string; name: string } | null;
+  project: { id: string; name: string };
+}
+
+interface Connection<T> {
+  nodes: T[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+const ISSUE_FIELDS = `
+  fragment IssueFields on Issue {
+    id identifier title description url priority priorityLabel updatedAt
+    state { name type }
+    team { key name }
+    assignee { id name }
+    creator { name }
+    project { name }
+    labels { nodes { name } }
+  }`;
+
+const PAGE_INFO = "pageInfo { hasNextPage endCursor }";
+
+/** Open issues only: completed and canceled ones no longer need attention. */
+const OPEN_STATE = `state: { type: { nin: ["completed", "canceled"] } }`;
+
+const QUERIES = {
+  viewer: `query Viewer { viewer { id name email } }`,
+  assigned: `query AssignedIssues($after: String, $since: DateTimeOrDuration!) {
+    issues(first: ${PAGE_SIZE}, after: $after, filter: {
+      assignee: { isMe: { eq: true } }, updatedAt: { gt: $since }, ${OPEN_STATE}
+    }) { nodes { ...IssueFields } ${PAGE_INFO} }
+  } ${ISSUE_FIELDS}`,
+  subscribed: `query SubscribedIssues($after: String, $since: DateTimeOrDuration!) {
+    issues(first: ${PAGE_SIZE}, after: $after, filter: {
+      subscribers: { some: { isMe: { eq: true } } }, updatedAt: { gt: $since }, ${OPEN_STATE}
+    }) { nodes { ...IssueFields } ${PAGE_INFO} }
+  } ${ISSUE_FIELDS}`,
+  mentions: `query CommentMentions($after: String, $since: DateTimeOrDuration!) {
+    notifications(first: ${PAGE_SIZE}, after: $after, filter: {
+      type: { eq: "issueCommentMention" }, createdAt: { gt: $since }
+    }) {
+      nodes {
+        ... on IssueNotification {
+          id createdAt
+          issue { ...IssueFields }
+          comment { id body url user { name } }
+        }
+      }
+      ${PAGE_INFO}
+    }
+  } ${ISSUE_FIELDS}`,
+  projectUpdates: `query ProjectUpdates($after: String, $since: DateTimeOrDuration!) {
+    projectUpdates(first: ${PAGE_SIZE}, after: $after, filter: {
+      createdAt: { gt: $since }, project: { members: { some: { isMe: { eq: true } } } }
+    }) {
+      nodes { id body url health createdAt user { id name } project { id name } }
+      ${PAGE_INFO}
+    }
+  }`,
+  teamStates: `query IssueTeamStates($id: String!) {
+    issue(id: $id) { id state { name } team { states { nodes { id name type } } } }
+  }`,
+  issueUpdate: `mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+    issueUpdate(id: $id, input: $input) { success }
+  }`,
+  commentCreate: `mutation CommentCreate($input: CommentCreateInput!) {
+    commentCreate(input: $input) { success }
+  }`,
+};
+
+export class LinearChannel extends BaseChannel {
+  name = "linear";
+  private apiUrl = API_URL;
+  private apiKey = "";
+  private viewerId = "";
+
+  async connect(): Promise<void> {
+    const apiKey = this.setting("LINEAR_API_KEY");
+    if (!apiKey) {
+      throw new Error("LINEAR_API_KEY must be set");
+    }
+    this.apiUrl = this.setting("LINEAR_API_URL") || API_URL;
+    this.apiKey = apiKey;
+
+    // Verify connectivity
+    const data = (await this.request(QUERIES.viewer)) as { viewer: { id: string } };
+    this.viewerId = data.viewer.id;
+    this._connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.apiKey = "";
+    this.viewerId = "";
+    this._connected = false;
+  }
+
+  /**
+   * Run a GraphQL operation. GraphQL errors are thrown with a `status` (401 for authentication
+   * errors, 429 when rate limited) so retries and auth detection work as for REST channels.
+   */
+  private async request(query: string, variables?: Record<string, unknown>): Promise<unknown> {
+    const operationName = /^(?:query|mutation)\s+(\w+)/.exec(query)?.[1];
+    return withRetry(async () => {
+      const res = await fetch(this.apiUrl, {
+        method: "POST",
+        headers: { Authorization: this.apiKey, "Content-Type": "application/json" },
+        body: JSON.stringify({ query, variables, operationName }),
+      });
+      const body = (await res.json().catch(() => ({}))) as {
+        data?: unknown;
+        errors?: Array<{ message: string; extensions?: { code?: string; type?: string } }>;
+      };
+      if (!res.ok || body.errors?.length) {
+        const first = body.errors?.[0];
+        const code = `${first?.extensions?.code ?? ""} ${first?.extensions?.type ?? ""}`;
+        const err = new Error(
+          `Linear API error: ${res.status} ${first?.message ?? res.statusText}`,
+        ) as Error & { status: number; response: { headers: Headers } };
+        err.status = /RATELIMITED/i.test(code)
+          ? 429
+          : /AUTHENTICATION/i.test(code)
+            ? 401
+            : res.status;
+        err.response = { headers: res.headers };
+        throw err;
+      }
+      return body.data;
+    });
+  }
+
+  /** Follow a connection's pages; `field` is the connection at the top of `data`. */
+  private async paginate<T>(
+    query: string,
+    field: string,
+    variables: Record<string, unknown>,
+  ): Promise<T[]> {
+    const nodes: T[] = [];
+    let after: string | null = null;
+    do {
+      const data = (await this.request(query, { ...variables, after })) as Record<
+        string,
+        Connection<T>
+      >;
+      const page = data[field];
+      nodes.push(...page.nodes);
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+    return nodes;
+  }
+
+  async sync(cursor?: string | null): Promise<SyncResult> {
+    const startedAt = new Date();
+    const days = parseInt(this.setting("SOTERFLOW_SYNC_WINDOW_DAYS") ?? "7", 10);
+    const since =
+      cursor && !isNaN(Date.parse(cursor))
+        ? new Date(cursor)
+        : new Date(startedAt.getTime() - days * 86_400_000);
+    const variables = { since: since.toISOString() };
+    const items: WorkItem[] = [];
+    const seen = new Set<string>();
+
+    const addIssues = (issues: LinearIssue[], flags: Record<string, boolean>) => {
+      for (const issue of issues) {
+        if (seen.has(issue.identifier)) {
+          continue;
+        }
+        seen.add(issue.identifier);
+        const item = mapLinearIssue(issue);
+        Object.assign(item.metadata, flags);
+        items.push(item);
+      }
+    };
+
+    // 1. Assigned issues
+    addIssues(await this.paginate<LinearIssue>(QUERIES.assigned, "issues", variables), {
+      assignedToMe: true,
+    });
+    // 2. Issues the user is subscribed to
+    addIssues(await this.paginate<LinearIssue>(QUERIES.subscribed, "issues", variables), {
+      subscribed: true,
+    });
+    // 3. Mentions in comments
+    const mentions = await this.paginate<LinearCommentMention>(
+      QUERIES.mentions,
+      "notifications",
+      variables,
+    );
+    for (const mention of mentions) {
+      // Other notification types come back as empty objects
+      if (mention.comment && mention.issue) {
+        items.push(mapLinearMention(mention));
+      }
+    }
+    // 4. Updates of projects the user is a member of (except their own)
+    const updates = await this.paginate<LinearProjectUpdate>(
+      QUERIES.projectUpdates,
+      "projectUpdates",
+      variables,
+    );
+    for (const update of updates) {
+      if (update.user?.id !== this.viewerId) {
+        items.push(mapLinearProjectUpdate(update));
+      }
+    }
+
+    return { items, cursor: startedAt.toISOString() };
+  }
+
+  /** Workflow states of an issue's team, plus the issue's current state. */
+  async getStates(
+    identifier: string,
+  ): Promise<{ current: string; states: Array<{ id: string; name: string; type: string }> }> {
+    const data = (await this.request(QUERIES.teamStates, { id: identifier })) as {
+      issue: {
+        state: { name: string };
+        team: { states: { nodes: Array<{ id: string; name: string; type: string }> } };
+      };
+    };
+    return { current: data.issue.state.name, states: data.issue.team.states.nodes };
+  }
+
+  /** Move an issue to a workflow state given by id (`stateId`) or name (`state`). */
+  private async transition(identifier: string, params?: Record<string, unknown>): Promise<void> {
+    let stateId = typeof params?.stateId === "string" ? params.stateId : undefined;
+    if (!stateId) {
+      const wanted = params?.state;
+      if (typeof wanted !== "string" || !wanted) {
+        throw new Error("transition requires params.state (a state name) or params.stateId");
+      }
+      const { states } = await this.getStates(identifier);
+      stateId = states.find((s) => s.name.toLowerCase() === wanted.toLowerCase())?.id;
+      if (!stateId) {
+        throw new Error(
+          `Unknown Linear state "${wanted}" (available: ${states.map((s) => s.name).join(", ")})`,
+        );
+      }
+    }
+    await this.updateIssue(identifier, { stateId });
+  }
+
+  private async updateIssue(identifier: string, input: Record<string, unknown>): Promise<void> {
+    const data = (await this.request(QUERIES.issueUpdate, { id: identifier, input })) as {
+      issueUpdate: { success: boolean };
+    };
+    if (!data.issueUpdate.success) {
+      throw new Error(`Linear did not update ${identifier}`);
+    }
+  }
+
+  async performAction(
+    itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.apiKey) {
+      throw new Error("Not connected");
+    }
+    const identifier = (params?.key as string) ?? linearIssueKey(itemId);
+    if (!identifier) {
+      throw new Error(`${itemId} is not a Linear issue`);
+    }
+
+    switch (action) {
+      case "transition":
+        await this.transition(identifier, params);
+        break;
+      case "comment": {
+        if (typeof params?.body !== "string") {
+          throw new Error("comment requires params.body as a string");
+        }
+        const data = (await this.request(QUERIES.commentCreate, {
+          input: { issueId: identifier, body: params.body },
+        })) as { commentCreate: { success: boolean } };
+        if (!data.commentCreate.success) {
+          throw new Error(`Linear did not add the comment to ${identifier}`);
+        }
+        break;
+      }
+      case "assign":
+        // Without an assignee the issue is assigned to the API key's user
+        await this.updateIssue(identifier, {
+          assigneeId: (params?.assigneeId as string | null | undefined) ?? this.viewerId,
+        });
+        break;
+      case "set-priority": {
+        const priority = toLinearPriority(params?.priority);
+        if (priority === null) {
+          throw new Error("set-priority requires priority: urgent|high|normal|low|none or 0-4");
+        }
+        await this.updateIssue(identifier, { priority });
+        break;
+      }
+      default:
+        throw new Error(`Unsupported Linear action: ${action}`);
+    }
+  }
+
+  canUndo(action: string): boolean {
+    return action === "transition";
+  }
+
+  /** Reverse a transition by moving the issue back to `params.previousStatus`. */
+  async undoAction(
+    itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (action !== "transition") {
+      throw new Error(`Linear cannot undo ${action}`);
+    }
+    const previous = params?.previousStatus as string | undefined;
+    if (!previous) {
+      throw new Error("Previous status unknown, cannot reverse transition");
+    }
+    const identifier = (params?.key as string) ?? linearIssueKey(itemId);
+    await this.transition(identifier, { state: previous });
+  }
+}
+
+// --- Exported helpers for testability ---
+
+/** Issue identifier (e.g. `ENG-12`) of an issue or comment-mention item, or "" for others. */
+export function linearIssueKey(itemId: string): string {
+  return /^linear-([A-Za-z0-9]+-\d+)(?:-comment-|$)/.exec(itemId)?.[1] ?? "";
+}
+
+/** Map a Linear priority (0–4) to a WorkItem priority. */
+export function mapLinearPriority(priority: number | undefined): WorkItem["priority"] {
+  switch (priority) {
+    case 1:
+      return "urgent";
+    case 2:
+      return "high";
+    case 4:
+      return "low";
+    default:
+      return "normal";
+  }
+}
+
+/**
+ * Linear priority for a `set-priority` action: a WorkItem priority name, `none`, or 0–4.
+ * @returns The Linear priority, or null if the value is not recognized
+ */
+export function toLinearPriority(value: unknown): number | null {
+  const names: Record<string, number> = { none: 0, urgent: 1, high: 2, normal: 3, low: 4 };
+  if (typeof value === "string" && names[value.toLowerCase()] !== undefined) {
+    return names[value.toLowerCase()];
+  }
+  const n =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && /^\d$/.test(value)
+        ? Number(value)
+        : NaN;
+  return Number.isInteger(n) && n >= 0 && n <= 4 ? n : null;
+}
+
+/** Map a Linear issue to a WorkItem. */
+export function mapLinearIssue(issue: LinearIssue): WorkItem {
+  return {
+    id: `linear-${issue.identifier}`,
+    source: "linear",
+    type: "issue",
+    title: `[${issue.identifier}] ${issue.title}`,
+    body: issue.description ?? "",
+    author: issue.creator?.name ?? "unknown",
+    timestamp: new Date(issue.updatedAt),
+    priority: mapLinearPriority(issue.priority),
+    url: issue.url,
+    metadata: {
+      key: issue.identifier,
+      issueId: issue.id,
+      team: issue.team.key,
+      status: issue.state.name,
+      stateType: issue.state.type,
+      linearPriority: issue.priority,
+      priorityLabel: issue.priorityLabel ?? "",
+      assignee: issue.assignee?.name,
+      project: issue.project?.name ?? "",
+      labels: issue.labels?.nodes.map((l) => l.name) ?? [],
+    },
+    status: "new",
+  };
+}
+
+/** Map a comment mention to a WorkItem, linked to its issue by `metadata.key`. */
+export function mapLinearMention(mention: LinearCommentMention): WorkItem {
+  const { issue, comment } = mention;
+  return {
+    id: `linear-${issue.identifier}-comment-${comment.id}`,
+    source: "linear",
+    type: "mention",
+    title: `[${issue.identifier}] ${issue.title}`,
+    body: comment.body,
+    author: comment.user?.name ?? "unknown",
+    timestamp: new Date(mention.createdAt),
+    priority: mapLinearPriority(issue.priority),
+    url: comment.url,
+    metadata: {
+      key: issue.identifier,
+      issueId: issue.id,
+      commentId: comment.id,
+      team: issue.team.key,
+      status: issue.state.name,
+      stateType: issue.state.type,
+      linearPriority: issue.priority,
+    },
+    status: "new",
+  };
+}
+
+/** Map a project update to a notification WorkItem; off-track projects are high priority. */
+export function mapLinearProjectUpdate(update: LinearProjectUpdate): WorkItem {
+  return {
+    id: `linear-update-${update.id}`,
+    source: "linear",
+    type: "notification",
+    title: `Project update: ${update.project.name}`,
+    body: update.body,
+    author: update.user?.name ?? "unknown",
+    timestamp: new Date(update.createdAt),
+    priority: update.health === "offTrack" ? "high" : "normal",
+    url: update.url,
+    metadata: {
+      projectId: update.project.id,
+      project: update.project.name,
+      health: update.health,
+    },
+    status: "new",
+  };
+}
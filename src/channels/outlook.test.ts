@@ -0,0 +1,291 @@
+import type { AddressInfo } from "node:net";
+import http from "node:http";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import {
+  OutlookChannel,
+  graphId,
+  isPendingInvite,
+  mapOutlookEvent,
+  mapOutlookMessage,
+  parseCursor,
+  type GraphEvent,
+  type GraphMessage,
+} from "./outlook.js";
+
+const message: GraphMessage = {
+  id: "AAMkAD1",
+  subject: "Quarterly review",
+  from: { emailAddress: { name: "Carol", address: "carol@contoso.com" } },
+  receivedDateTime: "2026-03-02T09:00:00Z",
+  bodyPreview: "Please review the numbers",
+  isRead: false,
+  flag: { flagStatus: "notFlagged" },
+  importance: "normal",
+  webLink: "https://outlook.office.com/mail/AAMkAD1",
+  conversationId: "conv-1",
+  internetMessageId: "<abc@contoso.com>",
+};
+
+const invite: GraphEvent = {
+  id: "EV1",
+  subject: "Design sync",
+  organizer: { emailAddress: { name: "Dan", address: "dan@contoso.com" } },
+  start: { dateTime: "2026-03-03T10:00:00.0000000", timeZone: "UTC" },
+  end: { dateTime: "2026-03-03T10:30:00.0000000", timeZone: "UTC" },
+  location: { displayName: "Room 4" },
+  isOrganizer: false,
+  responseRequested: true,
+  responseStatus: { response: "notResponded" },
+  lastModifiedDateTime: "2026-03-01T12:00:00Z",
+};
+
+describe("mapOutlookMessage", () => {
+  it("maps mail to a message WorkItem", () => {
+    const item = mapOutlookMessage(message);
+    expect(item.id).toBe("outlook-AAMkAD1");
+    expect(item.type).toBe("message");
+    expect(item.author).toBe("Carol");
+    expect(item.priority).toBe("normal");
+    expect(item.metadata).toMatchObject({
+      messageId: "<abc@contoso.com>",
+      outlookConversationId: "conv-1",
+      isUnread: true,
+    });
+  });
+
+  it("raises flagged and important mail to high", () => {
+    expect(mapOutlookMessage({ ...message, importance: "high" }).priority).toBe("high");
+    expect(mapOutlookMessage({ ...message, flag: { flagStatus: "flagged" } }).priority).toBe(
+      "high",
+    );
+  });
+});
+
+describe("mapOutlookEvent", () => {
+  it("maps an invite to a task, urgent within a day", () => {
+    const item = mapOutlookEvent(invite, new Date("2026-03-03T08:00:00Z"));
+    expect(item.id).toBe("outlook-event-EV1");
+    expect(item.type).toBe("task");
+    expect(item.title).toBe("Invite: Design sync");
+    expect(item.priority).toBe("high");
+    expect(item.metadata.start).toBe("2026-03-03T10:00:00.000Z");
+    expect(mapOutlookEvent(invite, new Date("2026-02-20T08:00:00Z")).priority).toBe("normal");
+  });
+
+  it("only treats unanswered invites from others as pending", () => {
+    expect(isPendingInvite(invite)).toBe(true);
+    expect(isPendingInvite({ ...invite, isOrganizer: true })).toBe(false);
+    expect(isPendingInvite({ ...invite, responseStatus: { response: "accepted" } })).toBe(false);
+    expect(isPendingInvite({ ...invite, isCancelled: true })).toBe(false);
+  });
+});
+
+describe("helpers", () => {
+  it("strips the item prefix to get the Graph id", () => {
+    expect(graphId("outlook-AAMkAD1")).toBe("AAMkAD1");
+    expect(graphId("outlook-event-EV1")).toBe("EV1");
+  });
+
+  it("treats a malformed cursor as a fresh sync", () => {
+    expect(parseCursor("not json")).toEqual({});
+    expect(parseCursor(JSON.stringify({ mail: "x" }))).toEqual({ mail: "x" });
+  });
+});
+
+// --- Against a local mock Graph server ---
+
+describe("OutlookChannel (mock Graph server)", () => {
+  let server: http.Server;
+  let base: string;
+  let requests: Array<{ method: string; url: string; body: string; auth?: string }>;
+  let tokenCount: number;
+  let expireNextToken: boolean;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const url = req.url ?? "";
+        requests.push({ method: req.method ?? "", url, body, auth: req.headers.authorization });
+        const json = (status: number, data?: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(data === undefined ? "" : JSON.stringify(data));
+        };
+
+        if (url.startsWith("/auth/common/oauth2/v2.0/token")) {
+          tokenCount++;
+          json(200, {
+            access_token: `token-${tokenCount}`,
+            refresh_token: `refresh-${tokenCount}`,
+          });
+          return;
+        }
+        if (expireNextToken && req.headers.authorization === "Bearer token-1") {
+          expireNextToken = false;
+          json(401, { error: { code: "InvalidAuthenticationToken" } });
+          return;
+        }
+        if (url === "/graph/me") {
+          json(200, { id: "me", mail: "me@contoso.com" });
+        } else if (url.startsWith("/graph/me/mailFolders/inbox/messages/delta?")) {
+          json(200, {
+            value: [message, { ...message, id: "READ1", isRead: true }],
+            "@odata.nextLink": `${base}/graph/mail-page-2`,
+          });
+        } else if (url === "/graph/mail-page-2") {
+          json(200, {
+            value: [
+              { ...message, id: "FLAG1", isRead: true, flag: { flagStatus: "flagged" } },
+              { ...message, id: "INV1", meetingMessageType: "meetingRequest" },
+              { id: "GONE1", "@removed": { reason: "deleted" } },
+            ],
+            "@odata.deltaLink": `${base}/graph/mail-delta-1`,
+          });
+        } else if (url === "/graph/mail-delta-1") {
+          json(200, {
+            value: [{ ...message, id: "NEW2" }],
+            "@odata.deltaLink": `${base}/graph/mail-delta-2`,
+          });
+        } else if (url === "/graph/mail-expired") {
+          json(410, { error: { code: "SyncStateNotFound" } });
+        } else if (url.startsWith("/graph/me/calendarView/delta")) {
+          json(200, {
+            value: [invite, { ...invite, id: "EV2", responseStatus: { response: "accepted" } }],
+            "@odata.deltaLink": `${base}/graph/cal-delta-1`,
+          });
+        } else if (url === "/graph/cal-delta-1") {
+          json(200, { value: [], "@odata.deltaLink": `${base}/graph/cal-delta-2` });
+        } else if (url.startsWith("/graph/me/messages/") || url.startsWith("/graph/me/events/")) {
+          json(req.method === "PATCH" ? 200 : 202, req.method === "PATCH" ? {} : undefined);
+        } else {
+          json(404, { error: { code: "NotFound" } });
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.OUTLOOK_CLIENT_ID = "client";
+    process.env.OUTLOOK_REFRESH_TOKEN = "refresh-0";
+    process.env.OUTLOOK_AUTH_URL = `${base}/auth`;
+    process.env.OUTLOOK_GRAPH_URL = `${base}/graph`;
+  });
+
+  afterAll(async () => {
+    delete process.env.OUTLOOK_AUTH_URL;
+    delete process.env.OUTLOOK_GRAPH_URL;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    tokenCount = 0;
+    expireNextToken = false;
+  });
+
+  async function connected(): Promise<OutlookChannel> {
+    const channel = new OutlookChannel();
+    await channel.connect();
+    return channel;
+  }
+
+  it("requires client id and refresh token", async () => {
+    const saved = process.env.OUTLOOK_REFRESH_TOKEN;
+    delete process.env.OUTLOOK_REFRESH_TOKEN;
+    await expect(new OutlookChannel().connect()).rejects.toThrow(
+      "OUTLOOK_CLIENT_ID and OUTLOOK_REFRESH_TOKEN must be set",
+    );
+    process.env.OUTLOOK_REFRESH_TOKEN = saved;
+  });
+
+  it("syncs unread/flagged mail and pending invites across delta pages", async () => {
+    const channel = await connected();
+    const { items, cursor } = await channel.sync(null);
+
+    expect(items.map((i) => i.id).toSorted()).toEqual([
+      "outlook-AAMkAD1",
+      "outlook-FLAG1",
+      "outlook-event-EV1",
+    ]);
+    expect(parseCursor(cursor)).toMatchObject({
+      mail: `${base}/graph/mail-delta-1`,
+      calendar: `${base}/graph/cal-delta-1`,
+    });
+  });
+
+  it("resumes from the stored delta links", async () => {
+    const channel = await connected();
+    const calendarUntil = new Date(Date.now() + 13 * 86_400_000).toISOString();
+    const { items, cursor } = await channel.sync(
+      JSON.stringify({
+        mail: `${base}/graph/mail-delta-1`,
+        calendar: `${base}/graph/cal-delta-1`,
+        calendarUntil,
+      }),
+    );
+    expect(items.map((i) => i.id)).toEqual(["outlook-NEW2"]);
+    expect(parseCursor(cursor)).toEqual({
+      mail: `${base}/graph/mail-delta-2`,
+      calendar: `${base}/graph/cal-delta-2`,
+      calendarUntil,
+    });
+  });
+
+  it("starts over when Graph expires a delta link", async () => {
+    const channel = await connected();
+    const { cursor } = await channel.sync(JSON.stringify({ mail: `${base}/graph/mail-expired` }));
+    expect(parseCursor(cursor).mail).toBe(`${base}/graph/mail-delta-1`);
+  });
+
+  it("refreshes an expired access token once", async () => {
+    const channel = await connected();
+    expireNextToken = true;
+    await channel.performAction("outlook-AAMkAD1", "read");
+    expect(tokenCount).toBe(2);
+    expect(requests.at(-1)).toMatchObject({ method: "PATCH", auth: "Bearer token-2" });
+  });
+
+  it("performs mail and invite actions", async () => {
+    const channel = await connected();
+    requests = [];
+    await channel.performAction("outlook-AAMkAD1", "read");
+    await channel.performAction("outlook-AAMkAD1", "archive");
+    await channel.performAction("outlook-AAMkAD1", "flag");
+    await channel.performAction("outlook-AAMkAD1", "reply", { body: "Thanks!", all: true });
+    await channel.performAction("outlook-event-EV1", "accept");
+    await channel.performAction("outlook-event-EV1", "decline", { comment: "Conflict" });
+
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      "PATCH /graph/me/messages/AAMkAD1",
+      "POST /graph/me/messages/AAMkAD1/move",
+      "PATCH /graph/me/messages/AAMkAD1",
+      "POST /graph/me/messages/AAMkAD1/replyAll",
+      "POST /graph/me/events/EV1/accept",
+      "POST /graph/me/events/EV1/decline",
+    ]);
+    expect(JSON.parse(requests[0].body)).toEqual({ isRead: true });
+    expect(JSON.parse(requests[1].body)).toEqual({ destinationId: "archive" });
+    expect(JSON.parse(requests[2].body)).toEqual({ flag: { flagStatus: "flagged" } });
+    expect(JSON.parse(requests[3].body)).toEqual({ comment: "Thanks!" });
+    expect(JSON.parse(requests[5].body)).toEqual({ comment: "Conflict", sendResponse: true });
+  });
+
+  it("rejects non-string reply and response comments", async () => {
+    const channel = await connected();
+    requests = [];
+    await expect(
+      channel.performAction("outlook-AAMkAD1", "reply", { body: { text: "Thanks!" } }),
+    ).rejects.toThrow("params.body must be a string");
+    await expect(
+      channel.performAction("outlook-event-EV1", "decline", { comment: 42 }),
+    ).rejects.toThrow("params.comment must be a string");
+    expect(requests).toEqual([]);
+  });
+
+  it("throws on unsupported action", async () => {
+    const channel = await connected();
+    await expect(channel.performAction("outlook-AAMkAD1", "delete")).rejects.toThrow(
+      "Unsupported Outlook action: delete",
+    );
+  });
+});
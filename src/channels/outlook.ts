@@ -0,0 +1,413 @@
+/**
+ * @module channels/outlook
+ * Outlook / Microsoft 365 channel connector — syncs unread and flagged inbox mail and
+ * upcoming meeting invites via Microsoft Graph delta queries.
+ * Auth uses an OAuth refresh token (delegated `Mail.ReadWrite Mail.Send Calendars.ReadWrite`).
+ * The sync cursor is a JSON object holding the mail and calendar delta links.
+ */
+
+import { BaseChannel, SyncResult, WorkItem } from "./base.js";
+import { withRetry } from "./retry.js";
+
+const GRAPH_URL = "https://graph.microsoft.com/v1.0";
+const AUTH_URL = "https://login.microsoftonline.com";
+const SCOPES = "offline_access Mail.ReadWrite Mail.Send Calendars.ReadWrite";
+const PAGE_SIZE = 50;
+/** How far ahead meeting invites are synced. */
+const CALENDAR_WINDOW_DAYS = 14;
+const MESSAGE_FIELDS = [
+  "subject",
+  "from",
+  "receivedDateTime",
+  "bodyPreview",
+  "isRead",
+  "flag",
+  "importance",
+  "webLink",
+  "conversationId",
+  "internetMessageId",
+  "meetingMessageType",
+].join(",");
+
+export interface GraphMessage {
+  id: string;
+  subject?: string | null;
+  from?: { emailAddress: { name?: string; address?: string } } | null;
+  receivedDateTime: string;
+  bodyPreview?: string;
+  isRead?: boolean;
+  flag?: { flagStatus: "notFlagged" | "flagged" | "complete" };
+  importance?: "low" | "normal" | "high";
+  webLink?: string;
+  conversationId?: string;
+  internetMessageId?: string;
+  meetingMessageType?: string;
+  "@removed"?: { reason: string };
+}
+
+export interface GraphEvent {
+  id: string;
+  subject?: string | null;
+  bodyPreview?: string;
+  organizer?: { emailAddress: { name?: string; address?: string } };
+  start: { dateTime: string; timeZone: string };
+  end: { dateTime: string; timeZone: string };
+  location?: { displayName?: string };
+  isOrganizer?: boolean;
+  isCancelled?: boolean;
+  responseRequested?: boolean;
+  responseStatus?: { response: string };
+  webLink?: string;
+  onlineMeeting?: { joinUrl?: string } | null;
+  lastModifiedDateTime?: string;
+  "@removed"?: { reason: string };
+}
+
+/** Persisted between syncs. */
+export interface OutlookCursor {
+  mail?: string;
+  calendar?: string;
+  /** End of the calendar delta window; the window restarts once half of it has passed. */
+  calendarUntil?: string;
+}
+
+interface DeltaPage<T> {
+  value: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+export class OutlookChannel extends BaseChannel {
+  name = "outlook";
+  private graphUrl = GRAPH_URL;
+  private accessToken = "";
+  private refreshToken = "";
+
+  async connect(): Promise<void> {
+    const clientId = this.setting("OUTLOOK_CLIENT_ID");
+    const refreshToken = this.setting("OUTLOOK_REFRESH_TOKEN");
+    if (!clientId || !refreshToken) {
+      throw new Error("OUTLOOK_CLIENT_ID and OUTLOOK_REFRESH_TOKEN must be set");
+    }
+    this.graphUrl = (this.setting("OUTLOOK_GRAPH_URL") || GRAPH_URL).replace(/\/$/, "");
+    this.refreshToken = refreshToken;
+    await this.refreshAccessToken();
+
+    // Verify connectivity
+    await this.request("/me");
+    this._connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.accessToken = "";
+    this._connected = false;
+  }
+
+  /** Exchange the refresh token for an access token. Microsoft may rotate the refresh token. */
+  private async refreshAccessToken(): Promise<void> {
+    const authUrl = (this.setting("OUTLOOK_AUTH_URL") || AUTH_URL).replace(/\/$/, "");
+    const tenant = this.setting("OUTLOOK_TENANT_ID") || "common";
+    const form = new URLSearchParams({
+      client_id: this.setting("OUTLOOK_CLIENT_ID") ?? "",
+      grant_type: "refresh_token",
+      refresh_token: this.refreshToken,
+      scope: SCOPES,
+    });
+    const clientSecret = this.setting("OUTLOOK_CLIENT_SECRET");
+    if (clientSecret) {
+      form.set("client_secret", clientSecret);
+    }
+    const res = await fetch(`${authUrl}/${tenant}/oauth2/v2.0/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: form.toString(),
+    });
+    const data = (await res.json().catch(() => ({}))) as {
+      access_token?: string;
+      refresh_token?: string;
+      error?: string;
+      error_description?: string;
+    };
+    if (!res.ok || !data.access_token) {
+      const err = new Error(
+        `Outlook token refresh failed: ${data.error ?? res.status} ${data.error_description ?? ""}`.trim(),
+      ) as Error & { status: number };
+      err.status = 401;
+      throw err;
+    }
+    this.accessToken = data.access_token;
+    if (data.refresh_token) {
+      this.refreshToken = data.refresh_token;
+    }
+  }
+
+  /**
+   * Call Graph. `path` is relative to the Graph base URL or an absolute `@odata` link.
+   * An expired access token is refreshed once.
+   */
+  private async request(path: string, options?: RequestInit): Promise<unknown> {
+    const url = path.startsWith("http") ? path : `${this.graphUrl}${path}`;
+    return withRetry(async () => {
+      const send = () =>
+        fetch(url, {
+          ...options,
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+            "Content-Type": "application/json",
+            Prefer: `odata.maxpagesize=${PAGE_SIZE}`,
+            ...(options?.headers as Record<string, string> | undefined),
+          },
+        });
+      let res = await send();
+      if (res.status === 401) {
+        await this.refreshAccessToken();
+        res = await send();
+      }
+      if (!res.ok) {
+        const err = new Error(`Graph API error: ${res.status} ${res.statusText}`) as Error & {
+          status: number;
+          response: { headers: Headers };
+        };
+        err.status = res.status;
+        err.response = { headers: res.headers };
+        throw err;
+      }
+      return res.status === 204 || res.status === 202 ? null : res.json();
+    });
+  }
+
+  /** Follow `@odata.nextLink` pages until the delta link. */
+  private async deltaAll<T>(start: string): Promise<{ values: T[]; deltaLink: string }> {
+    const values: T[] = [];
+    let next: string | undefined = start;
+    while (next) {
+      const page = (await this.request(next)) as DeltaPage<T>;
+      values.push(...page.value);
+      if (page["@odata.deltaLink"]) {
+        return { values, deltaLink: page["@odata.deltaLink"] };
+      }
+      next = page["@odata.nextLink"];
+    }
+    throw new Error("Graph delta query ended without a delta link");
+  }
+
+  /** Resume from a stored delta link, starting over if Graph has expired it (410 Gone). */
+  private async deltaFrom<T>(
+    link: string | undefined,
+    fresh: string,
+  ): Promise<{ values: T[]; deltaLink: string }> {
+    if (link) {
+      try {
+        return await this.deltaAll<T>(link);
+      } catch (err: unknown) {
+        if ((err as { status?: number }).status !== 410) {
+          throw err;
+        }
+      }
+    }
+    return this.deltaAll<T>(fresh);
+  }
+
+  async sync(cursor?: string | null): Promise<SyncResult> {
+    const state = parseCursor(cursor);
+    const now = new Date();
+    const days = parseInt(this.setting("SOTERFLOW_SYNC_WINDOW_DAYS") ?? "7", 10);
+    const items: WorkItem[] = [];
+
+    // 1. Mail — unread or flagged inbox messages
+    const mailFresh = `/me/mailFolders/inbox/messages/delta?${new URLSearchParams({
+      $select: MESSAGE_FIELDS,
+      $filter: `receivedDateTime ge ${new Date(now.getTime() - days * 86_400_000).toISOString()}`,
+    }).toString()}`;
+    const mail = await this.deltaFrom<GraphMessage>(state.mail, mailFresh);
+    for (const msg of mail.values) {
+      // Invites are synced from the calendar, so their request emails are skipped
+      if (msg["@removed"] || msg.meetingMessageType === "meetingRequest") {
+        continue;
+      }
+      if (!msg.isRead || msg.flag?.flagStatus === "flagged") {
+        items.push(mapOutlookMessage(msg));
+      }
+    }
+
+    // 2. Upcoming meeting invites awaiting a response
+    // The delta window is fixed when it starts, so it is moved forward once half has passed
+    let calendarLink = state.calendar;
+    let calendarUntil = state.calendarUntil ?? "";
+    const halfWindowMs = (CALENDAR_WINDOW_DAYS / 2) * 86_400_000;
+    if (!calendarUntil || Date.parse(calendarUntil) - now.getTime() < halfWindowMs) {
+      calendarLink = undefined;
+      calendarUntil = new Date(now.getTime() + CALENDAR_WINDOW_DAYS * 86_400_000).toISOString();
+    }
+    const calendarFresh = `/me/calendarView/delta?${new URLSearchParams({
+      startDateTime: now.toISOString(),
+      endDateTime: calendarUntil,
+    }).toString()}`;
+    const calendar = await this.deltaFrom<GraphEvent>(calendarLink, calendarFresh);
+    for (const event of calendar.values) {
+      if (!event["@removed"] && isPendingInvite(event)) {
+        items.push(mapOutlookEvent(event, now));
+      }
+    }
+
+    const next: OutlookCursor = {
+      mail: mail.deltaLink,
+      calendar: calendar.deltaLink,
+      calendarUntil,
+    };
+    return { items, cursor: JSON.stringify(next) };
+  }
+
+  async performAction(
+    itemId: string,
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.accessToken) {
+      throw new Error("Not connected");
+    }
+    const id = encodeURIComponent(graphId(itemId));
+
+    switch (action) {
+      case "read":
+        await this.request(`/me/messages/${id}`, {
+          method: "PATCH",
+          body: JSON.stringify({ isRead: true }),
+        });
+        break;
+      case "archive":
+        await this.request(`/me/messages/${id}/move`, {
+          method: "POST",
+          body: JSON.stringify({ destinationId: "archive" }),
+        });
+        break;
+      case "flag":
+        await this.request(`/me/messages/${id}`, {
+          method: "PATCH",
+          body: JSON.stringify({
+            flag: { flagStatus: params?.flagged === false ? "notFlagged" : "flagged" },
+          }),
+        });
+        break;
+      case "reply": {
+        const comment = params?.body ?? params?.text ?? "";
+        if (typeof comment !== "string") {
+          throw new Error("params.body must be a string");
+        }
+        await this.request(`/me/messages/${id}/${params?.all ? "replyAll" : "reply"}`, {
+          method: "POST",
+          body: JSON.stringify({ comment }),
+        });
+        break;
+      }
+      case "accept":
+      case "decline": {
+        const comment = params?.comment ?? "";
+        if (typeof comment !== "string") {
+          throw new Error("params.comment must be a string");
+        }
+        await this.request(`/me/events/${id}/${action}`, {
+          method: "POST",
+          body: JSON.stringify({ comment, sendResponse: params?.sendResponse !== false }),
+        });
+        break;
+      }
+      default:
+        throw new Error(`Unsupported Outlook action: ${action}`);
+    }
+  }
+}
+
+// --- Exported helpers for testability ---
+
+/** Graph id of an item, from its WorkItem id. */
+export function graphId(itemId: string): string {
+  return itemId.replace(/^outlook-(event-)?/, "");
+}
+
+/** Parse a stored cursor; anything unreadable starts a fresh sync. */
+export function parseCursor(cursor?: string | null): OutlookCursor {
+  if (!cursor) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(cursor) as OutlookCursor;
+    return typeof parsed === "object" && parsed ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** An invite the user has not answered yet (not organized by them, not cancelled). */
+export function isPendingInvite(event: GraphEvent): boolean {
+  const response = event.responseStatus?.response ?? "none";
+  return (
+    !event.isOrganizer &&
+    !event.isCancelled &&
+    event.responseRequested !== false &&
+    (response === "notResponded" || response === "none")
+  );
+}
+
+/** Graph returns event times without an offset; they are UTC unless a time zone is asked for. */
+function eventTime(t: { dateTime: string; timeZone: string }): Date {
+  return new Date(/[zZ]|[+-]\d\d:\d\d$/.test(t.dateTime) ? t.dateTime : `${t.dateTime}Z`);
+}
+
+/** Map a Graph mail message to a WorkItem. */
+export function mapOutlookMessage(msg: GraphMessage): WorkItem {
+  const from = msg.from?.emailAddress;
+  const flagged = msg.flag?.flagStatus === "flagged";
+  return {
+    id: `outlook-${msg.id}`,
+    source: "outlook",
+    type: "message",
+    title: msg.subject || "(no subject)",
+    body: msg.bodyPreview ?? "",
+    author: from?.name || from?.address || "unknown",
+    timestamp: new Date(msg.receivedDateTime),
+    priority: msg.importance === "high" || flagged ? "high" : "normal",
+    url: msg.webLink ?? "",
+    metadata: {
+      messageId: msg.internetMessageId ?? "",
+      outlookConversationId: msg.conversationId ?? "",
+      from: from?.address ?? "",
+      isUnread: !msg.isRead,
+      isFlagged: flagged,
+      importance: msg.importance ?? "normal",
+    },
+    status: "new",
+  };
+}
+
+/** Map a Graph calendar event (an invite awaiting response) to a WorkItem. */
+export function mapOutlookEvent(event: GraphEvent, now = new Date()): WorkItem {
+  const organizer = event.organizer?.emailAddress;
+  const start = eventTime(event.start);
+  const end = eventTime(event.end);
+  const location = event.location?.displayName;
+  const when = `${start.toISOString()} – ${end.toISOString()}${location ? ` @ ${location}` : ""}`;
+  return {
+    id: `outlook-event-${event.id}`,
+    source: "outlook",
+    type: "task",
+    title: `Invite: ${event.subject || "(no subject)"}`,
+    body: [when, event.bodyPreview].filter(Boolean).join("\n"),
+    author: organizer?.name || organizer?.address || "unknown",
+    timestamp: new Date(event.lastModifiedDateTime ?? start),
+    // Meetings in the next 24h need an answer soon
+    priority: start.getTime() - now.getTime() < 86_400_000 ? "high" : "normal",
+    url: event.webLink ?? "",
+    metadata: {
+      eventId: event.id,
+      isInvite: true,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      location: location ?? "",
+      organizer: organizer?.address ?? "",
+      response: event.responseStatus?.response ?? "none",
+      joinUrl: event.onlineMeeting?.joinUrl ?? "",
+    },
+    status: "new",
+  };
+}
@@ -3,23 +3,23 @@
  * Slack channel connector using Socket Mode for real-time events.
  * Uses User Token (xoxp-) to act on behalf of the user, not as a bot.
  * Features: Socket Mode for events, cursor-based pagination, rate limit handling.
+ * The sync cursor is the Slack `ts` at which the previous sync started (used as `oldest`).
  */
 
 import { SocketModeClient } from "@slack/socket-mode";
 import { WebClient } from "@slack/web-api";
-import { BaseChannel, WorkItem } from "./base";
-import { withRetry } from "./retry";
+import { BaseChannel, SyncResult, WorkItem } from "./base.js";
+import { withRetry } from "./retry.js";
 
 export class SlackChannel extends BaseChannel {
   name = "slack";
   private client: WebClient | null = null;
   private socketClient: SocketModeClient | null = null;
   private userId = "";
-  private eventListeners: Array<(item: WorkItem) => void> = [];
 
   async connect(): Promise<void> {
-    const token = process.env.SLACK_TOKEN;
-    const appToken = process.env.SLACK_APP_TOKEN;
+    const token = this.setting("SLACK_TOKEN");
+    const appToken = this.setting("SLACK_APP_TOKEN");
     if (!token) {
       throw new Error("SLACK_TOKEN is not set");
     }
@@ -44,13 +44,12 @@ export class SlackChannel extends BaseChannel {
     }
     this.client = null;
     this.userId = "";
-    this.eventListeners = [];
     this._connected = false;
   }
 
-  /** Register a callback for real-time incoming work items */
-  onNewItem(listener: (item: WorkItem) => void): void {
-    this.eventListeners.push(listener);
+  /** Socket Mode pushes events when an app-level token is configured. */
+  supportsPush(): boolean {
+    return !!this.setting("SLACK_APP_TOKEN");
   }
 
   private setupSocketListeners(): void {
@@ -66,14 +65,14 @@ export class SlackChannel extends BaseChannel {
       } // ignore own messages
 
       const item = mapSlackEvent(event, "message");
-      this.eventListeners.forEach((fn) => fn(item));
+      this.emitNewItem(item);
     });
 
     // Listen for mentions (app_mention or messages containing @user)
     this.socketClient.on("app_mention", async ({ event, ack }) => {
       await ack();
       const item = mapSlackEvent(event, "mention");
-      this.eventListeners.forEach((fn) => fn(item));
+      this.emitNewItem(item);
     });
 
     // Listen for reactions
@@ -97,7 +96,7 @@ export class SlackChannel extends BaseChannel {
         metadata: { channel: event.item?.channel, ts: event.item?.ts, reaction: event.reaction },
         status: "new",
       };
-      this.eventListeners.forEach((fn) => fn(item));
+      this.emitNewItem(item);
     });
   }
 
@@ -131,18 +130,24 @@ export class SlackChannel extends BaseChannel {
     });
   }
 
-  async sync(): Promise<WorkItem[]> {
+  async sync(cursor?: string | null): Promise<SyncResult> {
     if (!this.client) {
       throw new Error("Not connected — call connect() first");
     }
     const items: WorkItem[] = [];
+    const startedTs = (Date.now() / 1000).toFixed(6);
+    const oldest = cursor && !isNaN(Number(cursor)) ? cursor : undefined;
 
     // DMs — fetch last 3 conversations, 5 messages each. Skip on any error.
     try {
       const ims = await this.client.conversations.list({ types: "im", limit: 3 });
       for (const im of ims.channels ?? []) {
         try {
-          const history = await this.client.conversations.history({ channel: im.id!, limit: 5 });
+          const history = await this.client.conversations.history({
+            channel: im.id!,
+            limit: 5,
+            oldest,
+          });
           for (const msg of history.messages ?? []) {
             if (msg.user === this.userId) {
               continue;
@@ -160,7 +165,7 @@ export class SlackChannel extends BaseChannel {
     // Channel history, mentions, starred skipped — Socket Mode handles real-time.
     // Sync only fetches recent DMs to stay within rate limits.
 
-    return items;
+    return { items, cursor: startedTs };
   }
 
   async performAction(
@@ -219,7 +224,7 @@ export function mapSlackEvent(
     timestamp: new Date(parseFloat(ts ?? "0") * 1000),
     priority: type === "mention" ? "high" : "normal",
     url: `https://slack.com/archives/${channel}/p${(ts ?? "").replace(".", "")}`,
-    metadata: { channel, ts },
+    metadata: { channel, ts, threadTs: event.thread_ts },
     status: "new",
   };
 }
@@ -237,7 +242,7 @@ export function mapSlackDM(msg: Record<string, unknown>, channelId: string): Wor
     timestamp: new Date(parseFloat(ts ?? "0") * 1000),
     priority: "normal",
     url: `https://slack.com/archives/${channelId}/p${(ts ?? "").replace(".", "")}`,
-    metadata: { channel: channelId, ts, isDM: true },
+    metadata: { channel: channelId, ts, threadTs: msg.thread_ts, isDM: true },
     status: "new",
   };
 }
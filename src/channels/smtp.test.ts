@@ -0,0 +1,131 @@
+import type { AddressInfo } from "node:net";
+import net from "node:net";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { bareAddress, buildMessage, encodeHeader, sendMail } from "./smtp.js";
+
+describe("buildMessage", () => {
+  it("builds threaded headers and a base64 body", () => {
+    const { raw, messageId } = buildMessage({
+      from: "Me <me@example.com>",
+      to: ["alice@example.com"],
+      cc: ["bob@example.com"],
+      subject: "Re: Launch",
+      text: "Sounds good",
+      inReplyTo: "<orig@example.com>",
+      references: ["<root@example.com>", "orig@example.com"],
+    });
+    const [head, body] = raw.split("\r\n\r\n");
+    expect(messageId).toMatch(/^<[\w-]+@example\.com>$/);
+    expect(head).toContain("To: alice@example.com\r\nCc: bob@example.com");
+    expect(head).toContain(`Message-ID: ${messageId}`);
+    expect(head).toContain("In-Reply-To: <orig@example.com>");
+    expect(head).toContain("References: <root@example.com> <orig@example.com>");
+    expect(Buffer.from(body, "base64").toString("utf8")).toBe("Sounds good");
+  });
+
+  it("encodes non-ASCII subjects", () => {
+    expect(encodeHeader("Hello")).toBe("Hello");
+    expect(encodeHeader("Grüße")).toBe(`=?UTF-8?B?${Buffer.from("Grüße").toString("base64")}?=`);
+  });
+
+  it("extracts the bare address", () => {
+    expect(bareAddress("Alice <alice@example.com>")).toBe("alice@example.com");
+    expect(bareAddress(" bob@example.com ")).toBe("bob@example.com");
+  });
+});
+
+// --- Against a local SMTP stand-in ---
+
+describe("sendMail (local SMTP server)", () => {
+  let server: net.Server;
+  let port: number;
+  let commands: string[];
+  let data: string;
+  let rejectRcpt: boolean;
+
+  beforeAll(async () => {
+    server = net.createServer((socket) => {
+      let buffer = "";
+      let inData = false;
+      socket.write("220 localhost ESMTP\r\n");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString("utf8");
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) {
+            return;
+          }
+          data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 OK queued\r\n");
+        }
+        let idx: number;
+        while (!inData && (idx = buffer.indexOf("\r\n")) !== -1) {
+          const line = buffer.slice(0, idx);
+          buffer = buffer.slice(idx + 2);
+          commands.push(line);
+          if (line.startsWith("EHLO")) {
+            socket.write("250-localhost\r\n250 AUTH PLAIN\r\n");
+          } else if (line.startsWith("AUTH PLAIN")) {
+            socket.write("235 Accepted\r\n");
+          } else if (line.startsWith("RCPT") && rejectRcpt) {
+            socket.write("550 No such user\r\n");
+          } else if (line === "DATA") {
+            inData = true;
+            socket.write("354 Go ahead\r\n");
+          } else if (line === "QUIT") {
+            socket.end("221 Bye\r\n");
+          } else {
+            socket.write("250 OK\r\n");
+          }
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    commands = [];
+    data = "";
+    rejectRcpt = false;
+  });
+
+  const options = () => ({
+    host: "127.0.0.1",
+    port,
+    secure: false,
+    auth: { user: "me@example.com", pass: "secret" },
+  });
+
+  it("authenticates and delivers the message with dot-stuffing", async () => {
+    const raw = "Subject: Hi\r\n\r\nline one\r\n.hidden\r\n";
+    await sendMail(
+      options(),
+      { from: "Me <me@example.com>", to: ["a@example.com", "b@example.com"] },
+      raw,
+    );
+
+    expect(commands.filter((c) => !c.startsWith("EHLO"))).toEqual([
+      `AUTH PLAIN ${Buffer.from("\0me@example.com\0secret").toString("base64")}`,
+      "MAIL FROM:<me@example.com>",
+      "RCPT TO:<a@example.com>",
+      "RCPT TO:<b@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(data).toBe("Subject: Hi\r\n\r\nline one\r\n..hidden");
+  });
+
+  it("rejects with the server reply", async () => {
+    rejectRcpt = true;
+    await expect(
+      sendMail(options(), { from: "me@example.com", to: ["nobody@example.com"] }, "x\r\n"),
+    ).rejects.toThrow("SMTP RCPT TO:<nobody@example.com> failed: 550 No such user");
+  });
+});
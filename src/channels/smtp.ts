@@ -0,0 +1,247 @@
+/**
+ * @module channels/smtp
+ * Minimal SMTP client and plain-text message builder for mail connectors.
+ * Supports implicit TLS (port 465), STARTTLS when the server offers it, and AUTH PLAIN.
+ */
+
+import { randomUUID } from "node:crypto";
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+/** Hosts credentials may be sent to without TLS (local SMTP stand-ins). */
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "::1"]);
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465). Otherwise STARTTLS is used if offered. */
+  secure: boolean;
+  auth: { user: string; pass: string };
+  timeoutMs?: number;
+}
+
+/** A plain-text message to send. */
+export interface OutgoingMail {
+  from: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  /** Message-ID of the message being answered. */
+  inReplyTo?: string;
+  /** Message-IDs of the thread, oldest first. */
+  references?: string[];
+  date?: Date;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/** Encode a header value as an RFC 2047 encoded-word when it is not plain ASCII. */
+export function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/** Bare address from `Name <addr>` or `addr`. */
+export function bareAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim();
+}
+
+/** Wrap a Message-ID in angle brackets if it has none. */
+function bracketed(id: string): string {
+  const trimmed = id.trim();
+  return trimmed.startsWith("<") ? trimmed : `<${trimmed}>`;
+}
+
+/**
+ * Build an RFC 5322 message (UTF-8 text body, base64 encoded).
+ * @returns The raw message with CRLF line endings, and its generated Message-ID
+ */
+export function buildMessage(mail: OutgoingMail): { raw: string; messageId: string } {
+  const domain = bareAddress(mail.from).split("@")[1] || os.hostname();
+  const messageId = `<${randomUUID()}@${domain}>`;
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(", ")}`,
+    ...(mail.cc?.length ? [`Cc: ${mail.cc.join(", ")}`] : []),
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${(mail.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    ...(mail.inReplyTo ? [`In-Reply-To: ${bracketed(mail.inReplyTo)}`] : []),
+    ...(mail.references?.length ? [`References: ${mail.references.map(bracketed).join(" ")}`] : []),
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  const body = (
+    Buffer.from(mail.text, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g) ?? []
+  ).join("\r\n");
+  return { raw: `${headers.join("\r\n")}\r\n\r\n${body}\r\n`, messageId };
+}
+
+/** Reads SMTP replies (possibly multi-line) from a socket, one at a time. */
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+  private error: Error | null = null;
+  private socket: net.Socket | null = null;
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    let idx: number;
+    while ((idx = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      this.lines.push(line.slice(4));
+      // "250-..." continues, "250 ..." ends the reply
+      if (line[3] !== "-") {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), text: this.lines.join("\n") });
+        this.lines = [];
+      }
+    }
+  };
+
+  private onError = (err: Error) => this.fail(err);
+  private onClose = () => this.fail(new Error("SMTP connection closed"));
+
+  attach(socket: net.Socket): void {
+    this.detach();
+    this.socket = socket;
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  detach(): void {
+    this.socket?.off("data", this.onData);
+    this.socket?.off("error", this.onError);
+    this.socket?.off("close", this.onClose);
+    this.socket = null;
+  }
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private deliver(reply: SmtpReply) {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(err: Error) {
+    this.error ??= err;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(err);
+    }
+  }
+}
+
+function connectSocket(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () =>
+          resolve(socket),
+        )
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function upgradeSocket(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+/**
+ * Send a message over SMTP.
+ * @param raw - Full RFC 5322 message (see {@link buildMessage})
+ * @throws Error with the server reply when a command is rejected
+ */
+export async function sendMail(
+  options: SmtpOptions,
+  envelope: { from: string; to: string[] },
+  raw: string,
+): Promise<void> {
+  let socket = await connectSocket(options);
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () =>
+    socket.destroy(new Error("SMTP timeout")),
+  );
+  const reader = new ReplyReader();
+  reader.attach(socket);
+  let isTls = options.secure;
+
+  const expect = async (codes: number[], command?: string): Promise<SmtpReply> => {
+    if (command !== undefined) {
+      socket.write(`${command}\r\n`);
+    }
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      const shown = command?.startsWith("AUTH") ? "AUTH" : (command ?? "greeting");
+      throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+
+  try {
+    await expect([220]);
+    const hostname = os.hostname() || "localhost";
+    const ehlo = await expect([250], `EHLO ${hostname}`);
+    if (!isTls && /^STARTTLS$/im.test(ehlo.text)) {
+      await expect([220], "STARTTLS");
+      reader.detach();
+      socket = await upgradeSocket(socket, options.host);
+      reader.attach(socket);
+      isTls = true;
+      await expect([250], `EHLO ${hostname}`);
+    }
+    if (!isTls && !LOOPBACK_HOSTS.has(options.host)) {
+      throw new Error("SMTP server does not support TLS; refusing to send credentials");
+    }
+    const credentials = Buffer.from(`\0${options.auth.user}\0${options.auth.pass}`).toString(
+      "base64",
+    );
+    await expect([235], `AUTH PLAIN ${credentials}`);
+    await expect([250], `MAIL FROM:<${bareAddress(envelope.from)}>`);
+    for (const rcpt of envelope.to) {
+      await expect([250, 251], `RCPT TO:<${bareAddress(rcpt)}>`);
+    }
+    await expect([354], "DATA");
+    // Dot-stuffing: a line starting with "." gets a second one
+    const stuffed = raw.replace(/(^|\r\n)\./g, "$1..");
+    socket.write(`${stuffed}${stuffed.endsWith("\r\n") ? "" : "\r\n"}.\r\n`);
+    await expect([250]);
+    await expect([221], "QUIT").catch(() => {});
+  } finally {
+    reader.detach();
+    socket.end();
+  }
+}
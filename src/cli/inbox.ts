@@ -5,6 +5,7 @@
 
 import type { WorkItem } from "../channels/base";
 import { getInbox } from "../agent/orchestrator";
+import { CLI_ACTOR } from "../store/history.js";
 import { search, updateStatus } from "../store/workitems";
 
 const PRIORITY_ICONS: Record<string, string> = {
@@ -16,7 +17,9 @@ const PRIORITY_ICONS: Record<string, string> = {
 
 const SOURCE_ICONS: Record<string, string> = {
   github: "🐙",
+  gitlab: "🦊",
   jira: "📋",
+  linear: "🟣",
   slack: "💬",
   telegram: "✈️",
 };
@@ -61,12 +64,12 @@ export function searchInbox(query: string): string {
 
 /** Dismiss an item by ID. */
 export function dismissItem(id: string): void {
-  updateStatus(id, "dismissed");
+  updateStatus(id, "dismissed", CLI_ACTOR);
 }
 
 /** Mark an item as done. */
 export function completeItem(id: string): void {
-  updateStatus(id, "done");
+  updateStatus(id, "done", CLI_ACTOR);
 }
 
 function formatAge(date: Date): string {
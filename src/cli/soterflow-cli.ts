@@ -1,12 +1,39 @@
 #!/usr/bin/env node --import tsx
 /**
  * @module cli/soterflow-cli
- * SoterFlow CLI entry point — inbox, sync, task management, config.
+ * SoterFlow CLI entry point — inbox, sync, task management, digest, stats, config.
  */
 
+import readline from "node:readline/promises";
 import type { WorkItem } from "../channels/base.js";
-import { createChannels, getConfiguredChannels, syncAll, getInbox } from "../agent/orchestrator.js";
+import { LOCAL_ACTIONS, parseFilterSpec, runBulkAction } from "../agent/bulk.js";
+import { parseClockTime } from "../agent/calendar.js";
+import { buildDigest, deliverDigest, formatDigest } from "../agent/digest.js";
+import {
+  computeMetrics,
+  METRICS_GROUPS,
+  type MetricsGroupBy,
+  type MetricsSummary,
+} from "../agent/metrics.js";
+import {
+  CHANNEL_CREDENTIALS,
+  createChannels,
+  getConfiguredChannels,
+  testChannelCredentials,
+  validateChannelCredentials,
+  syncAll,
+  getInbox,
+  type InboxQuery,
+} from "../agent/orchestrator.js";
+import { dryRunRule, validateRuleInput } from "../agent/rules.js";
+import { snoozeItem, wakeSnoozedItems } from "../agent/snooze.js";
+import { deleteCredentials, setCredentials } from "../store/credentials.js";
+import { getDigestSettings, updateDigestSettings } from "../store/digest.js";
+import { CLI_ACTOR, getHistory, type Actor } from "../store/history.js";
+import { createRule, deleteRule, getRules, updateRule, type RuleInput } from "../store/rules.js";
+import { runAsUser } from "../store/scope.js";
 import { getAllSyncStates } from "../store/sync.js";
+import { getUser, isMultiUser, scopeFor } from "../store/users.js";
 import { getAll, updateStatus } from "../store/workitems.js";
 import { formatItem } from "./inbox.js";
 
@@ -33,6 +60,9 @@ function printError(msg: string) {
 }
 
 /** Parse --key=value and --flag args into a map */
+/** Flags that also accept their value as the next argument (`--filter 'source=github'`). */
+const VALUE_FLAGS = new Set(["filter"]);
+
 function parseArgs(args: string[]): {
   command: string;
   subcommand: string;
@@ -42,11 +72,14 @@ function parseArgs(args: string[]): {
   const flags: Record<string, string> = {};
   const positional: string[] = [];
 
-  for (const arg of args) {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
     if (arg.startsWith("--")) {
       const eq = arg.indexOf("=");
       if (eq !== -1) {
         flags[arg.slice(2, eq)] = arg.slice(eq + 1);
+      } else if (VALUE_FLAGS.has(arg.slice(2)) && i + 1 < args.length) {
+        flags[arg.slice(2)] = args[++i];
       } else {
         flags[arg.slice(2)] = "true";
       }
@@ -66,6 +99,8 @@ function parseArgs(args: string[]): {
 // ── Commands ──
 
 async function cmdInbox(flags: Record<string, string>) {
+  // No server may be running to wake due snoozes, so catch up before reading
+  wakeSnoozedItems();
   const items = getInbox({
     source: flags.source,
     type: flags.type,
@@ -133,16 +168,91 @@ async function cmdSync(flags: Record<string, string>) {
   }
 }
 
+function formatActor(actor: Actor): string {
+  if (actor.type === "telegram") {
+    return `@${actor.name ?? actor.id}`;
+  }
+  return actor.name ? `${actor.type}:${actor.name}` : actor.type;
+}
+
+function printHistory(item: WorkItem) {
+  const events = getHistory(item.id);
+  print(
+    `${c.bold}🕘 History of ${item.id.slice(0, 12)}${c.reset} ${c.dim}${item.title}${c.reset}\n`,
+  );
+  if (events.length === 0) {
+    print(`  ${c.dim}No recorded changes.${c.reset}`);
+    return;
+  }
+  for (const e of events) {
+    const when = `${c.gray}${e.createdAt.toLocaleString()}${c.reset}`;
+    const who = `${c.cyan}${formatActor(e.actor)}${c.reset}`;
+    if (e.kind === "status_change") {
+      print(`  ${when}  ${who}  ${e.fromStatus} → ${c.bold}${e.toStatus}${c.reset}`);
+    } else if (e.error) {
+      print(`  ${when}  ${who}  ${e.action} ${c.red}failed: ${e.error}${c.reset}`);
+    } else {
+      print(`  ${when}  ${who}  ${e.action} ${c.green}ok${c.reset}`);
+    }
+    if (e.params && Object.keys(e.params).length > 0) {
+      print(`      ${c.dim}${JSON.stringify(e.params)}${c.reset}`);
+    }
+  }
+}
+
+/** `task --filter '<key=value ...>'`: apply a status or snooze to every matching item. */
+async function cmdBulkTask(flags: Record<string, string>) {
+  let filter: InboxQuery;
+  try {
+    filter = parseFilterSpec(flags.filter);
+  } catch (e: unknown) {
+    printError(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+  const action = flags.snooze ? "snooze" : flags.status;
+  if (!action || !LOCAL_ACTIONS.has(action)) {
+    printError("Provide --status=done|dismissed|in_progress|seen|new or --snooze=<when>");
+    process.exit(1);
+  }
+
+  const params = flags.snooze ? { until: flags.snooze, bump: flags.bump === "true" } : {};
+  const report = await runBulkAction({ filter }, action, params, { actor: CLI_ACTOR });
+  if (report.total === 0) {
+    print(`${c.dim}No items match the filter.${c.reset}`);
+    return;
+  }
+  for (const result of report.results.filter((r) => !r.ok)) {
+    printError(`${result.id.slice(0, 12)}: ${result.error}`);
+  }
+  const label = action === "snooze" ? `snoozed until ${flags.snooze}` : `→ ${action}`;
+  print(`${c.green}✅ ${report.succeeded}/${report.total} item(s) ${label}${c.reset}`);
+  if (report.failed > 0) {
+    process.exit(1);
+  }
+}
+
 async function cmdTask(positional: string[], flags: Record<string, string>) {
+  if (flags.filter) {
+    await cmdBulkTask(flags);
+    return;
+  }
   const id = positional[0];
   if (!id) {
-    printError("Usage: soterflow task <id> --status=done|dismissed|in_progress|seen");
+    printError(
+      "Usage: soterflow task <id> --status=done|dismissed|in_progress|seen | --snooze=2h|tomorrow|monday",
+    );
     process.exit(1);
   }
 
   const status = flags.status as WorkItem["status"];
-  if (!status || !["done", "dismissed", "in_progress", "seen", "new"].includes(status)) {
-    printError("Provide --status=done|dismissed|in_progress|seen|new");
+  if (
+    !flags.snooze &&
+    !flags.history &&
+    (!status || !["done", "dismissed", "in_progress", "seen", "new"].includes(status))
+  ) {
+    printError(
+      "Provide --status=done|dismissed|in_progress|seen|new, --snooze=<when> or --history",
+    );
     process.exit(1);
   }
 
@@ -154,23 +264,143 @@ async function cmdTask(positional: string[], flags: Record<string, string>) {
     process.exit(1);
   }
 
-  updateStatus(match.id, status);
+  if (flags.history) {
+    printHistory(match);
+    return;
+  }
+
+  if (flags.snooze) {
+    const snoozed = snoozeItem(match.id, flags.snooze, {
+      bump: flags.bump === "true",
+      actor: CLI_ACTOR,
+    });
+    print(
+      `${c.green}💤 Snoozed ${match.id.slice(0, 12)} until ${snoozed.snoozedUntil!.toLocaleString()}${c.reset}`,
+    );
+    if (snoozed.wakePriority) {
+      print(`   ${c.dim}Will resurface as ${snoozed.wakePriority}${c.reset}`);
+    }
+    print(`   ${c.dim}${match.title}${c.reset}`);
+    return;
+  }
+
+  updateStatus(match.id, status, CLI_ACTOR);
   print(`${c.green}✅ Updated ${match.id.slice(0, 12)} → ${status}${c.reset}`);
   print(`   ${c.dim}${match.title}${c.reset}`);
 }
 
-async function cmdConfig(subcommand: string) {
-  if (subcommand !== "list" && subcommand !== "") {
-    printError(`Unknown config subcommand: ${subcommand}. Try: soterflow config list`);
+async function cmdDigest(flags: Record<string, string>) {
+  if (flags.time !== undefined || flags.email !== undefined) {
+    if (flags.time && parseClockTime(flags.time) === null) {
+      printError(`Invalid --time=${flags.time} (expected HH:MM, or --time= to turn it off)`);
+      process.exit(1);
+    }
+    const settings = updateDigestSettings({ time: flags.time, email: flags.email });
+    print(
+      `${c.green}✅ Digest ${settings.time ? `daily at ${settings.time}` : "off"}${settings.email ? `, e-mailed to ${settings.email}` : ""}${c.reset}`,
+    );
+    return;
+  }
+
+  // No server may be running to wake due snoozes, so catch up before reading
+  wakeSnoozedItems();
+  const digest = buildDigest();
+  if (flags.send) {
+    const delivered = await deliverDigest(digest);
+    print(
+      `${c.green}✅ Digest sent to Telegram${delivered.email ? " and by e-mail" : ""}${c.reset}`,
+    );
+    return;
+  }
+
+  print(formatDigest(digest));
+  const { time, email } = getDigestSettings();
+  print(
+    `\n${c.dim}${time ? `Sent daily at ${time}` : "Scheduled digest is off (--time=HH:MM)"}${email ? ` to Telegram and ${email}` : ""}. --send delivers it now.${c.reset}`,
+  );
+}
+
+function cmdStats(flags: Record<string, string>) {
+  const groupBy = (flags["group-by"] ?? "source") as MetricsGroupBy;
+  const weeks = flags.weeks ? parseInt(flags.weeks, 10) : 4;
+  if (!METRICS_GROUPS.includes(groupBy)) {
+    printError(`Invalid --group-by=${groupBy} (expected ${METRICS_GROUPS.join("|")})`);
     process.exit(1);
   }
+  if (!(weeks >= 1 && weeks <= 52)) {
+    printError(`Invalid --weeks=${flags.weeks} (expected 1-52)`);
+    process.exit(1);
+  }
+
+  const metrics = computeMetrics({ groupBy, weeks });
+  const hours = (h: number | null) => (h === null ? "—" : `${h}h`);
+  const row = (label: string, m: MetricsSummary) =>
+    `  ${label.padEnd(24)} ${String(m.items).padStart(6)} ${String(m.responded).padStart(9)} ${hours(m.medianResponseHours).padStart(8)} ${hours(m.p90ResponseHours).padStart(8)} ${String(m.done).padStart(6)} ${hours(m.medianDoneHours).padStart(8)} ${m.breaches > 0 ? c.red : ""}${String(m.breaches).padStart(6)}${c.reset}`;
+  const header = (label: string) =>
+    `${c.dim}  ${label.padEnd(24)} ${"items".padStart(6)} ${"responded".padStart(9)} ${"median".padStart(8)} ${"p90".padStart(8)} ${"done".padStart(6)} ${"to done".padStart(8)} ${"SLA ✗".padStart(6)}${c.reset}`;
+
+  print(`${c.bold}📈 Response times (working hours)${c.reset}\n`);
+  print(`${c.bold}Weekly trend${c.reset}`);
+  print(header("week of"));
+  for (const week of metrics.weekly) {
+    print(row(week.weekStart, week));
+  }
+  print(row("total", metrics.total));
+
+  print(`\n${c.bold}By ${groupBy}${c.reset}`);
+  print(header(groupBy));
+  for (const group of metrics.groups) {
+    print(row(group.key.slice(0, 24), group));
+  }
+
+  const targets = Object.entries(metrics.targets)
+    .map(([key, h]) => `${key} ${h}h`)
+    .join(", ");
+  print(`\n${c.bold}SLA breaches${c.reset} ${c.dim}(targets: ${targets || "none"})${c.reset}`);
+  if (metrics.breaches.length === 0) {
+    print(`  ${c.green}None${c.reset}`);
+  }
+  for (const breach of metrics.breaches.slice(0, 10)) {
+    const state = breach.open
+      ? `${c.red}waiting ${breach.responseHours}h${c.reset}`
+      : `answered after ${breach.responseHours}h`;
+    print(
+      `  ${breach.title.slice(0, 60)} ${c.dim}(${breach.target} ≤ ${breach.targetHours}h)${c.reset} — ${state}`,
+    );
+  }
+  if (metrics.breaches.length > 10) {
+    print(`  ${c.dim}... and ${metrics.breaches.length - 10} more${c.reset}`);
+  }
+}
+
+async function cmdConfig(subcommand: string, positional: string[], flags: Record<string, string>) {
+  switch (subcommand) {
+    case "":
+    case "list":
+      cmdConfigList();
+      return;
+    case "add-channel":
+      await cmdAddChannel(positional[1], flags);
+      return;
+    case "remove-channel":
+      await cmdRemoveChannel(positional[1]);
+      return;
+    default:
+      printError(
+        `Unknown config subcommand: ${subcommand}. Try: soterflow config list | add-channel | remove-channel`,
+      );
+      process.exit(1);
+  }
+}
 
+function cmdConfigList() {
   print(`${c.bold}⚙️  SoterFlow Configuration${c.reset}\n`);
 
   const channels = getConfiguredChannels();
   for (const ch of channels) {
     const icon = ch.configured ? `${c.green}✓${c.reset}` : `${c.red}✗${c.reset}`;
-    print(`  ${icon} ${ch.name}`);
+    const source = ch.stored ? ` ${c.gray}(vault)${c.reset}` : "";
+    print(`  ${icon} ${ch.name}${source}`);
   }
 
   const syncStates = getAllSyncStates();
@@ -182,6 +412,210 @@ async function cmdConfig(subcommand: string) {
   }
 }
 
+/** Channel name argument, or exit with usage. */
+function channelArg(name: string | undefined, subcommand: string): string {
+  if (!name || !Object.hasOwn(CHANNEL_CREDENTIALS, name)) {
+    printError(
+      `Usage: soterflow config ${subcommand} <${Object.keys(CHANNEL_CREDENTIALS).join("|")}>`,
+    );
+    process.exit(1);
+  }
+  return name;
+}
+
+/**
+ * Ask for a channel's settings (unless given as --KEY=value flags), test the connection and
+ * store them in the credential vault.
+ */
+async function cmdAddChannel(nameArg: string | undefined, flags: Record<string, string>) {
+  const name = channelArg(nameArg, "add-channel");
+  const { required, optional } = CHANNEL_CREDENTIALS[name];
+  print(
+    `${c.bold}➕ Add ${name}${c.reset} ${c.gray}(empty answers skip optional settings)${c.reset}\n`,
+  );
+
+  const values: Record<string, string> = {};
+  let rl: readline.Interface | null = null;
+  try {
+    for (const key of [...required, ...optional]) {
+      if (flags[key] !== undefined) {
+        values[key] = flags[key];
+        continue;
+      }
+      rl ??= readline.createInterface({ input: process.stdin, output: process.stdout });
+      const hint = optional.includes(key) ? ` ${c.gray}(optional)${c.reset}` : "";
+      const answer = (await rl.question(`  ${key}${hint}: `)).trim();
+      if (answer) {
+        values[key] = answer;
+      }
+    }
+  } finally {
+    rl?.close();
+  }
+
+  const credentials = validateChannelCredentials(name, values);
+  if (flags["skip-test"] !== "true") {
+    print(`\n${c.dim}Testing connection...${c.reset}`);
+    try {
+      await testChannelCredentials(name, credentials);
+    } catch (err) {
+      printError(`Connection test failed: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+    print(`${c.green}✓${c.reset} Connected`);
+  }
+
+  setCredentials(name, credentials);
+  print(`${c.green}✓${c.reset} Saved ${name} credentials (encrypted)`);
+  print(`${c.dim}A running API server picks them up after a restart.${c.reset}`);
+}
+
+async function cmdRemoveChannel(nameArg: string | undefined) {
+  const name = channelArg(nameArg, "remove-channel");
+  if (!deleteCredentials(name)) {
+    printError(`No stored credentials for ${name}`);
+    process.exit(1);
+  }
+  print(`${c.green}✓${c.reset} Removed ${name} credentials`);
+}
+
+/** Build a rule from CLI flags (--source, --title, --set-priority, ...). */
+function ruleFromFlags(flags: Record<string, string>): unknown {
+  const matchFlags: Record<string, string> = {
+    source: "source",
+    type: "type",
+    author: "author",
+    repo: "repo",
+    project: "jiraProject",
+    "jira-status": "jiraStatus",
+    title: "titleRegex",
+    body: "bodyRegex",
+  };
+  const match: Record<string, unknown> = {};
+  for (const [flag, key] of Object.entries(matchFlags)) {
+    if (flags[flag]) {
+      match[key] = flags[flag];
+    }
+  }
+  if (flags.labels) {
+    match.labels = flags.labels.split(",").map((l) => l.trim());
+  }
+
+  const actions: unknown[] = [];
+  if (flags["set-priority"]) {
+    actions.push({ type: "set_priority", priority: flags["set-priority"] });
+  }
+  if (flags["set-status"]) {
+    actions.push({ type: "set_status", status: flags["set-status"] });
+  }
+  if (flags.tag) {
+    actions.push({ type: "add_tag", tag: flags.tag });
+  }
+  if (flags.snooze) {
+    actions.push({ type: "snooze", duration: flags.snooze });
+  }
+  if (flags["break-through"] === "true") {
+    actions.push({ type: "break_through" });
+  }
+
+  return { name: flags.name, match, actions };
+}
+
+function findRule(idPrefix: string | undefined) {
+  if (!idPrefix) {
+    printError("Provide a rule id (prefix)");
+    process.exit(1);
+  }
+  const rule = getRules().find((r) => r.id.startsWith(idPrefix));
+  if (!rule) {
+    printError(`No rule found matching ID prefix "${idPrefix}"`);
+    process.exit(1);
+  }
+  return rule;
+}
+
+async function cmdRules(subcommand: string, positional: string[], flags: Record<string, string>) {
+  switch (subcommand) {
+    case "":
+    case "list": {
+      const rules = getRules();
+      if (rules.length === 0) {
+        print(`${c.dim}No rules defined. Add one with 'soterflow rules add'.${c.reset}`);
+        return;
+      }
+      print(`${c.bold}📐 Rules (${rules.length})${c.reset}\n`);
+      for (const rule of rules) {
+        const state = rule.enabled ? `${c.green}on ${c.reset}` : `${c.gray}off${c.reset}`;
+        print(
+          `  ${state} ${c.bold}${rule.name}${c.reset}  ${c.gray}[${rule.id.slice(0, 8)}]${c.reset}`,
+        );
+        print(`      ${c.dim}when ${JSON.stringify(rule.match)}${c.reset}`);
+        print(
+          `      ${c.dim}then ${rule.actions.map((a) => Object.values(a).join(":")).join(", ")}${c.reset}`,
+        );
+      }
+      return;
+    }
+    case "add": {
+      const rule = createRule(validateRuleInput(ruleFromFlags(flags)) as RuleInput);
+      print(
+        `${c.green}✅ Added rule ${rule.name}${c.reset} ${c.gray}[${rule.id.slice(0, 8)}]${c.reset}`,
+      );
+      return;
+    }
+    case "remove": {
+      const rule = findRule(positional[1]);
+      deleteRule(rule.id);
+      print(`${c.green}✅ Removed rule ${rule.name}${c.reset}`);
+      return;
+    }
+    case "enable":
+    case "disable": {
+      const rule = findRule(positional[1]);
+      updateRule(rule.id, { enabled: subcommand === "enable" });
+      print(`${c.green}✅ ${rule.name} → ${subcommand}d${c.reset}`);
+      return;
+    }
+    case "dry-run": {
+      const rule = positional[1]
+        ? findRule(positional[1])
+        : {
+            ...(validateRuleInput(ruleFromFlags({ name: "dry-run", ...flags })) as RuleInput),
+            id: "dry-run",
+            enabled: true,
+            position: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          };
+      const results = dryRunRule(rule, getInbox());
+      print(`${c.bold}🧪 ${results.length} inbox item(s) would match${c.reset}\n`);
+      for (const r of results) {
+        const changes: string[] = [];
+        if (r.before.priority !== r.after.priority) {
+          changes.push(`priority ${r.before.priority} → ${r.after.priority}`);
+        }
+        if (r.before.status !== r.after.status) {
+          changes.push(`status ${r.before.status} → ${r.after.status}`);
+        }
+        if (r.tags.length) {
+          changes.push(`tags +${r.tags.join(",")}`);
+        }
+        if (r.snoozedUntil) {
+          changes.push(`snooze until ${r.snoozedUntil.toLocaleString()}`);
+        }
+        print(`  ${r.title}  ${c.gray}[${r.id.slice(0, 12)}]${c.reset}`);
+        print(`      ${c.dim}${changes.join("; ") || "no change"}${c.reset}`);
+      }
+      return;
+    }
+    default:
+      printError(
+        `Unknown rules subcommand: ${subcommand}. Try: list, add, remove, enable, disable, dry-run`,
+      );
+      process.exit(1);
+  }
+}
+
 function cmdHelp() {
   print(`
 ${c.bold}SoterFlow${c.reset} — Personal work item aggregator
@@ -190,7 +624,7 @@ ${c.bold}Usage:${c.reset}
   soterflow <command> [options]
 
 ${c.bold}Commands:${c.reset}
-  ${c.cyan}inbox${c.reset}   [--source=github|jira|slack] [--type=pr|issue|mention|message] [--status=new|seen]
+  ${c.cyan}inbox${c.reset}   [--source=github|jira|slack] [--type=pr|issue|mention|message] [--status=new|seen|snoozed]
           Show filtered inbox
 
   ${c.cyan}sync${c.reset}    [--source=github|jira|slack]
@@ -198,48 +632,113 @@ ${c.bold}Commands:${c.reset}
 
   ${c.cyan}task${c.reset}    <id> --status=done|dismissed|in_progress|seen|new
           Update item status (id can be a prefix)
+          <id> --snooze=2h|tomorrow|monday [--bump]
+          Hide until then; it returns as new (one priority higher with --bump)
+          <id> --history
+          Show status changes and actions taken on the item
+          --filter '<key=value ...>' --status=done | --snooze=<when>
+          Update every matching item (keys: source type status search since
+          excludeStatuses excludeReasons)
+
+  ${c.cyan}rules${c.reset}   list | add | remove <id> | enable <id> | disable <id> | dry-run [<id>]
+          Manage inbox rules. Conditions: --source --type --author --repo --project
+          --jira-status --labels=a,b --title=<regex> --body=<regex>
+          Actions: --set-priority=urgent|high|normal|low --set-status=dismissed|done|seen
+          --tag=<tag> --snooze=2h|1d --break-through (notify during quiet hours)
+
+  ${c.cyan}digest${c.reset}  [--preview] | --send | --time=HH:MM [--email=<address>]
+          Preview the daily digest, send it now, or set when (and where) it is sent
+          (--time= or --email= with no value turns them off)
+
+  ${c.cyan}stats${c.reset}   [--group-by=source|type|author|repo] [--weeks=4]
+          Response and time-to-done metrics in working hours, weekly trend and SLA breaches
+          (targets from SOTERFLOW_SLA_TARGETS, e.g. review=4h,jira=2d)
 
   ${c.cyan}config${c.reset}  list
           Show which channels are configured
+          add-channel <github|gitlab|jira|slack|gmail|outlook|linear> [--KEY=value ...] [--skip-test]
+          Prompt for credentials, test the connection and store them encrypted
+          remove-channel <name>
+          Delete stored credentials
 
   ${c.cyan}help${c.reset}    Show this help
 
+${c.bold}Options:${c.reset}
+  --user=<telegramId>   Run the command as that account (multi-user mode)
+
 ${c.bold}Examples:${c.reset}
   soterflow sync
   soterflow inbox --source=github --type=pr
   soterflow task abc123 --status=done
+  soterflow task abc123 --snooze=tomorrow
+  soterflow task --filter 'source=github type=notification' --status=done
+  soterflow rules add --name="Mute dependabot" --author=dependabot --set-status=dismissed
+  soterflow digest --preview
+  soterflow stats --group-by=repo
   soterflow config list
+  soterflow config add-channel github
+  soterflow inbox --user=123456789
 `);
 }
 
 // ── Main ──
 
+async function runCommand({
+  command,
+  subcommand,
+  positional,
+  flags,
+}: ReturnType<typeof parseArgs>): Promise<void> {
+  switch (command) {
+    case "inbox":
+      await cmdInbox(flags);
+      break;
+    case "sync":
+      await cmdSync(flags);
+      break;
+    case "task":
+      await cmdTask(positional, flags);
+      break;
+    case "rules":
+      await cmdRules(subcommand, positional, flags);
+      break;
+    case "digest":
+      await cmdDigest(flags);
+      break;
+    case "stats":
+      cmdStats(flags);
+      break;
+    case "config":
+      await cmdConfig(subcommand, positional, flags);
+      break;
+    case "help":
+    case "--help":
+    case "-h":
+      cmdHelp();
+      break;
+    default:
+      printError(`Unknown command: ${command}`);
+      cmdHelp();
+      process.exit(1);
+  }
+}
+
 async function main() {
-  const { command, subcommand, positional, flags } = parseArgs(process.argv.slice(2));
+  const args = parseArgs(process.argv.slice(2));
 
   try {
-    switch (command) {
-      case "inbox":
-        await cmdInbox(flags);
-        break;
-      case "sync":
-        await cmdSync(flags);
-        break;
-      case "task":
-        await cmdTask(positional, flags);
-        break;
-      case "config":
-        await cmdConfig(subcommand);
-        break;
-      case "help":
-      case "--help":
-      case "-h":
-        cmdHelp();
-        break;
-      default:
-        printError(`Unknown command: ${command}`);
-        cmdHelp();
+    // --user runs the command against a multi-user account instead of the default store
+    if (args.flags.user) {
+      const user = isMultiUser() ? getUser(args.flags.user) : null;
+      if (!user) {
+        printError(
+          `Unknown user: ${args.flags.user} (multi-user mode needs SOTERFLOW_ADMIN_USERS)`,
+        );
         process.exit(1);
+      }
+      await runAsUser(scopeFor(user), () => runCommand(args));
+    } else {
+      await runCommand(args);
     }
   } catch (err) {
     printError(String(err));
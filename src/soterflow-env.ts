@@ -8,13 +8,65 @@ export const env = {
   SLACK_TOKEN: process.env.SLACK_TOKEN ?? "",
   SLACK_APP_TOKEN: process.env.SLACK_APP_TOKEN ?? "",
   SOTERFLOW_DB_PATH: process.env.SOTERFLOW_DB_PATH ?? "./data/soterflow.db",
+  SOTERFLOW_ACCOUNTS_DB_PATH: process.env.SOTERFLOW_ACCOUNTS_DB_PATH ?? "./data/accounts.db",
+  SOTERFLOW_USERS_DIR: process.env.SOTERFLOW_USERS_DIR ?? "./data/users",
+  SOTERFLOW_ADMIN_USERS: process.env.SOTERFLOW_ADMIN_USERS ?? "",
+  SOTERFLOW_ALLOWED_USERS: process.env.SOTERFLOW_ALLOWED_USERS ?? "",
+  SOTERFLOW_SECRET_KEY: process.env.SOTERFLOW_SECRET_KEY ?? "",
+  SOTERFLOW_KEY_FILE: process.env.SOTERFLOW_KEY_FILE ?? "./data/master.key",
   TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN ?? "",
+  /** Secret Telegram sends with webhook updates (`secret_token` of setWebhook). */
+  TELEGRAM_WEBHOOK_SECRET: process.env.TELEGRAM_WEBHOOK_SECRET ?? "",
+  /** Secret of the GitHub webhook (`/hooks/github`), checked against `X-Hub-Signature-256`. */
+  GITHUB_WEBHOOK_SECRET: process.env.GITHUB_WEBHOOK_SECRET ?? "",
+  /** Secret of the Jira webhook (`/hooks/jira`): signature key or `?secret=` token. */
+  JIRA_WEBHOOK_SECRET: process.env.JIRA_WEBHOOK_SECRET ?? "",
+  /** Signing secret of the Slack app, for Events API requests (`/hooks/slack`). */
+  SLACK_SIGNING_SECRET: process.env.SLACK_SIGNING_SECRET ?? "",
   SOTERFLOW_API_PORT: parseInt(process.env.SOTERFLOW_API_PORT ?? "3847", 10),
   SOTERFLOW_SYNC_WINDOW_DAYS: parseInt(process.env.SOTERFLOW_SYNC_WINDOW_DAYS ?? "7", 10),
+  SOTERFLOW_SYNC_INTERVAL_SECONDS: parseInt(
+    process.env.SOTERFLOW_SYNC_INTERVAL_SECONDS ?? "300",
+    10,
+  ),
+  SOTERFLOW_SYNC_INTERVALS: process.env.SOTERFLOW_SYNC_INTERVALS ?? "",
+  SOTERFLOW_UNDO_WINDOW_SECONDS: parseInt(process.env.SOTERFLOW_UNDO_WINDOW_SECONDS ?? "0", 10),
+  SOTERFLOW_DIGEST_TIME: process.env.SOTERFLOW_DIGEST_TIME ?? "",
+  SOTERFLOW_DIGEST_EMAIL: process.env.SOTERFLOW_DIGEST_EMAIL ?? "",
+  SOTERFLOW_SLA_TARGETS: process.env.SOTERFLOW_SLA_TARGETS ?? "review=4h",
+  SOTERFLOW_TIMEZONE:
+    process.env.SOTERFLOW_TIMEZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+  SOTERFLOW_WORK_DAYS: process.env.SOTERFLOW_WORK_DAYS ?? "1-5",
+  SOTERFLOW_WORK_HOURS: process.env.SOTERFLOW_WORK_HOURS ?? "09:00-17:00",
+  SOTERFLOW_HOLIDAYS: process.env.SOTERFLOW_HOLIDAYS ?? "",
+  SOTERFLOW_QUIET_HOURS: process.env.SOTERFLOW_QUIET_HOURS ?? "",
+  SOTERFLOW_LLM_URL: process.env.SOTERFLOW_LLM_URL ?? "https://api.openai.com/v1",
+  SOTERFLOW_LLM_API_KEY: process.env.SOTERFLOW_LLM_API_KEY ?? "",
+  SOTERFLOW_LLM_MODEL: process.env.SOTERFLOW_LLM_MODEL ?? "gpt-4o-mini",
+  SOTERFLOW_AGENT_TIMEOUT_SECONDS: parseInt(
+    process.env.SOTERFLOW_AGENT_TIMEOUT_SECONDS ?? "120",
+    10,
+  ),
+  /** Comma-separated directories of skill manifests (`<dir>/<skill>/SKILL.md`). */
+  SOTERFLOW_SKILLS_DIRS: process.env.SOTERFLOW_SKILLS_DIRS ?? "./skills",
+  SOTERFLOW_APPROVAL_TIMEOUT_SECONDS: parseInt(
+    process.env.SOTERFLOW_APPROVAL_TIMEOUT_SECONDS ?? "3600",
+    10,
+  ),
   GMAIL_USER: process.env.GMAIL_USER ?? "",
   GMAIL_APP_PASSWORD: process.env.GMAIL_APP_PASSWORD ?? "",
   GMAIL_IMAP_HOST: process.env.GMAIL_IMAP_HOST ?? "imap.gmail.com",
   GMAIL_IMAP_PORT: parseInt(process.env.GMAIL_IMAP_PORT ?? "993", 10),
+  GMAIL_SMTP_HOST: process.env.GMAIL_SMTP_HOST ?? "smtp.gmail.com",
+  GMAIL_SMTP_PORT: parseInt(process.env.GMAIL_SMTP_PORT ?? "465", 10),
+  GMAIL_SENT_MAILBOX: process.env.GMAIL_SENT_MAILBOX ?? "[Gmail]/Sent Mail",
+  OUTLOOK_CLIENT_ID: process.env.OUTLOOK_CLIENT_ID ?? "",
+  OUTLOOK_CLIENT_SECRET: process.env.OUTLOOK_CLIENT_SECRET ?? "",
+  OUTLOOK_TENANT_ID: process.env.OUTLOOK_TENANT_ID ?? "common",
+  OUTLOOK_REFRESH_TOKEN: process.env.OUTLOOK_REFRESH_TOKEN ?? "",
+  LINEAR_API_KEY: process.env.LINEAR_API_KEY ?? "",
+  GITLAB_URL: process.env.GITLAB_URL ?? "https://gitlab.com",
+  GITLAB_TOKEN: process.env.GITLAB_TOKEN ?? "",
   SOTERFLOW_OWNER_CHAT_ID: process.env.SOTERFLOW_OWNER_CHAT_ID ?? "",
   JIRA_OWNER_ACCOUNT_ID: process.env.JIRA_OWNER_ACCOUNT_ID ?? "",
 };
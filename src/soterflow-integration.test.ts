@@ -7,7 +7,7 @@ import fs from "fs";
 import path from "path";
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import type { WorkItem } from "./channels/base.js";
-import { BaseChannel } from "./channels/base.js";
+import { BaseChannel, type SyncResult } from "./channels/base.js";
 
 // ── Mock Channel ──
 
@@ -16,6 +16,8 @@ class MockChannel extends BaseChannel {
   private items: WorkItem[];
   connected = false;
   shouldFail = false;
+  /** Cursors received by each sync() call. */
+  cursors: Array<string | null> = [];
 
   constructor(name: string, items: WorkItem[]) {
     super();
@@ -32,13 +34,19 @@ class MockChannel extends BaseChannel {
   async disconnect(): Promise<void> {
     this.connected = false;
   }
-  async sync(): Promise<WorkItem[]> {
+  async sync(cursor?: string | null): Promise<SyncResult> {
     if (this.shouldFail) {
       throw new Error(`${this.name} sync failed`);
     }
-    return this.items;
+    this.cursors.push(cursor ?? null);
+    return { items: this.items, cursor: `cursor-${this.cursors.length}` };
   }
   async performAction(): Promise<void> {}
+
+  /** Simulate a real-time event (e.g. Slack Socket Mode). */
+  push(item: WorkItem): void {
+    this.emitNewItem(item);
+  }
 }
 
 function makeItem(overrides: Partial<WorkItem> & { id: string; source: string }): WorkItem {
@@ -267,4 +275,235 @@ describe("SoterFlow Integration", () => {
     expect(state!.channelName).toBe("github");
     expect(state!.lastSync).toBeInstanceOf(Date);
   });
+
+  it("9. pushed items are ingested and announced once", async () => {
+    const { getDb } = await import("./store/db.js");
+    const { attachPushIngest } = await import("./agent/orchestrator.js");
+    const { getById } = await import("./store/workitems.js");
+
+    getDb();
+
+    const slack = new MockChannel("slack", []);
+    const added: WorkItem[] = [];
+    attachPushIngest((item) => added.push(item), [slack]);
+
+    slack.push(makeItem({ id: "sl-push", source: "slack", type: "mention" }));
+    slack.push(makeItem({ id: "sl-push", source: "slack", type: "mention" }));
+    // Same URL under a different id updates the stored item
+    slack.push(
+      makeItem({
+        id: "sl-push-dm",
+        source: "slack",
+        type: "mention",
+        title: "Edited",
+        url: "https://example.com/sl-push",
+      }),
+    );
+
+    expect(added.map((i) => i.id)).toEqual(["sl-push"]);
+    // Same heuristics as syncAll: mentions are high
+    expect(getById("sl-push")).toMatchObject({ priority: "high", title: "Edited" });
+    expect(getById("sl-push-dm")).toBeNull();
+  });
+
+  it("10. sync passes the stored cursor back to the channel", async () => {
+    const { getDb } = await import("./store/db.js");
+    const { syncAll } = await import("./agent/orchestrator.js");
+    const { getSyncState, updateSyncState } = await import("./store/sync.js");
+
+    getDb();
+    updateSyncState("cursor-test", null);
+
+    const channel = new MockChannel("cursor-test", [
+      makeItem({ id: "ct-1", source: "cursor-test" }),
+    ]);
+    await syncAll([channel]);
+    await syncAll([channel]);
+
+    expect(channel.cursors).toEqual([null, "cursor-1"]);
+    expect(getSyncState("cursor-test")!.cursor).toBe("cursor-2");
+  });
+
+  it("11. rules adjust new items during sync and snoozed items leave the inbox", async () => {
+    const { getDb } = await import("./store/db.js");
+    const { syncAll, getInbox } = await import("./agent/orchestrator.js");
+    const { createRule } = await import("./store/rules.js");
+    const { getById } = await import("./store/workitems.js");
+
+    getDb();
+    const muteBots = createRule({
+      name: "Mute bots",
+      match: { author: "dependabot" },
+      actions: [
+        { type: "set_status", status: "dismissed" },
+        { type: "add_tag", tag: "bots" },
+      ],
+    });
+    createRule({
+      name: "Later",
+      match: { titleRegex: "^later" },
+      actions: [{ type: "snooze", duration: "1d" }],
+    });
+    // Stored timestamps are UTC
+    expect(Math.abs(muteBots.createdAt.getTime() - Date.now())).toBeLessThan(60_000);
+
+    await syncAll([
+      new MockChannel("github", [
+        makeItem({ id: "r-1", source: "github", author: "dependabot", title: "Bump deps" }),
+        makeItem({ id: "r-2", source: "github", author: "alice", title: "Later: refactor" }),
+        makeItem({ id: "r-3", source: "github", author: "alice", title: "Review me" }),
+      ]),
+    ]);
+
+    expect(getById("r-1")!.status).toBe("dismissed");
+    expect(getById("r-1")!.metadata.tags).toEqual(["bots"]);
+    expect(getById("r-2")!.snoozedUntil!.getTime()).toBeGreaterThan(Date.now());
+    const inboxIds = getInbox().map((i) => i.id);
+    expect(inboxIds).toContain("r-3");
+    expect(inboxIds).not.toContain("r-1");
+    expect(inboxIds).not.toContain("r-2");
+  });
+
+  it("12. snoozed items hide until due, then resurface as new with bumped priority", async () => {
+    const { getDb } = await import("./store/db.js");
+    const { syncAll, getInbox } = await import("./agent/orchestrator.js");
+    const { snoozeItem, wakeSnoozedItems } = await import("./agent/snooze.js");
+    const { getById, updateStatus } = await import("./store/workitems.js");
+
+    getDb();
+    await syncAll([
+      new MockChannel("github", [makeItem({ id: "sz-1", source: "github", priority: "normal" })]),
+    ]);
+
+    const snoozed = snoozeItem("sz-1", "2h", { bump: true });
+    expect(snoozed.status).toBe("snoozed");
+    expect(snoozed.wakePriority).toBe("high");
+    expect(getInbox().map((i) => i.id)).not.toContain("sz-1");
+    expect(getInbox({ status: "snoozed" }).map((i) => i.id)).toContain("sz-1");
+
+    // A re-sync does not unsnooze the item
+    await syncAll([new MockChannel("github", [makeItem({ id: "sz-1", source: "github" })])]);
+    expect(getById("sz-1")!.status).toBe("snoozed");
+
+    expect(wakeSnoozedItems(new Date(Date.now() + 60_000)).map((i) => i.id)).not.toContain("sz-1");
+    const woken = wakeSnoozedItems(new Date(Date.now() + 3 * 60 * 60 * 1000));
+    expect(woken.map((i) => i.id)).toContain("sz-1");
+
+    const item = getById("sz-1")!;
+    expect(item.status).toBe("new");
+    expect(item.priority).toBe("high");
+    expect(item.snoozedUntil).toBeNull();
+
+    // A sync after waking keeps the bumped priority, a higher one still wins
+    await syncAll([
+      new MockChannel("github", [makeItem({ id: "sz-1", source: "github", priority: "normal" })]),
+    ]);
+    expect(getById("sz-1")!.priority).toBe("high");
+    await syncAll([
+      new MockChannel("github", [makeItem({ id: "sz-1", source: "github", priority: "urgent" })]),
+    ]);
+    expect(getById("sz-1")!.priority).toBe("urgent");
+    // Reaching the bumped priority drops it
+    await syncAll([
+      new MockChannel("github", [makeItem({ id: "sz-1", source: "github", priority: "normal" })]),
+    ]);
+    expect(getById("sz-1")!.priority).toBe("normal");
+
+    // So does the next status change
+    snoozeItem("sz-1", "2h", { bump: true });
+    wakeSnoozedItems(new Date(Date.now() + 3 * 60 * 60 * 1000));
+    expect(getById("sz-1")!.priority).toBe("high");
+    updateStatus("sz-1", "done");
+    updateStatus("sz-1", "new");
+    await syncAll([
+      new MockChannel("github", [makeItem({ id: "sz-1", source: "github", priority: "normal" })]),
+    ]);
+    expect(getById("sz-1")!.priority).toBe("normal");
+  });
+
+  it("13. related items are grouped into one conversation with a timeline", async () => {
+    const { getDb } = await import("./store/db.js");
+    const { syncAll, getInbox } = await import("./agent/orchestrator.js");
+    const { groupConversations } = await import("./agent/conversations.js");
+    const { getConversationEvents, markConversationSeen } =
+      await import("./store/conversations.js");
+
+    getDb();
+    const pr = "https://github.com/acme/conv/pull/7";
+    const t0 = new Date(Date.now() - 60_000);
+    await syncAll([
+      new MockChannel("github", [
+        makeItem({
+          id: "cv-notif",
+          source: "github",
+          type: "notification",
+          url: pr,
+          timestamp: t0,
+        }),
+        makeItem({
+          id: "cv-pr",
+          source: "github",
+          type: "pr",
+          url: "",
+          metadata: { repo: "acme/conv", number: 7 },
+          timestamp: t0,
+        }),
+      ]),
+    ]);
+
+    const rows = groupConversations(getInbox()).filter(
+      (r) => r.conversationId === "github:acme/conv#7",
+    );
+    expect(rows).toHaveLength(1);
+    expect(rows[0].conversation).toMatchObject({ itemCount: 2, newEventCount: 2 });
+
+    markConversationSeen("github:acme/conv#7");
+    // An upstream update of a member is a new timeline event
+    await syncAll([
+      new MockChannel("github", [
+        makeItem({ id: "cv-notif", source: "github", type: "notification", url: pr }),
+      ]),
+    ]);
+    const [row] = groupConversations(getInbox()).filter(
+      (r) => r.conversationId === "github:acme/conv#7",
+    );
+    expect(row.conversation!.newEventCount).toBe(1);
+    expect(getConversationEvents("github:acme/conv#7").map((e) => e.kind)).toEqual([
+      "created",
+      "created",
+      "updated",
+    ]);
+  });
+
+  it("14. status changes are recorded in an append-only history", async () => {
+    const { getDb } = await import("./store/db.js");
+    const { syncAll } = await import("./agent/orchestrator.js");
+    const { createRule } = await import("./store/rules.js");
+    const { getHistory, CLI_ACTOR } = await import("./store/history.js");
+    const { updateStatus } = await import("./store/workitems.js");
+
+    const db = getDb();
+    const rule = createRule({
+      name: "Auto-seen bots",
+      match: { author: "history-bot" },
+      actions: [{ type: "set_status", status: "seen" }],
+    });
+    await syncAll([
+      new MockChannel("github", [
+        makeItem({ id: "hist-1", source: "github", author: "history-bot" }),
+      ]),
+    ]);
+
+    updateStatus("hist-1", "done", CLI_ACTOR);
+    updateStatus("hist-1", "done", CLI_ACTOR); // no-op, not recorded
+
+    const history = getHistory("hist-1");
+    expect(history.map((e) => [e.fromStatus, e.toStatus, e.actor.type])).toEqual([
+      ["new", "seen", "rule"],
+      ["seen", "done", "cli"],
+    ]);
+    expect(history[0].actor.id).toBe(rule.id);
+
+    expect(() => db.prepare("DELETE FROM workitem_events").run()).toThrow(/append-only/);
+  });
 });
@@ -0,0 +1,44 @@
+/**
+ * @module store/calendar
+ * The working calendar of the current account: timezone, working days and hours, holidays and
+ * quiet hours. Unset fields fall back to the env defaults (see agent/calendar).
+ */
+
+import { getDb } from "./db.js";
+
+/** A local time window, `HH:MM` to `HH:MM`. */
+export interface TimeWindow {
+  start: string;
+  /** May be before `start` for windows across midnight (quiet hours). */
+  end: string;
+}
+
+export interface WorkCalendar {
+  /** IANA timezone, e.g. `Europe/Berlin`. */
+  timezone: string;
+  /** Working weekdays, 0 = Sunday. */
+  workDays: number[];
+  workHours: TimeWindow;
+  /** Non-working dates, `YYYY-MM-DD`. */
+  holidays: string[];
+  /** When notifications are held back, or null for none. */
+  quietHours: TimeWindow | null;
+}
+
+/** The account's calendar settings, or an empty object if it never changed them. */
+export function getCalendarSettings(): Partial<WorkCalendar> {
+  const row = getDb().prepare("SELECT settings FROM calendar_settings WHERE id = 1").get() as
+    | { settings: string }
+    | undefined;
+  return row ? (JSON.parse(row.settings) as Partial<WorkCalendar>) : {};
+}
+
+/** Store the account's calendar settings (replacing earlier ones). */
+export function saveCalendarSettings(settings: Partial<WorkCalendar>): void {
+  getDb()
+    .prepare(
+      `INSERT INTO calendar_settings (id, settings) VALUES (1, ?)
+       ON CONFLICT(id) DO UPDATE SET settings = excluded.settings, updated_at = datetime('now')`,
+    )
+    .run(JSON.stringify(settings));
+}
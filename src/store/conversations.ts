@@ -0,0 +1,163 @@
+/**
+ * @module store/conversations
+ * Conversations group related work items (same PR, Slack thread, Jira issue, email thread)
+ * and keep an activity timeline of what arrived in them.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import { getDb } from "./db.js";
+
+export interface Conversation {
+  id: string;
+  source: string;
+  title: string;
+  lastActivity: Date;
+  /** Events recorded after this one count as new (0 = nothing seen yet). */
+  lastSeenEventId: number;
+}
+
+/** A single entry in a conversation's activity timeline. */
+export interface ConversationEvent {
+  id: number;
+  conversationId: string;
+  workItemId: string;
+  /** `created` for a newly stored item, `updated` when a stored item changed upstream. */
+  kind: "created" | "updated";
+  type: WorkItem["type"];
+  author: string;
+  summary: string;
+  timestamp: Date;
+}
+
+/** Per-conversation counts shown on a grouped inbox row. */
+export interface ConversationSummary {
+  id: string;
+  itemCount: number;
+  newEventCount: number;
+  lastActivity: Date;
+}
+
+/**
+ * Create a conversation or bump its last activity.
+ * The title is kept from the first item so the row does not flip between member titles.
+ */
+export function upsertConversation(id: string, item: WorkItem): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO conversations (id, source, title, last_activity)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      last_activity = MAX(last_activity, excluded.last_activity)
+  `).run(id, item.source, item.title, item.timestamp.toISOString());
+}
+
+/** Append an item arrival or upstream update to a conversation's timeline. */
+export function addConversationEvent(
+  conversationId: string,
+  item: WorkItem,
+  kind: ConversationEvent["kind"],
+): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO conversation_events (conversation_id, workitem_id, kind, type, author, summary, timestamp)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    conversationId,
+    item.id,
+    kind,
+    item.type,
+    item.author,
+    (item.body || item.title).slice(0, 200),
+    item.timestamp.toISOString(),
+  );
+}
+
+/**
+ * Get a conversation by id.
+ * @returns The conversation, or null if not found
+ */
+export function getConversation(id: string): Conversation | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM conversations WHERE id = ?").get(id) as
+    | Record<string, unknown>
+    | undefined;
+  if (!row) {
+    return null;
+  }
+  return {
+    id: row.id as string,
+    source: row.source as string,
+    title: row.title as string,
+    lastActivity: new Date(row.last_activity as string),
+    lastSeenEventId: row.last_seen_event_id as number,
+  };
+}
+
+/**
+ * Get a conversation's activity timeline, oldest first.
+ * @param id - Conversation ID
+ */
+export function getConversationEvents(id: string): ConversationEvent[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      "SELECT * FROM conversation_events WHERE conversation_id = ? ORDER BY timestamp ASC, id ASC",
+    )
+    .all(id) as Record<string, unknown>[];
+  return rows.map((row) => ({
+    id: row.id as number,
+    conversationId: row.conversation_id as string,
+    workItemId: row.workitem_id as string,
+    kind: row.kind as ConversationEvent["kind"],
+    type: row.type as WorkItem["type"],
+    author: row.author as string,
+    summary: row.summary as string,
+    timestamp: new Date(row.timestamp as string),
+  }));
+}
+
+/**
+ * Item and new-event counts for a set of conversations.
+ * @returns Summary per conversation id (conversations that don't exist are omitted)
+ */
+export function getConversationSummaries(ids: string[]): Map<string, ConversationSummary> {
+  const summaries = new Map<string, ConversationSummary>();
+  if (ids.length === 0) {
+    return summaries;
+  }
+  const db = getDb();
+  const placeholders = ids.map(() => "?").join(",");
+  const rows = db
+    .prepare(`
+    SELECT c.id, c.last_activity,
+      (SELECT COUNT(*) FROM workitems w WHERE w.conversation_id = c.id) AS item_count,
+      (SELECT COUNT(*) FROM conversation_events e
+        WHERE e.conversation_id = c.id AND e.id > c.last_seen_event_id) AS new_event_count
+    FROM conversations c
+    WHERE c.id IN (${placeholders})
+  `)
+    .all(...ids) as Record<string, unknown>[];
+  for (const row of rows) {
+    summaries.set(row.id as string, {
+      id: row.id as string,
+      itemCount: row.item_count as number,
+      newEventCount: row.new_event_count as number,
+      lastActivity: new Date(row.last_activity as string),
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Mark every event recorded so far as seen, resetting the conversation's new-event count.
+ * Uses event ids rather than timestamps so late-arriving older events still count as new.
+ * @param id - Conversation ID
+ */
+export function markConversationSeen(id: string): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE conversations SET last_seen_event_id = COALESCE(
+      (SELECT MAX(id) FROM conversation_events WHERE conversation_id = ?), 0)
+    WHERE id = ?
+  `).run(id, id);
+}
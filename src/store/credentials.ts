@@ -0,0 +1,66 @@
+/**
+ * @module store/credentials
+ * Credential vault: channel credentials of the current account, stored encrypted in its
+ * database (see store/crypto).
+ */
+
+import { decryptSecret, encryptSecret } from "./crypto.js";
+import { getDb } from "./db.js";
+
+/** Env-style settings of one channel, e.g. `{ GITHUB_TOKEN: "..." }`. */
+export type ChannelCredentials = Record<string, string>;
+
+/** A channel with stored credentials (values are never listed). */
+export interface StoredChannel {
+  channel: string;
+  updatedAt: Date;
+}
+
+/**
+ * Decrypted credentials per channel.
+ * @throws Error if stored credentials cannot be decrypted
+ */
+export function getCredentials(): Record<string, ChannelCredentials> {
+  const rows = getDb().prepare("SELECT channel, secret FROM channel_credentials").all() as Array<{
+    channel: string;
+    secret: string;
+  }>;
+  const credentials: Record<string, ChannelCredentials> = {};
+  for (const row of rows) {
+    credentials[row.channel] = JSON.parse(decryptSecret(row.secret)) as ChannelCredentials;
+  }
+  return credentials;
+}
+
+/** Channels with stored credentials. */
+export function getStoredChannels(): StoredChannel[] {
+  const rows = getDb()
+    .prepare("SELECT channel, updated_at FROM channel_credentials ORDER BY channel")
+    .all() as Array<{ channel: string; updated_at: string }>;
+  return rows.map((row) => ({ channel: row.channel, updatedAt: new Date(row.updated_at + "Z") }));
+}
+
+/** Store (replace) the credentials of one channel, encrypted. */
+export function setCredentials(channel: string, credentials: ChannelCredentials): void {
+  getDb()
+    .prepare(
+      `INSERT INTO channel_credentials (channel, secret) VALUES (?, ?)
+       ON CONFLICT(channel) DO UPDATE SET secret = excluded.secret, updated_at = datetime('now')`,
+    )
+    .run(channel, encryptSecret(JSON.stringify(credentials)));
+}
+
+/**
+ * Remove the credentials of one channel.
+ * @returns Whether any were stored
+ */
+export function deleteCredentials(channel: string): boolean {
+  return (
+    getDb().prepare("DELETE FROM channel_credentials WHERE channel = ?").run(channel).changes > 0
+  );
+}
+
+/** Remove all stored credentials. */
+export function clearCredentials(): void {
+  getDb().prepare("DELETE FROM channel_credentials").run();
+}
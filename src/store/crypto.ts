@@ -0,0 +1,95 @@
+/**
+ * @module store/crypto
+ * Encryption of stored channel credentials with AES-256-GCM.
+ * The key is derived from the master secret: `SOTERFLOW_SECRET_KEY`, or else the keyfile at
+ * `SOTERFLOW_KEY_FILE` (created with a random secret on first use, readable only by its owner).
+ * Losing the master secret makes stored credentials unreadable.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { env } from "../soterflow-env.js";
+
+const FORMAT_VERSION = "v1";
+const KEY_SALT = "soterflow-credentials";
+
+let cachedKey: { secret: string; key: Buffer } | null = null;
+
+/**
+ * The master secret: `SOTERFLOW_SECRET_KEY`, or the contents of the keyfile, which is created
+ * on first use.
+ */
+export function masterSecret(): string {
+  if (env.SOTERFLOW_SECRET_KEY) {
+    return env.SOTERFLOW_SECRET_KEY;
+  }
+  const file = env.SOTERFLOW_KEY_FILE;
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    try {
+      // "wx" fails if another process created the file first; its key is used then
+      fs.writeFileSync(file, `${crypto.randomBytes(32).toString("base64")}\n`, {
+        mode: 0o600,
+        flag: "wx",
+      });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw err;
+      }
+    }
+  }
+  return fs.readFileSync(file, "utf8").trim();
+}
+
+function deriveKey(secret: string): Buffer {
+  if (!secret) {
+    throw new Error("No master key: set SOTERFLOW_SECRET_KEY or SOTERFLOW_KEY_FILE");
+  }
+  if (cachedKey?.secret !== secret) {
+    cachedKey = { secret, key: crypto.scryptSync(secret, KEY_SALT, 32) };
+  }
+  return cachedKey.key;
+}
+
+/**
+ * Encrypt a string.
+ * @returns `v1:<iv>:<auth tag>:<ciphertext>`, base64 parts
+ * @throws Error if the master secret is empty
+ */
+export function encryptSecret(plaintext: string, secret = masterSecret()): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [
+    FORMAT_VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypt a value produced by {@link encryptSecret}.
+ * @throws Error if the value is malformed, was tampered with, or the key is wrong
+ */
+export function decryptSecret(value: string, secret = masterSecret()): string {
+  const [version, iv, tag, ciphertext] = value.split(":");
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unsupported credential format");
+  }
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(secret),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new Error("Could not decrypt credentials (wrong master key?)");
+  }
+}
@@ -7,37 +7,70 @@ import Database from "better-sqlite3";
 import fs from "fs";
 import path from "path";
 import { env } from "../soterflow-env.js";
+import { currentUser } from "./scope.js";
 
-let db: Database.Database | null = null;
+/** Open databases by path: the default one plus one per user (see store/scope). */
+const dbs = new Map<string, Database.Database>();
+let accountsDb: Database.Database | null = null;
 
-/** Get the database path from env or default. */
+/** Get the database path of the current user, or the default from env. */
 function getDbPath(): string {
-  return env.SOTERFLOW_DB_PATH;
+  return currentUser()?.dbPath ?? env.SOTERFLOW_DB_PATH;
 }
 
-/**
- * Initialize the SQLite database, run migrations, and return the instance.
- * Safe to call multiple times — returns cached instance.
- */
-export function getDb(): Database.Database {
-  if (db) {
-    return db;
-  }
-
-  const dbPath = getDbPath();
+/** Open a SQLite file (creating its directory) with the pragmas every SoterFlow DB uses. */
+function openDatabase(dbPath: string): Database.Database {
   const dir = path.dirname(dbPath);
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 
-  db = new Database(dbPath);
+  const db = new Database(dbPath);
   db.pragma("journal_mode = WAL");
   db.pragma("foreign_keys = ON");
+  return db;
+}
+
+/**
+ * Initialize the SQLite database of the current user (or the default one), run migrations,
+ * and return the instance.
+ * Safe to call multiple times — returns cached instance.
+ */
+export function getDb(): Database.Database {
+  const dbPath = getDbPath();
+  let db = dbs.get(dbPath);
+  if (db) {
+    return db;
+  }
 
+  db = openDatabase(dbPath);
   runMigrations(db);
+  dbs.set(dbPath, db);
   return db;
 }
 
+/**
+ * The shared accounts database: users and roles (multi-user mode).
+ * Not affected by the user scope.
+ */
+export function getAccountsDb(): Database.Database {
+  if (accountsDb) {
+    return accountsDb;
+  }
+
+  accountsDb = openDatabase(env.SOTERFLOW_ACCOUNTS_DB_PATH);
+  accountsDb.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      telegram_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL DEFAULT '',
+      role TEXT NOT NULL DEFAULT 'member' CHECK(role IN ('admin', 'member')),
+      db_path TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+  return accountsDb;
+}
+
 /** Run all schema migrations. */
 function runMigrations(db: Database.Database): void {
   db.exec(`
@@ -105,6 +138,66 @@ function runMigrations(db: Database.Database): void {
       updated_at TEXT NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS rules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      position INTEGER NOT NULL DEFAULT 0,
+      match TEXT NOT NULL DEFAULT '{}',
+      actions TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS conversations (
+      id TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      title TEXT NOT NULL,
+      last_activity TEXT NOT NULL,
+      last_seen_event_id INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS conversation_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      conversation_id TEXT NOT NULL,
+      workitem_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      type TEXT NOT NULL,
+      author TEXT NOT NULL DEFAULT '',
+      summary TEXT NOT NULL DEFAULT '',
+      timestamp TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_conversation_events_conv
+      ON conversation_events(conversation_id, timestamp);
+
+    -- Append-only audit log of status changes and channel actions per work item
+    CREATE TABLE IF NOT EXISTS workitem_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workitem_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      action TEXT,
+      from_status TEXT,
+      to_status TEXT,
+      params TEXT,
+      result TEXT,
+      error TEXT,
+      actor_type TEXT NOT NULL,
+      actor_id TEXT,
+      actor_name TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_workitem_events_item ON workitem_events(workitem_id, id);
+
+    CREATE TRIGGER IF NOT EXISTS workitem_events_no_update BEFORE UPDATE ON workitem_events BEGIN
+      SELECT RAISE(ABORT, 'workitem_events is append-only');
+    END;
+    CREATE TRIGGER IF NOT EXISTS workitem_events_no_delete BEFORE DELETE ON workitem_events BEGIN
+      SELECT RAISE(ABORT, 'workitem_events is append-only');
+    END;
+
     CREATE TABLE IF NOT EXISTS sub_agents (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
@@ -116,13 +209,119 @@ function runMigrations(db: Database.Database): void {
       completed_at TEXT,
       error TEXT
     );
+
+    -- Links between items that reference each other across sources (see agent/links),
+    -- one row per direction
+    CREATE TABLE IF NOT EXISTS workitem_links (
+      item_id TEXT NOT NULL,
+      linked_id TEXT NOT NULL,
+      ref TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (item_id, linked_id)
+    );
+
+    -- Approvals of destructive actions requested by sub-agents (see agent/approvals);
+    -- decided_by is the actor JSON
+    CREATE TABLE IF NOT EXISTS agent_approvals (
+      id TEXT PRIMARY KEY,
+      agent_id TEXT NOT NULL,
+      item_id TEXT NOT NULL,
+      skill TEXT NOT NULL,
+      action TEXT NOT NULL,
+      params TEXT,
+      classification TEXT NOT NULL,
+      status TEXT NOT NULL,
+      requested_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      decided_at TEXT,
+      decided_by TEXT,
+      telegram_message_id INTEGER
+    );
+
+    -- Webhook deliveries already processed, to drop replays (see store/webhooks)
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      source TEXT NOT NULL,
+      delivery_id TEXT NOT NULL,
+      received_at TEXT NOT NULL,
+      PRIMARY KEY (source, delivery_id)
+    );
+
+    -- Webhook payloads that could not be turned into work items, kept for retry
+    CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL,
+      event TEXT NOT NULL,
+      delivery_id TEXT,
+      payload TEXT NOT NULL,
+      error TEXT NOT NULL,
+      received_at TEXT NOT NULL
+    );
+
+    -- Credential vault: secret is the AES-256-GCM encrypted JSON of the channel's env-style
+    -- settings (see store/crypto)
+    CREATE TABLE IF NOT EXISTS channel_credentials (
+      channel TEXT PRIMARY KEY,
+      secret TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- Daily digest settings of the account (a single row; NULL falls back to the env default)
+    CREATE TABLE IF NOT EXISTS digest_settings (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      time TEXT,
+      email TEXT,
+      last_sent_on TEXT
+    );
+
+    -- Working calendar of the account (a single row; JSON of the fields that differ from the
+    -- env defaults, see store/calendar)
+    CREATE TABLE IF NOT EXISTS calendar_settings (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      settings TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
   `);
+
+  // Columns added after the initial schema
+  addColumnIfMissing(db, "workitems", "snoozed_until", "TEXT DEFAULT NULL");
+  addColumnIfMissing(db, "workitems", "wake_priority", "TEXT DEFAULT NULL");
+  // Lowest priority a sync may set, kept from the wake priority of a snooze
+  addColumnIfMissing(db, "workitems", "priority_floor", "TEXT DEFAULT NULL");
+  addColumnIfMissing(db, "workitems", "conversation_id", "TEXT DEFAULT NULL");
+  // Response-time tracking (see store/history); items stored before it count from created_at
+  addColumnIfMissing(db, "workitems", "first_seen_at", "TEXT DEFAULT NULL");
+  db.exec(
+    "UPDATE workitems SET first_seen_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE first_seen_at IS NULL",
+  );
+  addColumnIfMissing(db, "workitems", "first_action_at", "TEXT DEFAULT NULL");
+  addColumnIfMissing(db, "workitems", "done_at", "TEXT DEFAULT NULL");
+  // Director sub-agents: the skill action run and its progress steps (JSON)
+  addColumnIfMissing(db, "sub_agents", "action", "TEXT DEFAULT NULL");
+  addColumnIfMissing(db, "sub_agents", "progress", "TEXT DEFAULT NULL");
+  db.exec("CREATE INDEX IF NOT EXISTS idx_workitems_conversation ON workitems(conversation_id)");
 }
 
-/** Close the database connection. */
+/** Add a column to an existing table (SQLite has no ADD COLUMN IF NOT EXISTS). */
+function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/** Close all database connections. */
 export function closeDb(): void {
-  if (db) {
+  for (const db of dbs.values()) {
     db.close();
-    db = null;
+  }
+  dbs.clear();
+  if (accountsDb) {
+    accountsDb.close();
+    accountsDb = null;
   }
 }
@@ -0,0 +1,54 @@
+/**
+ * @module store/digest
+ * Daily digest settings of the current account and the day it was last sent.
+ */
+
+import { env } from "../soterflow-env.js";
+import { getDb } from "./db.js";
+
+export interface DigestSettings {
+  /** Local time (`HH:MM`) the digest is sent at, or "" when scheduled digests are off. */
+  time: string;
+  /** Address the digest is also e-mailed to, or "" for Telegram only. */
+  email: string;
+  /** Local date (`YYYY-MM-DD`) of the last scheduled digest, or null if none was sent. */
+  lastSentOn: string | null;
+}
+
+/** Digest settings, falling back to `SOTERFLOW_DIGEST_TIME`/`SOTERFLOW_DIGEST_EMAIL`. */
+export function getDigestSettings(): DigestSettings {
+  const row = getDb().prepare("SELECT * FROM digest_settings WHERE id = 1").get() as
+    | Record<string, string | null>
+    | undefined;
+  return {
+    time: row?.time ?? env.SOTERFLOW_DIGEST_TIME,
+    email: row?.email ?? env.SOTERFLOW_DIGEST_EMAIL,
+    lastSentOn: row?.last_sent_on ?? null,
+  };
+}
+
+/**
+ * Change the digest time or address ("" turns it off). Omitted fields keep their value.
+ * @returns The updated settings
+ */
+export function updateDigestSettings(changes: { time?: string; email?: string }): DigestSettings {
+  getDb()
+    .prepare(
+      `INSERT INTO digest_settings (id, time, email) VALUES (1, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         time = COALESCE(excluded.time, time),
+         email = COALESCE(excluded.email, email)`,
+    )
+    .run(changes.time ?? null, changes.email ?? null);
+  return getDigestSettings();
+}
+
+/** Record that the scheduled digest of the given local date was sent. */
+export function markDigestSent(day: string): void {
+  getDb()
+    .prepare(
+      `INSERT INTO digest_settings (id, last_sent_on) VALUES (1, ?)
+       ON CONFLICT(id) DO UPDATE SET last_sent_on = excluded.last_sent_on`,
+    )
+    .run(day);
+}
@@ -0,0 +1,133 @@
+/**
+ * @module store/history
+ * Append-only audit log of work item status changes and channel actions.
+ */
+
+import type { WorkItem } from "../channels/base.js";
+import { getDb } from "./db.js";
+
+/** Who triggered a change. */
+export interface Actor {
+  type: "telegram" | "cli" | "rule" | "agent" | "system";
+  /** Telegram user id, rule id, agent id, ... */
+  id?: string;
+  name?: string;
+}
+
+export const CLI_ACTOR: Actor = { type: "cli" };
+export const SYSTEM_ACTOR: Actor = { type: "system" };
+
+export interface WorkItemEvent {
+  id: number;
+  workItemId: string;
+  kind: "status_change" | "action";
+  /** Channel action name (for `action` events). */
+  action: string | null;
+  fromStatus: WorkItem["status"] | null;
+  toStatus: WorkItem["status"] | null;
+  params: Record<string, unknown> | null;
+  result: unknown;
+  error: string | null;
+  actor: Actor;
+  createdAt: Date;
+}
+
+export type WorkItemEventInput = Pick<WorkItemEvent, "workItemId" | "kind"> &
+  Partial<
+    Pick<WorkItemEvent, "action" | "fromStatus" | "toStatus" | "params" | "result" | "error">
+  > & {
+    actor: Actor;
+  };
+
+/**
+ * Append an event to an item's history.
+ * @returns The id of the new event
+ */
+export function recordEvent(event: WorkItemEventInput): number {
+  const db = getDb();
+  const createdAt = new Date().toISOString();
+  const info = db
+    .prepare(`
+    INSERT INTO workitem_events
+      (workitem_id, kind, action, from_status, to_status, params, result, error,
+       actor_type, actor_id, actor_name, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+    .run(
+      event.workItemId,
+      event.kind,
+      event.action ?? null,
+      event.fromStatus ?? null,
+      event.toStatus ?? null,
+      event.params ? JSON.stringify(event.params) : null,
+      event.result !== undefined ? JSON.stringify(event.result) : null,
+      event.error ?? null,
+      event.actor.type,
+      event.actor.id ?? null,
+      event.actor.name ?? null,
+      createdAt,
+    );
+  trackResponseTimes(event, createdAt);
+  return Number(info.lastInsertRowid);
+}
+
+/** Status changes that count as responding to an item. */
+const RESPONSE_STATUSES = new Set<WorkItem["status"]>(["in_progress", "done", "dismissed"]);
+
+/**
+ * Keep the item's `first_action_at` and `done_at` in step with its history, for response-time
+ * metrics. Failed or cancelled actions, rules and system changes (snooze wake-ups) are not
+ * responses.
+ */
+function trackResponseTimes(event: WorkItemEventInput, at: string): void {
+  const db = getDb();
+  const byPerson = event.actor.type !== "rule" && event.actor.type !== "system";
+  const responded =
+    event.kind === "action"
+      ? !event.error && (event.result as { cancelled?: boolean } | undefined)?.cancelled !== true
+      : !!event.toStatus && RESPONSE_STATUSES.has(event.toStatus);
+  if (byPerson && responded) {
+    db.prepare(
+      "UPDATE workitems SET first_action_at = COALESCE(first_action_at, ?) WHERE id = ?",
+    ).run(at, event.workItemId);
+  }
+  if (event.kind === "status_change" && event.toStatus !== event.fromStatus) {
+    if (event.toStatus === "done") {
+      db.prepare("UPDATE workitems SET done_at = ? WHERE id = ?").run(at, event.workItemId);
+    } else if (event.fromStatus === "done") {
+      db.prepare("UPDATE workitems SET done_at = NULL WHERE id = ?").run(event.workItemId);
+    }
+  }
+}
+
+/**
+ * Get the history of a work item, oldest first.
+ * @param workItemId - Work item ID
+ */
+export function getHistory(workItemId: string): WorkItemEvent[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM workitem_events WHERE workitem_id = ? ORDER BY id ASC")
+    .all(workItemId) as Record<string, unknown>[];
+  return rows.map(rowToEvent);
+}
+
+function rowToEvent(row: Record<string, unknown>): WorkItemEvent {
+  return {
+    id: row.id as number,
+    workItemId: row.workitem_id as string,
+    kind: row.kind as WorkItemEvent["kind"],
+    action: (row.action as string | null) ?? null,
+    fromStatus: (row.from_status as WorkItem["status"] | null) ?? null,
+    toStatus: (row.to_status as WorkItem["status"] | null) ?? null,
+    params: row.params ? JSON.parse(row.params as string) : null,
+    result: row.result ? JSON.parse(row.result as string) : null,
+    error: (row.error as string | null) ?? null,
+    actor: {
+      type: row.actor_type as Actor["type"],
+      id: (row.actor_id as string | null) ?? undefined,
+      name: (row.actor_name as string | null) ?? undefined,
+    },
+    createdAt: new Date(row.created_at as string),
+  };
+}
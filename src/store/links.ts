@@ -0,0 +1,59 @@
+/**
+ * @module store/links
+ * Links between work items of different sources that reference each other (a PR naming a
+ * Jira key, a Slack message with a PR URL). Each link is stored in both directions.
+ */
+
+import { getDb } from "./db.js";
+
+export interface WorkItemLink {
+  itemId: string;
+  linkedId: string;
+  /** The reference that produced the link, e.g. `jira:PROJ-123` or `github:acme/api#42`. */
+  ref: string;
+  createdAt: Date;
+}
+
+/**
+ * Store links in both directions; links that already exist are kept as they are.
+ * @returns How many links were new
+ */
+export function addLinks(links: Array<Pick<WorkItemLink, "itemId" | "linkedId" | "ref">>): number {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO workitem_links (item_id, linked_id, ref, created_at) VALUES (?, ?, ?, ?)`,
+  );
+  let added = 0;
+  db.transaction(() => {
+    const now = new Date().toISOString();
+    for (const { itemId, linkedId, ref } of links) {
+      if (itemId === linkedId) {
+        continue;
+      }
+      const changes =
+        insert.run(itemId, linkedId, ref, now).changes +
+        insert.run(linkedId, itemId, ref, now).changes;
+      added += changes > 0 ? 1 : 0;
+    }
+  })();
+  return added;
+}
+
+/** Links of the given items, oldest first. */
+export function getLinks(itemIds: string[]): WorkItemLink[] {
+  if (itemIds.length === 0) {
+    return [];
+  }
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM workitem_links WHERE item_id IN (${itemIds.map(() => "?").join(", ")})
+       ORDER BY created_at, linked_id`,
+    )
+    .all(...itemIds) as Array<Record<string, string>>;
+  return rows.map((r) => ({
+    itemId: r.item_id,
+    linkedId: r.linked_id,
+    ref: r.ref,
+    createdAt: new Date(r.created_at),
+  }));
+}
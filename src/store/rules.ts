@@ -0,0 +1,153 @@
+/**
+ * @module store/rules
+ * CRUD for user-defined inbox rules (priority, routing and auto-status).
+ */
+
+import { randomUUID } from "node:crypto";
+import type { WorkItem } from "../channels/base.js";
+import { getDb } from "./db.js";
+
+/** Conditions a work item must meet for a rule to apply. All set fields must match. */
+export interface RuleMatch {
+  source?: string;
+  type?: WorkItem["type"];
+  author?: string;
+  /** GitHub `owner/repo`. */
+  repo?: string;
+  /** Jira project key, e.g. `PROJ`. */
+  jiraProject?: string;
+  /** Jira workflow status name, e.g. `In Review`. */
+  jiraStatus?: string;
+  /** Matches when the item carries any of these labels. */
+  labels?: string[];
+  /** Case-insensitive regular expression tested against the title. */
+  titleRegex?: string;
+  /** Case-insensitive regular expression tested against the body. */
+  bodyRegex?: string;
+}
+
+/** What a matching rule does to an item. */
+export type RuleAction =
+  | { type: "set_priority"; priority: WorkItem["priority"] }
+  | { type: "set_status"; status: Exclude<WorkItem["status"], "new"> }
+  | { type: "add_tag"; tag: string }
+  | { type: "snooze"; duration: string }
+  /** Notify even during quiet hours. */
+  | { type: "break_through" };
+
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Evaluation order — later rules override earlier ones. */
+  position: number;
+  match: RuleMatch;
+  actions: RuleAction[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Fields accepted when creating or updating a rule. */
+export type RuleInput = Pick<Rule, "name" | "match" | "actions"> &
+  Partial<Pick<Rule, "enabled" | "position">>;
+
+/**
+ * Get all rules in evaluation order.
+ * @param enabledOnly - Only return enabled rules
+ */
+export function getRules(enabledOnly = false): Rule[] {
+  const db = getDb();
+  const where = enabledOnly ? "WHERE enabled = 1" : "";
+  const rows = db
+    .prepare(`SELECT * FROM rules ${where} ORDER BY position ASC, created_at ASC`)
+    .all() as Record<string, unknown>[];
+  return rows.map(rowToRule);
+}
+
+/**
+ * Get a single rule by id.
+ * @returns The rule, or null if not found
+ */
+export function getRule(id: string): Rule | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM rules WHERE id = ?").get(id) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? rowToRule(row) : null;
+}
+
+/**
+ * Create a rule. New rules go last unless a position is given.
+ * @returns The stored rule
+ */
+export function createRule(input: RuleInput): Rule {
+  const db = getDb();
+  const id = randomUUID();
+  const position =
+    input.position ??
+    (
+      db.prepare("SELECT COALESCE(MAX(position), -1) + 1 AS next FROM rules").get() as {
+        next: number;
+      }
+    ).next;
+  db.prepare(`
+    INSERT INTO rules (id, name, enabled, position, match, actions)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    input.name,
+    input.enabled === false ? 0 : 1,
+    position,
+    JSON.stringify(input.match),
+    JSON.stringify(input.actions),
+  );
+  return getRule(id)!;
+}
+
+/**
+ * Update a rule. Omitted fields keep their current value.
+ * @returns The updated rule, or null if not found
+ */
+export function updateRule(id: string, input: Partial<RuleInput>): Rule | null {
+  const existing = getRule(id);
+  if (!existing) {
+    return null;
+  }
+  const merged = { ...existing, ...input };
+  const db = getDb();
+  db.prepare(`
+    UPDATE rules SET name = ?, enabled = ?, position = ?, match = ?, actions = ?,
+      updated_at = datetime('now')
+    WHERE id = ?
+  `).run(
+    merged.name,
+    merged.enabled ? 1 : 0,
+    merged.position,
+    JSON.stringify(merged.match),
+    JSON.stringify(merged.actions),
+    id,
+  );
+  return getRule(id);
+}
+
+/**
+ * Delete a rule.
+ * @returns Whether a rule was deleted
+ */
+export function deleteRule(id: string): boolean {
+  const db = getDb();
+  return db.prepare("DELETE FROM rules WHERE id = ?").run(id).changes > 0;
+}
+
+function rowToRule(row: Record<string, unknown>): Rule {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    enabled: row.enabled === 1,
+    position: row.position as number,
+    match: JSON.parse(row.match as string),
+    actions: JSON.parse(row.actions as string),
+    createdAt: new Date((row.created_at as string) + "Z"),
+    updatedAt: new Date((row.updated_at as string) + "Z"),
+  };
+}
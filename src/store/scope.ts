@@ -0,0 +1,35 @@
+/**
+ * @module store/scope
+ * The account a piece of work runs for. Inside {@link runAsUser} the store functions use that
+ * user's own database; outside any scope they use the default database (single-user mode, CLI).
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/** A SoterFlow account: a Telegram user and the database holding their data. */
+export interface UserScope {
+  /** Telegram user ID. */
+  userId: string;
+  /** Path of the user's SQLite database. */
+  dbPath: string;
+}
+
+const storage = new AsyncLocalStorage<UserScope>();
+
+/**
+ * Run `fn` as the given user. The scope follows async work started inside it
+ * (awaits, timers, event handlers).
+ */
+export function runAsUser<T>(scope: UserScope, fn: () => T): T {
+  return storage.run(scope, fn);
+}
+
+/** The user the current code runs as, or undefined outside any user scope. */
+export function currentUser(): UserScope | undefined {
+  return storage.getStore();
+}
+
+/** Key for per-user caches: the user ID, or "" outside any user scope. */
+export function scopeKey(): string {
+  return storage.getStore()?.userId ?? "";
+}
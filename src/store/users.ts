@@ -0,0 +1,208 @@
+/**
+ * @module store/users
+ * SoterFlow accounts for multi-user mode: the Telegram user allowlist and roles. Every user has
+ * their own SQLite database (see store/scope), including their credential vault.
+ *
+ * Multi-user mode is on when `SOTERFLOW_ADMIN_USERS` lists at least one Telegram user ID.
+ * The first listed admin owns the pre-existing database and env tokens.
+ */
+
+import path from "node:path";
+import { env } from "../soterflow-env.js";
+import {
+  clearCredentials,
+  getStoredChannels,
+  setCredentials,
+  type ChannelCredentials,
+} from "./credentials.js";
+import { getAccountsDb } from "./db.js";
+import { runAsUser, type UserScope } from "./scope.js";
+
+export type UserRole = "admin" | "member";
+
+export interface User {
+  /** Telegram user ID. */
+  telegramId: string;
+  name: string;
+  role: UserRole;
+  /** Path of the user's SQLite database. */
+  dbPath: string;
+  createdAt: Date;
+}
+
+/**
+ * Parse a comma-separated list of Telegram user IDs.
+ * @returns Numeric IDs as strings, without duplicates
+ */
+export function parseUserIds(spec: string): string[] {
+  const ids = spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => /^\d+$/.test(s));
+  return [...new Set(ids)];
+}
+
+/** Whether SoterFlow serves one account per Telegram user. */
+export function isMultiUser(): boolean {
+  return parseUserIds(env.SOTERFLOW_ADMIN_USERS).length > 0;
+}
+
+function rowToUser(row: Record<string, unknown>): User {
+  return {
+    telegramId: row.telegram_id as string,
+    name: row.name as string,
+    role: row.role as UserRole,
+    dbPath: row.db_path as string,
+    createdAt: new Date((row.created_at as string) + "Z"),
+  };
+}
+
+/** All users, oldest first. */
+export function getUsers(): User[] {
+  const rows = getAccountsDb()
+    .prepare("SELECT * FROM users ORDER BY created_at ASC, rowid ASC")
+    .all() as Record<string, unknown>[];
+  return rows.map(rowToUser);
+}
+
+/**
+ * Get a user by Telegram ID.
+ * @returns The user, or null if not found
+ */
+export function getUser(telegramId: string): User | null {
+  const row = getAccountsDb()
+    .prepare("SELECT * FROM users WHERE telegram_id = ?")
+    .get(telegramId) as Record<string, unknown> | undefined;
+  return row ? rowToUser(row) : null;
+}
+
+/**
+ * Add a user to the allowlist. New users get an empty database under `SOTERFLOW_USERS_DIR`
+ * unless `dbPath` is given.
+ * @throws Error if the ID is not numeric or the user already exists
+ */
+export function createUser(
+  telegramId: string,
+  options: { name?: string; role?: UserRole; dbPath?: string } = {},
+): User {
+  if (!/^\d+$/.test(telegramId)) {
+    throw new Error("telegramId must be a numeric Telegram user ID");
+  }
+  if (getUser(telegramId)) {
+    throw new Error(`User ${telegramId} already exists`);
+  }
+  getAccountsDb()
+    .prepare("INSERT INTO users (telegram_id, name, role, db_path) VALUES (?, ?, ?, ?)")
+    .run(
+      telegramId,
+      options.name ?? "",
+      options.role ?? "member",
+      options.dbPath ?? path.join(env.SOTERFLOW_USERS_DIR, `${telegramId}.db`),
+    );
+  return getUser(telegramId)!;
+}
+
+/**
+ * Change a user's name or role.
+ * @returns The updated user, or null if not found
+ */
+export function updateUser(
+  telegramId: string,
+  changes: { name?: string; role?: UserRole },
+): User | null {
+  const user = getUser(telegramId);
+  if (!user) {
+    return null;
+  }
+  getAccountsDb()
+    .prepare("UPDATE users SET name = ?, role = ? WHERE telegram_id = ?")
+    .run(changes.name ?? user.name, changes.role ?? user.role, telegramId);
+  return getUser(telegramId);
+}
+
+/**
+ * Remove a user and their credentials. The rest of their database is kept.
+ * @returns Whether the user existed
+ */
+export function deleteUser(telegramId: string): boolean {
+  const user = getUser(telegramId);
+  if (!user) {
+    return false;
+  }
+  runAsUser(scopeFor(user), clearCredentials);
+  getAccountsDb().prepare("DELETE FROM users WHERE telegram_id = ?").run(telegramId);
+  return true;
+}
+
+/**
+ * Look up the account for a Telegram user who just authenticated. IDs listed in
+ * `SOTERFLOW_ADMIN_USERS` or `SOTERFLOW_ALLOWED_USERS` get an account on first login.
+ * @returns The user, or null if they are not on the allowlist
+ */
+export function authorizeUser(telegramId: string, name: string): User | null {
+  const user = getUser(telegramId);
+  if (user) {
+    return user.name === name ? user : updateUser(telegramId, { name });
+  }
+  if (parseUserIds(env.SOTERFLOW_ADMIN_USERS).includes(telegramId)) {
+    return createUser(telegramId, { name, role: "admin" });
+  }
+  if (parseUserIds(env.SOTERFLOW_ALLOWED_USERS).includes(telegramId)) {
+    return createUser(telegramId, { name });
+  }
+  return null;
+}
+
+/** The first configured admin, who owns the pre-multi-user database and env tokens. */
+export function getOwner(): User | null {
+  const [ownerId] = parseUserIds(env.SOTERFLOW_ADMIN_USERS);
+  return ownerId ? getUser(ownerId) : null;
+}
+
+/** Store scope for a user. */
+export function scopeFor(user: User): UserScope {
+  return { userId: user.telegramId, dbPath: user.dbPath };
+}
+
+/**
+ * Run `fn` once per account: in each user's scope in multi-user mode, or once unscoped
+ * otherwise.
+ */
+export function forEachAccount(fn: () => void): void {
+  if (!isMultiUser()) {
+    fn();
+    return;
+  }
+  for (const user of getUsers()) {
+    runAsUser(scopeFor(user), fn);
+  }
+}
+
+/**
+ * Move single-user mode into the first admin's account: on the first start in multi-user mode,
+ * that admin is created with the existing database, and the given (env) credentials are put in
+ * its vault.
+ * @param credentials - Channel credentials configured in the environment
+ * @returns The created owner, or null if there was nothing to migrate
+ */
+export function migrateSingleUser(credentials: Record<string, ChannelCredentials>): User | null {
+  const [ownerId] = parseUserIds(env.SOTERFLOW_ADMIN_USERS);
+  if (!ownerId || getUsers().length > 0) {
+    return null;
+  }
+  const owner = createUser(ownerId, {
+    name: "owner",
+    role: "admin",
+    dbPath: env.SOTERFLOW_DB_PATH,
+  });
+  runAsUser(scopeFor(owner), () => {
+    const stored = new Set(getStoredChannels().map((c) => c.channel));
+    for (const [channel, values] of Object.entries(credentials)) {
+      // Credentials already in the vault win over the environment
+      if (!stored.has(channel)) {
+        setCredentials(channel, values);
+      }
+    }
+  });
+  return owner;
+}
@@ -0,0 +1,102 @@
+/**
+ * @module store/webhooks
+ * Webhook bookkeeping: the deliveries already processed, so replays are dropped, and the
+ * payloads that could not be turned into work items (dead letters), kept for inspection and
+ * retry.
+ */
+
+import { getDb } from "./db.js";
+
+/** How long processed delivery ids are remembered. */
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface DeadLetter {
+  id: number;
+  source: string;
+  /** Event type, e.g. `issues`, `jira:issue_updated` or `app_mention`. */
+  event: string;
+  deliveryId: string | null;
+  payload: unknown;
+  error: string;
+  receivedAt: Date;
+}
+
+export type DeadLetterInput = Pick<DeadLetter, "source" | "event" | "payload" | "error"> & {
+  deliveryId?: string | null;
+};
+
+/**
+ * Remember a delivery; deliveries older than a week are forgotten.
+ * @returns True if the delivery is new, false if it was processed before (a replay)
+ */
+export function recordDelivery(source: string, deliveryId: string): boolean {
+  const db = getDb();
+  const now = Date.now();
+  db.prepare(`DELETE FROM webhook_deliveries WHERE received_at < ?`).run(
+    new Date(now - DELIVERY_RETENTION_MS).toISOString(),
+  );
+  const info = db
+    .prepare(
+      `INSERT OR IGNORE INTO webhook_deliveries (source, delivery_id, received_at) VALUES (?, ?, ?)`,
+    )
+    .run(source, deliveryId, new Date(now).toISOString());
+  return info.changes > 0;
+}
+
+/**
+ * Store a payload that failed to map.
+ * @returns The id of the dead letter
+ */
+export function addDeadLetter(letter: DeadLetterInput): number {
+  const info = getDb()
+    .prepare(
+      `INSERT INTO webhook_dead_letters (source, event, delivery_id, payload, error, received_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      letter.source,
+      letter.event,
+      letter.deliveryId ?? null,
+      JSON.stringify(letter.payload),
+      letter.error,
+      new Date().toISOString(),
+    );
+  return Number(info.lastInsertRowid);
+}
+
+/** Dead letters, newest first. */
+export function getDeadLetters(limit = 50): DeadLetter[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM webhook_dead_letters ORDER BY id DESC LIMIT ?`)
+    .all(limit) as Array<Record<string, unknown>>;
+  return rows.map(rowToDeadLetter);
+}
+
+export function getDeadLetter(id: number): DeadLetter | null {
+  const row = getDb().prepare(`SELECT * FROM webhook_dead_letters WHERE id = ?`).get(id) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? rowToDeadLetter(row) : null;
+}
+
+/** Record the error of a failed retry. */
+export function updateDeadLetterError(id: number, error: string): void {
+  getDb().prepare(`UPDATE webhook_dead_letters SET error = ? WHERE id = ?`).run(error, id);
+}
+
+/** @returns True if the dead letter existed */
+export function deleteDeadLetter(id: number): boolean {
+  return getDb().prepare(`DELETE FROM webhook_dead_letters WHERE id = ?`).run(id).changes > 0;
+}
+
+function rowToDeadLetter(r: Record<string, unknown>): DeadLetter {
+  return {
+    id: r.id as number,
+    source: r.source as string,
+    event: r.event as string,
+    deliveryId: (r.delivery_id as string | null) ?? null,
+    payload: JSON.parse(r.payload as string) as unknown,
+    error: r.error as string,
+    receivedAt: new Date(r.received_at as string),
+  };
+}
@@ -3,8 +3,9 @@
  * CRUD operations for work items in the SQLite store.
  */
 
-import type { WorkItem } from "../channels/base";
-import { getDb } from "./db";
+import type { WorkItem } from "../channels/base.js";
+import { getDb } from "./db.js";
+import { recordEvent, SYSTEM_ACTOR, type Actor } from "./history.js";
 
 /** Filter options for querying work items. */
 export interface WorkItemFilters {
@@ -14,23 +15,37 @@ export interface WorkItemFilters {
   since?: string;
 }
 
+/** Rank of a priority column, lower is more urgent. */
+function priorityRank(column: string): string {
+  return `CASE ${column} WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END`;
+}
+
 /**
- * Insert or update a work item. Matching is by id.
+ * Insert or update a work item. Matching is by id. An update keeps the priority at or above
+ * the item's priority floor (the priority a snooze woke it with); the floor is dropped once
+ * the source's own priority reaches it.
  * @param item - The WorkItem to upsert
  */
 export function upsert(item: WorkItem): void {
   const db = getDb();
   db.prepare(`
-    INSERT INTO workitems (id, source, type, title, body, author, timestamp, priority, url, metadata, status, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    INSERT INTO workitems (id, source, type, title, body, author, timestamp, priority, url, metadata, status, snoozed_until, wake_priority, conversation_id, first_seen_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
     ON CONFLICT(id) DO UPDATE SET
       title = excluded.title,
       body = excluded.body,
       author = excluded.author,
       timestamp = excluded.timestamp,
-      priority = excluded.priority,
+      priority = CASE
+        WHEN priority_floor IS NOT NULL
+          AND ${priorityRank("priority_floor")} < ${priorityRank("excluded.priority")}
+        THEN priority_floor ELSE excluded.priority END,
+      priority_floor = CASE
+        WHEN ${priorityRank("priority_floor")} < ${priorityRank("excluded.priority")}
+        THEN priority_floor ELSE NULL END,
       url = excluded.url,
       metadata = excluded.metadata,
+      conversation_id = excluded.conversation_id,
       updated_at = datetime('now')
   `).run(
     item.id,
@@ -44,6 +59,10 @@ export function upsert(item: WorkItem): void {
     item.url,
     JSON.stringify(item.metadata),
     item.status,
+    item.snoozedUntil?.toISOString() ?? null,
+    item.wakePriority ?? null,
+    item.conversationId ?? null,
+    new Date().toISOString(),
   );
   // FTS index is updated automatically via SQL triggers (see db.ts)
 }
@@ -83,16 +102,191 @@ export function getAll(filters?: WorkItemFilters): WorkItem[] {
 }
 
 /**
- * Update the status of a work item.
+ * Get a single work item by id.
+ * @param id - Work item ID
+ * @returns The item, or null if not stored
+ */
+export function getById(id: string): WorkItem | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM workitems WHERE id = ?").get(id) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? rowToWorkItem(row) : null;
+}
+
+/**
+ * Get the first stored work item with the given URL.
+ * @param url - Item URL (used for cross-channel dedup)
+ * @returns The item, or null if no stored item has this URL
+ */
+export function getByUrl(url: string): WorkItem | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM workitems WHERE url = ? LIMIT 1").get(url) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? rowToWorkItem(row) : null;
+}
+
+/**
+ * Get all items of a conversation, oldest first.
+ * @param conversationId - Conversation ID
+ */
+export function getByConversation(conversationId: string): WorkItem[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT * FROM workitems WHERE conversation_id = ? ORDER BY timestamp ASC")
+    .all(conversationId) as Record<string, unknown>[];
+  return rows.map(rowToWorkItem);
+}
+
+function currentStatus(id: string): WorkItem["status"] | null {
+  const row = getDb().prepare("SELECT status FROM workitems WHERE id = ?").get(id) as
+    | { status: WorkItem["status"] }
+    | undefined;
+  return row?.status ?? null;
+}
+
+/**
+ * Update the status of a work item and record the change in its history.
+ * Any other status than `snoozed` clears the snooze.
  * @param id - Work item ID
  * @param status - New status
+ * @param actor - Who made the change (default: system)
  */
-export function updateStatus(id: string, status: WorkItem["status"]): void {
+export function updateStatus(
+  id: string,
+  status: WorkItem["status"],
+  actor: Actor = SYSTEM_ACTOR,
+): void {
   const db = getDb();
-  db.prepare(`UPDATE workitems SET status = ?, updated_at = datetime('now') WHERE id = ?`).run(
-    status,
-    id,
-  );
+  db.transaction(() => {
+    const from = currentStatus(id);
+    if (status === "snoozed") {
+      db.prepare(`UPDATE workitems SET status = ?, updated_at = datetime('now') WHERE id = ?`).run(
+        status,
+        id,
+      );
+    } else {
+      db.prepare(`
+        UPDATE workitems SET status = ?, snoozed_until = NULL, wake_priority = NULL,
+          updated_at = datetime('now')
+        WHERE id = ?
+      `).run(status, id);
+    }
+    if (from !== null && from !== status) {
+      // A snooze's priority bump lasts until the item is handled
+      db.prepare(`UPDATE workitems SET priority_floor = NULL WHERE id = ?`).run(id);
+      recordEvent({
+        workItemId: id,
+        kind: "status_change",
+        fromStatus: from,
+        toStatus: status,
+        actor,
+      });
+    }
+  })();
+}
+
+/**
+ * Snooze a work item: hide it from the inbox until the given time.
+ * @param id - Work item ID
+ * @param until - Wake time
+ * @param wakePriority - Priority to resurface with (null keeps the current one)
+ * @param actor - Who snoozed it (default: system)
+ */
+export function setSnooze(
+  id: string,
+  until: Date,
+  wakePriority: WorkItem["priority"] | null = null,
+  actor: Actor = SYSTEM_ACTOR,
+): void {
+  const db = getDb();
+  db.transaction(() => {
+    const from = currentStatus(id);
+    db.prepare(`
+      UPDATE workitems SET status = 'snoozed', snoozed_until = ?, wake_priority = ?,
+        priority_floor = NULL, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(until.toISOString(), wakePriority, id);
+    if (from !== null) {
+      recordEvent({
+        workItemId: id,
+        kind: "status_change",
+        fromStatus: from,
+        toStatus: "snoozed",
+        params: { until: until.toISOString(), wakePriority },
+        actor,
+      });
+    }
+  })();
+}
+
+/**
+ * Get snoozed items whose wake time has passed.
+ * @param now - Reference time
+ */
+export function getDueSnoozes(now: Date = new Date()): WorkItem[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT * FROM workitems WHERE status = 'snoozed' AND snoozed_until <= ? ORDER BY snoozed_until`,
+    )
+    .all(now.toISOString()) as Record<string, unknown>[];
+  return rows.map(rowToWorkItem);
+}
+
+/**
+ * End a snooze: the item returns to the inbox as `new`, at its wake priority if one was set.
+ * The wake priority stays as the item's priority floor, so later syncs do not lower it until
+ * its status changes again.
+ * @param id - Work item ID
+ */
+export function wakeSnoozed(id: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    const woke = db
+      .prepare(`
+      UPDATE workitems SET status = 'new', priority = COALESCE(wake_priority, priority),
+        priority_floor = COALESCE(wake_priority, priority_floor), snoozed_until = NULL, wake_priority = NULL, updated_at = datetime('now')
+      WHERE id = ? AND status = 'snoozed'
+    `)
+      .run(id).changes;
+    if (woke > 0) {
+      recordEvent({
+        workItemId: id,
+        kind: "status_change",
+        fromStatus: "snoozed",
+        toStatus: "new",
+        actor: SYSTEM_ACTOR,
+      });
+    }
+  })();
+}
+
+/** When an item was first stored, first responded to and marked done. */
+export interface ItemTiming {
+  item: WorkItem;
+  firstSeenAt: Date;
+  /** First channel action or in-progress/done/dismissed change by a person or agent. */
+  firstActionAt: Date | null;
+  /** When the item was last marked done, null unless it is done. */
+  doneAt: Date | null;
+}
+
+/**
+ * Timings of items first seen since the given time, oldest first.
+ * @param since - Earliest first-seen time
+ */
+export function getTimings(since: Date): ItemTiming[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM workitems WHERE first_seen_at >= ? ORDER BY first_seen_at ASC")
+    .all(since.toISOString()) as Record<string, unknown>[];
+  return rows.map((row) => ({
+    item: rowToWorkItem(row),
+    firstSeenAt: new Date(row.first_seen_at as string),
+    firstActionAt: row.first_action_at ? new Date(row.first_action_at as string) : null,
+    doneAt: row.done_at ? new Date(row.done_at as string) : null,
+  }));
 }
 
 /**
@@ -126,5 +320,8 @@ function rowToWorkItem(row: Record<string, unknown>): WorkItem {
     url: row.url as string,
     metadata: JSON.parse(row.metadata as string),
     status: row.status as WorkItem["status"],
+    snoozedUntil: row.snoozed_until ? new Date(row.snoozed_until as string) : null,
+    wakePriority: (row.wake_priority as WorkItem["priority"] | null) ?? null,
+    conversationId: (row.conversation_id as string | null) ?? null,
   };
 }